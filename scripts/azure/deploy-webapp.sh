@@ -161,17 +161,18 @@ az webapp config appsettings set \
 # Initialize database if enabled
 if [ "$USE_DATABASE" = "true" ]; then
   echo "[6/6] Initializing database schema"
-  echo "  Running schema migration..."
+  echo "  Running schema migrations..."
+
+  SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+  DATABASE_URL="$DATABASE_URL" pnpm tsx "$SCRIPT_DIR/../db/migrate.ts"
 
   # Use psql if available, otherwise skip with warning
   if command -v psql >/dev/null 2>&1; then
-    SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
-    psql "$DATABASE_URL" -f "$SCRIPT_DIR/../db/schema.sql" -q
     psql "$DATABASE_URL" -f "$SCRIPT_DIR/../db/seed.sql" -q
     echo "  ✓ Database initialized"
   else
-    echo "  ⚠ psql not found - database schema not initialized"
-    echo "  Run manually: psql \"\$DATABASE_URL\" -f scripts/db/schema.sql"
+    echo "  ⚠ psql not found - sample data not seeded"
+    echo "  The app seeds an organization profile and welcome post on first start"
   fi
 else
   echo "[6/6] Skipping database initialization"
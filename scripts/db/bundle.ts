@@ -0,0 +1,116 @@
+#!/usr/bin/env ts-node
+/**
+ * Export and import workspace bundles
+ *
+ * A bundle holds the organization profile and relevance rules, posts, media,
+ * knowledge sources, watched sources and articles, and loads into any
+ * storage provider. The provider comes from STORAGE_PROVIDER (and its usual
+ * settings) unless --provider, --from or --to name one. --workspace picks the workspace by slug (the
+ * default workspace otherwise); copy uses it on both sides.
+ *
+ * Usage:
+ *   pnpm tsx scripts/db/bundle.ts export [file] [--workspace=<slug>]
+ *   pnpm tsx scripts/db/bundle.ts import <file> [--conflict=skip|overwrite|rename] [--dry-run] [--workspace=<slug>]
+ *   pnpm tsx scripts/db/bundle.ts copy --from=postgres --to=file [--conflict=...] [--dry-run] [--workspace=<slug>]
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { createStorageProvider } from "../../src/lib/storage/factory";
+import type { IStorageProvider, IWorkspaceStorage } from "../../src/lib/storage/interfaces";
+import { DEFAULT_WORKSPACE_SLUG } from "../../src/lib/storage/workspaceSchema";
+import {
+  CONFLICT_MODES,
+  bundleFileName,
+  decodeBundle,
+  encodeBundle,
+  exportWorkspace,
+  importWorkspace,
+  summarizeImport,
+  type ConflictMode,
+  type ImportReport
+} from "../../src/lib/storage/bundle";
+
+function option(name: string) {
+  const prefix = `--${name}=`;
+  return process.argv.find((a) => a.startsWith(prefix))?.slice(prefix.length);
+}
+
+const positional = process.argv.slice(2).filter((a) => !a.startsWith("--"));
+
+async function open(type: string | undefined): Promise<IStorageProvider> {
+  const provider = createStorageProvider(type || process.env.STORAGE_PROVIDER || "file");
+  await provider.init();
+  return provider;
+}
+
+async function workspaceOf(provider: IStorageProvider): Promise<IWorkspaceStorage> {
+  const slug = option("workspace") ?? DEFAULT_WORKSPACE_SLUG;
+  const workspace = (await provider.workspaces.list()).find((w) => w.slug === slug);
+  if (!workspace) throw new Error(`No workspace with the slug "${slug}"`);
+  return provider.workspace(workspace.id);
+}
+
+function printReport(report: ImportReport) {
+  const summary = summarizeImport(report);
+  console.log(`Organization profile: ${report.org}`);
+  for (const [kind, counts] of Object.entries(summary)) {
+    const parts = Object.entries(counts)
+      .filter(([, n]) => n > 0)
+      .map(([outcome, n]) => `${n} ${outcome}`);
+    console.log(`${kind}: ${parts.length ? parts.join(", ") : "none"}`);
+  }
+  for (const item of report.items) {
+    if (item.outcome === "failed") console.log(`⚠ ${item.kind} "${item.title}": ${item.detail}`);
+    else if (item.detail) console.log(`  ${item.kind} "${item.title}": ${item.detail}`);
+  }
+  if (report.dryRun) console.log("\nDry run: nothing was written");
+}
+
+async function main() {
+  const [command, file] = positional;
+  const conflict = (option("conflict") ?? "skip") as ConflictMode;
+  const dryRun = process.argv.includes("--dry-run");
+
+  if (!CONFLICT_MODES.includes(conflict)) {
+    console.error(`--conflict must be one of ${CONFLICT_MODES.join(", ")}`);
+    process.exit(1);
+  }
+
+  const opened: IStorageProvider[] = [];
+  try {
+    if (command === "export") {
+      const provider = await open(option("provider"));
+      opened.push(provider);
+      const bundle = await exportWorkspace(await workspaceOf(provider));
+      const target = file ?? bundleFileName(bundle);
+      await writeFile(target, encodeBundle(bundle));
+      console.log(
+        `✓ Exported ${bundle.posts.length} posts, ${bundle.sources.length} sources, ` +
+          `${bundle.watchedSources.length} watched sources and ${bundle.articles.length} articles to ${target}`
+      );
+    } else if (command === "import" && file) {
+      const bundle = decodeBundle(new Uint8Array(await readFile(file)));
+      const provider = await open(option("provider"));
+      opened.push(provider);
+      printReport(await importWorkspace(await workspaceOf(provider), bundle, { conflict, dryRun }));
+    } else if (command === "copy" && option("from") && option("to")) {
+      if (option("from") === option("to")) throw new Error("--from and --to must be different providers");
+      const from = await open(option("from"));
+      opened.push(from);
+      const to = await open(option("to"));
+      opened.push(to);
+      const bundle = await exportWorkspace(await workspaceOf(from));
+      printReport(await importWorkspace(await workspaceOf(to), bundle, { conflict, dryRun }));
+    } else {
+      console.error("Usage: bundle.ts export [file] | import <file> | copy --from=<provider> --to=<provider>");
+      process.exitCode = 1;
+    }
+  } catch (err) {
+    console.error("Failed:", err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    for (const provider of opened) await provider.close();
+  }
+}
+
+main();
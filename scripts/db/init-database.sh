@@ -2,7 +2,7 @@
 set -euo pipefail
 
 # Initialize PostgreSQL database for Wildlife Blogger
-# This script creates the schema and optionally seeds sample data
+# This script applies schema migrations and optionally seeds sample data
 
 SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 
@@ -10,9 +10,9 @@ SCRIPT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
 
 echo "Initializing Wildlife Blogger database..."
 
-# Run schema creation
-echo "Creating tables..."
-psql "$DATABASE_URL" -f "$SCRIPT_DIR/schema.sql"
+# Create or upgrade the schema
+echo "Applying migrations..."
+pnpm tsx "$SCRIPT_DIR/migrate.ts"
 
 # Ask if user wants to seed data
 read -p "Seed sample data? (y/n) " -n 1 -r
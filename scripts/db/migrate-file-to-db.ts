@@ -1,36 +1,92 @@
 #!/usr/bin/env ts-node
 /**
- * Migrate data from file storage to PostgreSQL
+ * Migrate data from file storage to PostgreSQL or SQLite
  *
- * This script reads all data from the file-based storage and imports it into PostgreSQL.
+ * This script reads all data from the file-based storage and imports it into the database.
+ * Only the default workspace is migrated (rows get it from the column defaults); move
+ * other workspaces with scripts/db/bundle.ts copy --workspace=<slug>.
  *
  * Usage:
  *   DATABASE_URL=<connection-string> pnpm tsx scripts/db/migrate-file-to-db.ts
+ *   STORAGE_PROVIDER=sqlite [SQLITE_PATH=<file>] pnpm tsx scripts/db/migrate-file-to-db.ts
  */
 
 import { Pool } from "pg";
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
 import { readdir, readFile } from "node:fs/promises";
 import path from "node:path";
+import { applySqliteSchema } from "../../src/lib/storage/providers/sqlite-schema";
+import { DEFAULT_WORKSPACE_ID } from "../../src/lib/storage/workspaceSchema";
 
 const configuredDataDir = process.env.WILDLIFE_BLOGGER_DATA_DIR?.trim();
 const DATA_DIR = configuredDataDir ? path.resolve(configuredDataDir) : path.join(process.cwd(), "data");
 const POSTS_DIR = path.join(DATA_DIR, "posts");
+const REVISIONS_DIR = path.join(DATA_DIR, "revisions");
+const COMMENTS_DIR = path.join(DATA_DIR, "comments");
 const SOURCES_DIR = path.join(DATA_DIR, "sources");
 const ORG_PROFILE_PATH = path.join(DATA_DIR, "org.json");
+const USERS_PATH = path.join(DATA_DIR, "users.json");
+const AI_SETTINGS_PATH = path.join(DATA_DIR, "ai-settings.json");
 const WATCHED_SOURCES_PATH = path.join(DATA_DIR, "watched-sources.json");
 const ARTICLES_DIR = path.join(DATA_DIR, "articles");
+const MEDIA_DIR = path.join(DATA_DIR, "media");
+const RELEVANCE_RULES_PATH = path.join(DATA_DIR, "relevance-rules.json");
+const configuredSqlitePath = process.env.SQLITE_PATH?.trim();
+const SQLITE_PATH = configuredSqlitePath ? path.resolve(configuredSqlitePath) : path.join(DATA_DIR, "wildlife-blogger.db");
+
+type Target = {
+  name: string;
+  query(sql: string, params?: unknown[]): Promise<unknown>;
+  end(): Promise<void>;
+};
+
+/**
+ * The statements below are written for PostgreSQL. For SQLite, $n becomes
+ * the named parameter @pn and values are converted to what SQLite can bind
+ * (booleans as 0/1).
+ */
+function openTarget(): Target {
+  if (process.env.STORAGE_PROVIDER?.toLowerCase() === "sqlite") {
+    mkdirSync(path.dirname(SQLITE_PATH), { recursive: true });
+    const db = new Database(SQLITE_PATH);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    applySqliteSchema(db);
+    return {
+      name: `SQLite (${SQLITE_PATH})`,
+      async query(sql, params = []) {
+        const values: Record<string, unknown> = {};
+        params.forEach((v, i) => {
+          values[`p${i + 1}`] = v === undefined ? null : typeof v === "boolean" ? (v ? 1 : 0) : v;
+        });
+        return db.prepare(sql.replace(/\$(\d+)/g, "@p$1")).run(values);
+      },
+      async end() {
+        db.close();
+      }
+    };
+  }
 
-async function main() {
   const connectionString = process.env.DATABASE_URL;
   if (!connectionString) {
-    console.error("DATABASE_URL environment variable is required");
+    console.error("DATABASE_URL environment variable is required (or set STORAGE_PROVIDER=sqlite)");
     process.exit(1);
   }
 
   const pool = new Pool({ connectionString });
+  return {
+    name: "PostgreSQL",
+    query: (sql, params) => pool.query(sql, params),
+    end: () => pool.end()
+  };
+}
+
+async function main() {
+  const db = openTarget();
 
   try {
-    console.log("Starting migration from file storage to PostgreSQL...\n");
+    console.log(`Starting migration from file storage to ${db.name}...\n`);
 
     // Migrate organization profile
     console.log("Migrating organization profile...");
@@ -38,7 +94,7 @@ async function main() {
       const orgData = await readFile(ORG_PROFILE_PATH, "utf8");
       const org = JSON.parse(orgData);
 
-      await pool.query(
+      await db.query(
         `INSERT INTO organization (name, website, tagline, mission, focus_areas, objectives, voice_guidelines, preferred_terms, avoid_terms, onboarding_completed_at)
          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
          ON CONFLICT DO NOTHING`,
@@ -60,6 +116,111 @@ async function main() {
       console.log("⚠ No organization profile found or already exists\n");
     }
 
+    // Migrate article scoring rules, kept with the organization profile
+    console.log("Migrating relevance rules...");
+    try {
+      const rules = JSON.parse(await readFile(RELEVANCE_RULES_PATH, "utf8"));
+      await db.query(
+        `UPDATE organization SET relevance_rules = $1 WHERE workspace_id = $2 AND relevance_rules IS NULL`,
+        [JSON.stringify(rules), DEFAULT_WORKSPACE_ID]
+      );
+      console.log("✓ Relevance rules migrated\n");
+    } catch (err) {
+      console.log("⚠ No relevance rules found (the defaults from the profile apply)\n");
+    }
+
+    // Migrate users
+    console.log("Migrating users...");
+    try {
+      const users = JSON.parse(await readFile(USERS_PATH, "utf8"));
+      let usersCount = 0;
+      for (const user of users) {
+        await db.query(
+          `INSERT INTO users (id, email, name, role, password_hash, disabled, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           ON CONFLICT (id) DO NOTHING`,
+          [
+            user.id,
+            user.email,
+            user.name,
+            user.role,
+            user.passwordHash,
+            user.disabled ?? false,
+            user.createdAt,
+            user.updatedAt
+          ]
+        );
+        usersCount++;
+      }
+      console.log(`✓ Migrated ${usersCount} users\n`);
+    } catch (err) {
+      console.log("⚠ No users found\n");
+    }
+
+    // Migrate AI settings
+    console.log("Migrating AI settings...");
+    try {
+      const aiSettings = JSON.parse(await readFile(AI_SETTINGS_PATH, "utf8"));
+      await db.query(
+        `INSERT INTO app_settings (key, value) VALUES ('ai', $1)
+         ON CONFLICT (key) DO NOTHING`,
+        [JSON.stringify(aiSettings)]
+      );
+      console.log("✓ AI settings migrated\n");
+    } catch (err) {
+      console.log("⚠ No AI settings found\n");
+    }
+
+    // Migrate the media library: media/<id>/asset.json and the files it lists
+    console.log("Migrating media library...");
+    let mediaCount = 0;
+    try {
+      for (const id of await readdir(MEDIA_DIR)) {
+        try {
+          const asset = JSON.parse(await readFile(path.join(MEDIA_DIR, id, "asset.json"), "utf8"));
+          const files = [asset.original, ...(asset.renditions || [])];
+          const data = await Promise.all(
+            files.map(({ file }) => readFile(path.join(MEDIA_DIR, id, path.basename(file))))
+          );
+
+          await db.query(
+            `INSERT INTO media (id, workspace_id, filename, alt, caption, credit, license, original, renditions, created_by, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+             ON CONFLICT (id) DO NOTHING`,
+            [
+              asset.id,
+              DEFAULT_WORKSPACE_ID,
+              asset.filename,
+              asset.alt,
+              asset.caption || null,
+              asset.credit || null,
+              asset.license || null,
+              JSON.stringify(asset.original),
+              JSON.stringify(asset.renditions || []),
+              asset.createdBy || null,
+              asset.createdAt,
+              asset.updatedAt
+            ]
+          );
+          for (const [i, { file }] of files.entries()) {
+            await db.query(
+              `INSERT INTO media_files (media_id, file, data)
+               VALUES ($1, $2, $3)
+               ON CONFLICT (media_id, file) DO NOTHING`,
+              [asset.id, file, data[i]]
+            );
+          }
+          mediaCount++;
+        } catch (err) {
+          // A directory without asset.json is an upload that never finished
+          console.error(`⚠ Failed to migrate media ${id}:`, err);
+        }
+      }
+      console.log(`✓ Migrated ${mediaCount} media assets\n`);
+    } catch (err) {
+      console.log("⚠ No media library found\n");
+    }
+
     // Migrate posts
     console.log("Migrating blog posts...");
     const postFiles = await readdir(POSTS_DIR);
@@ -75,9 +236,9 @@ async function main() {
         const markdown = await readFile(path.join(POSTS_DIR, `${id}.md`), "utf8");
 
         // Insert post
-        await pool.query(
-          `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, seo_title, seo_description, created_at, updated_at, published_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        await db.query(
+          `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, tags, seo_title, seo_description, created_at, updated_at, published_at, scheduled_for, created_by, updated_by, review, generation, citations, featured_image_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
            ON CONFLICT (id) DO NOTHING`,
           [
             meta.id,
@@ -87,16 +248,24 @@ async function main() {
             meta.subtitle || null,
             meta.summary,
             JSON.stringify(meta.keywords || []),
+            JSON.stringify(meta.tags || []),
             meta.seoTitle || null,
             meta.seoDescription || null,
             meta.createdAt,
             meta.updatedAt,
-            meta.publishedAt || null
+            meta.publishedAt || null,
+            meta.scheduledFor || null,
+            meta.createdBy || null,
+            meta.updatedBy || null,
+            meta.review ? JSON.stringify(meta.review) : null,
+            meta.generation ? JSON.stringify(meta.generation) : null,
+            JSON.stringify(meta.citations || []),
+            meta.featuredImageId || null
           ]
         );
 
         // Insert post content
-        await pool.query(
+        await db.query(
           `INSERT INTO post_content (post_id, content_markdown)
            VALUES ($1, $2)
            ON CONFLICT (post_id) DO NOTHING`,
@@ -110,7 +279,90 @@ async function main() {
     }
     console.log(`✓ Migrated ${postsCount} blog posts\n`);
 
-    // Migrate sources
+    // Migrate post revisions
+    console.log("Migrating post revisions...");
+    let revisionsCount = 0;
+    try {
+      const revisionPostDirs = await readdir(REVISIONS_DIR);
+      for (const postId of revisionPostDirs) {
+        const revisionFiles = (await readdir(path.join(REVISIONS_DIR, postId))).filter(f => f.endsWith(".json"));
+        for (const file of revisionFiles) {
+          const revision = JSON.parse(await readFile(path.join(REVISIONS_DIR, postId, file), "utf8"));
+          try {
+            await db.query(
+              `INSERT INTO post_revisions (id, post_id, source, author, title, subtitle, summary, keywords, seo_title, seo_description, content_markdown, tags, citations, featured_image_id, created_at)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+               ON CONFLICT (id) DO NOTHING`,
+              [
+                revision.id,
+                revision.postId,
+                revision.source,
+                revision.author,
+                revision.title,
+                revision.subtitle || null,
+                revision.summary,
+                JSON.stringify(revision.keywords || []),
+                revision.seoTitle || null,
+                revision.seoDescription || null,
+                revision.contentMarkdown,
+                // Revisions saved before these were recorded have none
+                revision.tags ? JSON.stringify(revision.tags) : null,
+                revision.citations ? JSON.stringify(revision.citations) : null,
+                revision.featuredImageId || null,
+                revision.createdAt
+              ]
+            );
+            revisionsCount++;
+          } catch (err) {
+            console.error(`⚠ Failed to migrate revision ${revision.id}:`, err);
+          }
+        }
+      }
+      console.log(`✓ Migrated ${revisionsCount} post revisions\n`);
+    } catch (err) {
+      console.log("⚠ No post revisions found\n");
+    }
+
+    // Migrate review comments
+    console.log("Migrating review comments...");
+    let commentsCount = 0;
+    try {
+      const commentFiles = (await readdir(COMMENTS_DIR)).filter(f => f.endsWith(".json"));
+      for (const file of commentFiles) {
+        const comments = JSON.parse(await readFile(path.join(COMMENTS_DIR, file), "utf8"));
+        for (const comment of comments) {
+          try {
+            await db.query(
+              `INSERT INTO post_comments (id, post_id, author_id, author_name, body, section_id, section_title, quote, resolved, resolved_by, resolved_at, created_at)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+               ON CONFLICT (id) DO NOTHING`,
+              [
+                comment.id,
+                comment.postId,
+                comment.authorId,
+                comment.authorName,
+                comment.body,
+                comment.anchor.sectionId,
+                comment.anchor.sectionTitle,
+                comment.anchor.quote || null,
+                comment.resolved,
+                comment.resolvedBy || null,
+                comment.resolvedAt || null,
+                comment.createdAt
+              ]
+            );
+            commentsCount++;
+          } catch (err) {
+            console.error(`⚠ Failed to migrate comment ${comment.id}:`, err);
+          }
+        }
+      }
+      console.log(`✓ Migrated ${commentsCount} review comments\n`);
+    } catch (err) {
+      console.log("⚠ No review comments found\n");
+    }
+
+    // Migrate sources (retrieval chunks aren't copied; they're rebuilt on first use)
     console.log("Migrating knowledge sources...");
     const sourceFiles = await readdir(SOURCES_DIR);
     const sourceJsonFiles = sourceFiles.filter(f => f.endsWith(".json"));
@@ -125,9 +377,9 @@ async function main() {
         const content = await readFile(path.join(SOURCES_DIR, `${id}.txt`), "utf8");
 
         // Insert source
-        await pool.query(
-          `INSERT INTO sources (id, type, title, url, word_count, sha256, created_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7)
+        await db.query(
+          `INSERT INTO sources (id, type, title, url, word_count, sha256, created_at, updated_at, refreshed_at, refresh_changed, tags, collections)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
            ON CONFLICT (id) DO NOTHING`,
           [
             meta.id,
@@ -136,12 +388,17 @@ async function main() {
             meta.url || null,
             meta.wordCount,
             meta.sha256,
-            meta.createdAt
+            meta.createdAt,
+            meta.updatedAt || null,
+            meta.refreshedAt || null,
+            meta.refreshChanged ?? null,
+            JSON.stringify(meta.tags || []),
+            JSON.stringify(meta.collections || [])
           ]
         );
 
         // Insert source content
-        await pool.query(
+        await db.query(
           `INSERT INTO source_content (source_id, content_text)
            VALUES ($1, $2)
            ON CONFLICT (source_id) DO NOTHING`,
@@ -163,10 +420,10 @@ async function main() {
 
       let watchedCount = 0;
       for (const source of watched) {
-        await pool.query(
+        await db.query(
           `INSERT INTO watched_sources (id, name, url, type, enabled, last_fetched_at, fetch_interval_hours, created_at)
            VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-           ON CONFLICT (url) DO NOTHING`,
+           ON CONFLICT (workspace_id, url) DO NOTHING`,
           [
             source.id,
             source.name,
@@ -197,10 +454,10 @@ async function main() {
         const article = JSON.parse(articleData);
 
         try {
-          await pool.query(
+          await db.query(
             `INSERT INTO articles (id, source_id, source_name, title, url, published_at, fetched_at, excerpt, matched_keywords, relevance_score, saved_to_knowledge)
              VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-             ON CONFLICT (url) DO NOTHING`,
+             ON CONFLICT (workspace_id, url) DO NOTHING`,
             [
               article.id,
               article.sourceId,
@@ -211,7 +468,8 @@ async function main() {
               article.fetchedAt,
               article.excerpt,
               JSON.stringify(article.matchedKeywords || []),
-              article.relevanceScore,
+              // Articles fetched before scores ran from 0 to 1 were stored as percentages
+              article.relevanceScore > 1 ? Math.min(1, article.relevanceScore / 100) : article.relevanceScore,
               article.savedToKnowledge
             ]
           );
@@ -229,16 +487,24 @@ async function main() {
     console.log("Summary:");
     console.log(`  - Organization: migrated`);
     console.log(`  - Posts: ${postsCount}`);
+    console.log(`  - Post revisions: ${revisionsCount}`);
+    console.log(`  - Media assets: ${mediaCount}`);
     console.log(`  - Knowledge sources: ${sourcesCount}`);
-    console.log("\nTo use PostgreSQL storage, set:");
-    console.log("  STORAGE_PROVIDER=postgres");
-    console.log("  DATABASE_URL=<your-connection-string>");
+    if (db.name === "PostgreSQL") {
+      console.log("\nTo use PostgreSQL storage, set:");
+      console.log("  STORAGE_PROVIDER=postgres");
+      console.log("  DATABASE_URL=<your-connection-string>");
+    } else {
+      console.log("\nTo use SQLite storage, set:");
+      console.log("  STORAGE_PROVIDER=sqlite");
+      if (configuredSqlitePath) console.log(`  SQLITE_PATH=${SQLITE_PATH}`);
+    }
 
   } catch (err) {
     console.error("Migration failed:", err);
     process.exit(1);
   } finally {
-    await pool.end();
+    await db.end();
   }
 }
 
@@ -0,0 +1,60 @@
+#!/usr/bin/env ts-node
+/**
+ * Apply PostgreSQL schema migrations
+ *
+ * The app also applies pending migrations when it starts; this script is for
+ * running them ahead of a deploy, or checking what would run.
+ *
+ * Usage:
+ *   DATABASE_URL=<connection-string> pnpm tsx scripts/db/migrate.ts
+ *   DATABASE_URL=<connection-string> pnpm tsx scripts/db/migrate.ts --dry-run   # print pending SQL only
+ */
+
+import { Pool } from "pg";
+import {
+  migratePostgres,
+  migrationChecksum,
+  migrationLabel
+} from "../../src/lib/storage/migrations";
+
+async function main() {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    console.error("DATABASE_URL environment variable is required");
+    process.exit(1);
+  }
+
+  const dryRun = process.argv.includes("--dry-run");
+  const pool = new Pool({ connectionString });
+
+  try {
+    if (dryRun) {
+      const pending = await migratePostgres(pool, { dryRun: true });
+      if (pending.length === 0) {
+        console.log("-- Database is up to date");
+        return;
+      }
+      for (const migration of pending) {
+        console.log(`-- ${migrationLabel(migration)} (sha256 ${migrationChecksum(migration.sql)})`);
+        console.log(migration.sql.trim());
+        console.log("");
+      }
+      console.log(`-- ${pending.length} pending migration(s); run without --dry-run to apply`);
+      return;
+    }
+
+    const applied = await migratePostgres(pool);
+    if (applied.length === 0) {
+      console.log("✓ Database is up to date");
+    } else {
+      for (const migration of applied) console.log(`✓ Applied ${migrationLabel(migration)}`);
+    }
+  } catch (err) {
+    console.error("Migration failed:", err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,46 @@
+#!/usr/bin/env ts-node
+/**
+ * Check and repair file storage
+ *
+ * Rebuilds each workspace's post index from the post files and lists what an
+ * interrupted write or a hand edit left behind: posts missing their .md or
+ * .json half, sources missing their .txt or .json half, media uploads
+ * missing their asset.json, and JSON files that don't parse. Those are only
+ * reported. Leftover temporary files from interrupted writes are removed. Run
+ * it with the app stopped, against the same WILDLIFE_BLOGGER_DATA_DIR.
+ *
+ * Usage:
+ *   pnpm tsx scripts/db/repair-files.ts
+ */
+
+import { FileStorageProvider } from "../../src/lib/storage/providers/file";
+
+async function main() {
+  const provider = new FileStorageProvider();
+  let problems = 0;
+
+  try {
+    await provider.init();
+    for (const report of await provider.repair()) {
+      console.log(`Workspace ${report.workspace}: indexed ${report.indexedPosts} posts`);
+      if (report.tempFilesRemoved > 0) console.log(`  removed ${report.tempFilesRemoved} temporary file(s)`);
+      for (const file of report.orphans) console.log(`⚠ missing its other half: ${file}`);
+      for (const file of report.unreadable) console.log(`⚠ not valid JSON: ${file}`);
+      problems += report.orphans.length + report.unreadable.length;
+    }
+
+    if (problems > 0) {
+      console.log(`\n${problems} file(s) need a look; move or delete them by hand`);
+      process.exitCode = 1;
+    } else {
+      console.log("✓ No problems found");
+    }
+  } catch (err) {
+    console.error("Repair failed:", err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  } finally {
+    await provider.close();
+  }
+}
+
+main();
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { auditFilterFromQuery, auditLogCsv, MAX_AUDIT_LIMIT, parseAuditQuery } from "@/lib/audit/log";
+import { listAuditEntries } from "@/lib/storage/audit";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * `?actor=&action=&type=&entity=&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=`, all
+ * optional. With `?format=csv` the matching entries (up to the maximum
+ * limit unless `limit` is given) download as a CSV file.
+ */
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const params = new URL(request.url).searchParams;
+  const format = params.get("format");
+  params.delete("format");
+
+  const parsed = parseAuditQuery(params);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid query" }, { status: 400 });
+  }
+
+  const filter = auditFilterFromQuery(parsed.data);
+  if (format === "csv") {
+    const entries = await listAuditEntries({ ...filter, limit: filter.limit ?? MAX_AUDIT_LIMIT });
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(auditLogCsv(entries), {
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="audit-log-${date}.csv"`,
+        "cache-control": "no-store"
+      }
+    });
+  }
+
+  return NextResponse.json({ entries: await listAuditEntries(filter) });
+}
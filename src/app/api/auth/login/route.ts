@@ -1,17 +1,19 @@
 import { NextResponse } from "next/server";
-import { createSessionToken, getAdminPassword, SESSION_COOKIE_NAME, sessionCookieOptions } from "@/lib/auth/session";
+import { SESSION_COOKIE_NAME, sessionCookieOptions } from "@/lib/auth/session";
+import { authenticateUser, createUserSession } from "@/lib/auth/users";
 import { getBaseUrl } from "@/lib/site";
 
 export async function POST(request: Request) {
   const form = await request.formData();
+  const email = String(form.get("email") ?? "");
   const password = String(form.get("password") ?? "");
 
-  const adminPassword = getAdminPassword();
-  if (!adminPassword || password !== adminPassword) {
+  const user = await authenticateUser(email, password);
+  if (!user) {
     return NextResponse.redirect(new URL("/login?error=1", getBaseUrl()), 303);
   }
 
-  const token = createSessionToken();
+  const token = await createUserSession(user);
   const res = NextResponse.redirect(new URL("/dashboard", getBaseUrl()), 303);
   res.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions());
   return res;
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { exportWorkspaceBundle } from "@/lib/storage/backup";
+import { bundleFileName, encodeBundle } from "@/lib/storage/bundle";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const bundle = await exportWorkspaceBundle();
+  return new Response(encodeBundle(bundle), {
+    headers: {
+      "content-type": "application/gzip",
+      "content-disposition": `attachment; filename="${bundleFileName(bundle)}"`,
+      "cache-control": "no-store"
+    }
+  });
+}
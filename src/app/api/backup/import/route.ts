@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { importWorkspaceBundle } from "@/lib/storage/backup";
+import { CONFLICT_MODES, decodeBundle, summarizeImport } from "@/lib/storage/bundle";
+
+const OptionsSchema = z.object({
+  conflict: z.enum(CONFLICT_MODES).default("skip"),
+  dryRun: z.enum(["true", "false"]).default("false").transform((v) => v === "true")
+});
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+
+  if (file.size > 200 * 1024 * 1024) {
+    return NextResponse.json({ error: "File too large (max 200MB)" }, { status: 413 });
+  }
+
+  const parsed = OptionsSchema.safeParse({
+    conflict: form.get("conflict") ?? undefined,
+    dryRun: form.get("dryRun") ?? undefined
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  let bundle;
+  try {
+    bundle = decodeBundle(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Invalid export" }, { status: 400 });
+  }
+
+  const report = await importWorkspaceBundle(bundle, parsed.data);
+  return NextResponse.json({ report, summary: summarizeImport(report) });
+}
@@ -1,36 +1,14 @@
 import { NextResponse } from "next/server";
+import { verifyCronAuth } from "@/lib/auth/cron";
 import { getSourcesDueForFetch, updateWatchedSource } from "@/lib/storage/watched-sources";
 import { addArticle } from "@/lib/storage/articles";
-import { getOrgProfile } from "@/lib/storage/org";
+import { getRelevanceRules, rescoreArticlesForAge } from "@/lib/storage/org";
+import { runInWorkspace } from "@/lib/storage/currentWorkspace";
+import { listWorkspaces } from "@/lib/storage/workspaces";
 import { parseRssFeed } from "@/lib/feeds/parse-rss";
 import { parseHtmlNewsPage } from "@/lib/feeds/parse-html";
-import { tagArticle } from "@/lib/feeds/tag-article";
-import type { WatchedSource } from "@/lib/storage/types";
-
-// Verify cron secret for security
-function verifyCronAuth(request: Request): boolean {
-  const cronSecret = process.env.CRON_SECRET?.trim();
-
-  // If no secret configured, allow in development only
-  if (!cronSecret) {
-    return process.env.NODE_ENV === "development";
-  }
-
-  // Check Authorization header
-  const authHeader = request.headers.get("authorization");
-  if (authHeader?.startsWith("Bearer ")) {
-    const token = authHeader.slice(7);
-    return token === cronSecret;
-  }
-
-  // Check x-cron-secret header (alternative)
-  const cronHeader = request.headers.get("x-cron-secret");
-  if (cronHeader) {
-    return cronHeader === cronSecret;
-  }
-
-  return false;
-}
+import { scoreArticle } from "@/lib/feeds/relevance";
+import type { WatchedSource, Workspace } from "@/lib/storage/types";
 
 async function fetchSourceArticles(source: WatchedSource): Promise<{
   newArticles: number;
@@ -45,13 +23,13 @@ async function fetchSourceArticles(source: WatchedSource): Promise<{
         ? await parseRssFeed(source.url)
         : await parseHtmlNewsPage(source.url);
 
-    const orgProfile = await getOrgProfile();
+    const rules = await getRelevanceRules();
 
     for (const article of articles) {
       try {
-        const { matchedKeywords, relevanceScore } = tagArticle(
-          { title: article.title, excerpt: article.excerpt },
-          orgProfile
+        const { matchedKeywords, relevanceScore } = scoreArticle(
+          { title: article.title, excerpt: article.excerpt, sourceId: source.id, publishedAt: article.publishedAt },
+          rules
         );
 
         const saved = await addArticle({
@@ -90,27 +68,37 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  // Get sources that are due for fetching
-  const sourcesDue = await getSourcesDueForFetch();
+  // Get sources that are due for fetching, in every workspace, and age the
+  // stored article scores where the relevance rules decay them
+  const sourcesDue: Array<{ workspace: Workspace; source: WatchedSource }> = [];
+  let articlesRescored = 0;
+  for (const workspace of await listWorkspaces()) {
+    const due = await runInWorkspace(workspace.id, () => getSourcesDueForFetch());
+    sourcesDue.push(...due.map((source) => ({ workspace, source })));
+    articlesRescored += await runInWorkspace(workspace.id, () => rescoreArticlesForAge());
+  }
 
   if (sourcesDue.length === 0) {
     return NextResponse.json({
       message: "No sources due for fetching",
       sourcesProcessed: 0,
-      totalNewArticles: 0
+      totalNewArticles: 0,
+      articlesRescored
     });
   }
 
   const results: Array<{
+    workspace: string;
     sourceId: string;
     sourceName: string;
     newArticles: number;
     errors: string[];
   }> = [];
 
-  for (const source of sourcesDue) {
-    const result = await fetchSourceArticles(source);
+  for (const { workspace, source } of sourcesDue) {
+    const result = await runInWorkspace(workspace.id, () => fetchSourceArticles(source));
     results.push({
+      workspace: workspace.slug,
       sourceId: source.id,
       sourceName: source.name,
       ...result
@@ -126,7 +114,8 @@ export async function POST(request: Request) {
     summary: {
       sourcesProcessed: results.length,
       totalNewArticles: totalNew,
-      totalErrors
+      totalErrors,
+      articlesRescored
     }
   });
 }
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { verifyCronAuth } from "@/lib/auth/cron";
+import { getPostsDueForPublish, hasCurrentApproval, publishPost } from "@/lib/storage/posts";
+import { runInWorkspace } from "@/lib/storage/currentWorkspace";
+import { listWorkspaces } from "@/lib/storage/workspaces";
+import type { BlogPostMeta, Workspace } from "@/lib/storage/types";
+
+export async function POST(request: Request) {
+  // Verify authentication
+  if (!verifyCronAuth(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Get scheduled posts whose publish time has passed, in every workspace
+  const postsDue: Array<{ workspace: Workspace; post: BlogPostMeta }> = [];
+  for (const workspace of await listWorkspaces()) {
+    const due = await runInWorkspace(workspace.id, () => getPostsDueForPublish());
+    postsDue.push(...due.map((post) => ({ workspace, post })));
+  }
+
+  if (postsDue.length === 0) {
+    return NextResponse.json({
+      message: "No posts due for publishing",
+      postsPublished: 0
+    });
+  }
+
+  const results: Array<{
+    workspace: string;
+    postId: string;
+    title: string;
+    scheduledFor?: string;
+    published: boolean;
+    error?: string;
+  }> = [];
+
+  for (const { workspace, post } of postsDue) {
+    const base = { workspace: workspace.slug, postId: post.id, title: post.title, scheduledFor: post.scheduledFor };
+    try {
+      await runInWorkspace(workspace.id, async () => {
+        // Edited after it was scheduled: hold it until someone re-approves
+        if (!(await hasCurrentApproval(post))) {
+          results.push({ ...base, published: false, error: "Approval is out of date" });
+          return;
+        }
+
+        const published = await publishPost(post.id);
+        results.push({ ...base, published: Boolean(published) });
+      });
+    } catch (e) {
+      results.push({ ...base, published: false, error: e instanceof Error ? e.message : "Unknown" });
+    }
+  }
+
+  return NextResponse.json({
+    message: "Scheduled publish completed",
+    results,
+    summary: {
+      postsDue: results.length,
+      postsPublished: results.filter((r) => r.published).length,
+      totalErrors: results.filter((r) => r.error).length
+    }
+  });
+}
+
+// Also support GET for simpler cron services
+export async function GET(request: Request) {
+  return POST(request);
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { getBaseUrl } from "@/lib/site";
 import { initStorage } from "@/lib/storage/init";
+import { AI_TASKS } from "@/lib/ai/catalog";
+import { defaultAiSettings, listAiProviders, resolveProvider } from "@/lib/ai/registry";
 
 export const dynamic = "force-dynamic";
 
@@ -8,13 +10,6 @@ export async function GET() {
   const baseUrl = getBaseUrl();
   const dataDir = process.env.WILDLIFE_BLOGGER_DATA_DIR?.trim() || "(default ./data)";
 
-  const azureConfigured =
-    Boolean(process.env.AZURE_OPENAI_ENDPOINT?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_API_KEY?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_DEPLOYMENT?.trim());
-
-  const openaiConfigured = Boolean(process.env.OPENAI_API_KEY?.trim());
-
   let storageOk = true;
   let storageError: string | undefined;
   try {
@@ -24,15 +19,31 @@ export async function GET() {
     storageError = e instanceof Error ? e.message : "Unknown storage error";
   }
 
+  // Saved AI settings live in storage; report the env defaults if it is down
+  const providers = storageOk
+    ? await listAiProviders()
+    : defaultAiSettings().providers.map(resolveProvider);
+  const chain = providers.filter((p) => p.enabled && !p.problem);
+
   return NextResponse.json(
     {
       ok: storageOk,
       baseUrl,
       dataDir,
       ai: {
-        provider: azureConfigured ? "azure-openai" : openaiConfigured ? "openai" : "template",
-        azureConfigured,
-        openaiConfigured
+        provider: chain[0]?.id ?? "template",
+        chain: chain.map((p) => p.id),
+        tasks: Object.fromEntries(
+          AI_TASKS.map((task) => [task, chain.map((p) => ({ provider: p.id, model: p.model(task) }))])
+        ),
+        providers: providers.map((p) => ({
+          id: p.id,
+          kind: p.kind,
+          label: p.label,
+          enabled: p.enabled,
+          ready: !p.problem,
+          problem: p.problem ?? undefined
+        }))
       },
       env: {
         adminPasswordSet: Boolean(process.env.WILDLIFE_BLOGGER_ADMIN_PASSWORD?.trim()),
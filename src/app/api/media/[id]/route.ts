@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { deleteMedia, listPostsUsingMedia, updateMedia } from "@/lib/storage/media";
+
+const UpdateSchema = z.object({
+  alt: z.string().trim().min(1, "Describe the image in its alt text").max(500).optional(),
+  caption: z.string().trim().max(1000).optional(),
+  credit: z.string().trim().max(200).optional(),
+  license: z.string().trim().max(200).optional()
+});
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const asset = await updateMedia(id, parsed.data);
+  if (!asset) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ asset });
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const posts = await listPostsUsingMedia(id);
+  if (posts.length > 0) {
+    const titles = posts.map((p) => `“${p.title}”`).join(", ");
+    return NextResponse.json({ error: `Featured on ${titles}; choose another image there first` }, { status: 409 });
+  }
+
+  const deleted = await deleteMedia(id);
+  if (!deleted) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ deleted: true });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { MEDIA_MAX_BYTES } from "@/lib/media/renditions";
+import { listMedia, uploadMedia } from "@/lib/storage/media";
+
+const DetailsSchema = z.object({
+  alt: z.string().trim().min(1, "Describe the image in its alt text").max(500),
+  caption: z.string().trim().max(1000).optional(),
+  credit: z.string().trim().max(200).optional(),
+  license: z.string().trim().max(200).optional()
+});
+
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const media = await listMedia();
+  return NextResponse.json({ media });
+}
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+
+  if (file.size > MEDIA_MAX_BYTES) {
+    return NextResponse.json({ error: "File too large (max 15MB)" }, { status: 413 });
+  }
+
+  const parsed = DetailsSchema.safeParse({
+    alt: form.get("alt") ?? "",
+    caption: form.get("caption") ?? undefined,
+    credit: form.get("credit") ?? undefined,
+    license: form.get("license") ?? undefined
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  try {
+    const asset = await uploadMedia({
+      ...parsed.data,
+      filename: file.name || "upload",
+      data: Buffer.from(await file.arrayBuffer()),
+      createdBy: user.name
+    });
+    return NextResponse.json({ asset });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Upload failed";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { listArticles, getArticleById, markArticleSaved, deleteArticle } from "@/lib/storage/articles";
 import { createSourceFromText } from "@/lib/storage/sources";
 import { fetchAndExtractPage } from "@/lib/research/fetch";
@@ -14,14 +14,14 @@ const DeleteArticleSchema = z.object({
 });
 
 export async function GET(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
 
   const { searchParams } = new URL(request.url);
   const sourceId = searchParams.get("sourceId") || undefined;
   const limit = searchParams.get("limit") ? parseInt(searchParams.get("limit")!, 10) : 50;
   const minRelevance = searchParams.get("minRelevance")
-    ? parseInt(searchParams.get("minRelevance")!, 10)
+    ? parseFloat(searchParams.get("minRelevance")!)
     : undefined;
 
   const articles = await listArticles({ sourceId, limit, minRelevance });
@@ -30,8 +30,8 @@ export async function GET(request: Request) {
 
 export async function POST(request: Request) {
   // Save article to knowledge base
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown;
   try {
@@ -84,8 +84,8 @@ export async function POST(request: Request) {
 }
 
 export async function DELETE(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown;
   try {
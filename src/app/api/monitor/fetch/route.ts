@@ -1,16 +1,16 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import {
   listWatchedSources,
   getWatchedSourceById,
   updateWatchedSource
 } from "@/lib/storage/watched-sources";
 import { addArticle } from "@/lib/storage/articles";
-import { getOrgProfile } from "@/lib/storage/org";
+import { getRelevanceRules } from "@/lib/storage/org";
 import { parseRssFeed } from "@/lib/feeds/parse-rss";
 import { parseHtmlNewsPage } from "@/lib/feeds/parse-html";
-import { tagArticle } from "@/lib/feeds/tag-article";
+import { scoreArticle } from "@/lib/feeds/relevance";
 import type { WatchedSource } from "@/lib/storage/types";
 
 const FetchSchema = z.object({
@@ -31,16 +31,16 @@ async function fetchSourceArticles(source: WatchedSource): Promise<{
         ? await parseRssFeed(source.url)
         : await parseHtmlNewsPage(source.url);
 
-    // Get org profile for tagging
-    const orgProfile = await getOrgProfile();
+    // Get the workspace's scoring rules
+    const rules = await getRelevanceRules();
 
     // Process each article
     for (const article of articles) {
       try {
-        // Tag the article
-        const { matchedKeywords, relevanceScore } = tagArticle(
-          { title: article.title, excerpt: article.excerpt },
-          orgProfile
+        // Score the article
+        const { matchedKeywords, relevanceScore } = scoreArticle(
+          { title: article.title, excerpt: article.excerpt, sourceId: source.id, publishedAt: article.publishedAt },
+          rules
         );
 
         // Add to storage (will skip if URL already exists)
@@ -77,8 +77,8 @@ async function fetchSourceArticles(source: WatchedSource): Promise<{
 }
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown = {};
   try {
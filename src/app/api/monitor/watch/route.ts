@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import {
   listWatchedSources,
   addWatchedSource,
@@ -27,16 +27,16 @@ const DeleteSourceSchema = z.object({
 });
 
 export async function GET(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
 
   const sources = await listWatchedSources();
   return NextResponse.json({ sources });
 }
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown;
   try {
@@ -69,8 +69,8 @@ export async function POST(request: Request) {
 }
 
 export async function PATCH(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown;
   try {
@@ -95,8 +95,8 @@ export async function PATCH(request: Request) {
 }
 
 export async function DELETE(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown;
   try {
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { updateOrgProfile } from "@/lib/storage/org";
 import { OrgProfileSchema } from "@/lib/storage/orgProfile";
 import { fetchAndExtractPage } from "@/lib/research/fetch";
@@ -178,8 +178,8 @@ async function fetchWikipediaSummary(query: string): Promise<{ title: string; ur
 }
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = BodySchema.safeParse(json);
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { discoverRelatedSources, generateSearchQueries } from "@/lib/search/web-search";
 import { validateDiscoveries } from "@/lib/search/discover-sources";
 import type { ExtractedOrgProfile } from "@/lib/ai/extract-org";
@@ -23,8 +23,8 @@ const BodySchema = z.object({
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
 
   try {
     const json = await request.json();
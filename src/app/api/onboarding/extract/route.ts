@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { extractOrgFromWebsite } from "@/lib/ai/extract-org";
 
 const BodySchema = z.object({
@@ -8,8 +8,8 @@ const BodySchema = z.object({
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
 
   let body: unknown;
   try {
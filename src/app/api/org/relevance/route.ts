@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { RelevanceRulesSchema } from "@/lib/feeds/relevance";
+import { getRelevanceRules, updateRelevanceRules } from "@/lib/storage/org";
+
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+  return NextResponse.json({ rules: await getRelevanceRules() });
+}
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = RelevanceRulesSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  const result = await updateRelevanceRules({
+    ...parsed.data,
+    updatedAt: new Date().toISOString(),
+    updatedBy: user.name
+  });
+  return NextResponse.json(result);
+}
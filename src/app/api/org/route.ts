@@ -1,17 +1,17 @@
 import { NextResponse } from "next/server";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { getOrgProfile, updateOrgProfile } from "@/lib/storage/org";
 import { OrgProfileSchema } from "@/lib/storage/orgProfile";
 
 export async function GET(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
   return NextResponse.json({ profile: await getOrgProfile() });
 }
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = OrgProfileSchema.safeParse(json);
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { resolvePostComment } from "@/lib/storage/posts";
+
+const BodySchema = z.object({
+  resolved: z.boolean()
+});
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const { id, commentId } = await params;
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const comment = await resolvePostComment(id, commentId, parsed.data.resolved ? user.name : null);
+  if (!comment) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ comment });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { addPostComment, getPostById, listPostComments } from "@/lib/storage/posts";
+import { splitMarkdownSections } from "@/lib/utils/sections";
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  return NextResponse.json({ comments: await listPostComments(id) });
+}
+
+const BodySchema = z.object({
+  body: z.string().trim().min(1).max(4000),
+  sectionId: z.string().min(1),
+  quote: z.string().max(500).optional()
+});
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const post = await getPostById(id);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const section = splitMarkdownSections(post.contentMarkdown).find((s) => s.id === parsed.data.sectionId);
+  if (!section) return NextResponse.json({ error: "Unknown section; save the post first if you just added it" }, { status: 400 });
+
+  const comment = await addPostComment(id, {
+    authorId: user.id,
+    authorName: user.name,
+    body: parsed.data.body,
+    anchor: { sectionId: section.id, sectionTitle: section.title, quote: parsed.data.quote?.trim() || undefined }
+  });
+  return NextResponse.json({ comment });
+}
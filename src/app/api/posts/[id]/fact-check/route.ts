@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { factCheckPost } from "@/lib/ai/fact-check";
+import { getPostById } from "@/lib/storage/posts";
+import { getSourceById, listSources } from "@/lib/storage/sources";
+
+// The editor sends its unsaved content; without it the saved content is checked
+const BodySchema = z.object({
+  contentMarkdown: z.string().max(200_000).optional()
+});
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await request.json().catch(() => ({}));
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const post = await getPostById(id);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const sources = [];
+  for (const meta of await listSources()) {
+    const s = await getSourceById(meta.id);
+    if (s) sources.push(s);
+  }
+
+  try {
+    const report = await factCheckPost(parsed.data.contentMarkdown ?? post.contentMarkdown, sources);
+    return NextResponse.json({ report });
+  } catch (err) {
+    console.error("Fact-check error:", err);
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Fact-check failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { getPostById, suggestPostLinks } from "@/lib/storage/posts";
+
+// The editor sends its unsaved fields; any left out are taken from the saved post
+const BodySchema = z.object({
+  title: z.string().max(300).optional(),
+  summary: z.string().max(5000).optional(),
+  keywords: z.array(z.string().max(100)).max(50).optional(),
+  contentMarkdown: z.string().max(200_000).optional()
+});
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await request.json().catch(() => ({}));
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const post = await getPostById(id);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const suggestions = await suggestPostLinks({ ...post, ...parsed.data });
+  return NextResponse.json({ suggestions });
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { getPostRevision } from "@/lib/storage/posts";
+import { diffWords } from "@/lib/utils/diff";
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const fromId = searchParams.get("from");
+  const toId = searchParams.get("to");
+  if (!fromId || !toId) {
+    return NextResponse.json({ error: "Both from and to revision ids are required" }, { status: 400 });
+  }
+
+  const [from, to] = await Promise.all([getPostRevision(id, fromId), getPostRevision(id, toId)]);
+  if (!from || !to) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  return NextResponse.json({
+    from: { id: from.id, source: from.source, author: from.author, createdAt: from.createdAt },
+    to: { id: to.id, source: to.source, author: to.author, createdAt: to.createdAt },
+    diff: {
+      title: diffWords(from.title, to.title),
+      summary: diffWords(from.summary, to.summary),
+      contentMarkdown: diffWords(from.contentMarkdown, to.contentMarkdown)
+    }
+  });
+}
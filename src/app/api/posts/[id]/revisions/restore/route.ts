@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { hasRole } from "@/lib/auth/roles";
+import { getPostById, restorePostRevision } from "@/lib/storage/posts";
+
+const BodySchema = z.object({
+  revisionId: z.string().min(1)
+});
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const existing = await getPostById(id);
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  // Like saving: restoring into a published post changes the live page
+  if (existing.status === "PUBLISHED" && !hasRole(user, "editor")) {
+    return NextResponse.json({ error: "Only editors can edit a published post" }, { status: 403 });
+  }
+
+  const post = await restorePostRevision(id, parsed.data.revisionId, user.name);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ post });
+}
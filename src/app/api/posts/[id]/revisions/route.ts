@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { getPostById, listPostRevisions } from "@/lib/storage/posts";
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const post = await getPostById(id);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ revisions: await listPostRevisions(id) });
+}
@@ -1,10 +1,10 @@
 import { NextResponse } from "next/server";
-import { requireAdminApi } from "@/lib/auth/api";
-import { getPostById } from "@/lib/storage/posts";
+import { requireApiRole } from "@/lib/auth/api";
+import { deletePost, getPostById } from "@/lib/storage/posts";
 
 export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
 
   const { id } = await params;
   const post = await getPostById(id);
@@ -12,3 +12,12 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
   return NextResponse.json({ post });
 }
 
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const deleted = await deletePost(id);
+  if (!deleted) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ deleted: true });
+}
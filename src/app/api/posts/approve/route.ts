@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { canApproveReview } from "@/lib/auth/roles";
+import { approvePost, getPostById } from "@/lib/storage/posts";
+
+const BodySchema = z.object({
+  id: z.string().min(1)
+});
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const existing = await getPostById(parsed.data.id);
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (existing.status !== "IN_REVIEW") {
+    return NextResponse.json({ error: "Post is not in review" }, { status: 409 });
+  }
+  if (existing.review && !canApproveReview(user, existing.review)) {
+    return NextResponse.json({ error: "Another editor has to approve a review you requested" }, { status: 403 });
+  }
+
+  const post = await approvePost(existing.id, user);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ post });
+}
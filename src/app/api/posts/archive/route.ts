@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { archivePost } from "@/lib/storage/posts";
+
+const BodySchema = z.object({
+  id: z.string().min(1)
+});
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const post = await archivePost(parsed.data.id);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ post });
+}
@@ -1,36 +1,25 @@
 import { NextResponse } from "next/server";
-import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
-import { generateBlogDraft } from "@/lib/ai/generate";
+import { requireApiRole } from "@/lib/auth/api";
+import { GenerateRequestSchema, generateBlogDraft } from "@/lib/ai/generate";
 import { getOrgProfile } from "@/lib/storage/org";
 import { createDraft } from "@/lib/storage/posts";
-import { getSourceById } from "@/lib/storage/sources";
-
-const BodySchema = z.object({
-  title: z.string().min(1).max(180),
-  subtitles: z.array(z.string().min(1).max(140)).max(12).default([]),
-  keywords: z.array(z.string().min(1).max(50)).max(30).default([]),
-  idea: z.string().min(10).max(4000),
-  targetAudience: z.string().max(200).optional().default(""),
-  callToAction: z.string().max(200).optional().default(""),
-  sourceIds: z.array(z.string().min(1)).max(60).default([])
-});
+import { resolveSourceSelection } from "@/lib/storage/sources";
+import { hasSourceFilter } from "@/lib/utils/source-labels";
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
-  const parsed = BodySchema.safeParse(json);
+  const parsed = GenerateRequestSchema.safeParse(json);
   if (!parsed.success) {
     return NextResponse.json({ error: "Invalid input" }, { status: 400 });
   }
 
   const org = await getOrgProfile();
-  const sources = [];
-  for (const id of parsed.data.sourceIds) {
-    const s = await getSourceById(id);
-    if (s) sources.push(s);
+  const sources = await resolveSourceSelection(parsed.data);
+  if (sources.length === 0 && hasSourceFilter(parsed.data)) {
+    return NextResponse.json({ error: "No knowledge sources match that collection or tags" }, { status: 400 });
   }
 
   const generated = await generateBlogDraft({
@@ -46,7 +35,7 @@ export async function POST(request: Request) {
     }
   });
 
-  const post = await createDraft(generated);
+  const post = await createDraft(generated, { source: "generate", author: user.name });
   return NextResponse.json({ post, provider: generated.provider });
 }
 
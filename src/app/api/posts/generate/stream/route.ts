@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { GenerateRequestSchema, streamBlogDraft } from "@/lib/ai/generate";
+import { getOrgProfile } from "@/lib/storage/org";
+import { createDraft } from "@/lib/storage/posts";
+import { resolveSourceSelection } from "@/lib/storage/sources";
+import { hasSourceFilter } from "@/lib/utils/source-labels";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing the connection while the model thinks
+const KEEPALIVE_MS = 15_000;
+
+/**
+ * Server-sent events: `status` as generation starts, `delta` with each piece
+ * of the article, then `done` with the saved post or `error`. Generation and
+ * saving carry on if the client goes away, so a dropped connection doesn't
+ * lose the draft.
+ */
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = GenerateRequestSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+
+  const org = await getOrgProfile();
+  const sources = await resolveSourceSelection(parsed.data);
+  if (sources.length === 0 && hasSourceFilter(parsed.data)) {
+    return NextResponse.json({ error: "No knowledge sources match that collection or tags" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let connected = true;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const write = (chunk: string) => {
+        if (!connected) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          connected = false;
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      const keepalive = setInterval(() => write(": ping\n\n"), KEEPALIVE_MS);
+
+      try {
+        send("status", { stage: "generating" });
+        const generated = await streamBlogDraft(
+          {
+            org,
+            sources,
+            input: {
+              title: parsed.data.title,
+              subtitles: parsed.data.subtitles,
+              keywords: parsed.data.keywords,
+              idea: parsed.data.idea,
+              targetAudience: parsed.data.targetAudience,
+              callToAction: parsed.data.callToAction
+            }
+          },
+          (text) => send("delta", { text })
+        );
+
+        send("status", { stage: "saving", provider: generated.provider });
+        const { complete, ...draft } = generated;
+        const post = await createDraft(draft, { source: "generate", author: user.name });
+        if (complete) send("done", { post, provider: generated.provider, complete });
+        else send("error", { error: `Generation stopped early: ${generated.generation.incomplete}`, post });
+      } catch (e) {
+        console.error("Streaming generation failed:", e);
+        send("error", { error: e instanceof Error ? e.message : "Generation failed" });
+      } finally {
+        clearInterval(keepalive);
+        if (connected) {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client going away
+          }
+        }
+      }
+    },
+    cancel() {
+      connected = false;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      "x-accel-buffering": "no"
+    }
+  });
+}
@@ -1,9 +1,8 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
-import { generateWithAzureOpenAI } from "@/lib/ai/providers/azure";
-import { generateWithOpenAI } from "@/lib/ai/providers/openai";
+import { requireApiRole } from "@/lib/auth/api";
 import { extractJsonObject } from "@/lib/ai/json";
+import { completeWithFailover } from "@/lib/ai/registry";
 
 const ImproveSchema = z.object({
   post: z.object({
@@ -41,8 +40,8 @@ const ImprovedPostSchema = z.object({
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = ImproveSchema.safeParse(json);
@@ -56,34 +55,20 @@ export async function POST(request: Request) {
     // Build improvement prompt based on quality analysis
     const prompt = buildImprovementPrompt(post, quality);
 
-    // Check which AI provider is configured
-    const azureConfigured =
-      Boolean(process.env.AZURE_OPENAI_ENDPOINT?.trim()) &&
-      Boolean(process.env.AZURE_OPENAI_API_KEY?.trim()) &&
-      Boolean(process.env.AZURE_OPENAI_DEPLOYMENT?.trim());
-
-    const openaiConfigured = Boolean(process.env.OPENAI_API_KEY?.trim());
-
-    let response: string;
-    if (azureConfigured) {
-      response = await generateWithAzureOpenAI(prompt);
-    } else if (openaiConfigured) {
-      response = await generateWithOpenAI(prompt);
-    } else {
+    const result = await completeWithFailover("improve", prompt, (response) => {
+      const obj = extractJsonObject(response);
+      const improved = ImprovedPostSchema.safeParse(obj);
+      if (!improved.success) {
+        console.error("AI improvement validation errors:", JSON.stringify(improved.error.issues, null, 2));
+        throw new Error("AI returned invalid improved content");
+      }
+      return improved.data;
+    });
+    if (!result) {
       return NextResponse.json({ error: "No AI provider configured" }, { status: 503 });
     }
 
-    // Parse the AI response
-    const obj = extractJsonObject(response);
-    const improved = ImprovedPostSchema.safeParse(obj);
-
-    if (!improved.success) {
-      console.error("AI improvement validation errors:", JSON.stringify(improved.error.errors, null, 2));
-      console.error("Received object:", JSON.stringify(obj, null, 2));
-      throw new Error("AI returned invalid improved content");
-    }
-
-    return NextResponse.json({ improved: improved.data });
+    return NextResponse.json({ improved: result.value, provider: result.provider.id });
   } catch (err) {
     console.error("Improvement error:", err);
     return NextResponse.json(
@@ -168,6 +153,7 @@ Based on the quality analysis above, improve the blog post by:
    - Maintain the original message and accuracy
    - Keep the wildlife conservation focus
    - Preserve factual information
+   - Keep every footnote marker such as [^1] attached to the claim it supports; don't renumber or invent markers
    - Keep the hopeful, action-oriented tone
 
 ## Output Format
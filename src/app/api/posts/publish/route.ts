@@ -1,21 +1,30 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
-import { publishPost } from "@/lib/storage/posts";
+import { requireApiRole } from "@/lib/auth/api";
+import { getPostById, hasCurrentApproval, publishPost } from "@/lib/storage/posts";
 
 const BodySchema = z.object({
   id: z.string().min(1)
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = BodySchema.safeParse(json);
   if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
 
-  const post = await publishPost(parsed.data.id);
+  const existing = await getPostById(parsed.data.id);
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (!(await hasCurrentApproval(existing))) {
+    return NextResponse.json(
+      { error: "Post needs an approved review of its latest version before publishing" },
+      { status: 409 }
+    );
+  }
+
+  const post = await publishPost(existing.id);
   if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
   return NextResponse.json({ post });
 }
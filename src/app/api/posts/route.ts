@@ -1,11 +1,13 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
-import { createDraft, listPosts, updateDraft } from "@/lib/storage/posts";
+import { requireApiRole } from "@/lib/auth/api";
+import { hasRole } from "@/lib/auth/roles";
+import { getMediaById } from "@/lib/storage/media";
+import { createDraft, getPostById, listPosts, updateDraft } from "@/lib/storage/posts";
 
 export async function GET(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
   return NextResponse.json({ posts: await listPosts() });
 }
 
@@ -15,14 +17,18 @@ const UpsertSchema = z.object({
   subtitle: z.string().max(220).optional(),
   summary: z.string().min(1).max(800),
   keywords: z.array(z.string().min(1).max(50)).max(30),
+  tags: z.array(z.string().max(60)).max(20).optional(),
   seoTitle: z.string().max(80).optional(),
   seoDescription: z.string().max(180).optional(),
-  contentMarkdown: z.string().min(50).max(200_000)
+  contentMarkdown: z.string().min(50).max(200_000),
+  // "" removes the featured image
+  featuredImageId: z.string().uuid().or(z.literal("")).optional(),
+  revisionSource: z.enum(["manual", "improve"]).default("manual")
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = UpsertSchema.safeParse(json);
@@ -30,14 +36,26 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid post payload" }, { status: 400 });
   }
 
-  const payload = parsed.data;
+  const { revisionSource, ...payload } = parsed.data;
+  if (payload.featuredImageId && !(await getMediaById(payload.featuredImageId))) {
+    return NextResponse.json({ error: "Featured image not found in the media library" }, { status: 400 });
+  }
+
+  const revision = { source: revisionSource, author: user.name };
   if (payload.id) {
-    const post = await updateDraft(payload.id, payload);
+    const existing = await getPostById(payload.id);
+    if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    // Saving a published post changes the live page at once, without review
+    if (existing.status === "PUBLISHED" && !hasRole(user, "editor")) {
+      return NextResponse.json({ error: "Only editors can edit a published post" }, { status: 403 });
+    }
+
+    const post = await updateDraft(payload.id, payload, revision);
     if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
     return NextResponse.json({ post });
   }
 
-  const post = await createDraft(payload);
+  const post = await createDraft(payload, revision);
   return NextResponse.json({ post });
 }
 
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { getPostById, hasCurrentApproval, schedulePost, unschedulePost } from "@/lib/storage/posts";
+
+const BodySchema = z.object({
+  id: z.string().min(1),
+  // null clears the schedule and returns the post to draft
+  scheduledFor: z.string().datetime({ offset: true }).nullable()
+});
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const { id, scheduledFor } = parsed.data;
+  const existing = await getPostById(id);
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  if (scheduledFor === null) {
+    const post = await unschedulePost(id);
+    if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ post });
+  }
+
+  if (existing.status === "PUBLISHED") {
+    return NextResponse.json({ error: "Post is already published" }, { status: 409 });
+  }
+  if (!(await hasCurrentApproval(existing))) {
+    return NextResponse.json(
+      { error: "Post needs an approved review of its latest version before scheduling" },
+      { status: 409 }
+    );
+  }
+
+  const when = new Date(scheduledFor);
+  if (when.getTime() <= Date.now()) {
+    return NextResponse.json({ error: "Scheduled time must be in the future" }, { status: 400 });
+  }
+
+  const post = await schedulePost(id, when.toISOString());
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ post });
+}
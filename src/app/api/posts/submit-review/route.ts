@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { hasRole } from "@/lib/auth/roles";
+import { getPostById, submitPostForReview } from "@/lib/storage/posts";
+import { getUserById } from "@/lib/storage/users";
+
+const BodySchema = z.object({
+  id: z.string().min(1),
+  // Omit to leave the review open to any editor
+  reviewerId: z.string().min(1).nullable().optional()
+});
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const { id, reviewerId } = parsed.data;
+  const existing = await getPostById(id);
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (existing.status !== "DRAFT" && existing.status !== "IN_REVIEW") {
+    return NextResponse.json({ error: "Only drafts can be submitted for review" }, { status: 409 });
+  }
+
+  let reviewer = null;
+  if (reviewerId) {
+    reviewer = await getUserById(reviewerId);
+    if (!reviewer || reviewer.disabled || !hasRole(reviewer, "editor")) {
+      return NextResponse.json({ error: "Reviewer must be an active editor or admin" }, { status: 400 });
+    }
+  }
+
+  const post = await submitPostForReview(id, user, reviewer);
+  if (!post) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ post });
+}
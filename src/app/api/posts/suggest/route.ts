@@ -1,19 +1,22 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
-import { listSources, getSourceById } from "@/lib/storage/sources";
-import { generateWithAzureOpenAI } from "@/lib/ai/providers/azure";
-import { generateWithOpenAI } from "@/lib/ai/providers/openai";
+import { requireApiRole } from "@/lib/auth/api";
+import { listSources, listSourcesMatching, getSourceById } from "@/lib/storage/sources";
+import { hasSourceFilter } from "@/lib/utils/source-labels";
+import { completeWithFailover } from "@/lib/ai/registry";
 
 const SuggestSchema = z.object({
   idea: z.string().optional(),
   mode: z.enum(["from-idea", "surprise-me"]).default("from-idea"),
-  includeSourceAnalysis: z.boolean().default(true)
+  includeSourceAnalysis: z.boolean().default(true),
+  // Limit the analysed sources to a collection or tags
+  collection: z.string().max(60).optional(),
+  tags: z.array(z.string().min(1).max(60)).max(20).optional()
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = SuggestSchema.safeParse(json);
@@ -21,11 +24,12 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid input", details: parsed.error.issues }, { status: 400 });
   }
 
-  const { idea, mode, includeSourceAnalysis } = parsed.data;
+  const { idea, mode, includeSourceAnalysis, collection, tags } = parsed.data;
+  const filter = { collection, tags };
 
   try {
     // Get knowledge base sources
-    const sources = await listSources();
+    const sources = hasSourceFilter(filter) ? await listSourcesMatching(filter) : await listSources();
     let contextText = "";
     let relevantSourceIds: string[] = [];
 
@@ -120,19 +124,26 @@ Format your response as JSON:
     }
 
     // Generate suggestions using AI
-    const azureConfigured =
-      Boolean(process.env.AZURE_OPENAI_ENDPOINT?.trim()) &&
-      Boolean(process.env.AZURE_OPENAI_API_KEY?.trim()) &&
-      Boolean(process.env.AZURE_OPENAI_DEPLOYMENT?.trim());
-
-    const openaiConfigured = Boolean(process.env.OPENAI_API_KEY?.trim());
-
-    let response: string;
-    if (azureConfigured) {
-      response = await generateWithAzureOpenAI(prompt);
-    } else if (openaiConfigured) {
-      response = await generateWithOpenAI(prompt);
-    } else {
+    const result = await completeWithFailover("suggest", prompt, (response) => {
+      let suggestions;
+      try {
+        // Try to extract JSON from the response (in case it's wrapped in markdown)
+        const jsonMatch = response.match(/\{[\s\S]*\}/);
+        const jsonText = jsonMatch ? jsonMatch[0] : response;
+        suggestions = JSON.parse(jsonText);
+      } catch (err) {
+        console.error("Failed to parse AI response:", response);
+        throw new Error("Failed to parse AI suggestions");
+      }
+
+      // Validate the structure
+      if (!suggestions.title || !suggestions.subtitles || !suggestions.keywords) {
+        throw new Error("Invalid suggestion structure from AI");
+      }
+      return suggestions;
+    });
+
+    if (!result) {
       // Fallback to a simple template-based suggestion
       return NextResponse.json({
         title: idea ? `Understanding ${idea.slice(0, 50)}` : "Wildlife Conservation Insights",
@@ -145,22 +156,7 @@ Format your response as JSON:
       });
     }
 
-    // Parse the AI response
-    let suggestions;
-    try {
-      // Try to extract JSON from the response (in case it's wrapped in markdown)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      const jsonText = jsonMatch ? jsonMatch[0] : response;
-      suggestions = JSON.parse(jsonText);
-    } catch (err) {
-      console.error("Failed to parse AI response:", response);
-      throw new Error("Failed to parse AI suggestions");
-    }
-
-    // Validate the structure
-    if (!suggestions.title || !suggestions.subtitles || !suggestions.keywords) {
-      throw new Error("Invalid suggestion structure from AI");
-    }
+    const suggestions = result.value;
 
     return NextResponse.json({
       title: suggestions.title,
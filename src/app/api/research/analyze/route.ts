@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { fetchAndExtractPage } from "@/lib/research/fetch";
 import { fetchDynamicPage, likelyNeedsDynamicScraping } from "@/lib/research/playwright-fetch";
 import { analyzeText } from "@/lib/research/keywords";
@@ -19,8 +19,8 @@ const BodySchema = z.object({
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = BodySchema.safeParse(json);
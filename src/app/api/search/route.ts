@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { searchContent } from "@/lib/storage/search";
+import { MAX_SEARCH_LIMIT } from "@/lib/search/full-text";
+
+const QuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  kind: z.array(z.enum(["post", "source", "article"])).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).optional()
+});
+
+/** `?q=` with optional repeated `?kind=post|source|article` and `?limit=` */
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const params = new URL(request.url).searchParams;
+  const kinds = params.getAll("kind");
+  const parsed = QuerySchema.safeParse({
+    q: params.get("q") ?? "",
+    kind: kinds.length ? kinds : undefined,
+    limit: params.get("limit") ?? undefined
+  });
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid query" }, { status: 400 });
+  }
+
+  const hits = await searchContent(parsed.data.q, { kinds: parsed.data.kind, limit: parsed.data.limit });
+  return NextResponse.json({ query: parsed.data.q, hits });
+}
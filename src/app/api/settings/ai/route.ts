@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { AI_API_KEY_ENV_PREFIX, AI_PROVIDER_KINDS, AI_TASKS, isAllowedApiKeyEnv } from "@/lib/ai/catalog";
+import { apiKeyProblem, describeAiProviders, loadAiSettings } from "@/lib/ai/registry";
+import { updateAiSettings } from "@/lib/storage/settings";
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((v) => v || undefined);
+
+const ProviderSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]{0,39}$/, "Use lowercase letters, digits and dashes"),
+    kind: z.enum(AI_PROVIDER_KINDS),
+    label: z.string().trim().min(1).max(80),
+    enabled: z.boolean(),
+    baseUrl: optionalText(500).refine(
+      (v) => !v || /^https?:\/\//.test(v),
+      "Base URL must start with http:// or https://"
+    ),
+    model: optionalText(120),
+    embeddingModel: optionalText(120),
+    apiKeyEnv: optionalText(80).refine(
+      (v) => !v || isAllowedApiKeyEnv(v),
+      `API key variables must start with ${AI_API_KEY_ENV_PREFIX} or be a provider's usual one, e.g. OPENAI_API_KEY`
+    ),
+    taskModels: z
+      .record(z.string(), z.string().trim().max(120))
+      .optional()
+      .transform((models) => {
+        const picked = Object.fromEntries(
+          Object.entries(models ?? {}).filter(
+            ([task, model]) => model && (AI_TASKS as readonly string[]).includes(task)
+          )
+        );
+        return Object.keys(picked).length ? picked : undefined;
+      })
+  })
+  .superRefine((provider, ctx) => {
+    // Only reported when the key variable is set, since an unset one sends nothing
+    const problem = apiKeyProblem(provider);
+    if (problem) ctx.addIssue({ code: "custom", path: ["apiKeyEnv"], message: `${provider.label}: ${problem}` });
+  });
+
+const BodySchema = z.object({
+  providers: z
+    .array(ProviderSchema)
+    .max(12)
+    .refine((list) => new Set(list.map((p) => p.id)).size === list.length, "Provider ids must be unique")
+});
+
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const settings = await loadAiSettings();
+  return NextResponse.json({ settings, status: describeAiProviders(settings) });
+}
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = BodySchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  const settings = await updateAiSettings({
+    providers: parsed.data.providers,
+    updatedAt: new Date().toISOString(),
+    updatedBy: user.name
+  });
+  return NextResponse.json({ settings, status: describeAiProviders(settings) });
+}
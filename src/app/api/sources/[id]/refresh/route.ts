@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { fetchAndExtractPage } from "@/lib/research/fetch";
+import { findSourceByText, getSourceById, updateSource } from "@/lib/storage/sources";
+
+/**
+ * Re-fetch a URL source and replace its text when the page changed. The
+ * response says whether it did; either way the refresh time is recorded.
+ * New text that another source already has is a conflict, as it is on PATCH.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const source = await getSourceById(id);
+  if (!source) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  if ((source.type !== "ORG_URL" && source.type !== "COMPETITOR_URL") || !source.url) {
+    return NextResponse.json({ error: "Only sources fetched from a URL can be refreshed" }, { status: 400 });
+  }
+
+  let text: string;
+  try {
+    text = (await fetchAndExtractPage(source.url)).text;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : "Fetch failed";
+    return NextResponse.json({ error: `Could not fetch ${source.url}: ${message}` }, { status: 502 });
+  }
+
+  if (!text.trim()) {
+    return NextResponse.json({ error: "The page has no text content now; the source was left as it was" }, { status: 422 });
+  }
+
+  // Stored text is capped at this length, so compare what would be stored
+  const contentText = text.slice(0, 200_000);
+  const changed = contentText !== source.contentText;
+  if (changed) {
+    const duplicate = await findSourceByText(contentText);
+    if (duplicate && duplicate.id !== id) {
+      return NextResponse.json({ error: `“${duplicate.title}” already has this text` }, { status: 409 });
+    }
+  }
+  const updated = await updateSource(id, {
+    contentText: changed ? contentText : undefined,
+    refreshedAt: new Date().toISOString(),
+    refreshChanged: changed
+  });
+  if (!updated) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  return NextResponse.json({ source: updated, changed });
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { deleteSource, findSourceByText, getSourceById, updateSource } from "@/lib/storage/sources";
+
+const UpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+  url: z.string().url().or(z.literal("")).optional(),
+  contentText: z.string().min(20).max(200_000).optional(),
+  tags: z.array(z.string().max(60)).max(30).optional(),
+  collections: z.array(z.string().max(60)).max(20).optional()
+});
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const source = await getSourceById(id);
+  if (!source) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ source });
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  if (parsed.data.contentText !== undefined) {
+    const duplicate = await findSourceByText(parsed.data.contentText);
+    if (duplicate && duplicate.id !== id) {
+      return NextResponse.json({ error: `“${duplicate.title}” already has this text` }, { status: 409 });
+    }
+  }
+
+  const source = await updateSource(id, parsed.data);
+  if (!source) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ source });
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "editor");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const deleted = await deleteSource(id);
+  if (!deleted) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ deleted: true });
+}
@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { fetchAndExtractPage } from "@/lib/research/fetch";
-import { createSourceFromText } from "@/lib/storage/sources";
+import { createSourceFromText, findSourceByText } from "@/lib/storage/sources";
 
 const BodySchema = z.object({
   url: z.string().url(),
@@ -10,8 +10,8 @@ const BodySchema = z.object({
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = BodySchema.safeParse(json);
@@ -22,13 +22,16 @@ export async function POST(request: Request) {
   const page = await fetchAndExtractPage(parsed.data.url);
   const title = page.title || new URL(parsed.data.url).hostname;
 
-  const source = await createSourceFromText({
-    type: parsed.data.type,
-    title,
-    url: parsed.data.url,
-    contentText: page.text
-  });
+  const existing = await findSourceByText(page.text);
+  const source =
+    existing ??
+    (await createSourceFromText({
+      type: parsed.data.type,
+      title,
+      url: parsed.data.url,
+      contentText: page.text
+    }));
 
-  return NextResponse.json({ source, page });
+  return NextResponse.json({ source, page, duplicate: Boolean(existing) });
 }
 
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { requireAdminApi } from "@/lib/auth/api";
-import { createSourceFromText } from "@/lib/storage/sources";
+import { requireApiRole } from "@/lib/auth/api";
+import { createSourceFromText, findSourceByText } from "@/lib/storage/sources";
 
 const BodySchema = z.object({
   title: z.string().min(1).max(200),
@@ -9,8 +9,8 @@ const BodySchema = z.object({
 });
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const json = await request.json();
   const parsed = BodySchema.safeParse(json);
@@ -18,11 +18,14 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Invalid input" }, { status: 400 });
   }
 
-  const source = await createSourceFromText({
-    type: "PASTE",
-    title: parsed.data.title,
-    contentText: parsed.data.contentText
-  });
-  return NextResponse.json({ source });
+  const existing = await findSourceByText(parsed.data.contentText);
+  const source =
+    existing ??
+    (await createSourceFromText({
+      type: "PASTE",
+      title: parsed.data.title,
+      contentText: parsed.data.contentText
+    }));
+  return NextResponse.json({ source, duplicate: Boolean(existing) });
 }
 
@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server";
-import { requireAdminApi } from "@/lib/auth/api";
+import { requireApiRole } from "@/lib/auth/api";
 import { listSources } from "@/lib/storage/sources";
+import { matchesSourceFilter, sourceLabels } from "@/lib/utils/source-labels";
 
+/**
+ * `?collection=` and `?tag=` (repeatable) narrow the list. Every tag and
+ * collection in use is returned alongside, for filter menus.
+ */
 export async function GET(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
-  return NextResponse.json({ sources: await listSources() });
-}
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
 
+  const params = new URL(request.url).searchParams;
+  const filter = { collection: params.get("collection") ?? undefined, tags: params.getAll("tag") };
+  const all = await listSources();
+  return NextResponse.json({ sources: all.filter((s) => matchesSourceFilter(s, filter)), ...sourceLabels(all) });
+}
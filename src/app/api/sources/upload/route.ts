@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
-import { requireAdminApi } from "@/lib/auth/api";
-import { createSourceFromText } from "@/lib/storage/sources";
+import { requireApiRole } from "@/lib/auth/api";
+import { createSourceFromText, findSourceByText } from "@/lib/storage/sources";
 
 async function extractTextFromPdf(buffer: Buffer): Promise<string> {
   const { PDFParse } = await import("pdf-parse");
@@ -16,8 +16,8 @@ async function extractTextFromDocx(buffer: Buffer): Promise<string> {
 }
 
 export async function POST(request: Request) {
-  const unauthorized = requireAdminApi(request);
-  if (unauthorized) return unauthorized;
+  const user = await requireApiRole(request, "writer");
+  if (user instanceof NextResponse) return user;
 
   const form = await request.formData();
   const file = form.get("file");
@@ -69,12 +69,15 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "No text content found in file" }, { status: 400 });
   }
 
-  const source = await createSourceFromText({
-    type: "UPLOAD",
-    title: name,
-    contentText
-  });
+  const existing = await findSourceByText(contentText);
+  const source =
+    existing ??
+    (await createSourceFromText({
+      type: "UPLOAD",
+      title: name,
+      contentText
+    }));
 
-  return NextResponse.json({ source });
+  return NextResponse.json({ source, duplicate: Boolean(existing) });
 }
 
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { hashPassword } from "@/lib/auth/password";
+import { deleteUser, getUserById, listUsers, updateUser } from "@/lib/storage/users";
+
+const UpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  role: z.enum(["viewer", "writer", "editor", "admin"]).optional(),
+  password: z.string().min(10).max(200).optional(),
+  disabled: z.boolean().optional()
+});
+
+// Refuse changes that would leave nobody able to manage users
+async function isLastActiveAdmin(id: string) {
+  const admins = (await listUsers()).filter((u) => u.role === "admin" && !u.disabled);
+  return admins.length === 1 && admins[0].id === id;
+}
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await request.json();
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+
+  const existing = await getUserById(id);
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const { password, ...updates } = parsed.data;
+  const losesAdmin = (updates.role && updates.role !== "admin") || updates.disabled === true;
+  if (losesAdmin && (await isLastActiveAdmin(id))) {
+    return NextResponse.json({ error: "At least one active admin is required" }, { status: 409 });
+  }
+
+  const updated = await updateUser(id, {
+    ...updates,
+    ...(password ? { passwordHash: await hashPassword(password) } : {})
+  });
+  if (!updated) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ user: updated });
+}
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  if (id === user.id) {
+    return NextResponse.json({ error: "You can't delete your own account" }, { status: 409 });
+  }
+  if (await isLastActiveAdmin(id)) {
+    return NextResponse.json({ error: "At least one active admin is required" }, { status: 409 });
+  }
+
+  const deleted = await deleteUser(id);
+  if (!deleted) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ deleted: true });
+}
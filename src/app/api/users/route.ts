@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { hashPassword } from "@/lib/auth/password";
+import { createUser, listUsers } from "@/lib/storage/users";
+
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+  return NextResponse.json({ users: await listUsers() });
+}
+
+const CreateSchema = z.object({
+  email: z.string().trim().email().max(320),
+  name: z.string().trim().min(1).max(120),
+  role: z.enum(["viewer", "writer", "editor", "admin"]),
+  password: z.string().min(10).max(200)
+});
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = CreateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid user payload (passwords need at least 10 characters)" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { password, ...input } = parsed.data;
+    const created = await createUser({ ...input, passwordHash: await hashPassword(password) });
+    return NextResponse.json({ user: created });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Failed to create user" },
+      { status: 400 }
+    );
+  }
+}
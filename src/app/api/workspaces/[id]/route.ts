@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiRole } from "@/lib/auth/api";
+import { getWorkspaceById, updateWorkspace } from "@/lib/storage/workspaces";
+import { WorkspaceHostnameSchema, WorkspaceInputSchema, WorkspaceSlugSchema } from "@/lib/storage/workspaceSchema";
+
+// Not WorkspaceInputSchema.partial(): its hostname default would clear the hostname on every rename
+const UpdateSchema = z.object({
+  slug: WorkspaceSlugSchema.optional(),
+  name: WorkspaceInputSchema.shape.name.optional(),
+  hostname: WorkspaceHostnameSchema.nullable().optional()
+});
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const json = await request.json();
+  const parsed = UpdateSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+  }
+
+  if (!(await getWorkspaceById(id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  try {
+    return NextResponse.json({ workspace: await updateWorkspace(id, parsed.data) });
+  } catch (e) {
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Update failed" }, { status: 409 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { createWorkspace, listWorkspaces } from "@/lib/storage/workspaces";
+import { WorkspaceInputSchema } from "@/lib/storage/workspaceSchema";
+
+export async function GET(request: Request) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+  return NextResponse.json({ workspaces: await listWorkspaces() });
+}
+
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "admin");
+  if (user instanceof NextResponse) return user;
+
+  const json = await request.json();
+  const parsed = WorkspaceInputSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid workspace" }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ workspace: await createWorkspace(parsed.data) });
+  } catch (e) {
+    return NextResponse.json(
+      { error: e instanceof Error ? e.message : "Failed to create workspace" },
+      { status: 409 }
+    );
+  }
+}
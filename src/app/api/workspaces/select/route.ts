@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { requireApiRole } from "@/lib/auth/api";
+import { sessionCookieOptions } from "@/lib/auth/session";
+import { getBaseUrl } from "@/lib/site";
+import { getWorkspaceById } from "@/lib/storage/workspaces";
+import { WORKSPACE_COOKIE_NAME } from "@/lib/storage/workspaceSchema";
+
+// Form post from the dashboard's workspace switcher
+export async function POST(request: Request) {
+  const user = await requireApiRole(request, "viewer");
+  if (user instanceof NextResponse) return user;
+
+  const form = await request.formData();
+  const workspace = await getWorkspaceById(String(form.get("workspaceId") ?? ""));
+  if (!workspace) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const res = NextResponse.redirect(new URL("/dashboard", getBaseUrl()), 303);
+  res.cookies.set(WORKSPACE_COOKIE_NAME, workspace.id, { ...sessionCookieOptions(), maxAge: 60 * 60 * 24 * 365 });
+  return res;
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { renderShareCard } from "@/lib/media/share-card";
+import { pickRendition, shareCardVersion } from "@/lib/media/urls";
+import { getPublicSite } from "@/lib/site";
+import { getFeaturedImage, readMediaFile } from "@/lib/storage/media";
+import { getOrgProfile } from "@/lib/storage/org";
+import { getPublishedPostBySlug } from "@/lib/storage/posts";
+
+/**
+ * The share card of a published post. Requests for the current version
+ * (see shareCardUrl) are cached for good; others get the current card,
+ * revalidated by its ETag.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const site = await getPublicSite();
+  const { slug } = await params;
+  const post = site ? await getPublishedPostBySlug(slug) : null;
+  if (!site || !post) return new NextResponse("Not found", { status: 404 });
+
+  const version = shareCardVersion(post);
+  const etag = `"${post.id}-${version}"`;
+  const current = new URL(request.url).searchParams.get("v") === version;
+  const headers = {
+    etag,
+    "cache-control": current ? "public, max-age=31536000, immutable" : "public, max-age=0, must-revalidate"
+  };
+  if (request.headers.get("if-none-match") === etag) return new NextResponse(null, { status: 304, headers });
+
+  const image = await getFeaturedImage(post);
+  const rendition = image && pickRendition(image, 1200);
+  const photo = image && rendition ? await readMediaFile(image.id, rendition.file) : null;
+  const org = await getOrgProfile();
+
+  return renderShareCard({ title: post.title, subtitle: post.subtitle, orgName: org.name, photo }, { headers });
+}
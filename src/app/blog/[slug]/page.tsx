@@ -3,23 +3,32 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import Container from "@/components/Container";
 import Markdown from "@/components/Markdown";
-import { getBaseUrl } from "@/lib/site";
+import PostList, { PostTags } from "@/components/PostList";
+import { SHARE_CARD_HEIGHT, SHARE_CARD_WIDTH } from "@/lib/media/share-card";
+import { mediaFileUrl, mediaSrcSet, pickRendition, shareCardUrl } from "@/lib/media/urls";
+import { getPublicSite } from "@/lib/site";
+import { getFeaturedImage } from "@/lib/storage/media";
 import { getOrgProfile } from "@/lib/storage/org";
-import { getPublishedPostBySlug } from "@/lib/storage/posts";
+import { getPublishedPostBySlug, listRelatedPosts } from "@/lib/storage/posts";
 
 export const dynamic = "force-dynamic";
 
 export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
   const { slug } = await params;
-  const post = await getPublishedPostBySlug(slug);
-  if (!post) return {};
+  const site = await getPublicSite();
+  const post = site ? await getPublishedPostBySlug(slug) : null;
+  if (!site || !post) return {};
 
-  const baseUrl = getBaseUrl();
-  const canonical = `${baseUrl}/blog/${post.slug}`;
+  const canonical = `${site.baseUrl}/blog/${post.slug}`;
 
   const title = post.seoTitle?.trim() || post.title;
   const description = post.seoDescription?.trim() || post.summary;
 
+  // Generated from the title and featured image; see og.png/route.ts
+  const images = [
+    { url: shareCardUrl(site.baseUrl, post), width: SHARE_CARD_WIDTH, height: SHARE_CARD_HEIGHT, alt: post.title }
+  ];
+
   return {
     title,
     description,
@@ -31,24 +40,33 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
       url: canonical,
       type: "article",
       publishedTime: post.publishedAt,
-      modifiedTime: post.updatedAt
+      modifiedTime: post.updatedAt,
+      images
     },
     twitter: {
       card: "summary_large_image",
       title,
-      description
+      description,
+      images
     }
   };
 }
 
 export default async function BlogPostPage({ params }: { params: Promise<{ slug: string }> }) {
   const { slug } = await params;
-  const post = await getPublishedPostBySlug(slug);
-  if (!post) return notFound();
+  const site = await getPublicSite();
+  const post = site ? await getPublishedPostBySlug(slug) : null;
+  if (!site || !post) return notFound();
 
-  const baseUrl = getBaseUrl();
   const org = await getOrgProfile();
-  const canonical = `${baseUrl}/blog/${post.slug}`;
+  const canonical = `${site.baseUrl}/blog/${post.slug}`;
+  const image = await getFeaturedImage(post);
+  const largest = image?.renditions.at(-1);
+  const related = await listRelatedPosts(post);
+
+  // One schema.org reference per cited source, using the first supporting quote
+  const citedSources = new Map<string, NonNullable<typeof post.citations>[number]>();
+  for (const c of post.citations ?? []) if (!citedSources.has(c.sourceId)) citedSources.set(c.sourceId, c);
 
   const jsonLd = {
     "@context": "https://schema.org",
@@ -60,7 +78,30 @@ export default async function BlogPostPage({ params }: { params: Promise<{ slug:
     mainEntityOfPage: { "@type": "WebPage", "@id": canonical },
     author: { "@type": "Organization", name: org.name },
     publisher: { "@type": "Organization", name: org.name },
-    keywords: post.keywords.join(", ")
+    keywords: post.keywords.join(", "),
+    ...(image && largest
+      ? {
+          image: {
+            "@type": "ImageObject",
+            url: mediaFileUrl(site.baseUrl, image.id, largest),
+            width: largest.width,
+            height: largest.height,
+            caption: image.caption ?? image.alt,
+            ...(image.credit ? { creditText: image.credit } : {}),
+            ...(image.license ? { copyrightNotice: image.license } : {})
+          }
+        }
+      : {}),
+    ...(citedSources.size > 0
+      ? {
+          citation: Array.from(citedSources.values()).map((c) => ({
+            "@type": "CreativeWork",
+            name: c.sourceTitle,
+            ...(c.sourceUrl ? { url: c.sourceUrl } : {}),
+            text: c.quote
+          }))
+        }
+      : {})
   };
 
   return (
@@ -71,7 +112,7 @@ export default async function BlogPostPage({ params }: { params: Promise<{ slug:
           dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
         />
         <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
-          <Link className="wb-link text-sm" href="/blog">
+          <Link className="wb-link text-sm" href={`${site.basePath}/blog`}>
             ← Back to blog
           </Link>
           <div className="text-xs text-[var(--wb-muted)]">
@@ -82,10 +123,38 @@ export default async function BlogPostPage({ params }: { params: Promise<{ slug:
         <h1 className="text-4xl font-extrabold tracking-tight">{post.title}</h1>
         {post.subtitle ? <p className="mt-3 text-[var(--wb-muted)]">{post.subtitle}</p> : null}
 
+        {image && largest ? (
+          <figure className="mt-6">
+            <img
+              className="w-full rounded-lg"
+              src={mediaFileUrl(site.basePath, image.id, pickRendition(image, 1024) ?? largest)}
+              srcSet={mediaSrcSet(site.basePath, image)}
+              sizes="(min-width: 1024px) 960px, 100vw"
+              width={largest.width}
+              height={largest.height}
+              alt={image.alt}
+            />
+            {image.caption || image.credit || image.license ? (
+              <figcaption className="mt-2 text-xs text-[var(--wb-muted)]">
+                {[image.caption, image.credit && `Photo: ${image.credit}`, image.license].filter(Boolean).join(" · ")}
+              </figcaption>
+            ) : null}
+          </figure>
+        ) : null}
+
         <div className="mt-8 wb-markdown">
-          <Markdown markdown={post.contentMarkdown} />
+          <Markdown markdown={post.contentMarkdown} citations={post.citations} />
         </div>
+
+        {post.tags.length > 0 ? <PostTags tags={post.tags} basePath={site.basePath} className="mt-8" /> : null}
       </article>
+
+      {related.length > 0 ? (
+        <section className="mt-10">
+          <h2 className="mb-4 text-2xl font-bold tracking-tight">Related reading</h2>
+          <PostList posts={related} basePath={site.basePath} />
+        </section>
+      ) : null}
     </Container>
   );
 }
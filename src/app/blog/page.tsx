@@ -1,54 +1,111 @@
+import type { Metadata } from "next";
 import Link from "next/link";
+import { notFound } from "next/navigation";
 import Container from "@/components/Container";
+import Pagination from "@/components/Pagination";
+import PostList from "@/components/PostList";
+import SearchSnippet from "@/components/SearchSnippet";
+import { feedAlternates } from "@/lib/feeds/blog-feed";
+import { getPublicSite } from "@/lib/site";
+import { getOrgProfile } from "@/lib/storage/org";
 import { listPublishedPosts } from "@/lib/storage/posts";
+import { searchPublishedPosts } from "@/lib/storage/search";
+import { pageHref, paginate, paginationLinks, parsePageParam } from "@/lib/utils/pagination";
+import { countPostTags, tagPath } from "@/lib/utils/post-tags";
 
 export const dynamic = "force-dynamic";
 
-export default async function BlogIndexPage() {
-  const posts = await listPublishedPosts();
+type SearchParams = Promise<{ q?: string; page?: string }>;
+
+export async function generateMetadata({ searchParams }: { searchParams: SearchParams }): Promise<Metadata> {
+  const site = await getPublicSite();
+  if (!site) return {};
+
+  const { q, page: pageParam } = await searchParams;
+  const blogUrl = `${site.baseUrl}/blog`;
+  const feeds = feedAlternates(site.baseUrl);
+  if (q?.trim()) return { title: "Search", alternates: { types: feeds } };
+
+  const page = parsePageParam(pageParam);
+  const { pageCount } = paginate(await listPublishedPosts(), page);
+  return {
+    title: page > 1 ? `Blog (page ${page})` : "Blog",
+    alternates: { canonical: pageHref(blogUrl, page), types: feeds },
+    pagination: paginationLinks(blogUrl, page, pageCount)
+  };
+}
+
+export default async function BlogIndexPage({ searchParams }: { searchParams: SearchParams }) {
+  const site = await getPublicSite();
+  if (!site) return notFound();
+  const blogPath = `${site.basePath}/blog`;
+  const org = await getOrgProfile();
+
+  const { q, page: pageParam } = await searchParams;
+  const query = (q ?? "").trim();
+  const hits = query ? await searchPublishedPosts(query, 30) : null;
+  const published = hits ? [] : await listPublishedPosts();
+  const posts = paginate(published, parsePageParam(pageParam));
+  if (!hits && posts.page > posts.pageCount) return notFound();
+  const tags = countPostTags(published).slice(0, 20);
 
   return (
     <Container>
       <header className="mb-6">
         <h1 className="text-3xl font-bold tracking-tight">Blog</h1>
         <p className="mt-2 text-[var(--wb-muted)]">
-          Research-backed wildlife conservation writing from wildlife-blogger.
+          Research-backed wildlife conservation writing from {org.name}.
         </p>
+        <form action={blogPath} className="mt-4" role="search">
+          <input
+            className="wb-input w-full"
+            name="q"
+            type="search"
+            defaultValue={query}
+            placeholder="Search the blog…"
+            aria-label="Search the blog"
+          />
+        </form>
+        {tags.length > 0 ? (
+          <nav className="mt-4 flex flex-wrap gap-2 text-xs" aria-label="Tags">
+            {tags.map(({ tag, count }) => (
+              <Link key={tag} className="wb-link" href={tagPath(site.basePath, tag)}>
+                #{tag} <span className="text-[var(--wb-muted)]">({count})</span>
+              </Link>
+            ))}
+          </nav>
+        ) : null}
       </header>
 
-      <div className="grid gap-4">
-        {posts.length === 0 ? (
-          <div className="wb-card p-6 text-[var(--wb-muted)]">No posts published yet.</div>
-        ) : (
-          posts.map((post) => (
-            <article key={post.id} className="wb-card p-6">
+      {hits ? (
+        <div className="grid gap-4">
+          <div className="text-sm text-[var(--wb-muted)]">
+            {hits.length} result{hits.length === 1 ? "" : "s"} for “{query}” ·{" "}
+            <Link className="wb-link" href={blogPath}>
+              All posts
+            </Link>
+          </div>
+          {hits.map((hit) => (
+            <article key={hit.id} className="wb-card p-6">
               <div className="flex flex-wrap items-center justify-between gap-3">
                 <h2 className="text-xl font-semibold tracking-tight">
-                  <Link className="wb-link" href={`/blog/${post.slug}`}>
-                    {post.title}
+                  <Link className="wb-link" href={`${blogPath}/${hit.slug}`}>
+                    {hit.title}
                   </Link>
                 </h2>
-                <div className="text-xs text-[var(--wb-muted)]">
-                  {post.publishedAt ? new Date(post.publishedAt).toLocaleDateString() : ""}
-                </div>
               </div>
-              <p className="mt-3 text-[var(--wb-muted)]">{post.summary}</p>
-              {post.keywords.length > 0 ? (
-                <div className="mt-4 flex flex-wrap gap-2">
-                  {post.keywords.slice(0, 8).map((k) => (
-                    <span
-                      key={k}
-                      className="rounded-full border border-[var(--wb-border)] bg-black/20 px-3 py-1 text-xs text-[var(--wb-muted)]"
-                    >
-                      {k}
-                    </span>
-                  ))}
-                </div>
-              ) : null}
+              <SearchSnippet className="mt-3" parts={hit.snippet} />
             </article>
-          ))
-        )}
-      </div>
+          ))}
+        </div>
+      ) : posts.items.length === 0 ? (
+        <div className="wb-card p-6 text-[var(--wb-muted)]">No posts published yet.</div>
+      ) : (
+        <>
+          <PostList posts={posts.items} basePath={site.basePath} />
+          <Pagination path={blogPath} page={posts.page} pageCount={posts.pageCount} />
+        </>
+      )}
     </Container>
   );
 }
@@ -0,0 +1,6 @@
+import { blogFeedResponse } from "@/lib/feeds/blog-feed";
+import { tagFromParam } from "@/lib/utils/post-tags";
+
+export async function GET(request: Request, { params }: { params: Promise<{ tag: string }> }) {
+  return blogFeedResponse(request, "atom", tagFromParam((await params).tag));
+}
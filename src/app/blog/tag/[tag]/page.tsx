@@ -0,0 +1,80 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import Container from "@/components/Container";
+import Pagination from "@/components/Pagination";
+import PostList from "@/components/PostList";
+import { feedAlternates } from "@/lib/feeds/blog-feed";
+import { getPublicSite } from "@/lib/site";
+import { getOrgProfile } from "@/lib/storage/org";
+import { listPublishedPostsTagged } from "@/lib/storage/posts";
+import { pageHref, paginate, paginationLinks, parsePageParam } from "@/lib/utils/pagination";
+import { tagFromParam, tagPath } from "@/lib/utils/post-tags";
+
+export const dynamic = "force-dynamic";
+
+type Props = {
+  params: Promise<{ tag: string }>;
+  searchParams: Promise<{ page?: string }>;
+};
+
+export async function generateMetadata({ params, searchParams }: Props): Promise<Metadata> {
+  const site = await getPublicSite();
+  const tag = tagFromParam((await params).tag);
+  const posts = site && tag ? await listPublishedPostsTagged(tag) : [];
+  if (!site || posts.length === 0) return {};
+
+  const page = parsePageParam((await searchParams).page);
+  const { pageCount } = paginate(posts, page);
+  const url = tagPath(site.baseUrl, tag);
+  const org = await getOrgProfile();
+
+  return {
+    title: page > 1 ? `#${tag} (page ${page})` : `#${tag}`,
+    description: `Posts tagged #${tag} from ${org.name}.`,
+    alternates: {
+      canonical: pageHref(url, page),
+      types: feedAlternates(url)
+    },
+    pagination: paginationLinks(url, page, pageCount)
+  };
+}
+
+export default async function TagPage({ params, searchParams }: Props) {
+  const site = await getPublicSite();
+  const tag = tagFromParam((await params).tag);
+  const all = site && tag ? await listPublishedPostsTagged(tag) : [];
+  if (!site || all.length === 0) return notFound();
+
+  const posts = paginate(all, parsePageParam((await searchParams).page));
+  if (posts.page > posts.pageCount) return notFound();
+  const path = tagPath(site.basePath, tag);
+
+  return (
+    <Container>
+      <header className="mb-6">
+        <Link className="wb-link text-sm" href={`${site.basePath}/blog`}>
+          ← All posts
+        </Link>
+        <h1 className="mt-4 text-3xl font-bold tracking-tight">#{tag}</h1>
+        <p className="mt-2 text-[var(--wb-muted)]">
+          {all.length} post{all.length === 1 ? "" : "s"} ·{" "}
+          <a className="wb-link" href={`${path}/rss.xml`}>
+            RSS
+          </a>{" "}
+          ·{" "}
+          <a className="wb-link" href={`${path}/atom.xml`}>
+            Atom
+          </a>{" "}
+          ·{" "}
+          <a className="wb-link" href={`${path}/feed.json`}>
+            JSON Feed
+          </a>
+        </p>
+      </header>
+
+      <PostList posts={posts.items} basePath={site.basePath} />
+      <Pagination path={path} page={posts.page} pageCount={posts.pageCount} />
+    </Container>
+  );
+}
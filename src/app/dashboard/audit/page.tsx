@@ -0,0 +1,162 @@
+import Link from "next/link";
+import { requireRole } from "@/lib/auth/server";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_LABELS,
+  auditFilterFromQuery,
+  formatAuditChange,
+  parseAuditQuery
+} from "@/lib/audit/log";
+import { listAuditEntries } from "@/lib/storage/audit";
+import { listUsers } from "@/lib/storage/users";
+import type { AuditEntry, AuditEntityType } from "@/lib/storage/types";
+
+export const dynamic = "force-dynamic";
+
+function entityHref(entry: AuditEntry) {
+  switch (entry.entityType) {
+    case "post":
+      return entry.action === "delete" ? null : `/dashboard/posts/${entry.entityId}`;
+    case "source":
+      return entry.action === "delete" ? null : `/dashboard/knowledge#source-${entry.entityId}`;
+    case "watched_source":
+      return "/dashboard/monitor";
+    default:
+      return null;
+  }
+}
+
+export default async function AuditLogPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireRole("viewer");
+  const raw = await searchParams;
+  const params = new URLSearchParams(
+    Object.entries(raw).flatMap(([key, value]) => (typeof value === "string" ? [[key, value]] : []))
+  );
+  const parsed = parseAuditQuery(params);
+  const query = parsed.success ? parsed.data : {};
+  const [entries, users] = await Promise.all([listAuditEntries(auditFilterFromQuery(query)), listUsers()]);
+
+  const csvParams = new URLSearchParams(params);
+  csvParams.set("format", "csv");
+
+  return (
+    <div className="grid gap-6">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Audit log</h1>
+          <p className="mt-2 text-[var(--wb-muted)]">
+            Every change to posts, knowledge sources, watched sources and the organization profile, newest first.
+          </p>
+        </div>
+        <a className="wb-button" href={`/api/audit?${csvParams}`}>
+          Export CSV
+        </a>
+      </header>
+
+      <form className="wb-card grid gap-3 p-5 sm:grid-cols-2 lg:grid-cols-5" method="get">
+        <label className="grid gap-1 text-sm">
+          Who
+          <select className="wb-input" name="actor" defaultValue={query.actor ?? ""}>
+            <option value="">Anyone</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm">
+          Action
+          <select className="wb-input" name="action" defaultValue={query.action ?? ""}>
+            <option value="">Any action</option>
+            {AUDIT_ACTIONS.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm">
+          Type
+          <select className="wb-input" name="type" defaultValue={query.type ?? ""}>
+            <option value="">Anything</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((t) => (
+              <option key={t} value={t}>
+                {AUDIT_ENTITY_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm">
+          From
+          <input className="wb-input" name="from" type="date" defaultValue={query.from ?? ""} />
+        </label>
+        <label className="grid gap-1 text-sm">
+          To
+          <input className="wb-input" name="to" type="date" defaultValue={query.to ?? ""} />
+        </label>
+        {query.entity ? <input name="entity" type="hidden" value={query.entity} /> : null}
+        <div className="flex gap-2 sm:col-span-2 lg:col-span-5">
+          <button className="wb-button" type="submit">
+            Filter
+          </button>
+          <Link className="wb-button" href="/dashboard/audit">
+            Clear
+          </Link>
+        </div>
+      </form>
+
+      {!parsed.success ? (
+        <div className="wb-card p-6 text-[var(--wb-muted)]">
+          Those filters aren’t valid ({parsed.error.issues[0]?.message}); showing everything.
+        </div>
+      ) : null}
+
+      {entries.length === 0 ? <div className="wb-card p-6 text-[var(--wb-muted)]">No changes match.</div> : null}
+
+      <div className="grid gap-3">
+        {entries.map((entry) => {
+          const href = entityHref(entry);
+          return (
+            <article key={entry.id} className="wb-card p-5">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="min-w-0 text-sm">
+                  <span className="font-semibold">{entry.actorName}</span> {entry.action}{" "}
+                  <span className="text-[var(--wb-muted)]">
+                    {AUDIT_ENTITY_LABELS[entry.entityType].toLowerCase()}
+                  </span>{" "}
+                  {href ? (
+                    <Link className="wb-link" href={href}>
+                      {entry.entityTitle || entry.entityId}
+                    </Link>
+                  ) : (
+                    <span>{entry.entityTitle || entry.entityId}</span>
+                  )}
+                </div>
+                <div className="flex gap-3 text-xs text-[var(--wb-muted)]">
+                  <Link className="wb-link" href={`/dashboard/audit?entity=${entry.entityId}`}>
+                    History
+                  </Link>
+                  <time dateTime={entry.at}>{new Date(entry.at).toLocaleString()}</time>
+                </div>
+              </div>
+              {entry.changes.length > 0 ? (
+                <ul className="mt-3 grid gap-1 text-xs text-[var(--wb-muted)]">
+                  {entry.changes.map((change) => (
+                    <li key={change.field} className="break-words">
+                      {formatAuditChange(change)}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </article>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
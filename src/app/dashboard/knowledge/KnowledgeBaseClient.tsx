@@ -2,12 +2,26 @@
 
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { KnowledgeSourceMeta, SourceType } from "@/lib/storage/types";
+import type { KnowledgeSource, KnowledgeSourceMeta, SourceType } from "@/lib/storage/types";
+import { matchesSourceFilter, sourceLabels } from "@/lib/utils/source-labels";
 
 type Props = {
   initialSources: KnowledgeSourceMeta[];
 };
 
+type Draft = { id: string; title: string; url: string; contentText: string; tags: string; collections: string };
+
+function splitList(value: string) {
+  return value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function isUrlSource(type: SourceType) {
+  return type === "ORG_URL" || type === "COMPETITOR_URL";
+}
+
 function badge(type: SourceType) {
   switch (type) {
     case "ORG_URL":
@@ -25,8 +39,20 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
   const router = useRouter();
   const [busy, setBusy] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [collection, setCollection] = useState("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+
+  const labels = useMemo(() => sourceLabels(initialSources), [initialSources]);
+  const sources = useMemo(
+    () => initialSources.filter((s) => matchesSourceFilter(s, { collection, tags: tagFilter })),
+    [initialSources, collection, tagFilter]
+  );
 
-  const sources = useMemo(() => initialSources, [initialSources]);
+  function noteDuplicate(data: { source: KnowledgeSourceMeta; duplicate?: boolean }) {
+    setNotice(data.duplicate ? `Already in the knowledge base as “${data.source.title}”` : null);
+  }
 
   async function handleUpload(form: HTMLFormElement) {
     setError(null);
@@ -34,7 +60,9 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
     try {
       const formData = new FormData(form);
       const res = await fetch("/api/sources/upload", { method: "POST", body: formData });
-      if (!res.ok) throw new Error((await res.json()).error ?? "Upload failed");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Upload failed");
+      noteDuplicate(data);
       form.reset();
       router.refresh();
     } catch (e) {
@@ -55,7 +83,9 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
         headers: { "content-type": "application/json" },
         body: JSON.stringify({ title, contentText })
       });
-      if (!res.ok) throw new Error((await res.json()).error ?? "Save failed");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Save failed");
+      noteDuplicate(data);
       form.reset();
       router.refresh();
     } catch (e) {
@@ -75,7 +105,9 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
         headers: { "content-type": "application/json" },
         body: JSON.stringify({ url, type: "ORG_URL" })
       });
-      if (!res.ok) throw new Error((await res.json()).error ?? "Fetch failed");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Fetch failed");
+      noteDuplicate(data);
       form.reset();
       router.refresh();
     } catch (e) {
@@ -85,6 +117,90 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
     }
   }
 
+  async function handleEdit(id: string) {
+    setError(null);
+    setNotice(null);
+    setBusy(`edit:${id}`);
+    try {
+      const res = await fetch(`/api/sources/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to load source");
+      const source = data.source as KnowledgeSource;
+      setDraft({
+        id,
+        title: source.title,
+        url: source.url ?? "",
+        contentText: source.contentText,
+        tags: source.tags.join(", "),
+        collections: source.collections.join(", ")
+      });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load source");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleSave(source: KnowledgeSourceMeta) {
+    if (!draft) return;
+    setError(null);
+    setBusy(`save:${source.id}`);
+    try {
+      const res = await fetch(`/api/sources/${source.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          title: draft.title,
+          contentText: draft.contentText,
+          tags: splitList(draft.tags),
+          collections: splitList(draft.collections),
+          ...(isUrlSource(source.type) ? { url: draft.url } : {})
+        })
+      });
+      if (!res.ok) throw new Error((await res.json()).error ?? "Save failed");
+      setDraft(null);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleRefresh(id: string) {
+    setError(null);
+    setNotice(null);
+    setBusy(`refresh:${id}`);
+    try {
+      const res = await fetch(`/api/sources/${id}/refresh`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Refresh failed");
+      setNotice(data.changed ? `Updated “${data.source.title}” from its URL` : `“${data.source.title}” hasn't changed`);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Refresh failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleDelete(source: KnowledgeSourceMeta) {
+    if (!confirm(`Delete “${source.title}” from the knowledge base?`)) return;
+    setError(null);
+    setNotice(null);
+    setBusy(`delete:${source.id}`);
+    try {
+      const res = await fetch(`/api/sources/${source.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error ?? "Delete failed");
+      if (draft?.id === source.id) setDraft(null);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
   return (
     <div className="grid gap-6">
       <header>
@@ -97,6 +213,7 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
       {error ? (
         <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div>
       ) : null}
+      {notice ? <div className="wb-card p-4 text-sm text-yellow-400">{notice}</div> : null}
 
       <div className="grid gap-4">
         <div className="wb-card overflow-hidden p-5">
@@ -157,24 +274,90 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
 
       <section className="grid gap-3">
         <div className="flex items-end justify-between gap-3">
-          <h2 className="text-lg font-semibold">Sources ({sources.length})</h2>
+          <h2 className="text-lg font-semibold">
+            Sources ({sources.length === initialSources.length ? sources.length : `${sources.length} of ${initialSources.length}`})
+          </h2>
           <div className="text-xs text-[var(--wb-muted)]">
             Tip: keep sources focused; quality beats quantity.
           </div>
         </div>
 
+        {labels.collections.length || labels.tags.length ? (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {labels.collections.length ? (
+              <select className="wb-input text-xs" value={collection} onChange={(e) => setCollection(e.target.value)}>
+                <option value="">All collections</option>
+                {labels.collections.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+            {labels.tags.map((t) => {
+              const active = tagFilter.includes(t);
+              return (
+                <button
+                  key={t}
+                  className={`rounded border px-2 py-1 ${
+                    active ? "border-[var(--wb-accent)] text-[var(--wb-accent)]" : "border-[var(--wb-border)] text-[var(--wb-muted)]"
+                  }`}
+                  onClick={() => setTagFilter((prev) => (active ? prev.filter((x) => x !== t) : [...prev, t]))}
+                >
+                  #{t}
+                </button>
+              );
+            })}
+            {collection || tagFilter.length ? (
+              <button
+                className="wb-link"
+                onClick={() => {
+                  setCollection("");
+                  setTagFilter([]);
+                }}
+              >
+                Clear
+              </button>
+            ) : null}
+          </div>
+        ) : null}
+
         {sources.length === 0 ? (
-          <div className="wb-card p-6 text-[var(--wb-muted)]">No sources yet.</div>
+          <div className="wb-card p-6 text-[var(--wb-muted)]">
+            {initialSources.length === 0 ? "No sources yet." : "No sources match this filter."}
+          </div>
         ) : (
           sources.map((s) => (
-            <div key={s.id} className="wb-card p-5">
+            <div key={s.id} id={`source-${s.id}`} className="wb-card scroll-mt-24 p-5">
               <div className="flex flex-wrap items-start justify-between gap-3">
                 <div className="min-w-0">
                   <div className="truncate text-sm font-semibold">{s.title}</div>
                   <div className="mt-1 text-xs text-[var(--wb-muted)]">
                     {badge(s.type)} · {s.wordCount.toLocaleString()} words ·{" "}
                     {new Date(s.createdAt).toLocaleString()}
+                    {s.updatedAt ? <> · Edited {new Date(s.updatedAt).toLocaleString()}</> : null}
+                    {s.refreshedAt ? (
+                      <>
+                        {" "}
+                        · Refreshed {new Date(s.refreshedAt).toLocaleString()} ·{" "}
+                        {s.refreshChanged ? "changed" : "unchanged"}
+                      </>
+                    ) : null}
                   </div>
+                  {s.collections.length || s.tags.length ? (
+                    <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                      {s.collections.map((c) => (
+                        <span key={c} className="rounded border border-[var(--wb-border)] px-2 py-0.5">
+                          {c}
+                        </span>
+                      ))}
+                      {s.tags.map((t) => (
+                        <span key={t} className="text-[var(--wb-muted)]">
+                          #{t}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
                   {s.url ? (
                     <div className="mt-2 truncate text-xs">
                       <a className="wb-link" href={s.url} rel="noreferrer" target="_blank">
@@ -183,8 +366,83 @@ export default function KnowledgeBaseClient({ initialSources }: Props) {
                     </div>
                   ) : null}
                 </div>
-                <div className="text-xs text-[var(--wb-muted)]">sha256: {s.sha256.slice(0, 10)}…</div>
+                <div className="grid justify-items-end gap-2">
+                  <div className="text-xs text-[var(--wb-muted)]">sha256: {s.sha256.slice(0, 10)}…</div>
+                  <div className="flex gap-2">
+                    <button
+                      className="wb-button text-xs"
+                      disabled={busy !== null || draft?.id === s.id}
+                      onClick={() => void handleEdit(s.id)}
+                    >
+                      {busy === `edit:${s.id}` ? "Loading…" : "Edit"}
+                    </button>
+                    {isUrlSource(s.type) && s.url ? (
+                      <button
+                        className="wb-button text-xs"
+                        disabled={busy !== null}
+                        onClick={() => void handleRefresh(s.id)}
+                      >
+                        {busy === `refresh:${s.id}` ? "Refreshing…" : "Refresh"}
+                      </button>
+                    ) : null}
+                    <button className="wb-button text-xs" disabled={busy !== null} onClick={() => void handleDelete(s)}>
+                      {busy === `delete:${s.id}` ? "Deleting…" : "Delete"}
+                    </button>
+                  </div>
+                </div>
               </div>
+
+              {draft?.id === s.id ? (
+                <form
+                  className="mt-4 grid gap-3 border-t border-[var(--wb-border)] pt-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    void handleSave(s);
+                  }}
+                >
+                  <input
+                    className="wb-input w-full"
+                    value={draft.title}
+                    onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                    placeholder="Title"
+                  />
+                  {isUrlSource(s.type) ? (
+                    <input
+                      className="wb-input w-full"
+                      value={draft.url}
+                      onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                      placeholder="https://example.org/page"
+                    />
+                  ) : null}
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <input
+                      className="wb-input w-full"
+                      value={draft.collections}
+                      onChange={(e) => setDraft({ ...draft, collections: e.target.value })}
+                      placeholder="Collections, comma-separated (e.g. Elephant Program)"
+                    />
+                    <input
+                      className="wb-input w-full"
+                      value={draft.tags}
+                      onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                      placeholder="Tags, comma-separated"
+                    />
+                  </div>
+                  <textarea
+                    className="wb-input w-full min-h-48 font-mono text-xs"
+                    value={draft.contentText}
+                    onChange={(e) => setDraft({ ...draft, contentText: e.target.value })}
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button className="wb-button text-sm" type="button" onClick={() => setDraft(null)}>
+                      Cancel
+                    </button>
+                    <button className="wb-button text-sm" disabled={busy !== null} type="submit">
+                      {busy === `save:${s.id}` ? "Saving…" : "Save"}
+                    </button>
+                  </div>
+                </form>
+              ) : null}
             </div>
           ))
         )}
@@ -1,19 +1,47 @@
 import Link from "next/link";
 import { redirect } from "next/navigation";
-import { requireAdmin } from "@/lib/auth/server";
+import Container from "@/components/Container";
+import { requireRole } from "@/lib/auth/server";
+import { hasRole, ROLE_LABELS } from "@/lib/auth/roles";
 import { getOrgProfile } from "@/lib/storage/org";
+import { getCurrentWorkspaceId } from "@/lib/storage/currentWorkspace";
+import { listWorkspaces } from "@/lib/storage/workspaces";
 
 export const dynamic = "force-dynamic";
 
 export default async function DashboardLayout({ children }: { children: React.ReactNode }) {
-  await requireAdmin();
+  const user = await requireRole("viewer");
   const org = await getOrgProfile();
-  if (!org.onboardingCompletedAt) redirect("/onboarding");
+  const [workspaces, workspaceId] = await Promise.all([listWorkspaces(), getCurrentWorkspaceId()]);
+  const isAdmin = hasRole(user, "admin");
+  if (!org.onboardingCompletedAt && isAdmin) redirect("/onboarding");
 
   return (
     <div className="md:pl-[280px]">
       <aside className="wb-card fixed left-4 top-24 z-10 hidden h-fit w-[260px] p-5 md:block">
         <div className="text-xs uppercase tracking-wide text-[var(--wb-muted)]">Dashboard</div>
+        <div className="mt-1 truncate text-sm">
+          {user.name} · <span className="text-[var(--wb-muted)]">{ROLE_LABELS[user.role]}</span>
+        </div>
+        {workspaces.length > 1 ? (
+          <form action="/api/workspaces/select" method="post" className="mt-3 flex gap-2">
+            <select
+              className="wb-input min-w-0 flex-1"
+              name="workspaceId"
+              defaultValue={workspaceId}
+              aria-label="Workspace"
+            >
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.name}
+                </option>
+              ))}
+            </select>
+            <button className="wb-button" type="submit">
+              Switch
+            </button>
+          </form>
+        ) : null}
         <div className="mt-3 grid gap-2 text-sm">
           <Link className="wb-button text-center" href="/dashboard">
             Overview
@@ -30,15 +58,55 @@ export default async function DashboardLayout({ children }: { children: React.Re
           <Link className="wb-button text-center" href="/dashboard/posts">
             Posts
           </Link>
-          <Link className="wb-button text-center" href="/dashboard/settings">
-            Org settings
+          <Link className="wb-button text-center" href="/dashboard/media">
+            Media
+          </Link>
+          <Link className="wb-button text-center" href="/dashboard/reviews">
+            Review queue
+          </Link>
+          <Link className="wb-button text-center" href="/dashboard/audit">
+            Audit log
           </Link>
+          {isAdmin ? (
+            <>
+              <Link className="wb-button text-center" href="/dashboard/settings">
+                Org settings
+              </Link>
+              <Link className="wb-button text-center" href="/dashboard/users">
+                Users
+              </Link>
+              <Link className="wb-button text-center" href="/dashboard/workspaces">
+                Workspaces
+              </Link>
+            </>
+          ) : null}
           <Link className="wb-button text-center" href="/logout">
             Log out
           </Link>
         </div>
       </aside>
-      <main className="min-w-0">{children}</main>
+      <main className="min-w-0">
+        {org.onboardingCompletedAt ? (
+          <>
+            <form action="/dashboard/search" className="mb-6 flex justify-end" role="search">
+              <input
+                className="wb-input w-full md:w-80"
+                name="q"
+                type="search"
+                placeholder="Search posts, sources and articles…"
+                aria-label="Search"
+              />
+            </form>
+            {children}
+          </>
+        ) : (
+          <Container>
+            <div className="wb-card p-8 text-[var(--wb-muted)]">
+              This workspace hasn’t been set up yet. Ask an admin to complete onboarding.
+            </div>
+          </Container>
+        )}
+      </main>
     </div>
   );
 }
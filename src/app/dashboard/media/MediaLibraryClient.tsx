@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { mediaFileUrl, mediaSrcSet, pickRendition } from "@/lib/media/urls";
+import type { MediaAsset } from "@/lib/storage/types";
+
+type Props = {
+  initialMedia: MediaAsset[];
+  // The workspace's public site, which serves the renditions
+  sitePath: string;
+  canWrite: boolean;
+  canDelete: boolean;
+};
+
+type Draft = { id: string; alt: string; caption: string; credit: string; license: string };
+
+function formatBytes(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function MediaLibraryClient({ initialMedia, sitePath, canWrite, canDelete }: Props) {
+  const router = useRouter();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  async function handleUpload(form: HTMLFormElement) {
+    setError(null);
+    setBusy("upload");
+    try {
+      const res = await fetch("/api/media", { method: "POST", body: new FormData(form) });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Upload failed");
+      form.reset();
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Upload failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+    setError(null);
+    setBusy(`save:${draft.id}`);
+    try {
+      const { id, ...details } = draft;
+      const res = await fetch(`/api/media/${id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(details)
+      });
+      if (!res.ok) throw new Error((await res.json()).error ?? "Save failed");
+      setDraft(null);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleDelete(asset: MediaAsset) {
+    if (!confirm(`Delete “${asset.filename}” from the media library?`)) return;
+    setError(null);
+    setBusy(`delete:${asset.id}`);
+    try {
+      const res = await fetch(`/api/media/${asset.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error((await res.json()).error ?? "Delete failed");
+      if (draft?.id === asset.id) setDraft(null);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="grid gap-6">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Media library</h1>
+        <p className="mt-2 text-[var(--wb-muted)]">
+          Photos for featured images. Each upload is resized to WebP renditions; the file as uploaded, with its camera
+          metadata, is never published.
+        </p>
+      </header>
+
+      {error ? <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div> : null}
+
+      {canWrite ? (
+        <div className="wb-card overflow-hidden p-5">
+          <div className="text-sm font-semibold">Upload</div>
+          <form
+            className="mt-3 grid gap-3 md:grid-cols-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleUpload(e.currentTarget);
+            }}
+          >
+            <input
+              className="wb-input w-full text-sm file:mr-3 file:rounded file:border-0 file:bg-[var(--wb-accent)] file:px-3 file:py-1 file:text-sm file:text-white md:col-span-2"
+              name="file"
+              type="file"
+              accept="image/jpeg,image/png,image/webp,image/gif,image/avif"
+            />
+            <input
+              className="wb-input w-full md:col-span-2"
+              name="alt"
+              required
+              placeholder="Alt text: what the image shows, for readers who can't see it"
+            />
+            <input className="wb-input w-full md:col-span-2" name="caption" placeholder="Caption (optional)" />
+            <input className="wb-input w-full" name="credit" placeholder="Credit, e.g. photographer (optional)" />
+            <input className="wb-input w-full" name="license" placeholder="Licence, e.g. CC BY 4.0 (optional)" />
+            <button className="wb-button w-full md:col-span-2" disabled={busy === "upload"} type="submit">
+              {busy === "upload" ? "Uploading…" : "Upload"}
+            </button>
+            <div className="text-xs text-[var(--wb-muted)] md:col-span-2">
+              JPEG, PNG, WebP, GIF or AVIF, up to 15MB.
+            </div>
+          </form>
+        </div>
+      ) : null}
+
+      <section className="grid gap-3">
+        <h2 className="text-lg font-semibold">Images ({initialMedia.length})</h2>
+
+        {initialMedia.length === 0 ? (
+          <div className="wb-card p-6 text-[var(--wb-muted)]">No images yet.</div>
+        ) : (
+          <div className="grid gap-3 md:grid-cols-2">
+            {initialMedia.map((m) => {
+              const thumb = pickRendition(m, 640);
+              return (
+                <div key={m.id} className="wb-card overflow-hidden">
+                  {thumb ? (
+                    <img
+                      className="aspect-video w-full object-cover"
+                      src={mediaFileUrl(sitePath, m.id, thumb)}
+                      srcSet={mediaSrcSet(sitePath, m)}
+                      sizes="(min-width: 768px) 50vw, 100vw"
+                      alt={m.alt}
+                    />
+                  ) : null}
+                  <div className="grid gap-2 p-4">
+                    <div className="truncate text-sm font-semibold">{m.filename}</div>
+                    <div className="text-xs text-[var(--wb-muted)]">
+                      {m.original.width}×{m.original.height} · {formatBytes(m.original.bytes)} ·{" "}
+                      {new Date(m.createdAt).toLocaleString()}
+                      {m.createdBy ? <> · {m.createdBy}</> : null}
+                    </div>
+
+                    {draft?.id === m.id ? (
+                      <form
+                        className="grid gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          void handleSave();
+                        }}
+                      >
+                        <input
+                          className="wb-input w-full"
+                          required
+                          value={draft.alt}
+                          onChange={(e) => setDraft({ ...draft, alt: e.target.value })}
+                          placeholder="Alt text"
+                        />
+                        <input
+                          className="wb-input w-full"
+                          value={draft.caption}
+                          onChange={(e) => setDraft({ ...draft, caption: e.target.value })}
+                          placeholder="Caption"
+                        />
+                        <div className="grid gap-2 md:grid-cols-2">
+                          <input
+                            className="wb-input w-full"
+                            value={draft.credit}
+                            onChange={(e) => setDraft({ ...draft, credit: e.target.value })}
+                            placeholder="Credit"
+                          />
+                          <input
+                            className="wb-input w-full"
+                            value={draft.license}
+                            onChange={(e) => setDraft({ ...draft, license: e.target.value })}
+                            placeholder="Licence"
+                          />
+                        </div>
+                        <div className="flex justify-end gap-2">
+                          <button className="wb-button text-xs" type="button" onClick={() => setDraft(null)}>
+                            Cancel
+                          </button>
+                          <button className="wb-button text-xs" disabled={busy !== null} type="submit">
+                            {busy === `save:${m.id}` ? "Saving…" : "Save"}
+                          </button>
+                        </div>
+                      </form>
+                    ) : (
+                      <>
+                        <div className="text-sm">{m.alt}</div>
+                        {m.caption ? <div className="text-xs text-[var(--wb-muted)]">{m.caption}</div> : null}
+                        {m.credit || m.license ? (
+                          <div className="text-xs text-[var(--wb-muted)]">
+                            {[m.credit, m.license].filter(Boolean).join(" · ")}
+                          </div>
+                        ) : null}
+                        <div className="flex justify-end gap-2">
+                          {canWrite ? (
+                            <button
+                              className="wb-button text-xs"
+                              disabled={busy !== null}
+                              onClick={() =>
+                                setDraft({
+                                  id: m.id,
+                                  alt: m.alt,
+                                  caption: m.caption ?? "",
+                                  credit: m.credit ?? "",
+                                  license: m.license ?? ""
+                                })
+                              }
+                            >
+                              Edit
+                            </button>
+                          ) : null}
+                          {canDelete ? (
+                            <button
+                              className="wb-button text-xs"
+                              disabled={busy !== null}
+                              onClick={() => void handleDelete(m)}
+                            >
+                              {busy === `delete:${m.id}` ? "Deleting…" : "Delete"}
+                            </button>
+                          ) : null}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import MediaLibraryClient from "@/app/dashboard/media/MediaLibraryClient";
+import { hasRole } from "@/lib/auth/roles";
+import { requireRole } from "@/lib/auth/server";
+import { workspaceBasePath } from "@/lib/site";
+import { listMedia } from "@/lib/storage/media";
+import { getCurrentWorkspace } from "@/lib/storage/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export default async function MediaLibraryPage() {
+  const user = await requireRole("viewer");
+  const media = await listMedia();
+  const workspace = await getCurrentWorkspace();
+
+  return (
+    <MediaLibraryClient
+      initialMedia={media}
+      sitePath={workspace ? workspaceBasePath(workspace) : ""}
+      canWrite={hasRole(user, "writer")}
+      canDelete={hasRole(user, "editor")}
+    />
+  );
+}
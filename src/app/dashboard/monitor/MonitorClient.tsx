@@ -24,15 +24,16 @@ function timeAgo(dateStr: string): string {
   return `${days}d ago`;
 }
 
+// Scores run from 0 to 1
 function relevanceColor(score: number): string {
-  if (score >= 75) return "text-green-400";
-  if (score >= 40) return "text-yellow-400";
+  if (score >= 0.75) return "text-green-400";
+  if (score >= 0.4) return "text-yellow-400";
   return "text-gray-400";
 }
 
 function relevanceIcon(score: number): string {
-  if (score >= 75) return "●";
-  if (score >= 40) return "●";
+  if (score >= 0.75) return "●";
+  if (score >= 0.4) return "●";
   return "○";
 }
 
@@ -158,7 +159,7 @@ export default function MonitorClient({ initialSources, initialArticles }: Props
   // Filter articles
   const filteredArticles = articles.filter((a) => {
     if (filter === "all") return true;
-    if (filter === "high") return a.relevanceScore >= 60;
+    if (filter === "high") return a.relevanceScore >= 0.6;
     return a.sourceId === filter;
   });
 
@@ -298,7 +299,7 @@ export default function MonitorClient({ initialSources, initialArticles }: Props
                         className="text-sm font-semibold hover:underline"
                       >
                         <span className={relevanceColor(article.relevanceScore)}>
-                          {article.relevanceScore}%
+                          {Math.round(article.relevanceScore * 100)}%
                         </span>{" "}
                         {article.title}
                       </a>
@@ -1,18 +1,43 @@
+import Link from "next/link";
 import Container from "@/components/Container";
+import { requireRole } from "@/lib/auth/server";
+import { ROLE_LABELS } from "@/lib/auth/roles";
+import { getReviewQueue } from "@/lib/review/queue";
 import { getOrgProfile } from "@/lib/storage/org";
 
 export const dynamic = "force-dynamic";
 
-export default async function DashboardHomePage() {
+export default async function DashboardHomePage({
+  searchParams
+}: {
+  searchParams: Promise<{ forbidden?: string }>;
+}) {
+  const user = await requireRole("viewer");
   const org = await getOrgProfile();
+  const { forbidden } = await searchParams;
+  const { items } = await getReviewQueue();
+  const waitingOnMe = items.filter((i) => i.waitingOnId === user.id).length;
 
   return (
     <Container>
+      {forbidden ? (
+        <div className="wb-card mb-4 border-red-400/30 p-4 text-sm text-red-200">
+          Your role doesn’t have access to that page.
+        </div>
+      ) : null}
       <div className="wb-card p-8">
-        <div className="text-sm text-[var(--wb-muted)]">Signed in as admin</div>
+        <div className="text-sm text-[var(--wb-muted)]">
+          Signed in as {user.name} ({ROLE_LABELS[user.role]})
+        </div>
         <h1 className="mt-2 text-3xl font-bold tracking-tight">{org.name}</h1>
         <p className="mt-3 max-w-2xl text-[var(--wb-muted)]">{org.tagline}</p>
 
+        {items.length > 0 ? (
+          <Link className="wb-button mt-6 inline-block" href="/dashboard/reviews">
+            Review queue: {items.length} in progress · {waitingOnMe} waiting on you
+          </Link>
+        ) : null}
+
         <div className="mt-8 grid gap-4 md:grid-cols-3">
           <div className="wb-card p-5">
             <div className="text-sm font-semibold">1) Add context</div>
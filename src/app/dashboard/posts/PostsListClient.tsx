@@ -3,17 +3,34 @@
 import Link from "next/link";
 import { useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import { reviewWaitingOn } from "@/lib/review/waiting";
 import type { BlogPostMeta } from "@/lib/storage/types";
 
-export default function PostsListClient({ initialPosts }: { initialPosts: BlogPostMeta[] }) {
+export default function PostsListClient({
+  initialPosts,
+  canPublish,
+  canWrite,
+  blogPath
+}: {
+  initialPosts: BlogPostMeta[];
+  canPublish: boolean;
+  canWrite: boolean;
+  // Public blog of the current workspace
+  blogPath: string;
+}) {
   const router = useRouter();
   const [busyId, setBusyId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const { drafts, published } = useMemo(() => {
+  const { drafts, inReview, scheduled, published, archived } = useMemo(() => {
     const drafts = initialPosts.filter((p) => p.status === "DRAFT");
+    const inReview = initialPosts.filter((p) => p.status === "IN_REVIEW");
+    const scheduled = initialPosts
+      .filter((p) => p.status === "SCHEDULED")
+      .sort((a, b) => (a.scheduledFor ?? "").localeCompare(b.scheduledFor ?? ""));
     const published = initialPosts.filter((p) => p.status === "PUBLISHED");
-    return { drafts, published };
+    const archived = initialPosts.filter((p) => p.status === "ARCHIVED");
+    return { drafts, inReview, scheduled, published, archived };
   }, [initialPosts]);
 
   async function publish(id: string) {
@@ -35,6 +52,64 @@ export default function PostsListClient({ initialPosts }: { initialPosts: BlogPo
     }
   }
 
+  async function unschedule(id: string) {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch("/api/posts/schedule", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id, scheduledFor: null })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Unschedule failed");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Unschedule failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function changeStatus(id: string, action: "unpublish" | "archive") {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${action}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ id })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? `${action === "archive" ? "Archive" : "Unpublish"} failed`);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Update failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function remove(post: BlogPostMeta) {
+    const ok = confirm(
+      `Permanently delete "${post.title}"? This removes the post and its revision history and cannot be undone.`
+    );
+    if (!ok) return;
+
+    setBusyId(post.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${post.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Delete failed");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
   return (
     <div className="grid gap-6">
       <header className="flex flex-wrap items-start justify-between gap-3">
@@ -42,9 +117,11 @@ export default function PostsListClient({ initialPosts }: { initialPosts: BlogPo
           <h1 className="text-2xl font-bold tracking-tight">Posts</h1>
           <p className="mt-2 text-[var(--wb-muted)]">Generate drafts, edit, then publish to `/blog`.</p>
         </div>
-        <Link className="wb-button" href="/dashboard/posts/new">
-          New post
-        </Link>
+        {canWrite ? (
+          <Link className="wb-button" href="/dashboard/posts/new">
+            New post
+          </Link>
+        ) : null}
       </header>
 
       {error ? (
@@ -63,15 +140,97 @@ export default function PostsListClient({ initialPosts }: { initialPosts: BlogPo
                   <div className="truncate text-sm font-semibold">{p.title}</div>
                   <div className="mt-1 text-xs text-[var(--wb-muted)]">
                     Updated {new Date(p.updatedAt).toLocaleString()}
+                    {p.updatedBy ? ` by ${p.updatedBy}` : ""}
+                    {p.review?.state === "changes_requested"
+                      ? ` · changes requested by ${p.review.decidedBy ?? "an editor"}`
+                      : ""}
                   </div>
                 </div>
                 <div className="flex flex-wrap gap-2">
                   <Link className="wb-button" href={`/dashboard/posts/${p.id}`}>
                     Edit
                   </Link>
-                  <button className="wb-button" disabled={busyId === p.id} onClick={() => void publish(p.id)}>
-                    {busyId === p.id ? "Publishing…" : "Publish"}
-                  </button>
+                  {canPublish ? (
+                    <>
+                      {p.review?.state === "approved" ? (
+                        <button className="wb-button" disabled={busyId === p.id} onClick={() => void publish(p.id)}>
+                          {busyId === p.id ? "Publishing…" : "Publish"}
+                        </button>
+                      ) : null}
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void changeStatus(p.id, "archive")}>
+                        Archive
+                      </button>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void remove(p)}>
+                        Delete
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="grid gap-3">
+        <h2 className="text-lg font-semibold">In review ({inReview.length})</h2>
+        {inReview.length === 0 ? (
+          <div className="wb-card p-6 text-[var(--wb-muted)]">Nothing waiting on review.</div>
+        ) : (
+          inReview.map((p) => (
+            <div key={p.id} className="wb-card p-5">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-semibold">{p.title}</div>
+                  <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                    {p.review?.state === "approved" ? "Approved" : "Awaiting review"}
+                    {` · waiting on ${reviewWaitingOn(p)?.name ?? "any editor"}`}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Link className="wb-button" href={`/dashboard/posts/${p.id}`}>
+                    {canPublish && p.review?.state === "pending" ? "Review" : "Open"}
+                  </Link>
+                  {canPublish && p.review?.state === "approved" ? (
+                    <button className="wb-button" disabled={busyId === p.id} onClick={() => void publish(p.id)}>
+                      {busyId === p.id ? "Publishing…" : "Publish"}
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="grid gap-3">
+        <h2 className="text-lg font-semibold">Scheduled ({scheduled.length})</h2>
+        {scheduled.length === 0 ? (
+          <div className="wb-card p-6 text-[var(--wb-muted)]">Nothing scheduled.</div>
+        ) : (
+          scheduled.map((p) => (
+            <div key={p.id} className="wb-card p-5">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-semibold">{p.title}</div>
+                  <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                    Publishes {p.scheduledFor ? new Date(p.scheduledFor).toLocaleString() : "—"}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Link className="wb-button" href={`/dashboard/posts/${p.id}`}>
+                    Edit
+                  </Link>
+                  {canPublish ? (
+                    <>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void unschedule(p.id)}>
+                        Unschedule
+                      </button>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void publish(p.id)}>
+                        {busyId === p.id ? "Publishing…" : "Publish now"}
+                      </button>
+                    </>
+                  ) : null}
                 </div>
               </div>
             </div>
@@ -97,9 +256,55 @@ export default function PostsListClient({ initialPosts }: { initialPosts: BlogPo
                   <Link className="wb-button" href={`/dashboard/posts/${p.id}`}>
                     Edit
                   </Link>
-                  <Link className="wb-button" href={`/blog/${p.slug}`} target="_blank" rel="noreferrer">
+                  <Link className="wb-button" href={`${blogPath}/${p.slug}`} target="_blank" rel="noreferrer">
                     View
                   </Link>
+                  {canPublish ? (
+                    <>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void changeStatus(p.id, "unpublish")}>
+                        Unpublish
+                      </button>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void changeStatus(p.id, "archive")}>
+                        Archive
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </section>
+
+      <section className="grid gap-3">
+        <h2 className="text-lg font-semibold">Archived ({archived.length})</h2>
+        {archived.length === 0 ? (
+          <div className="wb-card p-6 text-[var(--wb-muted)]">No archived posts.</div>
+        ) : (
+          archived.map((p) => (
+            <div key={p.id} className="wb-card p-5">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="truncate text-sm font-semibold">{p.title}</div>
+                  <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                    Archived {new Date(p.updatedAt).toLocaleString()}
+                    {p.publishedAt ? ` · first published ${new Date(p.publishedAt).toLocaleDateString()}` : ""}
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Link className="wb-button" href={`/dashboard/posts/${p.id}`}>
+                    Edit
+                  </Link>
+                  {canPublish ? (
+                    <>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void changeStatus(p.id, "unpublish")}>
+                        Restore to drafts
+                      </button>
+                      <button className="wb-button" disabled={busyId === p.id} onClick={() => void remove(p)}>
+                        {busyId === p.id ? "Working…" : "Delete"}
+                      </button>
+                    </>
+                  ) : null}
                 </div>
               </div>
             </div>
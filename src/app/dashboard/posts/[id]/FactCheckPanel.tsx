@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import type { FactCheckReport, FactVerdict } from "@/lib/fact-check/lexical";
+
+const VERDICT_STYLES: Record<FactVerdict, { label: string; className: string }> = {
+  supported: { label: "Supported", className: "text-green-400" },
+  contradicted: { label: "Contradicted", className: "text-red-300" },
+  unsupported: { label: "Unsupported", className: "text-yellow-400" }
+};
+
+export default function FactCheckPanel({ postId, contentMarkdown }: { postId: string; contentMarkdown: string }) {
+  const [report, setReport] = useState<FactCheckReport | null>(null);
+  const [checkedContent, setCheckedContent] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSupported, setShowSupported] = useState(false);
+
+  async function verify() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${postId}/fact-check`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ contentMarkdown })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Fact-check failed");
+      setReport(data.report);
+      setCheckedContent(contentMarkdown);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Fact-check failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const counts = { supported: 0, contradicted: 0, unsupported: 0 };
+  for (const r of report?.results ?? []) counts[r.verdict]++;
+  // Problems first, then supported claims if asked for
+  const shown = (report?.results ?? [])
+    .filter((r) => showSupported || r.verdict !== "supported")
+    .sort((a, b) => (a.verdict === "contradicted" ? 0 : 1) - (b.verdict === "contradicted" ? 0 : 1));
+
+  return (
+    <div className="wb-card p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold">Fact check</div>
+          <div className="mt-1 text-xs text-[var(--wb-muted)]">
+            {report
+              ? `${report.results.length} claims checked against ${report.sourceCount} sources with ${
+                  report.provider ?? "the lexical matcher"
+                } · ${counts.supported} supported · ${counts.contradicted} contradicted · ${counts.unsupported} unsupported`
+              : "Checks numbers, dates, counts and IUCN statuses against the knowledge base."}
+          </div>
+          {report && checkedContent !== contentMarkdown ? (
+            <div className="mt-1 text-xs text-yellow-400">The content changed since this check.</div>
+          ) : null}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {report && counts.supported > 0 ? (
+            <button className="wb-button text-sm" onClick={() => setShowSupported(!showSupported)}>
+              {showSupported ? "Hide supported" : "Show supported"}
+            </button>
+          ) : null}
+          <button className="wb-button text-sm" disabled={busy} onClick={() => void verify()}>
+            {busy ? "Verifying…" : report ? "Verify again" : "Verify facts"}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="mt-3 text-xs text-red-300">{error}</div> : null}
+
+      {report ? (
+        <div className="mt-4 grid gap-3">
+          {report.results.length === 0 ? (
+            <div className="text-xs text-[var(--wb-muted)]">No factual claims found.</div>
+          ) : shown.length === 0 ? (
+            <div className="text-xs text-[var(--wb-muted)]">Every claim is supported by a source.</div>
+          ) : (
+            shown.map((r) => (
+              <div key={r.claimId} className="border-l-2 border-[var(--wb-border)] pl-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className={`font-semibold ${VERDICT_STYLES[r.verdict].className}`}>
+                    {VERDICT_STYLES[r.verdict].label}
+                  </span>
+                  <span className="text-[var(--wb-muted)]">{r.sectionTitle}</span>
+                </div>
+                <div className="mt-1">{r.claim}</div>
+                <div className="mt-1 text-xs text-[var(--wb-muted)]">{r.note}</div>
+                {r.passage ? (
+                  <div className="mt-1 text-xs italic text-[var(--wb-muted)]">
+                    “{r.passage.text}” —{" "}
+                    {r.passage.sourceUrl ? (
+                      <a className="underline" href={r.passage.sourceUrl} target="_blank" rel="noreferrer">
+                        {r.passage.sourceTitle}
+                      </a>
+                    ) : (
+                      r.passage.sourceTitle
+                    )}
+                  </div>
+                ) : null}
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { insertInternalLink, type LinkSuggestion } from "@/lib/content-quality/related";
+import type { BlogPost } from "@/lib/storage/types";
+
+export default function LinkSuggestionsPanel({
+  post,
+  blogPath,
+  onInsert
+}: {
+  post: Pick<BlogPost, "id" | "title" | "summary" | "keywords" | "contentMarkdown">;
+  // Public blog of the current workspace, which link targets are under
+  blogPath: string;
+  onInsert: (contentMarkdown: string) => void;
+}) {
+  const [suggestions, setSuggestions] = useState<LinkSuggestion[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function suggest() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${post.id}/link-suggestions`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          title: post.title,
+          summary: post.summary,
+          keywords: post.keywords,
+          contentMarkdown: post.contentMarkdown
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Link suggestions failed");
+      setSuggestions(data.suggestions);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Link suggestions failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function insert(suggestion: LinkSuggestion) {
+    const next = insertInternalLink(post.contentMarkdown, suggestion.phrase, `${blogPath}/${suggestion.slug}`);
+    if (next === null) {
+      setError(`“${suggestion.phrase}” is no longer in the text where a link can go.`);
+      return;
+    }
+    setError(null);
+    onInsert(next);
+    setSuggestions((prev) => prev?.filter((s) => s !== suggestion) ?? null);
+  }
+
+  return (
+    <div className="wb-card p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold">Internal links</div>
+          <div className="mt-1 text-xs text-[var(--wb-muted)]">
+            {suggestions
+              ? `${suggestions.length} suggestion${suggestions.length === 1 ? "" : "s"} from related published posts`
+              : "Finds phrases that could link to related published posts. Inserting one links the phrase in the content."}
+          </div>
+        </div>
+        <button className="wb-button text-sm" disabled={busy} onClick={() => void suggest()}>
+          {busy ? "Looking…" : suggestions ? "Suggest again" : "Suggest links"}
+        </button>
+      </div>
+
+      {error ? <div className="mt-3 text-xs text-red-300">{error}</div> : null}
+
+      {suggestions ? (
+        <div className="mt-4 grid gap-3">
+          {suggestions.length === 0 ? (
+            <div className="text-xs text-[var(--wb-muted)]">
+              No unlinked phrases match the keywords or tags of a related published post.
+            </div>
+          ) : (
+            suggestions.map((s) => (
+              <div
+                key={`${s.postId}:${s.phrase}`}
+                className="flex flex-wrap items-start justify-between gap-3 border-l-2 border-[var(--wb-border)] pl-3 text-sm"
+              >
+                <div className="min-w-0 flex-1">
+                  <div>
+                    Link <span className="font-semibold">“{s.phrase}”</span> to{" "}
+                    <a className="wb-link" href={`${blogPath}/${s.slug}`} target="_blank" rel="noreferrer">
+                      {s.title}
+                    </a>
+                  </div>
+                  <div className="mt-1 text-xs italic text-[var(--wb-muted)]">…{s.context}…</div>
+                </div>
+                <button className="wb-button text-sm" onClick={() => insert(s)}>
+                  Insert link
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -4,7 +4,12 @@ import Link from "next/link";
 import { useMemo, useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import Markdown from "@/components/Markdown";
-import type { BlogPost } from "@/lib/storage/types";
+import RevisionHistory from "@/app/dashboard/posts/[id]/RevisionHistory";
+import ReviewPanel from "@/app/dashboard/posts/[id]/ReviewPanel";
+import FactCheckPanel from "@/app/dashboard/posts/[id]/FactCheckPanel";
+import LinkSuggestionsPanel from "@/app/dashboard/posts/[id]/LinkSuggestionsPanel";
+import { mediaFileUrl, pickRendition } from "@/lib/media/urls";
+import type { BlogPost, MediaAsset, User } from "@/lib/storage/types";
 import type { ReadabilityScore } from "@/lib/content-quality/readability";
 import type { SEOAnalysis } from "@/lib/content-quality/seo";
 
@@ -14,7 +19,34 @@ interface ContentQuality {
   seo: SEOAnalysis;
 }
 
-export default function PostEditorClient({ initial }: { initial: BlogPost }) {
+// ISO timestamp → value for <input type="datetime-local"> in the browser's timezone
+function toLocalInputValue(iso?: string) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+export default function PostEditorClient({
+  initial,
+  reviewers,
+  canWrite,
+  canPublish,
+  user,
+  blogPath,
+  sitePath,
+  media
+}: {
+  initial: BlogPost;
+  reviewers: { id: string; name: string }[];
+  canWrite: boolean;
+  canPublish: boolean;
+  user: Pick<User, "id" | "role">;
+  // Public blog of the current workspace
+  blogPath: string;
+  // The workspace's public site, which serves media renditions
+  sitePath: string;
+  media: MediaAsset[];
+}) {
   const router = useRouter();
   const [busy, setBusy] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -24,9 +56,17 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
   const [analyzingQuality, setAnalyzingQuality] = useState(false);
   const [qualityExpanded, setQualityExpanded] = useState(false);
   const [improving, setImproving] = useState(false);
-  const qualityTimeoutRef = useRef<NodeJS.Timeout>();
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [scheduleInput, setScheduleInput] = useState(() => toLocalInputValue(initial.scheduledFor));
+  // Which route the unsaved changes came from, recorded on the next revision
+  const [revisionSource, setRevisionSource] = useState<"manual" | "improve">("manual");
+  const qualityTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
 
   const keywordsText = useMemo(() => post.keywords.join(", "), [post.keywords]);
+  // Kept as typed until saved, when the server normalizes it
+  const [tagsText, setTagsText] = useState(() => initial.tags.join(", "));
+  const featuredImage = media.find((m) => m.id === post.featuredImageId);
+  const featuredThumb = featuredImage && pickRendition(featuredImage, 320);
 
   // Debounced content quality analysis
   useEffect(() => {
@@ -105,6 +145,7 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
         keywords: data.improved.keywords,
         contentMarkdown: data.improved.contentMarkdown
       }));
+      setRevisionSource("improve");
     } catch (e) {
       setError(e instanceof Error ? e.message : "Improvement failed");
     } finally {
@@ -125,14 +166,22 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
           subtitle: post.subtitle,
           summary: post.summary,
           keywords: post.keywords,
+          tags: tagsText
+            .split(",")
+            .map((s) => s.trim())
+            .filter(Boolean),
           seoTitle: post.seoTitle,
           seoDescription: post.seoDescription,
-          contentMarkdown: post.contentMarkdown
+          contentMarkdown: post.contentMarkdown,
+          featuredImageId: post.featuredImageId ?? "",
+          revisionSource
         })
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error ?? "Save failed");
       setPost(data.post);
+      setTagsText(data.post.tags.join(", "));
+      setRevisionSource("manual");
       router.refresh();
     } catch (e) {
       setError(e instanceof Error ? e.message : "Save failed");
@@ -161,6 +210,50 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
     }
   }
 
+  async function schedule(clear: boolean) {
+    setBusy("schedule");
+    setError(null);
+    try {
+      if (!clear && !scheduleInput) throw new Error("Pick a date and time first");
+      const res = await fetch("/api/posts/schedule", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          id: post.id,
+          scheduledFor: clear ? null : new Date(scheduleInput).toISOString()
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Schedule failed");
+      setPost(data.post);
+      setScheduleInput(toLocalInputValue(data.post.scheduledFor));
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Schedule failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const statusLabel =
+    post.status === "PUBLISHED"
+      ? "Published"
+      : post.status === "SCHEDULED" && post.scheduledFor
+        ? `Scheduled for ${new Date(post.scheduledFor).toLocaleString()}`
+        : post.status === "ARCHIVED"
+          ? "Archived"
+          : post.status === "IN_REVIEW"
+            ? post.review?.state === "approved"
+              ? "Approved"
+              : "In review"
+            : post.review?.state === "changes_requested"
+              ? "Draft · changes requested"
+              : "Draft";
+  // The server re-checks that the approval covers the latest save
+  const approved = post.review?.state === "approved";
+  // Changes to a live post skip review, so only editors may save them
+  const canSave = canWrite && (post.status !== "PUBLISHED" || canPublish);
+
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-green-400";
     if (score >= 60) return "text-yellow-400";
@@ -172,15 +265,30 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
       <header className="flex flex-wrap items-start justify-between gap-3">
         <div>
           <div className="text-xs uppercase tracking-wide text-[var(--wb-muted)]">
-            {post.status === "PUBLISHED" ? "Published" : "Draft"} · Updated {new Date(post.updatedAt).toLocaleString()}
+            {statusLabel} · Updated {new Date(post.updatedAt).toLocaleString()}
+            {post.updatedBy ? ` by ${post.updatedBy}` : ""}
           </div>
           <h1 className="mt-2 text-2xl font-bold tracking-tight">{post.title}</h1>
+          {post.generation ? (
+            <div
+              className="mt-1 text-xs text-[var(--wb-muted)]"
+              title={post.generation.chunks.map((c) => `${c.sourceTitle} #${c.index + 1}`).join("\n")}
+            >
+              Generated from {post.generation.chunks.length} excerpts of{" "}
+              {new Set(post.generation.chunks.map((c) => c.sourceId)).size} sources ({post.generation.retrieval})
+            </div>
+          ) : null}
+          {post.generation?.incomplete ? (
+            <div className="mt-1 text-xs text-yellow-400">
+              Generation stopped early ({post.generation.incomplete}). Check the ending and the SEO fields.
+            </div>
+          ) : null}
           <div className="mt-2 flex flex-wrap gap-2">
             <Link className="wb-button" href="/dashboard/posts">
               Back to posts
             </Link>
             {post.status === "PUBLISHED" ? (
-              <Link className="wb-button" href={`/blog/${post.slug}`} target="_blank" rel="noreferrer">
+              <Link className="wb-button" href={`${blogPath}/${post.slug}`} target="_blank" rel="noreferrer">
                 View on blog
               </Link>
             ) : null}
@@ -203,14 +311,38 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
               Back to Preview
             </button>
           )}
-          <button className="wb-button" disabled={busy === "save"} onClick={() => void save()}>
-            {busy === "save" ? "Saving…" : "Save"}
+          <button className="wb-button" onClick={() => setHistoryOpen(!historyOpen)}>
+            {historyOpen ? "Hide history" : "History"}
           </button>
-          {post.status !== "PUBLISHED" ? (
+          {canSave ? (
+            <button className="wb-button" disabled={busy === "save"} onClick={() => void save()}>
+              {busy === "save" ? "Saving…" : "Save"}
+            </button>
+          ) : null}
+          {canPublish && approved && post.status !== "PUBLISHED" ? (
             <button className="wb-button" disabled={busy === "publish"} onClick={() => void publish()}>
-              {busy === "publish" ? "Publishing…" : "Publish"}
+              {busy === "publish" ? "Publishing…" : post.status === "SCHEDULED" ? "Publish now" : "Publish"}
             </button>
           ) : null}
+          {canPublish && post.status !== "PUBLISHED" && (approved || post.status === "SCHEDULED") ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="datetime-local"
+                className="wb-input"
+                value={scheduleInput}
+                min={toLocalInputValue(new Date().toISOString())}
+                onChange={(e) => setScheduleInput(e.target.value)}
+              />
+              <button className="wb-button" disabled={busy === "schedule"} onClick={() => void schedule(false)}>
+                {busy === "schedule" ? "Scheduling…" : post.status === "SCHEDULED" ? "Reschedule" : "Schedule"}
+              </button>
+              {post.status === "SCHEDULED" ? (
+                <button className="wb-button" disabled={busy === "schedule"} onClick={() => void schedule(true)}>
+                  Unschedule
+                </button>
+              ) : null}
+            </div>
+          ) : null}
         </div>
       </header>
 
@@ -218,6 +350,42 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
         <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div>
       ) : null}
 
+      <ReviewPanel
+        post={post}
+        reviewers={reviewers}
+        canWrite={canWrite}
+        canReview={canPublish}
+        user={user}
+        onChange={(next) => {
+          // Keep unsaved edits; only the workflow fields change
+          setPost((prev) => ({ ...prev, status: next.status, review: next.review, updatedAt: next.updatedAt }));
+          router.refresh();
+        }}
+      />
+
+      {canWrite ? <FactCheckPanel postId={post.id} contentMarkdown={post.contentMarkdown} /> : null}
+
+      {canWrite ? (
+        <LinkSuggestionsPanel
+          post={post}
+          blogPath={blogPath}
+          onInsert={(contentMarkdown) => setPost((p) => ({ ...p, contentMarkdown }))}
+        />
+      ) : null}
+
+      {historyOpen ? (
+        <RevisionHistory
+          postId={post.id}
+          updatedAt={post.updatedAt}
+          canRestore={canSave}
+          onRestored={(restored) => {
+            setPost(restored);
+            setRevisionSource("manual");
+            router.refresh();
+          }}
+        />
+      ) : null}
+
       {viewMode === 'preview' ? (
         <>
           {/* Content Quality Card - Always visible in preview mode */}
@@ -326,7 +494,7 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
           <div className="wb-card p-6">
             <div className="text-sm font-semibold mb-4">Preview</div>
             <div className="wb-markdown">
-              <Markdown markdown={post.contentMarkdown} />
+              <Markdown markdown={post.contentMarkdown} citations={post.citations} />
             </div>
           </div>
         </>
@@ -375,6 +543,42 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
                   }
                 />
               </div>
+              <div>
+                <label className="text-sm font-semibold">Tags (comma-separated)</label>
+                <input
+                  className="wb-input mt-2 w-full"
+                  value={tagsText}
+                  onChange={(e) => setTagsText(e.target.value)}
+                />
+                <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                  Shown on the post and browsable on the public blog, unlike keywords, which are for search engines.
+                </div>
+              </div>
+              <div>
+                <label className="text-sm font-semibold">Featured image</label>
+                <select
+                  className="wb-input mt-2 w-full"
+                  value={post.featuredImageId ?? ""}
+                  onChange={(e) => setPost((p) => ({ ...p, featuredImageId: e.target.value || undefined }))}
+                >
+                  <option value="">None</option>
+                  {media.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {m.filename} — {m.alt}
+                    </option>
+                  ))}
+                </select>
+                {featuredImage && featuredThumb ? (
+                  <img
+                    className="mt-2 max-h-40 rounded-md"
+                    src={mediaFileUrl(sitePath, featuredImage.id, featuredThumb)}
+                    alt={featuredImage.alt}
+                  />
+                ) : null}
+                <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                  Upload images in the <Link className="wb-link" href="/dashboard/media">media library</Link>.
+                </div>
+              </div>
               <div className="grid gap-4 md:grid-cols-2">
                 <div>
                   <label className="text-sm font-semibold">SEO title</label>
@@ -407,7 +611,7 @@ export default function PostEditorClient({ initial }: { initial: BlogPost }) {
           <div className="wb-card p-6">
             <div className="text-sm font-semibold">Preview</div>
             <div className="mt-4 wb-markdown">
-              <Markdown markdown={post.contentMarkdown} />
+              <Markdown markdown={post.contentMarkdown} citations={post.citations} />
             </div>
           </div>
         </div>
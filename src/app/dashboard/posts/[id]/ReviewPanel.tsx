@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { canApproveReview } from "@/lib/auth/roles";
+import type { BlogPost, PostComment, User } from "@/lib/storage/types";
+import { splitMarkdownSections } from "@/lib/utils/sections";
+
+type Reviewer = { id: string; name: string };
+
+function reviewSummary(post: BlogPost) {
+  const review = post.review;
+  if (!review) return "Not submitted for review yet.";
+  const when = (iso?: string) => (iso ? new Date(iso).toLocaleString() : "—");
+
+  if (review.state === "pending") {
+    return `Submitted by ${review.requestedBy} on ${when(review.requestedAt)} · waiting on ${
+      review.reviewerName ?? "any editor"
+    }`;
+  }
+  if (review.state === "approved") {
+    return `Approved by ${review.decidedBy ?? "an editor"} on ${when(review.decidedAt)}`;
+  }
+  return `Changes requested by ${review.decidedBy ?? "an editor"} on ${when(review.decidedAt)}`;
+}
+
+export default function ReviewPanel({
+  post,
+  reviewers,
+  canWrite,
+  canReview,
+  user,
+  onChange
+}: {
+  post: BlogPost;
+  reviewers: Reviewer[];
+  canWrite: boolean;
+  canReview: boolean;
+  user: Pick<User, "id" | "role">;
+  onChange: (post: BlogPost) => void;
+}) {
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewerId, setReviewerId] = useState(post.review?.reviewerId ?? "");
+  const [sectionId, setSectionId] = useState("");
+  const [quote, setQuote] = useState("");
+  const [body, setBody] = useState("");
+
+  const sections = useMemo(() => splitMarkdownSections(post.contentMarkdown), [post.contentMarkdown]);
+
+  // Comments on sections that no longer exist are kept under their old heading
+  const groups = useMemo(() => {
+    const known = new Set(sections.map((s) => s.id));
+    const grouped = sections
+      .map((s) => ({
+        id: s.id,
+        title: s.title,
+        removed: false,
+        comments: comments.filter((c) => c.anchor.sectionId === s.id)
+      }))
+      .filter((g) => g.comments.length > 0);
+
+    const orphaned = comments.filter((c) => !known.has(c.anchor.sectionId));
+    if (orphaned.length > 0) {
+      grouped.push({ id: "__removed", title: "Sections no longer in the post", removed: true, comments: orphaned });
+    }
+    return grouped;
+  }, [sections, comments]);
+
+  useEffect(() => {
+    void loadComments();
+  }, [post.id]);
+
+  useEffect(() => {
+    if (!sections.some((s) => s.id === sectionId)) setSectionId(sections[0]?.id ?? "");
+  }, [sections, sectionId]);
+
+  async function loadComments() {
+    try {
+      const res = await fetch(`/api/posts/${post.id}/comments`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to load comments");
+      setComments(data.comments);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load comments");
+    }
+  }
+
+  async function reviewAction(action: "submit-review" | "approve" | "request-changes") {
+    setBusy(action);
+    setError(null);
+    try {
+      const payload = action === "submit-review" ? { id: post.id, reviewerId: reviewerId || null } : { id: post.id };
+      const res = await fetch(`/api/posts/${action}`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(payload)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Review update failed");
+      onChange(data.post);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Review update failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function addComment() {
+    setBusy("comment");
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${post.id}/comments`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ body, sectionId, quote: quote || undefined })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to add comment");
+      setComments((prev) => [...prev, data.comment]);
+      setBody("");
+      setQuote("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to add comment");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function toggleResolved(comment: PostComment) {
+    setBusy(comment.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${post.id}/comments/${comment.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ resolved: !comment.resolved })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Update failed");
+      setComments((prev) => prev.map((c) => (c.id === comment.id ? data.comment : c)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Update failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const openCount = comments.filter((c) => !c.resolved).length;
+  const canSubmit =
+    canWrite && (post.status === "DRAFT" || (post.status === "IN_REVIEW" && post.review?.state === "pending"));
+
+  return (
+    <div className="wb-card p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold">
+            Review · {openCount} open comment{openCount === 1 ? "" : "s"}
+          </div>
+          <div className="mt-1 text-xs text-[var(--wb-muted)]">{reviewSummary(post)}</div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {canSubmit ? (
+            <>
+              <select className="wb-input text-sm" value={reviewerId} onChange={(e) => setReviewerId(e.target.value)}>
+                <option value="">Any editor</option>
+                {reviewers.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="wb-button text-sm"
+                disabled={busy === "submit-review"}
+                onClick={() => void reviewAction("submit-review")}
+              >
+                {post.status === "IN_REVIEW" ? "Reassign" : "Submit for review"}
+              </button>
+            </>
+          ) : null}
+          {canReview && post.status === "IN_REVIEW" ? (
+            <>
+              {post.review && canApproveReview(user, post.review) ? (
+                <button
+                  className="wb-button text-sm"
+                  disabled={busy === "approve"}
+                  onClick={() => void reviewAction("approve")}
+                >
+                  {busy === "approve" ? "Approving…" : post.review.state === "approved" ? "Re-approve" : "Approve"}
+                </button>
+              ) : null}
+              <button
+                className="wb-button text-sm"
+                disabled={busy === "request-changes"}
+                onClick={() => void reviewAction("request-changes")}
+              >
+                Request changes
+              </button>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <div className="mt-3 text-xs text-red-300">{error}</div> : null}
+
+      <div className="mt-4 grid gap-4">
+        {groups.length === 0 ? (
+          <div className="text-xs text-[var(--wb-muted)]">No comments yet.</div>
+        ) : (
+          groups.map((g) => (
+            <div key={g.id}>
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--wb-muted)]">{g.title}</div>
+              <div className="mt-2 grid gap-2">
+                {g.comments.map((c) => (
+                  <div key={c.id} className={`border-l-2 border-[var(--wb-border)] pl-3 text-sm ${c.resolved ? "opacity-50" : ""}`}>
+                    {g.removed ? <div className="text-xs text-[var(--wb-muted)]">On “{c.anchor.sectionTitle}”</div> : null}
+                    {c.anchor.quote ? (
+                      <div className="text-xs italic text-[var(--wb-muted)]">“{c.anchor.quote}”</div>
+                    ) : null}
+                    <div className="whitespace-pre-wrap">{c.body}</div>
+                    <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-[var(--wb-muted)]">
+                      <span>
+                        {c.authorName} · {new Date(c.createdAt).toLocaleString()}
+                        {c.resolved && c.resolvedBy ? ` · resolved by ${c.resolvedBy}` : ""}
+                      </span>
+                      {canWrite ? (
+                        <button className="underline" disabled={busy === c.id} onClick={() => void toggleResolved(c)}>
+                          {c.resolved ? "Reopen" : "Resolve"}
+                        </button>
+                      ) : null}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {canWrite && sections.length > 0 ? (
+        <div className="mt-4 grid gap-2 border-t border-[var(--wb-border)] pt-4">
+          <div className="grid gap-2 md:grid-cols-2">
+            <select className="wb-input text-sm" value={sectionId} onChange={(e) => setSectionId(e.target.value)}>
+              {sections.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.title}
+                </option>
+              ))}
+            </select>
+            <input
+              className="wb-input text-sm"
+              placeholder="Quote the passage (optional)"
+              value={quote}
+              onChange={(e) => setQuote(e.target.value)}
+            />
+          </div>
+          <textarea
+            className="wb-input min-h-20 text-sm"
+            placeholder="Leave a comment on this section…"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+          <div>
+            <button className="wb-button text-sm" disabled={busy === "comment" || !body.trim()} onClick={() => void addComment()}>
+              {busy === "comment" ? "Posting…" : "Comment"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
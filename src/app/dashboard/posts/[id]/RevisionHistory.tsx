@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { BlogPost, PostRevisionMeta, RevisionSource } from "@/lib/storage/types";
+import type { DiffSegment } from "@/lib/utils/diff";
+
+type RevisionDiff = {
+  title: DiffSegment[];
+  summary: DiffSegment[];
+  contentMarkdown: DiffSegment[];
+};
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  generate: "Generated",
+  improve: "AI improve",
+  manual: "Manual save",
+  restore: "Restored"
+};
+
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <div className="whitespace-pre-wrap break-words font-mono text-xs leading-relaxed">
+      {segments.map((seg, i) =>
+        seg.type === "insert" ? (
+          <ins key={i} className="bg-green-500/20 text-green-300 no-underline">
+            {seg.text}
+          </ins>
+        ) : seg.type === "delete" ? (
+          <del key={i} className="bg-red-500/20 text-red-300">
+            {seg.text}
+          </del>
+        ) : (
+          <span key={i} className="text-[var(--wb-muted)]">
+            {seg.text}
+          </span>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function RevisionHistory({
+  postId,
+  updatedAt,
+  canRestore,
+  onRestored
+}: {
+  postId: string;
+  updatedAt: string;
+  canRestore: boolean;
+  onRestored: (post: BlogPost) => void;
+}) {
+  const [revisions, setRevisions] = useState<PostRevisionMeta[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [diffing, setDiffing] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Reload whenever the post is saved (updatedAt changes)
+  useEffect(() => {
+    void loadRevisions();
+  }, [postId, updatedAt]);
+
+  async function loadRevisions() {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${postId}/revisions`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to load history");
+      const list = data.revisions as PostRevisionMeta[];
+      setRevisions(list);
+      // Default comparison: previous save → latest save
+      setToId(list[0]?.id ?? null);
+      setFromId(list[1]?.id ?? null);
+      setDiff(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function compare() {
+    if (!fromId || !toId) return;
+    setDiffing(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: fromId, to: toId });
+      const res = await fetch(`/api/posts/${postId}/revisions/diff?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Diff failed");
+      setDiff(data.diff);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Diff failed");
+    } finally {
+      setDiffing(false);
+    }
+  }
+
+  async function restore(revisionId: string) {
+    if (!confirm("Restore this revision? Your current version stays in the history.")) return;
+    setRestoringId(revisionId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/posts/${postId}/revisions/restore`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ revisionId })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Restore failed");
+      onRestored(data.post);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Restore failed");
+    } finally {
+      setRestoringId(null);
+    }
+  }
+
+  const hasChanges = (segments: DiffSegment[]) => segments.some((s) => s.type !== "equal");
+
+  return (
+    <div className="wb-card p-5">
+      <div className="flex items-center justify-between gap-3">
+        <div className="text-sm font-semibold">History ({revisions.length})</div>
+        <button
+          className="wb-button text-sm"
+          disabled={!fromId || !toId || fromId === toId || diffing}
+          onClick={() => void compare()}
+        >
+          {diffing ? "Comparing…" : "Compare selected"}
+        </button>
+      </div>
+
+      {error ? <div className="mt-3 text-xs text-red-300">{error}</div> : null}
+
+      {loading && revisions.length === 0 ? (
+        <div className="mt-3 text-xs text-[var(--wb-muted)]">Loading…</div>
+      ) : revisions.length === 0 ? (
+        <div className="mt-3 text-xs text-[var(--wb-muted)]">No saved revisions yet.</div>
+      ) : (
+        <div className="mt-3 grid max-h-72 gap-2 overflow-y-auto text-xs">
+          {revisions.map((r, i) => (
+            <div key={r.id} className="flex flex-wrap items-center justify-between gap-2 border-b border-[var(--wb-border)] pb-2">
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-1" title="Compare from">
+                  <input type="radio" name="rev-from" checked={fromId === r.id} onChange={() => setFromId(r.id)} />
+                  from
+                </label>
+                <label className="flex items-center gap-1" title="Compare to">
+                  <input type="radio" name="rev-to" checked={toId === r.id} onChange={() => setToId(r.id)} />
+                  to
+                </label>
+                <div>
+                  <div className="font-semibold">
+                    {SOURCE_LABELS[r.source]} · {r.author}
+                    {i === 0 ? <span className="ml-2 text-[var(--wb-accent)]">current</span> : null}
+                  </div>
+                  <div className="text-[var(--wb-muted)]">{new Date(r.createdAt).toLocaleString()}</div>
+                </div>
+              </div>
+              {canRestore && i > 0 ? (
+                <button
+                  className="wb-button text-xs"
+                  disabled={restoringId === r.id}
+                  onClick={() => void restore(r.id)}
+                >
+                  {restoringId === r.id ? "Restoring…" : "Restore"}
+                </button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff ? (
+        <div className="mt-4 grid gap-3 border-t border-[var(--wb-border)] pt-4">
+          {hasChanges(diff.title) ? (
+            <div>
+              <div className="text-xs font-semibold">Title</div>
+              <DiffText segments={diff.title} />
+            </div>
+          ) : null}
+          {hasChanges(diff.summary) ? (
+            <div>
+              <div className="text-xs font-semibold">Summary</div>
+              <DiffText segments={diff.summary} />
+            </div>
+          ) : null}
+          <div>
+            <div className="text-xs font-semibold">Content</div>
+            {hasChanges(diff.contentMarkdown) ? (
+              <div className="mt-1 max-h-96 overflow-y-auto">
+                <DiffText segments={diff.contentMarkdown} />
+              </div>
+            ) : (
+              <div className="text-xs text-[var(--wb-muted)]">No content changes.</div>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,13 +1,37 @@
 import { notFound } from "next/navigation";
 import PostEditorClient from "@/app/dashboard/posts/[id]/PostEditorClient";
+import { hasRole } from "@/lib/auth/roles";
+import { requireRole } from "@/lib/auth/server";
+import { workspaceBasePath } from "@/lib/site";
+import { listMedia } from "@/lib/storage/media";
 import { getPostById } from "@/lib/storage/posts";
+import { listUsers } from "@/lib/storage/users";
+import { getCurrentWorkspace } from "@/lib/storage/workspaces";
 
 export const dynamic = "force-dynamic";
 
 export default async function EditPostPage({ params }: { params: Promise<{ id: string }> }) {
+  const user = await requireRole("viewer");
   const { id } = await params;
   const post = await getPostById(id);
   if (!post) return notFound();
-  return <PostEditorClient initial={post} />;
-}
 
+  const reviewers = (await listUsers())
+    .filter((u) => !u.disabled && hasRole(u, "editor"))
+    .map((u) => ({ id: u.id, name: u.name }));
+  const workspace = await getCurrentWorkspace();
+  const sitePath = workspace ? workspaceBasePath(workspace) : "";
+
+  return (
+    <PostEditorClient
+      initial={post}
+      reviewers={reviewers}
+      canWrite={hasRole(user, "writer")}
+      canPublish={hasRole(user, "editor")}
+      user={{ id: user.id, role: user.role }}
+      blogPath={`${sitePath}/blog`}
+      sitePath={sitePath}
+      media={await listMedia()}
+    />
+  );
+}
@@ -1,8 +1,11 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
+import Markdown from "@/components/Markdown";
 import type { KnowledgeSourceMeta, SourceType } from "@/lib/storage/types";
+import { hasSourceFilter, matchesSourceFilter, sourceLabels } from "@/lib/utils/source-labels";
 
 function badge(type: SourceType) {
   switch (type) {
@@ -25,6 +28,10 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
   const [error, setError] = useState<string | null>(null);
   const [quickStartExpanded, setQuickStartExpanded] = useState(true);
   const [quickIdea, setQuickIdea] = useState("");
+  // Live article text while a draft streams in, and where it was saved if it stopped early
+  const [draft, setDraft] = useState<string | null>(null);
+  const [stage, setStage] = useState<string | null>(null);
+  const [partialPostId, setPartialPostId] = useState<string | null>(null);
 
   const [title, setTitle] = useState("");
   const [subtitles, setSubtitles] = useState("");
@@ -34,8 +41,19 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
   const [cta, setCta] = useState("");
   const [selected, setSelected] = useState<Set<string>>(() => new Set(sources.map((s) => s.id)));
 
-  const selectedCount = selected.size;
-  const selectedIds = useMemo(() => Array.from(selected), [selected]);
+  // A collection or tags replace picking sources one by one
+  const [collection, setCollection] = useState("");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const filter = useMemo(() => ({ collection, tags: tagFilter }), [collection, tagFilter]);
+  const filtering = hasSourceFilter(filter);
+  const labels = useMemo(() => sourceLabels(sources), [sources]);
+
+  const selectedIds = useMemo(
+    () => (filtering ? sources.filter((s) => matchesSourceFilter(s, filter)).map((s) => s.id) : Array.from(selected)),
+    [filtering, sources, filter, selected]
+  );
+  const selectedCount = selectedIds.length;
+  const filterPayload = filtering ? { collection: collection || undefined, tags: tagFilter } : {};
 
   async function getSuggestions(mode: "from-idea" | "surprise-me") {
     setSuggestBusy(true);
@@ -47,7 +65,8 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
         body: JSON.stringify({
           idea: mode === "from-idea" ? quickIdea : undefined,
           mode,
-          includeSourceAnalysis: true
+          includeSourceAnalysis: true,
+          ...filterPayload
         })
       });
       const data = await res.json();
@@ -62,7 +81,7 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
       setCta(data.callToAction || "");
 
       // Auto-select relevant sources
-      if (data.sources && Array.isArray(data.sources)) {
+      if (!filtering && data.sources && Array.isArray(data.sources)) {
         setSelected(new Set(data.sources));
       }
 
@@ -86,7 +105,8 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
         body: JSON.stringify({
           idea: idea || title || quickIdea,
           mode: "from-idea",
-          includeSourceAnalysis: true
+          includeSourceAnalysis: true,
+          ...filterPayload
         })
       });
       const data = await res.json();
@@ -137,23 +157,75 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
         idea,
         targetAudience: audience,
         callToAction: cta,
-        sourceIds: selectedIds
+        ...(filtering ? { sourceIds: [], ...filterPayload } : { sourceIds: selectedIds })
       };
 
-      const res = await fetch("/api/posts/generate", {
+      setDraft("");
+      setStage("Connecting…");
+      setPartialPostId(null);
+
+      const res = await fetch("/api/posts/generate/stream", {
         method: "POST",
         headers: { "content-type": "application/json" },
         body: JSON.stringify(payload)
       });
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.error ?? "Generation failed");
-      const id = data.post?.id as string | undefined;
-      if (!id) throw new Error("Missing post id");
-      router.push(`/dashboard/posts/${id}`);
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? "Generation failed");
+      }
+
+      let postId: string | null = null;
+      let failure: string | null = null;
+      const handle = (event: string, data: Record<string, unknown>) => {
+        if (event === "status") {
+          setStage(data.stage === "saving" ? `Saving draft (${data.provider})…` : "Writing…");
+        } else if (event === "delta") {
+          setDraft((prev) => (prev ?? "") + String(data.text ?? ""));
+        } else if (event === "done") {
+          postId = (data.post as { id?: string } | undefined)?.id ?? null;
+        } else if (event === "error") {
+          failure = String(data.error ?? "Generation failed");
+          const saved = (data.post as { id?: string } | undefined)?.id;
+          if (saved) setPartialPostId(saved);
+        }
+      };
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          const frames = buffer.split("\n\n");
+          buffer = frames.pop() ?? "";
+          for (const frame of frames) {
+            let event = "message";
+            let data = "";
+            for (const line of frame.split("\n")) {
+              if (line.startsWith("event:")) event = line.slice(6).trim();
+              else if (line.startsWith("data:")) data += line.slice(5).trim();
+            }
+            if (data) handle(event, JSON.parse(data));
+          }
+        }
+      } catch {
+        // Reading failed part way; handled below like any early end
+      }
+
+      if (failure) throw new Error(failure);
+      if (!postId) {
+        throw new Error(
+          "The connection dropped before the draft finished. The server keeps generating and saves it — check Posts in a minute."
+        );
+      }
+      router.push(`/dashboard/posts/${postId}`);
     } catch (e) {
       setError(e instanceof Error ? e.message : "Generation failed");
     } finally {
       setBusy(false);
+      setStage(null);
     }
   }
 
@@ -366,6 +438,14 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
             <div className="text-xs text-[var(--wb-muted)]">
               If no API key is configured, generation uses a local template.
             </div>
+            {partialPostId ? (
+              <div className="text-xs text-yellow-400">
+                The draft was saved as far as it got.{" "}
+                <Link className="underline" href={`/dashboard/posts/${partialPostId}`}>
+                  Open it in the editor
+                </Link>
+              </div>
+            ) : null}
           </div>
         </div>
 
@@ -374,17 +454,59 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
             <div className="text-sm font-semibold">Include sources</div>
             <div className="text-xs text-[var(--wb-muted)]">{selectedCount} selected</div>
           </div>
+          {labels.collections.length || labels.tags.length ? (
+            <div className="mt-3 grid gap-2">
+              {labels.collections.length ? (
+                <select className="wb-input w-full text-sm" value={collection} onChange={(e) => setCollection(e.target.value)}>
+                  <option value="">Pick sources individually</option>
+                  {labels.collections.map((c) => (
+                    <option key={c} value={c}>
+                      Use the {c} collection
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              {labels.tags.length ? (
+                <div className="flex flex-wrap gap-1 text-xs">
+                  {labels.tags.map((t) => {
+                    const active = tagFilter.includes(t);
+                    return (
+                      <button
+                        key={t}
+                        className={`rounded border px-2 py-1 ${
+                          active
+                            ? "border-[var(--wb-accent)] text-[var(--wb-accent)]"
+                            : "border-[var(--wb-border)] text-[var(--wb-muted)]"
+                        }`}
+                        onClick={() => setTagFilter((prev) => (active ? prev.filter((x) => x !== t) : [...prev, t]))}
+                      >
+                        #{t}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : null}
+              {filtering ? (
+                <div className="text-xs text-[var(--wb-muted)]">
+                  Using every source {collection ? `in “${collection}”` : ""}
+                  {collection && tagFilter.length ? " " : ""}
+                  {tagFilter.length ? `tagged ${tagFilter.map((t) => `#${t}`).join(" or ")}` : ""}.
+                </div>
+              ) : null}
+            </div>
+          ) : null}
           <div className="mt-3 grid max-h-[520px] gap-2 overflow-auto pr-1">
             {sources.length === 0 ? (
               <div className="text-sm text-[var(--wb-muted)]">No sources yet. Add some in Knowledge base.</div>
             ) : (
               sources.map((s) => {
-                const checked = selected.has(s.id);
+                const checked = filtering ? matchesSourceFilter(s, filter) : selected.has(s.id);
                 return (
                   <label key={s.id} className="wb-card flex cursor-pointer gap-3 p-3">
                     <input
                       type="checkbox"
                       checked={checked}
+                      disabled={filtering}
                       onChange={(e) => {
                         setSelected((prev) => {
                           const next = new Set(prev);
@@ -407,7 +529,24 @@ export default function PostComposerClient({ sources }: { sources: KnowledgeSour
           </div>
         </div>
       </div>
+
+      {draft !== null ? (
+        <div className="wb-card p-6">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm font-semibold">Draft preview</div>
+            <div className="text-xs text-[var(--wb-muted)]">
+              {stage ?? `${draft.trim().split(/\s+/).filter(Boolean).length.toLocaleString()} words`}
+            </div>
+          </div>
+          <div className="mt-4 wb-markdown">
+            {draft ? (
+              <Markdown markdown={draft} />
+            ) : (
+              <p className="text-sm text-[var(--wb-muted)]">Waiting for the first words…</p>
+            )}
+          </div>
+        </div>
+      ) : null}
     </div>
   );
 }
-
@@ -1,10 +1,11 @@
 import PostComposerClient from "@/app/dashboard/posts/new/PostComposerClient";
+import { requireRole } from "@/lib/auth/server";
 import { listSources } from "@/lib/storage/sources";
 
 export const dynamic = "force-dynamic";
 
 export default async function NewPostPage() {
+  await requireRole("writer");
   const sources = await listSources();
   return <PostComposerClient sources={sources} />;
 }
-
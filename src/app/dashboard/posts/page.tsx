@@ -1,9 +1,22 @@
 import PostsListClient from "@/app/dashboard/posts/PostsListClient";
+import { hasRole } from "@/lib/auth/roles";
+import { requireRole } from "@/lib/auth/server";
+import { workspaceBasePath } from "@/lib/site";
 import { listPosts } from "@/lib/storage/posts";
+import { getCurrentWorkspace } from "@/lib/storage/workspaces";
 
 export const dynamic = "force-dynamic";
 
 export default async function PostsPage() {
+  const user = await requireRole("viewer");
   const posts = await listPosts();
-  return <PostsListClient initialPosts={posts} />;
+  const workspace = await getCurrentWorkspace();
+  return (
+    <PostsListClient
+      initialPosts={posts}
+      canPublish={hasRole(user, "editor")}
+      canWrite={hasRole(user, "writer")}
+      blogPath={`${workspace ? workspaceBasePath(workspace) : ""}/blog`}
+    />
+  );
 }
@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { requireRole } from "@/lib/auth/server";
+import { getReviewQueue } from "@/lib/review/queue";
+import type { ReviewState } from "@/lib/storage/types";
+
+export const dynamic = "force-dynamic";
+
+const STATE_LABELS: Record<ReviewState, string> = {
+  pending: "Needs review",
+  approved: "Approved, ready to publish",
+  changes_requested: "Changes requested"
+};
+
+export default async function ReviewQueuePage() {
+  const user = await requireRole("viewer");
+  const { items, counts } = await getReviewQueue();
+  const mine = items.filter((i) => i.waitingOnId === user.id);
+
+  return (
+    <div className="grid gap-6">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Review queue</h1>
+        <p className="mt-2 text-[var(--wb-muted)]">
+          Posts in a review round and who needs to act next. {mine.length} waiting on you.
+        </p>
+      </header>
+
+      <section className="wb-card p-5">
+        <div className="text-sm font-semibold">Waiting on</div>
+        {counts.length === 0 ? (
+          <div className="mt-2 text-sm text-[var(--wb-muted)]">Nobody — the queue is empty.</div>
+        ) : (
+          <div className="mt-3 flex flex-wrap gap-2 text-sm">
+            {counts.map((c) => (
+              <div
+                key={c.id ?? "any"}
+                className={`rounded-full border px-3 py-1 ${
+                  c.id === user.id ? "border-[var(--wb-accent)]" : "border-[var(--wb-border)]"
+                }`}
+              >
+                {c.name} <span className="text-[var(--wb-muted)]">· {c.count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="grid gap-3">
+        {items.map((item) => (
+          <div key={item.post.id} className="wb-card p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-semibold">{item.post.title}</div>
+                <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                  {STATE_LABELS[item.state]} · waiting on {item.waitingOnId === user.id ? "you" : item.waitingOn}
+                  {item.post.review ? ` · submitted by ${item.post.review.requestedBy}` : ""}
+                  {item.post.review ? ` ${new Date(item.post.review.requestedAt).toLocaleDateString()}` : ""}
+                  {item.openComments > 0 ? ` · ${item.openComments} open comments` : ""}
+                </div>
+              </div>
+              <Link className="wb-button" href={`/dashboard/posts/${item.post.id}`}>
+                Open
+              </Link>
+            </div>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
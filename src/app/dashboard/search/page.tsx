@@ -0,0 +1,98 @@
+import Link from "next/link";
+import SearchSnippet from "@/components/SearchSnippet";
+import { requireRole } from "@/lib/auth/server";
+import { searchContent } from "@/lib/storage/search";
+import type { SearchHit, SearchKind } from "@/lib/storage/types";
+
+export const dynamic = "force-dynamic";
+
+const KIND_LABELS: Record<SearchKind, string> = {
+  post: "Post",
+  source: "Knowledge source",
+  article: "Monitored article"
+};
+
+const TABS: Array<{ kind?: SearchKind; label: string }> = [
+  { label: "Everything" },
+  { kind: "post", label: "Posts" },
+  { kind: "source", label: "Knowledge base" },
+  { kind: "article", label: "Monitored articles" }
+];
+
+function hitHref(hit: SearchHit) {
+  switch (hit.kind) {
+    case "post":
+      return `/dashboard/posts/${hit.id}`;
+    case "source":
+      return `/dashboard/knowledge#source-${hit.id}`;
+    case "article":
+      return hit.url ?? "/dashboard/monitor";
+  }
+}
+
+export default async function SearchPage({
+  searchParams
+}: {
+  searchParams: Promise<{ q?: string; kind?: string }>;
+}) {
+  await requireRole("viewer");
+  const { q = "", kind } = await searchParams;
+  const query = q.trim();
+  const active = TABS.find((t) => t.kind === kind)?.kind;
+  const hits = query ? await searchContent(query, { kinds: active ? [active] : undefined, limit: 50 }) : [];
+
+  return (
+    <div className="grid gap-6">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Search</h1>
+        <p className="mt-2 text-[var(--wb-muted)]">
+          {query ? `${hits.length} result${hits.length === 1 ? "" : "s"} for “${query}”` : "Search posts, knowledge sources and monitored articles."}
+        </p>
+      </header>
+
+      {query ? (
+        <nav className="flex flex-wrap gap-2 text-sm">
+          {TABS.map((tab) => (
+            <Link
+              key={tab.label}
+              className={`rounded-full border px-3 py-1 ${
+                tab.kind === active ? "border-[var(--wb-accent)]" : "border-[var(--wb-border)] text-[var(--wb-muted)]"
+              }`}
+              href={`/dashboard/search?${new URLSearchParams({ q: query, ...(tab.kind ? { kind: tab.kind } : {}) })}`}
+            >
+              {tab.label}
+            </Link>
+          ))}
+        </nav>
+      ) : null}
+
+      {query && hits.length === 0 ? (
+        <div className="wb-card p-6 text-[var(--wb-muted)]">Nothing matches every word of that search.</div>
+      ) : null}
+
+      <div className="grid gap-3">
+        {hits.map((hit) => (
+          <article key={`${hit.kind}:${hit.id}`} className="wb-card p-5">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              {hit.kind === "article" ? (
+                <a className="wb-link font-semibold" href={hitHref(hit)} rel="noreferrer" target="_blank">
+                  {hit.title}
+                </a>
+              ) : (
+                <Link className="wb-link font-semibold" href={hitHref(hit)}>
+                  {hit.title}
+                </Link>
+              )}
+              <div className="text-xs text-[var(--wb-muted)]">
+                {KIND_LABELS[hit.kind]}
+                {hit.status ? ` · ${hit.status.replace("_", " ").toLowerCase()}` : ""} ·{" "}
+                {new Date(hit.date).toLocaleDateString()}
+              </div>
+            </div>
+            <SearchSnippet className="mt-2" parts={hit.snippet} />
+          </article>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import { useState } from "react";
+import { AI_PROVIDER_KIND_LABELS, AI_PROVIDER_KINDS, AI_TASK_LABELS, AI_TASKS } from "@/lib/ai/catalog";
+import type { AiProviderConfig, AiProviderKind, AiSettings } from "@/lib/storage/types";
+
+type ProviderStatus = { id: string; ready: boolean; problem: string | null };
+
+const KIND_HINTS: Record<AiProviderKind, string> = {
+  "azure-openai": "Endpoint, key and deployment default to AZURE_OPENAI_*. The model field is the deployment name.",
+  openai: "Key, model and embedding model default to OPENAI_API_KEY, OPENAI_MODEL and OPENAI_EMBEDDING_MODEL.",
+  "openai-compatible":
+    "Any server with an OpenAI-style /chat/completions API, e.g. Ollama (http://localhost:11434/v1) or llama.cpp server. The key is optional.",
+  anthropic: "Key, model and base URL default to ANTHROPIC_API_KEY, ANTHROPIC_MODEL and ANTHROPIC_BASE_URL."
+};
+
+function uniqueId(base: string, taken: AiProviderConfig[]) {
+  let id = base;
+  let i = 2;
+  while (taken.some((p) => p.id === id)) id = `${base}-${i++}`;
+  return id;
+}
+
+export default function AiSettingsClient({
+  initial,
+  initialStatus
+}: {
+  initial: AiSettings;
+  initialStatus: ProviderStatus[];
+}) {
+  const [providers, setProviders] = useState<AiProviderConfig[]>(initial.providers);
+  const [status, setStatus] = useState<ProviderStatus[]>(initialStatus);
+  const [newKind, setNewKind] = useState<AiProviderKind>("openai-compatible");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  function patch(index: number, updates: Partial<AiProviderConfig>) {
+    setSaved(false);
+    setProviders((list) => list.map((p, i) => (i === index ? { ...p, ...updates } : p)));
+  }
+
+  function move(index: number, delta: number) {
+    const target = index + delta;
+    if (target < 0 || target >= providers.length) return;
+    setSaved(false);
+    setProviders((list) => {
+      const next = list.slice();
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }
+
+  function add() {
+    setSaved(false);
+    setProviders((list) => [
+      ...list,
+      { id: uniqueId(newKind, list), kind: newKind, label: AI_PROVIDER_KIND_LABELS[newKind], enabled: true }
+    ]);
+  }
+
+  async function save() {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/settings/ai", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ providers })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Save failed");
+      setProviders(data.settings.providers);
+      setStatus(data.status);
+      setSaved(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="grid gap-4">
+      <header>
+        <h2 className="text-lg font-semibold">AI providers</h2>
+        <p className="mt-1 text-sm text-[var(--wb-muted)]">
+          Tried top to bottom; when one fails the next is used. Without a ready provider, drafts fall back to the
+          built-in template. API keys stay in environment variables.
+        </p>
+      </header>
+
+      {error ? <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div> : null}
+
+      {providers.map((p, i) => {
+        const s = status.find((x) => x.id === p.id);
+        return (
+          <div key={i} className="wb-card p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <label className="flex items-center gap-2 text-sm font-semibold">
+                <input type="checkbox" checked={p.enabled} onChange={(e) => patch(i, { enabled: e.target.checked })} />
+                {i + 1}. {p.label}
+                <span className="text-xs font-normal text-[var(--wb-muted)]">{AI_PROVIDER_KIND_LABELS[p.kind]}</span>
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                {s ? (
+                  <span className={`text-xs ${s.ready ? "text-green-400" : "text-yellow-400"}`}>
+                    {s.ready ? "Ready" : s.problem}
+                  </span>
+                ) : (
+                  <span className="text-xs text-[var(--wb-muted)]">Not saved yet</span>
+                )}
+                <button className="wb-button text-sm" disabled={i === 0} onClick={() => move(i, -1)}>
+                  ↑
+                </button>
+                <button className="wb-button text-sm" disabled={i === providers.length - 1} onClick={() => move(i, 1)}>
+                  ↓
+                </button>
+                <button
+                  className="wb-button text-sm"
+                  onClick={() => {
+                    setSaved(false);
+                    setProviders((list) => list.filter((_, j) => j !== i));
+                  }}
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+            <p className="mt-2 text-xs text-[var(--wb-muted)]">{KIND_HINTS[p.kind]}</p>
+
+            <div className="mt-4 grid gap-3 md:grid-cols-2">
+              <input
+                className="wb-input"
+                placeholder="Label"
+                value={p.label}
+                onChange={(e) => patch(i, { label: e.target.value })}
+              />
+              <input
+                className="wb-input"
+                placeholder="Id (used in logs and /api/health)"
+                value={p.id}
+                onChange={(e) => patch(i, { id: e.target.value })}
+              />
+              <input
+                className="wb-input"
+                placeholder="Base URL (optional)"
+                value={p.baseUrl ?? ""}
+                onChange={(e) => patch(i, { baseUrl: e.target.value })}
+              />
+              <input
+                className="wb-input"
+                placeholder="API key variable, AI_KEY_… (optional)"
+                value={p.apiKeyEnv ?? ""}
+                onChange={(e) => patch(i, { apiKeyEnv: e.target.value })}
+              />
+              <input
+                className={`wb-input ${p.kind === "anthropic" ? "md:col-span-2" : ""}`}
+                placeholder="Default model (optional)"
+                value={p.model ?? ""}
+                onChange={(e) => patch(i, { model: e.target.value })}
+              />
+              {p.kind === "anthropic" ? null : (
+                <input
+                  className="wb-input"
+                  placeholder="Embedding model, for knowledge base search (optional)"
+                  value={p.embeddingModel ?? ""}
+                  onChange={(e) => patch(i, { embeddingModel: e.target.value })}
+                />
+              )}
+            </div>
+
+            <details className="mt-3">
+              <summary className="cursor-pointer text-xs text-[var(--wb-muted)]">Model per task</summary>
+              <div className="mt-3 grid gap-2 md:grid-cols-2">
+                {AI_TASKS.map((task) => (
+                  <label key={task} className="grid gap-1 text-xs text-[var(--wb-muted)]">
+                    {AI_TASK_LABELS[task]}
+                    <input
+                      className="wb-input"
+                      placeholder="Default model"
+                      value={p.taskModels?.[task] ?? ""}
+                      onChange={(e) => patch(i, { taskModels: { ...p.taskModels, [task]: e.target.value } })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </details>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <select className="wb-input" value={newKind} onChange={(e) => setNewKind(e.target.value as AiProviderKind)}>
+            {AI_PROVIDER_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {AI_PROVIDER_KIND_LABELS[k]}
+              </option>
+            ))}
+          </select>
+          <button className="wb-button" onClick={add}>
+            Add provider
+          </button>
+        </div>
+        <div className="flex items-center gap-3">
+          {saved ? <span className="text-xs text-green-400">Saved</span> : null}
+          <button className="wb-button" disabled={busy} onClick={() => void save()}>
+            {busy ? "Saving…" : "Save AI settings"}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { BundleKind, ConflictMode, ImportOutcome, ImportReport } from "@/lib/storage/bundle";
+
+type Summary = Record<BundleKind, Record<ImportOutcome, number>>;
+
+const CONFLICT_OPTIONS: Array<{ id: ConflictMode; label: string }> = [
+  { id: "skip", label: "Keep existing records" },
+  { id: "overwrite", label: "Overwrite existing records" },
+  { id: "rename", label: "Import posts as copies under a new slug" }
+];
+
+const KIND_LABELS: Record<BundleKind, string> = {
+  post: "Posts",
+  media: "Media",
+  source: "Knowledge sources",
+  watchedSource: "Watched sources",
+  article: "Articles"
+};
+
+const OUTCOMES: ImportOutcome[] = ["created", "overwritten", "renamed", "skipped", "failed"];
+
+export default function BackupSettingsClient() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [conflict, setConflict] = useState<ConflictMode>("skip");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ report: ImportReport; summary: Summary } | null>(null);
+
+  async function runImport(dryRun: boolean) {
+    if (!file) return;
+    if (!dryRun && !confirm(`Import ${file.name} into this workspace?`)) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.set("file", file);
+      form.set("conflict", conflict);
+      form.set("dryRun", String(dryRun));
+      const res = await fetch("/api/backup/import", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Import failed");
+      setResult(data);
+      if (!dryRun) router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const notable = (result?.report.items ?? []).filter((i) => i.outcome === "failed" || i.detail);
+
+  return (
+    <section className="grid gap-4">
+      <header>
+        <h2 className="text-lg font-semibold">Export &amp; import</h2>
+        <p className="mt-1 text-sm text-[var(--wb-muted)]">
+          One archive with the organization profile, posts, knowledge sources, watched sources and articles. It loads
+          into any storage provider, so it works for backups and for moving between servers. Users, AI settings,
+          revision history and review comments are not included.
+        </p>
+      </header>
+
+      <div className="wb-card p-5">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm">Download everything in this workspace.</div>
+          <a className="wb-button text-sm" href="/api/backup/export" download>
+            Export workspace
+          </a>
+        </div>
+      </div>
+
+      <div className="wb-card grid gap-4 p-5">
+        <div className="grid gap-3 md:grid-cols-2">
+          <input
+            className="wb-input"
+            type="file"
+            accept=".gz,.json,application/gzip,application/json"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setResult(null);
+            }}
+          />
+          <select
+            className="wb-input"
+            value={conflict}
+            onChange={(e) => {
+              setConflict(e.target.value as ConflictMode);
+              setResult(null);
+            }}
+          >
+            {CONFLICT_OPTIONS.map((o) => (
+              <option key={o.id} value={o.id}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-xs text-[var(--wb-muted)]">
+          Records match existing ones by id, or by slug, content or URL. The organization profile is only replaced when
+          overwriting, or when onboarding hasn&apos;t been completed here yet.
+        </p>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          <button className="wb-button text-sm" disabled={busy || !file} onClick={() => void runImport(true)}>
+            Preview
+          </button>
+          <button className="wb-button text-sm" disabled={busy || !file} onClick={() => void runImport(false)}>
+            {busy ? "Working…" : "Import"}
+          </button>
+        </div>
+
+        {error ? <div className="text-xs text-red-300">{error}</div> : null}
+
+        {result ? (
+          <div className="grid gap-3 text-sm">
+            <div className="text-xs text-[var(--wb-muted)]">
+              {result.report.dryRun ? "Preview, nothing was changed. " : "Imported. "}
+              Organization profile {result.report.org === "replaced" ? "replaced" : "kept"}.
+            </div>
+            <table className="w-full text-left text-xs">
+              <thead className="text-[var(--wb-muted)]">
+                <tr>
+                  <th className="py-1 font-normal"></th>
+                  {OUTCOMES.map((o) => (
+                    <th key={o} className="py-1 font-normal capitalize">
+                      {o}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(KIND_LABELS) as BundleKind[]).map((kind) => (
+                  <tr key={kind} className="border-t border-[var(--wb-border)]">
+                    <td className="py-1">{KIND_LABELS[kind]}</td>
+                    {OUTCOMES.map((o) => (
+                      <td key={o} className={`py-1 ${o === "failed" && result.summary[kind][o] ? "text-red-300" : ""}`}>
+                        {result.summary[kind][o]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {notable.length ? (
+              <ul className="grid gap-1 text-xs">
+                {notable.map((item, i) => (
+                  <li key={i} className={item.outcome === "failed" ? "text-red-300" : "text-[var(--wb-muted)]"}>
+                    {item.title}: {item.detail ?? item.outcome}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import type { RelevanceRule, RelevanceRules, WatchedSource } from "@/lib/storage/types";
+
+// Term lists are edited as comma-separated text
+type RuleDraft = {
+  label: string;
+  terms: string;
+  exclude: string;
+  near: string;
+  within: string;
+  weight: string;
+};
+
+function toDraft(rule: RelevanceRule): RuleDraft {
+  return {
+    label: rule.label ?? "",
+    terms: rule.terms.join(", "),
+    exclude: (rule.exclude ?? []).join(", "),
+    near: (rule.near ?? []).join(", "),
+    within: rule.within === undefined ? "" : String(rule.within),
+    weight: String(rule.weight)
+  };
+}
+
+function splitTerms(text: string) {
+  return text
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function fromDraft(draft: RuleDraft) {
+  const exclude = splitTerms(draft.exclude);
+  const near = splitTerms(draft.near);
+  return {
+    label: draft.label,
+    terms: splitTerms(draft.terms),
+    exclude: exclude.length ? exclude : undefined,
+    near: near.length ? near : undefined,
+    within: near.length && draft.within.trim() ? Number(draft.within) : undefined,
+    weight: Number(draft.weight)
+  };
+}
+
+export default function RelevanceSettingsClient({
+  initial,
+  sources
+}: {
+  initial: RelevanceRules;
+  sources: WatchedSource[];
+}) {
+  const [rules, setRules] = useState<RuleDraft[]>(initial.rules.map(toDraft));
+  const [boosts, setBoosts] = useState<Record<string, string>>(
+    Object.fromEntries(sources.map((s) => [s.id, String(initial.sourceBoosts[s.id] ?? 1)]))
+  );
+  const [halfLife, setHalfLife] = useState(initial.recencyHalfLifeDays ? String(initial.recencyHalfLifeDays) : "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  function patch(index: number, updates: Partial<RuleDraft>) {
+    setResult(null);
+    setRules((list) => list.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  }
+
+  async function save() {
+    setBusy(true);
+    setError(null);
+    setResult(null);
+    try {
+      // Sources left at 1 need no entry
+      const sourceBoosts = Object.fromEntries(
+        Object.entries(boosts)
+          .map(([id, value]) => [id, Number(value)] as const)
+          .filter(([, value]) => value !== 1)
+      );
+      const res = await fetch("/api/org/relevance", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          rules: rules.map(fromDraft),
+          sourceBoosts,
+          recencyHalfLifeDays: halfLife.trim() ? Number(halfLife) : null
+        })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Save failed");
+      setRules(data.rules.rules.map(toDraft));
+      setResult(`Saved; rescored ${data.rescored} article${data.rescored === 1 ? "" : "s"}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="grid gap-4">
+      <header>
+        <h2 className="text-lg font-semibold">Article relevance</h2>
+        <p className="mt-1 text-sm text-[var(--wb-muted)]">
+          Fetched articles score from 0 to 100%: the weights of the rules they match, up to 100%, times their
+          source&apos;s boost. Terms of several words match as a phrase. Saving rescores every fetched article.
+        </p>
+      </header>
+
+      {error ? <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div> : null}
+
+      {rules.map((rule, i) => (
+        <div key={i} className="wb-card grid gap-3 p-5 md:grid-cols-2">
+          <input
+            className="wb-input"
+            placeholder="Label (optional)"
+            value={rule.label}
+            onChange={(e) => patch(i, { label: e.target.value })}
+          />
+          <div className="flex items-center gap-2">
+            <label className="flex items-center gap-2 text-xs text-[var(--wb-muted)]">
+              Weight
+              <input
+                className="wb-input w-24"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={rule.weight}
+                onChange={(e) => patch(i, { weight: e.target.value })}
+              />
+            </label>
+            <button
+              className="wb-button ml-auto text-sm"
+              onClick={() => {
+                setResult(null);
+                setRules((list) => list.filter((_, j) => j !== i));
+              }}
+            >
+              Remove
+            </button>
+          </div>
+          <input
+            className="wb-input md:col-span-2"
+            placeholder="Terms, comma-separated (any one matches)"
+            value={rule.terms}
+            onChange={(e) => patch(i, { terms: e.target.value })}
+          />
+          <input
+            className="wb-input md:col-span-2"
+            placeholder="Exclude terms (the rule doesn't fire if any appears)"
+            value={rule.exclude}
+            onChange={(e) => patch(i, { exclude: e.target.value })}
+          />
+          <input
+            className="wb-input"
+            placeholder="Only near these terms (optional)"
+            value={rule.near}
+            onChange={(e) => patch(i, { near: e.target.value })}
+          />
+          <input
+            className="wb-input"
+            type="number"
+            min={0}
+            max={50}
+            placeholder="Within how many words (default 10)"
+            value={rule.within}
+            onChange={(e) => patch(i, { within: e.target.value })}
+          />
+        </div>
+      ))}
+
+      <div>
+        <button
+          className="wb-button"
+          onClick={() => {
+            setResult(null);
+            setRules((list) => [...list, { label: "", terms: "", exclude: "", near: "", within: "", weight: "0.2" }]);
+          }}
+        >
+          Add rule
+        </button>
+      </div>
+
+      <div className="wb-card grid gap-3 p-5">
+        <label className="flex flex-wrap items-center gap-2 text-sm">
+          Halve scores every
+          <input
+            className="wb-input w-24"
+            type="number"
+            min={1}
+            placeholder="—"
+            value={halfLife}
+            onChange={(e) => {
+              setResult(null);
+              setHalfLife(e.target.value);
+            }}
+          />
+          days of an article&apos;s age (leave empty to ignore age)
+        </label>
+
+        {sources.length > 0 ? (
+          <div className="grid gap-2">
+            <div className="text-sm">Source boosts</div>
+            {sources.map((s) => (
+              <label key={s.id} className="flex items-center justify-between gap-3 text-sm text-[var(--wb-muted)]">
+                {s.name}
+                <input
+                  className="wb-input w-24"
+                  type="number"
+                  min={0}
+                  max={5}
+                  step={0.1}
+                  value={boosts[s.id] ?? "1"}
+                  onChange={(e) => {
+                    setResult(null);
+                    setBoosts((b) => ({ ...b, [s.id]: e.target.value }));
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {result ? <span className="text-xs text-green-400">{result}</span> : null}
+        <button className="wb-button" disabled={busy} onClick={() => void save()}>
+          {busy ? "Saving…" : "Save relevance rules"}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -1,10 +1,27 @@
+import AiSettingsClient from "@/app/dashboard/settings/AiSettingsClient";
+import BackupSettingsClient from "@/app/dashboard/settings/BackupSettingsClient";
 import OrgSettingsClient from "@/app/dashboard/settings/OrgSettingsClient";
-import { getOrgProfile } from "@/lib/storage/org";
+import RelevanceSettingsClient from "@/app/dashboard/settings/RelevanceSettingsClient";
+import { requireRole } from "@/lib/auth/server";
+import { describeAiProviders, loadAiSettings } from "@/lib/ai/registry";
+import { getOrgProfile, getRelevanceRules } from "@/lib/storage/org";
+import { listWatchedSources } from "@/lib/storage/watched-sources";
 
 export const dynamic = "force-dynamic";
 
 export default async function SettingsPage() {
+  await requireRole("admin");
   const org = await getOrgProfile();
-  return <OrgSettingsClient initial={org} />;
-}
+  const ai = await loadAiSettings();
+  const relevance = await getRelevanceRules();
+  const watchedSources = await listWatchedSources();
 
+  return (
+    <div className="grid gap-10">
+      <OrgSettingsClient initial={org} />
+      <RelevanceSettingsClient initial={relevance} sources={watchedSources} />
+      <AiSettingsClient initial={ai} initialStatus={describeAiProviders(ai)} />
+      <BackupSettingsClient />
+    </div>
+  );
+}
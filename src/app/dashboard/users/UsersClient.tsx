@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ROLE_LABELS, USER_ROLES } from "@/lib/auth/roles";
+import type { User, UserRole } from "@/lib/storage/types";
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "Read-only access to the dashboard",
+  writer: "Create and edit drafts, add knowledge sources",
+  editor: "Everything writers can do, plus publish, schedule and delete posts",
+  admin: "Everything, plus org settings and user accounts"
+};
+
+export default function UsersClient({
+  initialUsers,
+  currentUserId
+}: {
+  initialUsers: User[];
+  currentUserId: string;
+}) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<UserRole>("writer");
+  const [password, setPassword] = useState("");
+
+  async function createAccount() {
+    setBusyId("new");
+    setError(null);
+    try {
+      const res = await fetch("/api/users", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email, name, role, password })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Failed to create user");
+      setEmail("");
+      setName("");
+      setPassword("");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create user");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function patch(id: string, updates: { role?: UserRole; disabled?: boolean; password?: string }) {
+    setBusyId(id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/users/${id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(updates)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Update failed");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Update failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function resetPassword(user: User) {
+    const next = prompt(`New password for ${user.email} (at least 10 characters):`);
+    if (!next) return;
+    await patch(user.id, { password: next });
+  }
+
+  async function remove(user: User) {
+    if (!confirm(`Delete the account for ${user.email}? Their posts stay, attributed by name.`)) return;
+    setBusyId(user.id);
+    setError(null);
+    try {
+      const res = await fetch(`/api/users/${user.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Delete failed");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Delete failed");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="grid gap-6">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Users</h1>
+        <p className="mt-2 text-[var(--wb-muted)]">Give each team member their own sign-in and role.</p>
+      </header>
+
+      {error ? (
+        <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div>
+      ) : null}
+
+      <section className="wb-card p-6">
+        <div className="text-sm font-semibold">Add a user</div>
+        <div className="mt-4 grid gap-3 md:grid-cols-2">
+          <input
+            className="wb-input"
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <input className="wb-input" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <select className="wb-input" value={role} onChange={(e) => setRole(e.target.value as UserRole)}>
+            {USER_ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]} — {ROLE_DESCRIPTIONS[r]}
+              </option>
+            ))}
+          </select>
+          <input
+            className="wb-input"
+            type="password"
+            placeholder="Initial password (10+ characters)"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+        </div>
+        <button
+          className="wb-button mt-4"
+          disabled={busyId === "new" || !email || !name || password.length < 10}
+          onClick={() => void createAccount()}
+        >
+          {busyId === "new" ? "Creating…" : "Create user"}
+        </button>
+      </section>
+
+      <section className="grid gap-3">
+        <h2 className="text-lg font-semibold">Accounts ({initialUsers.length})</h2>
+        {initialUsers.map((u) => (
+          <div key={u.id} className="wb-card p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-semibold">
+                  {u.name}
+                  {u.id === currentUserId ? <span className="ml-2 text-xs text-[var(--wb-accent)]">you</span> : null}
+                  {u.disabled ? <span className="ml-2 text-xs text-red-300">disabled</span> : null}
+                </div>
+                <div className="mt-1 text-xs text-[var(--wb-muted)]">{u.email}</div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  className="wb-input"
+                  value={u.role}
+                  disabled={busyId === u.id}
+                  onChange={(e) => void patch(u.id, { role: e.target.value as UserRole })}
+                >
+                  {USER_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {ROLE_LABELS[r]}
+                    </option>
+                  ))}
+                </select>
+                <button className="wb-button" disabled={busyId === u.id} onClick={() => void resetPassword(u)}>
+                  Reset password
+                </button>
+                <button
+                  className="wb-button"
+                  disabled={busyId === u.id}
+                  onClick={() => void patch(u.id, { disabled: !u.disabled })}
+                >
+                  {u.disabled ? "Enable" : "Disable"}
+                </button>
+                {u.id !== currentUserId ? (
+                  <button className="wb-button" disabled={busyId === u.id} onClick={() => void remove(u)}>
+                    Delete
+                  </button>
+                ) : null}
+              </div>
+            </div>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
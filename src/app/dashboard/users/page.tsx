@@ -0,0 +1,11 @@
+import UsersClient from "@/app/dashboard/users/UsersClient";
+import { requireRole } from "@/lib/auth/server";
+import { listUsers } from "@/lib/storage/users";
+
+export const dynamic = "force-dynamic";
+
+export default async function UsersPage() {
+  const user = await requireRole("admin");
+  const users = await listUsers();
+  return <UsersClient initialUsers={users} currentUserId={user.id} />;
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { Workspace } from "@/lib/storage/types";
+
+type WorkspaceInput = { slug?: string; name?: string; hostname?: string | null };
+
+export default function WorkspacesClient({
+  initialWorkspaces,
+  currentId
+}: {
+  initialWorkspaces: Workspace[];
+  currentId: string;
+}) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [hostname, setHostname] = useState("");
+
+  async function send(url: string, method: "POST" | "PATCH", body: WorkspaceInput, busy: string) {
+    setBusyId(busy);
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? "Request failed");
+      router.refresh();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Request failed");
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function create() {
+    const ok = await send("/api/workspaces", "POST", { name, slug, hostname: hostname || null }, "new");
+    if (!ok) return;
+    setName("");
+    setSlug("");
+    setHostname("");
+  }
+
+  async function edit(workspace: Workspace, field: "name" | "slug" | "hostname") {
+    const labels = { name: "Name", slug: "Slug (used in /w/<slug>)", hostname: "Hostname (empty for none)" };
+    const next = prompt(`${labels[field]} for ${workspace.name}:`, workspace[field] ?? "");
+    if (next === null) return;
+    const value = field === "hostname" ? next || null : next;
+    await send(`/api/workspaces/${workspace.id}`, "PATCH", { [field]: value }, workspace.id);
+  }
+
+  return (
+    <div className="grid gap-6">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Workspaces</h1>
+        <p className="mt-2 text-[var(--wb-muted)]">
+          Each organization gets its own profile, posts, knowledge base and monitor. User accounts and AI settings
+          are shared.
+        </p>
+      </header>
+
+      {error ? (
+        <div className="wb-card border-red-400/30 p-4 text-sm text-red-200">{error}</div>
+      ) : null}
+
+      <section className="wb-card p-6">
+        <div className="text-sm font-semibold">Add a workspace</div>
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <input
+            className="wb-input"
+            placeholder="Organization name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <input
+            className="wb-input"
+            placeholder="Slug, e.g. river-otters"
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+          />
+          <input
+            className="wb-input"
+            placeholder="Hostname (optional), e.g. blog.example.org"
+            value={hostname}
+            onChange={(e) => setHostname(e.target.value)}
+          />
+        </div>
+        <button className="wb-button mt-4" disabled={busyId === "new" || !name || !slug} onClick={() => void create()}>
+          {busyId === "new" ? "Creating…" : "Create workspace"}
+        </button>
+        <p className="mt-3 text-xs text-[var(--wb-muted)]">
+          Switch to the new workspace from the sidebar to complete its onboarding.
+        </p>
+      </section>
+
+      <section className="grid gap-3">
+        <h2 className="text-lg font-semibold">Workspaces ({initialWorkspaces.length})</h2>
+        {initialWorkspaces.map((w) => (
+          <div key={w.id} className="wb-card p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="truncate text-sm font-semibold">
+                  {w.name}
+                  {w.id === currentId ? <span className="ml-2 text-xs text-[var(--wb-accent)]">current</span> : null}
+                </div>
+                <div className="mt-1 text-xs text-[var(--wb-muted)]">
+                  Blog at <a className="wb-link" href={`/w/${w.slug}/blog`}>/w/{w.slug}/blog</a>
+                  {w.hostname ? <> and https://{w.hostname}/blog</> : null}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button className="wb-button" disabled={busyId === w.id} onClick={() => void edit(w, "name")}>
+                  Rename
+                </button>
+                <button className="wb-button" disabled={busyId === w.id} onClick={() => void edit(w, "slug")}>
+                  Change slug
+                </button>
+                <button className="wb-button" disabled={busyId === w.id} onClick={() => void edit(w, "hostname")}>
+                  Hostname
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import WorkspacesClient from "@/app/dashboard/workspaces/WorkspacesClient";
+import { requireRole } from "@/lib/auth/server";
+import { getCurrentWorkspaceId } from "@/lib/storage/currentWorkspace";
+import { listWorkspaces } from "@/lib/storage/workspaces";
+
+export const dynamic = "force-dynamic";
+
+export default async function WorkspacesPage() {
+  await requireRole("admin");
+  const [workspaces, currentId] = await Promise.all([listWorkspaces(), getCurrentWorkspaceId()]);
+  return <WorkspacesClient initialWorkspaces={workspaces} currentId={currentId} />;
+}
@@ -0,0 +1,5 @@
+import { blogFeedResponse } from "@/lib/feeds/blog-feed";
+
+export async function GET(request: Request) {
+  return blogFeedResponse(request, "json");
+}
@@ -1,10 +1,13 @@
 import { NextResponse } from "next/server";
-import { getBaseUrl } from "@/lib/site";
+import { getPublicSite } from "@/lib/site";
 import { listPublishedPosts } from "@/lib/storage/posts";
 import { getOrgProfile } from "@/lib/storage/org";
 
 export async function GET() {
-  const baseUrl = getBaseUrl();
+  const site = await getPublicSite();
+  if (!site) return new NextResponse("Not found", { status: 404 });
+
+  const { baseUrl } = site;
   const org = await getOrgProfile();
   const posts = await listPublishedPosts();
 
@@ -20,7 +23,7 @@ export async function GET() {
     `## Key pages`,
     `- ${baseUrl}/`,
     `- ${baseUrl}/blog`,
-    `- ${baseUrl}/rss.xml`,
+    `- ${baseUrl}/rss.xml (also /atom.xml and /feed.json; add ?content=full for whole posts)`,
     `- ${baseUrl}/sitemap.xml`,
     ``,
     `## Latest posts`
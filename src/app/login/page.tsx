@@ -1,32 +1,38 @@
-import { cookies } from "next/headers";
 import Link from "next/link";
 import { redirect } from "next/navigation";
 import Container from "@/components/Container";
-import { SESSION_COOKIE_NAME, isValidSessionToken } from "@/lib/auth/session";
+import { getCurrentUser } from "@/lib/auth/server";
+import { countUsers } from "@/lib/storage/users";
 
 export const dynamic = "force-dynamic";
 
 export default async function LoginPage({ searchParams }: { searchParams: Promise<{ error?: string }> }) {
-  const token = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
-  if (token && isValidSessionToken(token)) redirect("/dashboard");
+  if (await getCurrentUser()) redirect("/dashboard");
 
   const { error } = await searchParams;
+  const isFirstRun = (await countUsers()) === 0;
 
   return (
     <Container>
       <div className="wb-card mx-auto max-w-md p-8">
-        <h1 className="text-2xl font-bold tracking-tight">Admin sign in</h1>
+        <h1 className="text-2xl font-bold tracking-tight">Sign in</h1>
         <p className="mt-2 text-sm text-[var(--wb-muted)]">
-          This dashboard is for wildlife-blogger admins only.
+          {isFirstRun
+            ? "No accounts exist yet. Enter your email and the admin password from WILDLIFE_BLOGGER_ADMIN_PASSWORD to create the first admin account."
+            : "This dashboard is for your organization's team members."}
         </p>
 
         {error ? (
           <div className="mt-4 wb-card border-red-400/30 p-3 text-sm text-red-200">
-            Invalid password. Try again.
+            Invalid email or password. Try again.
           </div>
         ) : null}
 
         <form action="/api/auth/login" method="POST" className="mt-6 grid gap-3">
+          <label className="text-sm font-semibold" htmlFor="email">
+            Email
+          </label>
+          <input className="wb-input" id="email" name="email" type="email" autoComplete="username" required />
           <label className="text-sm font-semibold" htmlFor="password">
             Password
           </label>
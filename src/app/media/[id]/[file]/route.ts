@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getPublicSite } from "@/lib/site";
+import { getMediaById, readMediaFile } from "@/lib/storage/media";
+
+/**
+ * Serves media renditions on the public site. Uploads as sent are never
+ * served; see MediaAsset. Rendition files never change once written, so
+ * they can be cached for good.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string; file: string }> }) {
+  const site = await getPublicSite();
+  if (!site) return new NextResponse("Not found", { status: 404 });
+
+  const { id, file } = await params;
+  if (!z.guid().safeParse(id).success) return new NextResponse("Not found", { status: 404 });
+
+  const asset = await getMediaById(id);
+  const rendition = asset?.renditions.find((r) => r.file === file);
+  if (!rendition) return new NextResponse("Not found", { status: 404 });
+
+  const data = await readMediaFile(id, rendition.file);
+  if (!data) return new NextResponse("Not found", { status: 404 });
+
+  return new NextResponse(new Uint8Array(data), {
+    headers: {
+      "content-type": rendition.mimeType,
+      "content-length": String(data.byteLength),
+      "cache-control": "public, max-age=31536000, immutable"
+    }
+  });
+}
@@ -1,7 +1,12 @@
 import Link from "next/link";
 import Container from "@/components/Container";
+import { getPublicSite } from "@/lib/site";
+
+export const dynamic = "force-dynamic";
+
+export default async function HomePage() {
+  const basePath = (await getPublicSite())?.basePath ?? "";
 
-export default function HomePage() {
   return (
     <Container>
       <section className="wb-card p-8">
@@ -19,7 +24,7 @@ export default function HomePage() {
           <Link className="wb-button inline-flex items-center gap-2" href="/dashboard">
             Open dashboard
           </Link>
-          <Link className="wb-button inline-flex items-center gap-2" href="/blog">
+          <Link className="wb-button inline-flex items-center gap-2" href={`${basePath}/blog`}>
             View public blog
           </Link>
         </div>
@@ -1,8 +1,10 @@
 import type { MetadataRoute } from "next";
-import { getBaseUrl } from "@/lib/site";
+import { getBaseUrl, getPublicSite } from "@/lib/site";
 
-export default function robots(): MetadataRoute.Robots {
-  const baseUrl = getBaseUrl();
+export const dynamic = "force-dynamic";
+
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const baseUrl = (await getPublicSite())?.baseUrl ?? getBaseUrl();
   return {
     rules: [
       {
@@ -1,16 +1,31 @@
 import type { MetadataRoute } from "next";
-import { getBaseUrl } from "@/lib/site";
+import { notFound } from "next/navigation";
+import { getPublicSite } from "@/lib/site";
 import { listPublishedPosts } from "@/lib/storage/posts";
+import { tagPath } from "@/lib/utils/post-tags";
 
 export const dynamic = "force-dynamic";
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
-  const baseUrl = getBaseUrl();
+  const site = await getPublicSite();
+  if (!site) notFound();
+
+  const { baseUrl } = site;
   const posts = await listPublishedPosts();
 
+  // A tag page changes when one of its posts does
+  const tagged = new Map<string, string>();
+  for (const p of posts) {
+    for (const tag of p.tags) if ((tagged.get(tag) ?? "") < p.updatedAt) tagged.set(tag, p.updatedAt);
+  }
+
   return [
     { url: `${baseUrl}/`, lastModified: new Date() },
     { url: `${baseUrl}/blog`, lastModified: new Date() },
+    ...Array.from(tagged, ([tag, updatedAt]) => ({
+      url: tagPath(baseUrl, tag),
+      lastModified: new Date(updatedAt)
+    })),
     ...posts.map((p) => ({
       url: `${baseUrl}/blog/${p.slug}`,
       lastModified: new Date(p.updatedAt)
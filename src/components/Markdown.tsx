@@ -1,17 +1,19 @@
 import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
+import type { PostCitation } from "@/lib/storage/types";
+import { withCitationFootnotes } from "@/lib/utils/citations";
+import { POST_MARKDOWN_OPTIONS } from "@/lib/utils/markdown-html";
 
-export default function Markdown({ markdown }: { markdown: string }) {
+export default function Markdown({ markdown, citations }: { markdown: string; citations?: PostCitation[] }) {
   return (
     <ReactMarkdown
-      remarkPlugins={[remarkGfm]}
+      {...POST_MARKDOWN_OPTIONS}
       components={{
         a: ({ node, ...props }) => <a {...props} rel="noreferrer" target="_blank" />,
         pre: ({ node, ...props }) => <pre {...props} />,
         code: ({ node, ...props }) => <code {...props} />
       }}
     >
-      {markdown}
+      {withCitationFootnotes(markdown, citations)}
     </ReactMarkdown>
   );
 }
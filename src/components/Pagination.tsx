@@ -0,0 +1,28 @@
+import Link from "next/link";
+import { pageHref } from "@/lib/utils/pagination";
+
+/** Newer/older links for a paginated listing at `path`; the rel=prev/next links go in its metadata */
+export default function Pagination({ path, page, pageCount }: { path: string; page: number; pageCount: number }) {
+  if (pageCount <= 1) return null;
+  return (
+    <nav className="mt-6 flex items-center justify-between gap-3 text-sm" aria-label="Pagination">
+      {page > 1 ? (
+        <Link className="wb-button" href={pageHref(path, page - 1)} rel="prev">
+          ← Newer posts
+        </Link>
+      ) : (
+        <span />
+      )}
+      <span className="text-[var(--wb-muted)]">
+        Page {page} of {pageCount}
+      </span>
+      {page < pageCount ? (
+        <Link className="wb-button" href={pageHref(path, page + 1)} rel="next">
+          Older posts →
+        </Link>
+      ) : (
+        <span />
+      )}
+    </nav>
+  );
+}
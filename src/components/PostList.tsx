@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { mediaFileUrl, mediaSrcSet, pickRendition } from "@/lib/media/urls";
+import { listMedia } from "@/lib/storage/media";
+import type { BlogPostMeta } from "@/lib/storage/types";
+import { tagPath } from "@/lib/utils/post-tags";
+
+/** Blog cards for published posts; `basePath` is the public site's */
+export default async function PostList({ posts, basePath }: { posts: BlogPostMeta[]; basePath: string }) {
+  const media = new Map(posts.some((p) => p.featuredImageId) ? (await listMedia()).map((m) => [m.id, m]) : []);
+
+  return (
+    <div className="grid gap-4">
+      {posts.map((post) => {
+        const href = `${basePath}/blog/${post.slug}`;
+        const image = post.featuredImageId ? media.get(post.featuredImageId) : undefined;
+        const thumb = image && pickRendition(image, 640);
+        return (
+          <article key={post.id} className="wb-card overflow-hidden">
+            {image && thumb ? (
+              <Link href={href} tabIndex={-1}>
+                <img
+                  className="aspect-[2/1] w-full object-cover"
+                  src={mediaFileUrl(basePath, image.id, thumb)}
+                  srcSet={mediaSrcSet(basePath, image)}
+                  sizes="(min-width: 1024px) 960px, 100vw"
+                  alt={image.alt}
+                  loading="lazy"
+                />
+              </Link>
+            ) : null}
+            <div className="p-6">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xl font-semibold tracking-tight">
+                  <Link className="wb-link" href={href}>
+                    {post.title}
+                  </Link>
+                </h2>
+                <div className="text-xs text-[var(--wb-muted)]">
+                  {post.publishedAt ? new Date(post.publishedAt).toLocaleDateString() : ""}
+                </div>
+              </div>
+              <p className="mt-3 text-[var(--wb-muted)]">{post.summary}</p>
+              {post.tags.length > 0 ? <PostTags tags={post.tags} basePath={basePath} className="mt-4" /> : null}
+            </div>
+          </article>
+        );
+      })}
+    </div>
+  );
+}
+
+export function PostTags({ tags, basePath, className = "" }: { tags: string[]; basePath: string; className?: string }) {
+  return (
+    <div className={`flex flex-wrap gap-2 ${className}`}>
+      {tags.map((tag) => (
+        <Link
+          key={tag}
+          href={tagPath(basePath, tag)}
+          className="rounded-full border border-[var(--wb-border)] bg-black/20 px-3 py-1 text-xs text-[var(--wb-muted)] hover:text-[var(--wb-fg)]"
+        >
+          #{tag}
+        </Link>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import type { SnippetPart } from "@/lib/storage/types";
+
+export default function SearchSnippet({ parts, className = "" }: { parts: SnippetPart[]; className?: string }) {
+  if (parts.length === 0) return null;
+  return (
+    <p className={`text-sm text-[var(--wb-muted)] ${className}`}>
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded bg-white/15 px-0.5 text-white">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
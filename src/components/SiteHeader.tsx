@@ -1,15 +1,19 @@
 import Link from "next/link";
+import { getPublicSite } from "@/lib/site";
+
+export default async function SiteHeader() {
+  // On a workspace's public pages, stay within that workspace's site
+  const basePath = (await getPublicSite())?.basePath ?? "";
 
-export default function SiteHeader() {
   return (
     <header className="sticky top-0 z-20 border-b border-[var(--wb-border)] bg-black/20 backdrop-blur">
       <div className="mx-auto flex w-full max-w-5xl items-center justify-between px-4 py-3">
-        <Link className="flex items-center gap-2 font-semibold tracking-tight" href="/">
+        <Link className="flex items-center gap-2 font-semibold tracking-tight" href={`${basePath}/`}>
           <span className="inline-block h-2.5 w-2.5 rounded-full bg-[var(--wb-accent)]" />
           wildlife-blogger
         </Link>
         <nav className="flex items-center gap-4 text-sm">
-          <Link className="text-[var(--wb-muted)] hover:text-white" href="/blog">
+          <Link className="text-[var(--wb-muted)] hover:text-white" href={`${basePath}/blog`}>
             Blog
           </Link>
           <Link className="text-[var(--wb-muted)] hover:text-white" href="/dashboard">
@@ -0,0 +1,58 @@
+import type { AiProviderKind, AiTask } from "@/lib/storage/types";
+
+// Client-safe lists for the settings screen; the registry holds the runtime side
+
+export const AI_TASKS = [
+  "generate",
+  "suggest",
+  "improve",
+  "extract-org",
+  "discover",
+  "fact-check"
+] as const satisfies readonly AiTask[];
+
+export const AI_TASK_LABELS: Record<AiTask, string> = {
+  generate: "Draft generation",
+  suggest: "Post suggestions",
+  improve: "Improve draft",
+  "extract-org": "Onboarding: read website",
+  discover: "Onboarding: discover sources",
+  "fact-check": "Fact check"
+};
+
+export const AI_PROVIDER_KINDS = [
+  "azure-openai",
+  "openai",
+  "openai-compatible",
+  "anthropic"
+] as const satisfies readonly AiProviderKind[];
+
+export const AI_PROVIDER_KIND_LABELS: Record<AiProviderKind, string> = {
+  "azure-openai": "Azure OpenAI",
+  openai: "OpenAI",
+  "openai-compatible": "OpenAI-compatible endpoint",
+  anthropic: "Anthropic"
+};
+
+// The usual key variable of each provider kind
+export const AI_STANDARD_API_KEY_ENVS = [
+  "AZURE_OPENAI_API_KEY",
+  "OPENAI_API_KEY",
+  "OPENAI_COMPATIBLE_API_KEY",
+  "ANTHROPIC_API_KEY"
+] as const;
+
+export const AI_API_KEY_ENV_PREFIX = "AI_KEY_";
+
+/**
+ * Whether a provider may read its API key from `name`: one of the usual key
+ * variables, or one named AI_KEY_<something>. The key is sent to the
+ * provider's base URL, so naming any other variable (the session secret, the
+ * database URL) would hand that secret to whichever host was entered.
+ */
+export function isAllowedApiKeyEnv(name: string) {
+  return (
+    (AI_STANDARD_API_KEY_ENVS as readonly string[]).includes(name) ||
+    new RegExp(`^${AI_API_KEY_ENV_PREFIX}[A-Z0-9_]+$`).test(name)
+  );
+}
@@ -0,0 +1,43 @@
+import { getEmbeddingProvider, type AiProvider } from "@/lib/ai/registry";
+
+const BATCH_SIZE = 64;
+
+// Vectors made before providers were configurable were tagged "azure:…" and "openai:…"
+function modelId(provider: AiProvider) {
+  const prefix =
+    provider.kind === "azure-openai" ? "azure" : provider.kind === "openai" ? "openai" : provider.id;
+  return `${prefix}:${provider.embeddingModel}`;
+}
+
+/**
+ * Identifier of the embedding model in use, or null when no enabled provider
+ * has one. Stored with each vector so a model change never mixes incompatible
+ * spaces.
+ */
+export async function getEmbeddingModel(): Promise<string | null> {
+  const provider = await getEmbeddingProvider();
+  return provider ? modelId(provider) : null;
+}
+
+export async function embedTexts(texts: string[]): Promise<{ model: string; vectors: number[][] } | null> {
+  const provider = await getEmbeddingProvider();
+  if (!provider) return null;
+
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    vectors.push(...(await provider.embed(texts.slice(i, i + BATCH_SIZE))));
+  }
+  return { model: modelId(provider), vectors };
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -1,9 +1,8 @@
 import { z } from "zod";
 import type { OrganizationObjective } from "@/lib/storage/types";
 import { fetchAndExtractPage } from "@/lib/research/fetch";
-import { generateWithAzureOpenAI } from "@/lib/ai/providers/azure";
-import { generateWithOpenAI } from "@/lib/ai/providers/openai";
 import { extractJsonObject } from "@/lib/ai/json";
+import { completeWithFailover } from "@/lib/ai/registry";
 import { truncateText } from "@/lib/utils/text";
 
 const OBJECTIVES: OrganizationObjective[] = [
@@ -155,7 +154,7 @@ function buildFallbackProfile(website: string): ExtractedOrgProfile {
 
 export async function extractOrgFromWebsite(website: string): Promise<{
   profile: ExtractedOrgProfile;
-  provider: "azure-openai" | "openai" | "fallback";
+  provider: string;
 }> {
   // Normalize URL
   let normalizedUrl = website.trim();
@@ -167,39 +166,13 @@ export async function extractOrgFromWebsite(website: string): Promise<{
   const content = await fetchPagesContent(normalizedUrl);
   const prompt = buildExtractionPrompt(content);
 
-  const azureConfigured =
-    Boolean(process.env.AZURE_OPENAI_ENDPOINT?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_API_KEY?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_DEPLOYMENT?.trim());
-
-  const openaiConfigured = Boolean(process.env.OPENAI_API_KEY?.trim());
-
-  // Try Azure OpenAI first
-  if (azureConfigured) {
-    try {
-      const raw = await generateWithAzureOpenAI(prompt);
-      const obj = extractJsonObject(raw);
-      const parsed = ExtractedProfileSchema.safeParse(obj);
-      if (parsed.success) {
-        return { profile: parsed.data, provider: "azure-openai" };
-      }
-    } catch {
-      // Fall through to next provider
-    }
-  }
-
-  // Try OpenAI
-  if (openaiConfigured) {
-    try {
-      const raw = await generateWithOpenAI(prompt);
-      const obj = extractJsonObject(raw);
-      const parsed = ExtractedProfileSchema.safeParse(obj);
-      if (parsed.success) {
-        return { profile: parsed.data, provider: "openai" };
-      }
-    } catch {
-      // Fall through to fallback
-    }
+  try {
+    const result = await completeWithFailover("extract-org", prompt, (raw) =>
+      ExtractedProfileSchema.parse(extractJsonObject(raw))
+    );
+    if (result) return { profile: result.value, provider: result.provider.id };
+  } catch {
+    // Every provider failed; fall through to fallback
   }
 
   // Fallback: return minimal profile
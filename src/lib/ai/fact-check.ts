@@ -0,0 +1,113 @@
+import { z } from "zod";
+import type { KnowledgeSource } from "@/lib/storage/types";
+import { extractJsonObject } from "@/lib/ai/json";
+import { completeWithFailover } from "@/lib/ai/registry";
+import { extractClaims } from "@/lib/fact-check/claims";
+import {
+  buildPassageIndex,
+  checkClaimLexically,
+  type FactCheckReport,
+  type FactCheckResult,
+  type FactPassage
+} from "@/lib/fact-check/lexical";
+
+// Keep the prompt a manageable size on long posts
+const MAX_CLAIMS = 60;
+const PASSAGES_PER_CLAIM = 3;
+
+const VerdictSchema = z.object({
+  results: z.array(
+    z.object({
+      claim: z.number().int().min(1),
+      verdict: z.enum(["supported", "contradicted", "unsupported"]),
+      passage: z.string().nullable().optional(),
+      note: z.string().max(400).default("")
+    })
+  )
+});
+
+/**
+ * Check the factual sentences of a post against the knowledge base. The
+ * lexical matcher always runs; when an AI provider is configured the model
+ * judges each claim against the same candidate passages, and any claim it
+ * skips (or the whole batch, if every provider fails) keeps the lexical verdict.
+ */
+export async function factCheckPost(contentMarkdown: string, sources: KnowledgeSource[]): Promise<FactCheckReport> {
+  const claims = extractClaims(contentMarkdown).slice(0, MAX_CLAIMS);
+  const index = buildPassageIndex(sources);
+  const lexical = claims.map((c) => checkClaimLexically(c, index));
+  const report = (results: FactCheckResult[], provider?: string): FactCheckReport => ({
+    method: provider ? "model" : "lexical",
+    provider,
+    checkedAt: new Date().toISOString(),
+    sourceCount: sources.length,
+    results
+  });
+
+  if (claims.length === 0 || sources.length === 0) return report(lexical);
+
+  const candidates = claims.map((c) => index.candidates(c, PASSAGES_PER_CLAIM));
+  const prompt = buildPrompt(claims.map((c) => c.text), candidates);
+
+  try {
+    const result = await completeWithFailover(
+      "fact-check",
+      prompt,
+      (raw) => {
+        const parsed = VerdictSchema.safeParse(extractJsonObject(raw));
+        if (!parsed.success) throw new Error("Fact-check response did not match the expected shape");
+        return parsed.data;
+      },
+      { system: "You check facts for a conservation blog.", temperature: 0 }
+    );
+    if (!result) return report(lexical);
+
+    const results = lexical.slice();
+    for (const r of result.value.results) {
+      const i = r.claim - 1;
+      if (i < 0 || i >= claims.length) continue;
+      // Labels look like "3b": claim 3, second passage
+      const label = /^\[?(\d+)([a-z])\]?$/.exec(r.passage?.trim() ?? "");
+      const passage: FactPassage | undefined =
+        label && Number(label[1]) === r.claim ? candidates[i][label[2].charCodeAt(0) - 97] : undefined;
+      results[i] = {
+        ...lexical[i],
+        verdict: r.verdict,
+        // An unsupported verdict may still point at the closest passage
+        passage: passage ?? (r.verdict === "unsupported" ? lexical[i].passage : undefined),
+        note: r.note.trim() || lexical[i].note
+      };
+    }
+    return report(results, result.provider.label);
+  } catch (e) {
+    console.error("Model fact-check failed, using the lexical matcher:", e);
+    return report(lexical);
+  }
+}
+
+function buildPrompt(claims: string[], candidates: FactPassage[][]) {
+  const blocks = claims.map((claim, i) => {
+    const passages = candidates[i].length
+      ? candidates[i]
+          .map((p, j) => `  [${i + 1}${String.fromCharCode(97 + j)}] (${p.sourceTitle}) ${p.text}`)
+          .join("\n")
+      : "  (no passages found)";
+    return `Claim ${i + 1}: ${claim}\nPassages:\n${passages}`;
+  });
+
+  return `
+You are a careful fact-checker for a wildlife conservation organization.
+For each claim, decide using ONLY the passages listed under it:
+- "supported" if a passage states the same facts (numbers, dates, counts, IUCN status)
+- "contradicted" if a passage about the same subject gives different facts
+- "unsupported" if no passage settles it
+Do not use outside knowledge.
+
+Return ONLY a single JSON object:
+{ "results": [ { "claim": 1, "verdict": "supported", "passage": "1a", "note": "one short sentence" } ] }
+Use the passage label that best supports or contradicts the claim, or null when there is none.
+Include every claim.
+
+${blocks.join("\n\n")}
+`.trim();
+}
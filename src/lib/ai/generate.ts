@@ -1,10 +1,15 @@
 import { z } from "zod";
-import type { KnowledgeSource, OrganizationProfile } from "@/lib/storage/types";
+import type { GenerationRecord, KnowledgeSource, OrganizationProfile, PostCitation } from "@/lib/storage/types";
 import { truncateText } from "@/lib/utils/text";
-import { generateWithAzureOpenAI } from "@/lib/ai/providers/azure";
-import { generateWithOpenAI } from "@/lib/ai/providers/openai";
+import { completeWithFailover, streamWithFailover } from "@/lib/ai/registry";
 import { generateWithTemplate } from "@/lib/ai/providers/template";
 import { extractJsonObject } from "@/lib/ai/json";
+import { retrieveChunks, type RetrievedChunk } from "@/lib/rag/retrieve";
+import { normalizeCitations } from "@/lib/utils/citations";
+
+// Character budgets for the prompt context
+const MAX_CONTEXT_CHARS = 40_000;
+const MAX_SOURCE_CHARS = 34_000;
 
 const DraftSchema = z.object({
   title: z.string().min(1).max(180),
@@ -13,64 +18,195 @@ const DraftSchema = z.object({
   seoTitle: z.string().min(1).max(80),
   seoDescription: z.string().min(1).max(180),
   keywords: z.array(z.string().min(1).max(50)).max(30),
-  contentMarkdown: z.string().min(200).max(200_000)
+  contentMarkdown: z.string().min(200).max(200_000),
+  citations: z
+    .array(z.object({ marker: z.number().int().min(1), sourceId: z.string(), quote: z.string().max(600) }))
+    .max(40)
+    .default([])
+});
+
+/** Request body shared by the JSON and streaming generate routes */
+export const GenerateRequestSchema = z.object({
+  title: z.string().min(1).max(180),
+  subtitles: z.array(z.string().min(1).max(140)).max(12).default([]),
+  keywords: z.array(z.string().min(1).max(50)).max(30).default([]),
+  idea: z.string().min(10).max(4000),
+  targetAudience: z.string().max(200).optional().default(""),
+  callToAction: z.string().max(200).optional().default(""),
+  sourceIds: z.array(z.string().min(1)).max(60).default([]),
+  // Adds every source in the collection or with one of the tags
+  collection: z.string().max(60).optional(),
+  tags: z.array(z.string().min(1).max(60)).max(20).optional()
 });
 
-export async function generateBlogDraft(args: {
+type DraftInput = {
+  title: string;
+  subtitles: string[];
+  keywords: string[];
+  idea: string;
+  targetAudience?: string;
+  callToAction?: string;
+};
+
+type DraftArgs = {
   org: OrganizationProfile;
   sources: KnowledgeSource[];
-  input: {
-    title: string;
-    subtitles: string[];
-    keywords: string[];
-    idea: string;
-    targetAudience?: string;
-    callToAction?: string;
+  input: DraftInput;
+};
+
+export type GeneratedDraft = Omit<z.infer<typeof DraftSchema>, "citations"> & {
+  citations: PostCitation[];
+  provider: string;
+  generation: GenerationRecord;
+};
+
+// Separates the streamed article from the metadata JSON that follows it
+const METADATA_DELIMITER = "<<<METADATA>>>";
+
+async function prepareDraft(args: DraftArgs, output: "json" | "stream") {
+  const query = [args.input.title, args.input.idea, ...args.input.subtitles, ...args.input.keywords].join("\n");
+  const retrieved = await retrieveChunks({ query, sources: args.sources, maxChars: MAX_SOURCE_CHARS });
+  const context = buildContext(args.org, retrieved.chunks);
+  const prompt = buildPrompt(args.input, context, output);
+
+  const record = (provider: string, incomplete?: string): GenerationRecord => ({
+    provider,
+    generatedAt: new Date().toISOString(),
+    retrieval: retrieved.method,
+    chunks: retrieved.chunks.map((c) => ({
+      chunkId: c.id,
+      sourceId: c.sourceId,
+      sourceTitle: c.source.title,
+      index: c.index,
+      score: c.score
+    })),
+    ...(incomplete ? { incomplete } : {})
+  });
+
+  // Only sources that made it into the prompt can be cited
+  const cite = (draft: z.infer<typeof DraftSchema>) => ({
+    ...draft,
+    ...normalizeCitations(draft.contentMarkdown, draft.citations, retrieved.chunks.map((c) => c.source))
+  });
+
+  const template = (): GeneratedDraft => {
+    const generated = generateWithTemplate(args.input, args.org, args.sources);
+    const parsed = DraftSchema.safeParse(generated);
+    if (!parsed.success) throw new Error("Template generator returned invalid payload (bug)");
+    return { ...cite(parsed.data), provider: "template", generation: record("template") };
   };
-}): Promise<
-  z.infer<typeof DraftSchema> & {
-    provider: "azure-openai" | "openai" | "template";
-  }
-> {
-  const context = buildContext(args.org, args.sources);
-  const prompt = buildPrompt(args.input, context);
 
-  const azureConfigured =
-    Boolean(process.env.AZURE_OPENAI_ENDPOINT?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_API_KEY?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_DEPLOYMENT?.trim());
+  return { prompt, record, cite, template };
+}
+
+function draftIssues(error: z.ZodError) {
+  console.error("Draft validation errors:", JSON.stringify(error.issues, null, 2));
+  return error.issues.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ");
+}
 
-  const openaiConfigured = Boolean(process.env.OPENAI_API_KEY?.trim());
+export async function generateBlogDraft(args: DraftArgs): Promise<GeneratedDraft> {
+  const { prompt, record, cite, template } = await prepareDraft(args, "json");
 
-  if (azureConfigured) {
-    const raw = await generateWithAzureOpenAI(prompt);
+  const result = await completeWithFailover("generate", prompt, (raw) => {
     const obj = extractJsonObject(raw);
     const parsed = DraftSchema.safeParse(obj);
-    if (!parsed.success) {
-      console.error("Azure OpenAI validation errors:", JSON.stringify(parsed.error.errors, null, 2));
-      console.error("Received object:", JSON.stringify(obj, null, 2));
-      throw new Error(`Azure OpenAI returned invalid JSON: ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ')}`);
+    if (!parsed.success) throw new Error(`Returned invalid JSON: ${draftIssues(parsed.error)}`);
+    return parsed.data;
+  });
+  if (result) {
+    return { ...cite(result.value), provider: result.provider.id, generation: record(result.provider.id) };
+  }
+
+  return template();
+}
+
+/**
+ * Generate a draft, passing the article markdown to `onMarkdown` as it is
+ * written. The model writes the article first and the metadata after it, so
+ * if the stream breaks off or the metadata is unusable the article so far is
+ * still returned, with metadata taken from the request and `complete: false`.
+ */
+export async function streamBlogDraft(
+  args: DraftArgs,
+  onMarkdown: (text: string) => void
+): Promise<GeneratedDraft & { complete: boolean }> {
+  const { prompt, record, cite, template } = await prepareDraft(args, "stream");
+
+  let buffer = "";
+  let emitted = 0;
+  // Pass on everything before the delimiter, holding back a tail that could
+  // be the start of it
+  const flush = (final: boolean) => {
+    const at = buffer.indexOf(METADATA_DELIMITER);
+    const end = at >= 0 ? at : final ? buffer.length : Math.max(emitted, buffer.length - METADATA_DELIMITER.length);
+    if (end > emitted) {
+      onMarkdown(buffer.slice(emitted, end));
+      emitted = end;
+    }
+  };
+
+  const result = await streamWithFailover("generate", prompt, (delta) => {
+    buffer += delta;
+    flush(false);
+  });
+
+  if (!result) {
+    const draft = template();
+    onMarkdown(draft.contentMarkdown);
+    return { ...draft, complete: true };
+  }
+
+  buffer = result.text;
+  flush(true);
+
+  const at = buffer.indexOf(METADATA_DELIMITER);
+  const markdown = (at >= 0 ? buffer.slice(0, at) : buffer).trim();
+  if (!markdown) throw new Error(result.error ?? "The model returned no article");
+
+  let metadata: unknown = null;
+  let problem = result.error;
+  if (at < 0) problem ??= "The model stopped before writing the metadata";
+  else {
+    try {
+      metadata = extractJsonObject(buffer.slice(at + METADATA_DELIMITER.length));
+    } catch (e) {
+      problem ??= e instanceof Error ? e.message : "Metadata was not valid JSON";
     }
-    return { ...parsed.data, provider: "azure-openai" };
   }
 
-  if (openaiConfigured) {
-    const raw = await generateWithOpenAI(prompt);
-    const obj = extractJsonObject(raw);
-    const parsed = DraftSchema.safeParse(obj);
-    if (!parsed.success) throw new Error("OpenAI returned invalid JSON payload");
-    return { ...parsed.data, provider: "openai" };
+  const provider = result.provider.id;
+  if (!problem) {
+    const parsed = DraftSchema.safeParse({ ...(metadata as object), contentMarkdown: markdown });
+    if (parsed.success) {
+      return { ...cite(parsed.data), provider, generation: record(provider), complete: true };
+    }
+    problem = `Invalid metadata: ${draftIssues(parsed.error)}`;
   }
 
-  const generated = generateWithTemplate(args.input, args.org, args.sources);
-  const parsed = DraftSchema.safeParse(generated);
-  if (!parsed.success) throw new Error("Template generator returned invalid payload (bug)");
-  return { ...parsed.data, provider: "template" };
+  // Keep what was written; the writer fills in the rest in the editor
+  const citations = DraftSchema.shape.citations.safeParse(
+    metadata && typeof metadata === "object" ? (metadata as { citations?: unknown }).citations : undefined
+  );
+  const summary = truncateText(args.input.idea, 900);
+  return {
+    ...cite({
+      title: args.input.title,
+      summary,
+      seoTitle: truncateText(args.input.title, 80),
+      seoDescription: truncateText(summary, 180),
+      keywords: args.input.keywords,
+      contentMarkdown: markdown,
+      citations: citations.success ? citations.data : []
+    }),
+    provider,
+    generation: record(provider, problem),
+    complete: false
+  };
 }
 
-function buildContext(org: OrganizationProfile, sources: KnowledgeSource[]) {
-  const chunks: string[] = [];
-  chunks.push(
+function buildContext(org: OrganizationProfile, chunks: RetrievedChunk[]) {
+  const parts: string[] = [];
+  parts.push(
     `Organization name: ${org.name}\nWebsite: ${org.website || "(not provided)"}\nTagline: ${
       org.tagline
     }\nMission: ${org.mission}\nFocus areas: ${
@@ -82,29 +218,36 @@ function buildContext(org: OrganizationProfile, sources: KnowledgeSource[]) {
     )}\nAvoid terms: ${org.avoidTerms.join(", ")}`
   );
 
-  const maxPerSource = 6_000;
-  const maxTotal = 40_000;
-
-  for (const s of sources) {
-    const header = `\n\n[Source: ${s.title} · ${s.type}${s.url ? ` · ${s.url}` : ""}]`;
-    const body = truncateText(s.contentText, maxPerSource);
-    chunks.push(`${header}\n${body}`);
+  for (const c of chunks) {
+    const { title, type, url } = c.source;
+    parts.push(
+      `\n\n[Source id: ${c.sourceId} · ${title} · ${type}${url ? ` · ${url}` : ""} · excerpt ${c.index + 1}]\n${c.text}`
+    );
   }
 
-  return truncateText(chunks.join("\n"), maxTotal);
+  return truncateText(parts.join("\n"), MAX_CONTEXT_CHARS);
 }
 
-function buildPrompt(
-  input: {
-    title: string;
-    subtitles: string[];
-    keywords: string[];
-    idea: string;
-    targetAudience?: string;
-    callToAction?: string;
-  },
-  context: string
-) {
+function buildPrompt(input: DraftInput, context: string, output: "json" | "stream") {
+  const article = `Markdown article with headings, lists, and a short “About ${input.title} / About the organization” box at the end`;
+  const fields = `- title (string)
+- subtitle (string, optional)
+- summary (string, 1–3 sentences)
+- seoTitle (string, <= 70–80 chars)
+- seoDescription (string, <= 155–180 chars)
+- keywords (string[], 6–16 items, dedupe)`;
+  const format =
+    output === "json"
+      ? `Return ONLY a single JSON object with these fields:
+${fields}
+- contentMarkdown (string, ${article})
+- citations (array of { marker: number, sourceId: string, quote: string })`
+      : `First write the article itself: a ${article}. Do not wrap it in a code block.
+Then write a line containing only ${METADATA_DELIMITER}
+After that line write ONLY a single JSON object with these fields:
+${fields}
+- citations (array of { marker: number, sourceId: string, quote: string })`;
+
   return `
 You are a senior wildlife conservation writer and SEO strategist.
 Write for a wildlife conservation organization. Be accurate, calm, hopeful, and action-oriented.
@@ -112,14 +255,12 @@ Use the organization’s stated objectives and focus areas from the context.
 Avoid sensationalism and avoid making precise factual claims unless supported by the provided sources; when uncertain, use cautious language and suggest verification.
 Do not mention being an AI.
 
-Return ONLY a single JSON object with these fields:
-- title (string)
-- subtitle (string, optional)
-- summary (string, 1–3 sentences)
-- seoTitle (string, <= 70–80 chars)
-- seoDescription (string, <= 155–180 chars)
-- keywords (string[], 6–16 items, dedupe)
-- contentMarkdown (string, Markdown article with headings, lists, and a short “About ${input.title} / About the organization” box at the end)
+${format}
+
+Citations:
+- When a sentence relies on a source excerpt, put a footnote marker such as [^1] right after it, numbering markers from 1 in reading order.
+- For each marker add one citations entry with the excerpt's source id and a short verbatim quote (under 300 characters) from that excerpt that supports the claim.
+- Do not write footnote definitions in the article and do not cite anything that is not in the context sources.
 
 Inputs:
 Title: ${input.title}
@@ -0,0 +1,113 @@
+import { readEventStream } from "@/lib/ai/providers/sse";
+
+type AnthropicMessagesResponse = {
+  content?: Array<{ type: string; text?: string }>;
+  error?: { message?: string };
+};
+
+export async function generateWithAnthropic(
+  prompt: string,
+  options: {
+    baseUrl?: string;
+    apiKey: string;
+    model: string;
+    system?: string;
+    temperature?: number;
+  }
+) {
+  const baseUrl = options.baseUrl?.trim().replace(/\/+$/, "") || "https://api.anthropic.com";
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 60_000);
+
+  try {
+    const res = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        "x-api-key": options.apiKey,
+        "anthropic-version": "2023-06-01",
+        "content-type": "application/json"
+      },
+      body: JSON.stringify({
+        model: options.model,
+        max_tokens: 8192,
+        temperature: options.temperature ?? 0.7,
+        // No JSON mode here; the prompts already ask for a single JSON object
+        system: options.system ?? "You write conservation blog posts.",
+        messages: [{ role: "user", content: prompt }]
+      })
+    });
+
+    const data = (await res.json()) as AnthropicMessagesResponse;
+    if (!res.ok) {
+      throw new Error(data.error?.message ?? `Anthropic request failed (${res.status})`);
+    }
+
+    const content = (data.content ?? [])
+      .map((block) => (block.type === "text" ? block.text ?? "" : ""))
+      .join("")
+      .trim();
+    if (!content) throw new Error("Anthropic returned an empty response");
+    return content;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+type AnthropicStreamEvent = {
+  type: string;
+  delta?: { type?: string; text?: string };
+  error?: { message?: string };
+};
+
+export async function streamWithAnthropic(
+  prompt: string,
+  onDelta: (text: string) => void,
+  options: {
+    baseUrl?: string;
+    apiKey: string;
+    model: string;
+    system?: string;
+    temperature?: number;
+  }
+) {
+  const baseUrl = options.baseUrl?.trim().replace(/\/+$/, "") || "https://api.anthropic.com";
+  const controller = new AbortController();
+
+  const res = await fetch(`${baseUrl}/v1/messages`, {
+    method: "POST",
+    signal: controller.signal,
+    headers: {
+      "x-api-key": options.apiKey,
+      "anthropic-version": "2023-06-01",
+      "content-type": "application/json"
+    },
+    body: JSON.stringify({
+      model: options.model,
+      max_tokens: 8192,
+      stream: true,
+      temperature: options.temperature ?? 0.7,
+      system: options.system ?? "You write conservation blog posts.",
+      messages: [{ role: "user", content: prompt }]
+    })
+  });
+
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as AnthropicMessagesResponse;
+    throw new Error(data.error?.message ?? `Anthropic request failed (${res.status})`);
+  }
+
+  let text = "";
+  await readEventStream(res, controller, 60_000, (_event, data) => {
+    const event = JSON.parse(data) as AnthropicStreamEvent;
+    if (event.type === "error") throw new Error(event.error?.message ?? "Anthropic stream failed");
+    if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+      text += event.delta.text;
+      onDelta(event.delta.text);
+    }
+  });
+
+  if (!text.trim()) throw new Error("Anthropic returned an empty response");
+  return text;
+}
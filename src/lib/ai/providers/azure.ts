@@ -1,3 +1,5 @@
+import { readEventStream } from "@/lib/ai/providers/sse";
+
 type AzureChatCompletionResponse = {
   choices?: Array<{
     message?: {
@@ -7,10 +9,19 @@ type AzureChatCompletionResponse = {
   error?: { message?: string };
 };
 
-export async function generateWithAzureOpenAI(prompt: string) {
-  const endpoint = process.env.AZURE_OPENAI_ENDPOINT?.trim();
-  const apiKey = process.env.AZURE_OPENAI_API_KEY?.trim();
-  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT?.trim();
+export async function generateWithAzureOpenAI(
+  prompt: string,
+  options: {
+    endpoint?: string;
+    apiKey?: string;
+    deployment?: string;
+    system?: string;
+    temperature?: number;
+  } = {}
+) {
+  const endpoint = options.endpoint?.trim() || process.env.AZURE_OPENAI_ENDPOINT?.trim();
+  const apiKey = options.apiKey?.trim() || process.env.AZURE_OPENAI_API_KEY?.trim();
+  const deployment = options.deployment?.trim() || process.env.AZURE_OPENAI_DEPLOYMENT?.trim();
   const apiVersion = process.env.AZURE_OPENAI_API_VERSION?.trim() || "2024-02-15-preview";
   if (!endpoint || !apiKey || !deployment) throw new Error("Missing Azure OpenAI env vars");
 
@@ -30,10 +41,10 @@ export async function generateWithAzureOpenAI(prompt: string) {
         "content-type": "application/json"
       },
       body: JSON.stringify({
-        temperature: 0.7,
+        temperature: options.temperature ?? 0.7,
         response_format: { type: "json_object" },
         messages: [
-          { role: "system", content: "You write conservation blog posts." },
+          { role: "system", content: options.system ?? "You write conservation blog posts." },
           { role: "user", content: prompt }
         ]
       })
@@ -51,3 +62,115 @@ export async function generateWithAzureOpenAI(prompt: string) {
     clearTimeout(timeout);
   }
 }
+
+type AzureChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string } }>;
+  error?: { message?: string };
+};
+
+export async function streamWithAzureOpenAI(
+  prompt: string,
+  onDelta: (text: string) => void,
+  options: {
+    endpoint?: string;
+    apiKey?: string;
+    deployment?: string;
+    system?: string;
+    temperature?: number;
+  } = {}
+) {
+  const endpoint = options.endpoint?.trim() || process.env.AZURE_OPENAI_ENDPOINT?.trim();
+  const apiKey = options.apiKey?.trim() || process.env.AZURE_OPENAI_API_KEY?.trim();
+  const deployment = options.deployment?.trim() || process.env.AZURE_OPENAI_DEPLOYMENT?.trim();
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION?.trim() || "2024-02-15-preview";
+  if (!endpoint || !apiKey || !deployment) throw new Error("Missing Azure OpenAI env vars");
+
+  const url = `${endpoint.replace(/\/+$/, "")}/openai/deployments/${encodeURIComponent(
+    deployment
+  )}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+
+  const controller = new AbortController();
+  const res = await fetch(url, {
+    method: "POST",
+    signal: controller.signal,
+    headers: {
+      "api-key": apiKey,
+      "content-type": "application/json"
+    },
+    body: JSON.stringify({
+      stream: true,
+      temperature: options.temperature ?? 0.7,
+      messages: [
+        { role: "system", content: options.system ?? "You write conservation blog posts." },
+        { role: "user", content: prompt }
+      ]
+    })
+  });
+
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as AzureChatCompletionChunk;
+    throw new Error(data.error?.message ?? `Azure OpenAI request failed (${res.status})`);
+  }
+
+  let text = "";
+  await readEventStream(res, controller, 60_000, (_event, data) => {
+    if (data === "[DONE]") return;
+    const chunk = JSON.parse(data) as AzureChatCompletionChunk;
+    if (chunk.error) throw new Error(chunk.error.message ?? "Azure OpenAI stream failed");
+    // The first chunk only carries content filter results
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onDelta(delta);
+    }
+  });
+
+  if (!text.trim()) throw new Error("Azure OpenAI returned an empty response");
+  return text;
+}
+
+type AzureEmbeddingResponse = {
+  data?: Array<{ index: number; embedding: number[] }>;
+  error?: { message?: string };
+};
+
+export async function embedWithAzureOpenAI(
+  texts: string[],
+  options: { endpoint?: string; apiKey?: string; deployment?: string } = {}
+) {
+  const endpoint = options.endpoint?.trim() || process.env.AZURE_OPENAI_ENDPOINT?.trim();
+  const apiKey = options.apiKey?.trim() || process.env.AZURE_OPENAI_API_KEY?.trim();
+  const deployment = options.deployment?.trim() || process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT?.trim();
+  const apiVersion = process.env.AZURE_OPENAI_API_VERSION?.trim() || "2024-02-15-preview";
+  if (!endpoint || !apiKey || !deployment) throw new Error("Missing Azure OpenAI embedding env vars");
+
+  const url = `${endpoint.replace(/\/+$/, "")}/openai/deployments/${encodeURIComponent(
+    deployment
+  )}/embeddings?api-version=${encodeURIComponent(apiVersion)}`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 60_000);
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        "api-key": apiKey,
+        "content-type": "application/json"
+      },
+      body: JSON.stringify({ input: texts })
+    });
+
+    const data = (await res.json()) as AzureEmbeddingResponse;
+    if (!res.ok) {
+      throw new Error(data.error?.message ?? `Azure OpenAI embeddings request failed (${res.status})`);
+    }
+
+    const vectors = (data.data ?? []).sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    if (vectors.length !== texts.length) throw new Error("Azure OpenAI returned the wrong number of embeddings");
+    return vectors;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
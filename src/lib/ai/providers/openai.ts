@@ -1,3 +1,5 @@
+import { readEventStream } from "@/lib/ai/providers/sse";
+
 type OpenAIChatCompletionResponse = {
   choices?: Array<{
     message?: {
@@ -7,29 +9,44 @@ type OpenAIChatCompletionResponse = {
   error?: { message?: string };
 };
 
-export async function generateWithOpenAI(prompt: string) {
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) throw new Error("Missing OPENAI_API_KEY");
+/**
+ * Chat completion against the OpenAI API, or any server that speaks the same
+ * protocol (Ollama, llama.cpp server, vLLM, ...) when `baseUrl` is given.
+ * The API key is optional for local servers.
+ */
+export async function generateWithOpenAI(
+  prompt: string,
+  options: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    system?: string;
+    temperature?: number;
+  } = {}
+) {
+  const baseUrl = options.baseUrl?.trim().replace(/\/+$/, "") || "https://api.openai.com/v1";
+  const apiKey = options.apiKey?.trim() || (options.baseUrl ? undefined : process.env.OPENAI_API_KEY?.trim());
+  if (!apiKey && !options.baseUrl) throw new Error("Missing OPENAI_API_KEY");
 
-  const model = process.env.OPENAI_MODEL?.trim() || "gpt-4.1-mini";
+  const model = options.model?.trim() || process.env.OPENAI_MODEL?.trim() || "gpt-4.1-mini";
 
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 60_000);
 
   try {
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
+    const res = await fetch(`${baseUrl}/chat/completions`, {
       method: "POST",
       signal: controller.signal,
       headers: {
-        authorization: `Bearer ${apiKey}`,
+        ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
         "content-type": "application/json"
       },
       body: JSON.stringify({
         model,
-        temperature: 0.7,
+        temperature: options.temperature ?? 0.7,
         response_format: { type: "json_object" },
         messages: [
-          { role: "system", content: "You write conservation blog posts." },
+          { role: "system", content: options.system ?? "You write conservation blog posts." },
           { role: "user", content: prompt }
         ]
       })
@@ -48,3 +65,111 @@ export async function generateWithOpenAI(prompt: string) {
   }
 }
 
+type OpenAIChatCompletionChunk = {
+  choices?: Array<{ delta?: { content?: string } }>;
+  error?: { message?: string };
+};
+
+/**
+ * Streaming chat completion; `onDelta` receives each piece of text as it
+ * arrives and the full text is returned. Not in JSON mode, so the prompt
+ * decides the output format.
+ */
+export async function streamWithOpenAI(
+  prompt: string,
+  onDelta: (text: string) => void,
+  options: {
+    baseUrl?: string;
+    apiKey?: string;
+    model?: string;
+    system?: string;
+    temperature?: number;
+  } = {}
+) {
+  const baseUrl = options.baseUrl?.trim().replace(/\/+$/, "") || "https://api.openai.com/v1";
+  const apiKey = options.apiKey?.trim() || (options.baseUrl ? undefined : process.env.OPENAI_API_KEY?.trim());
+  if (!apiKey && !options.baseUrl) throw new Error("Missing OPENAI_API_KEY");
+
+  const model = options.model?.trim() || process.env.OPENAI_MODEL?.trim() || "gpt-4.1-mini";
+  const controller = new AbortController();
+
+  const res = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    signal: controller.signal,
+    headers: {
+      ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+      "content-type": "application/json"
+    },
+    body: JSON.stringify({
+      model,
+      stream: true,
+      temperature: options.temperature ?? 0.7,
+      messages: [
+        { role: "system", content: options.system ?? "You write conservation blog posts." },
+        { role: "user", content: prompt }
+      ]
+    })
+  });
+
+  if (!res.ok) {
+    const data = (await res.json().catch(() => ({}))) as OpenAIChatCompletionChunk;
+    throw new Error(data.error?.message ?? `OpenAI request failed (${res.status})`);
+  }
+
+  let text = "";
+  await readEventStream(res, controller, 60_000, (_event, data) => {
+    if (data === "[DONE]") return;
+    const chunk = JSON.parse(data) as OpenAIChatCompletionChunk;
+    if (chunk.error) throw new Error(chunk.error.message ?? "OpenAI stream failed");
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onDelta(delta);
+    }
+  });
+
+  if (!text.trim()) throw new Error("OpenAI returned an empty response");
+  return text;
+}
+
+type OpenAIEmbeddingResponse = {
+  data?: Array<{ index: number; embedding: number[] }>;
+  error?: { message?: string };
+};
+
+/** Embeddings from the OpenAI API, or from a compatible server when `baseUrl` is given */
+export async function embedWithOpenAI(
+  texts: string[],
+  options: { baseUrl?: string; apiKey?: string; model?: string } = {}
+) {
+  const baseUrl = options.baseUrl?.trim().replace(/\/+$/, "") || "https://api.openai.com/v1";
+  const apiKey = options.apiKey?.trim() || (options.baseUrl ? undefined : process.env.OPENAI_API_KEY?.trim());
+  if (!apiKey && !options.baseUrl) throw new Error("Missing OPENAI_API_KEY");
+  const model = options.model?.trim() || process.env.OPENAI_EMBEDDING_MODEL?.trim() || "text-embedding-3-small";
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), 60_000);
+
+  try {
+    const res = await fetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+        "content-type": "application/json"
+      },
+      body: JSON.stringify({ model, input: texts })
+    });
+
+    const data = (await res.json()) as OpenAIEmbeddingResponse;
+    if (!res.ok) {
+      throw new Error(data.error?.message ?? `OpenAI embeddings request failed (${res.status})`);
+    }
+
+    const vectors = (data.data ?? []).sort((a, b) => a.index - b.index).map((d) => d.embedding);
+    if (vectors.length !== texts.length) throw new Error("OpenAI returned the wrong number of embeddings");
+    return vectors;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
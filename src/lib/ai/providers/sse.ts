@@ -0,0 +1,45 @@
+/**
+ * Read a server-sent events response body, calling `onEvent` with each
+ * event's name and data. The request is aborted through `controller` when
+ * no bytes arrive for `idleMs`, so a long generation isn't cut off by a fixed
+ * timeout but a stalled one still ends.
+ */
+export async function readEventStream(
+  res: Response,
+  controller: AbortController,
+  idleMs: number,
+  onEvent: (event: string, data: string) => void
+) {
+  if (!res.body) throw new Error("Response has no body to stream");
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let idle = setTimeout(() => controller.abort(), idleMs);
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      clearTimeout(idle);
+      idle = setTimeout(() => controller.abort(), idleMs);
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? "";
+
+      for (const block of blocks) {
+        let event = "message";
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+        }
+        if (data.length > 0) onEvent(event, data.join("\n"));
+      }
+    }
+  } finally {
+    clearTimeout(idle);
+  }
+}
@@ -0,0 +1,326 @@
+import type { AiProviderConfig, AiProviderKind, AiSettings, AiTask } from "@/lib/storage/types";
+import { getAiSettings } from "@/lib/storage/settings";
+import { embedWithAzureOpenAI, generateWithAzureOpenAI, streamWithAzureOpenAI } from "@/lib/ai/providers/azure";
+import { embedWithOpenAI, generateWithOpenAI, streamWithOpenAI } from "@/lib/ai/providers/openai";
+import { generateWithAnthropic, streamWithAnthropic } from "@/lib/ai/providers/anthropic";
+import {
+  AI_API_KEY_ENV_PREFIX,
+  AI_PROVIDER_KIND_LABELS,
+  AI_PROVIDER_KINDS,
+  AI_STANDARD_API_KEY_ENVS,
+  isAllowedApiKeyEnv
+} from "@/lib/ai/catalog";
+
+export type CompletionOptions = {
+  system?: string;
+  temperature?: number;
+};
+
+/** A chain entry with its configuration resolved against the environment */
+export type AiProvider = {
+  id: string;
+  kind: AiProviderKind;
+  label: string;
+  enabled: boolean;
+  // Why the provider can't be used, or null when it can
+  problem: string | null;
+  model: (task: AiTask) => string | undefined;
+  complete: (task: AiTask, prompt: string, options?: CompletionOptions) => Promise<string>;
+  // Like complete, passing text to onDelta as it is generated
+  stream: (
+    task: AiTask,
+    prompt: string,
+    onDelta: (text: string) => void,
+    options?: CompletionOptions
+  ) => Promise<string>;
+  // Undefined when the provider has no embedding model (Anthropic has no embeddings API)
+  embeddingModel: string | undefined;
+  embed: (texts: string[]) => Promise<number[][]>;
+};
+
+type KindDefaults = {
+  apiKeyEnv?: string;
+  apiKeyRequired: boolean;
+  baseUrlEnv?: string;
+  // The provider's own host, used when no base URL is set
+  defaultBaseUrl?: string;
+  baseUrlRequired: boolean;
+  modelEnv?: string;
+  defaultModel?: string;
+  embeddingModelEnv?: string;
+  defaultEmbeddingModel?: string;
+};
+
+const KIND_DEFAULTS: Record<AiProviderKind, KindDefaults> = {
+  "azure-openai": {
+    apiKeyEnv: "AZURE_OPENAI_API_KEY",
+    apiKeyRequired: true,
+    baseUrlEnv: "AZURE_OPENAI_ENDPOINT",
+    baseUrlRequired: true,
+    modelEnv: "AZURE_OPENAI_DEPLOYMENT",
+    embeddingModelEnv: "AZURE_OPENAI_EMBEDDING_DEPLOYMENT"
+  },
+  openai: {
+    apiKeyEnv: "OPENAI_API_KEY",
+    apiKeyRequired: true,
+    defaultBaseUrl: "https://api.openai.com/v1",
+    baseUrlRequired: false,
+    modelEnv: "OPENAI_MODEL",
+    defaultModel: "gpt-4.1-mini",
+    embeddingModelEnv: "OPENAI_EMBEDDING_MODEL",
+    defaultEmbeddingModel: "text-embedding-3-small"
+  },
+  "openai-compatible": {
+    apiKeyEnv: "OPENAI_COMPATIBLE_API_KEY",
+    apiKeyRequired: false,
+    baseUrlEnv: "OPENAI_COMPATIBLE_BASE_URL",
+    baseUrlRequired: true,
+    modelEnv: "OPENAI_COMPATIBLE_MODEL",
+    embeddingModelEnv: "OPENAI_COMPATIBLE_EMBEDDING_MODEL"
+  },
+  anthropic: {
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+    apiKeyRequired: true,
+    baseUrlEnv: "ANTHROPIC_BASE_URL",
+    defaultBaseUrl: "https://api.anthropic.com",
+    baseUrlRequired: false,
+    modelEnv: "ANTHROPIC_MODEL"
+  }
+};
+
+function env(name: string | undefined) {
+  return name ? process.env[name]?.trim() || undefined : undefined;
+}
+
+/**
+ * The chain used until an admin saves AI settings: every kind once, in the
+ * order the app has always preferred, each configured from its usual
+ * environment variables.
+ */
+export function defaultAiSettings(): AiSettings {
+  return {
+    providers: AI_PROVIDER_KINDS.map((kind) => ({
+      id: kind,
+      kind,
+      label: AI_PROVIDER_KIND_LABELS[kind],
+      enabled: true
+    }))
+  };
+}
+
+function sameUrl(a: string, b: string | undefined) {
+  return b !== undefined && a.replace(/\/+$/, "") === b.replace(/\/+$/, "");
+}
+
+/**
+ * Why `config` can't be given its API key, or null when it can. The key is
+ * sent to the base URL, so the variable must be allowed (isAllowedApiKeyEnv),
+ * and a provider kind's usual variable only goes to that kind at the host the
+ * environment configures: a base URL entered in settings needs an AI_KEY_
+ * variable. A usual variable that is unset sends nothing, so it isn't a problem.
+ */
+export function apiKeyProblem(config: Pick<AiProviderConfig, "kind" | "baseUrl" | "apiKeyEnv">): string | null {
+  const defaults = KIND_DEFAULTS[config.kind];
+  const apiKeyEnv = config.apiKeyEnv?.trim() || defaults.apiKeyEnv;
+  if (!apiKeyEnv) return null;
+  if (!isAllowedApiKeyEnv(apiKeyEnv)) {
+    return `API key variable ${apiKeyEnv} isn't allowed (use ${AI_API_KEY_ENV_PREFIX}…)`;
+  }
+  if (!(AI_STANDARD_API_KEY_ENVS as readonly string[]).includes(apiKeyEnv) || !env(apiKeyEnv)) return null;
+
+  if (apiKeyEnv !== defaults.apiKeyEnv) {
+    return `${apiKeyEnv} is for ${AI_PROVIDER_KIND_LABELS[kindOfKeyEnv(apiKeyEnv)]} (use ${AI_API_KEY_ENV_PREFIX}…)`;
+  }
+  const baseUrl = config.baseUrl?.trim();
+  if (baseUrl && !sameUrl(baseUrl, env(defaults.baseUrlEnv) ?? defaults.defaultBaseUrl)) {
+    return `A base URL set here needs its own key variable (${AI_API_KEY_ENV_PREFIX}…), not ${apiKeyEnv}`;
+  }
+  return null;
+}
+
+function kindOfKeyEnv(name: string) {
+  return AI_PROVIDER_KINDS.find((kind) => KIND_DEFAULTS[kind].apiKeyEnv === name)!;
+}
+
+export function resolveProvider(config: AiProviderConfig): AiProvider {
+  const defaults = KIND_DEFAULTS[config.kind];
+  const label = config.label?.trim() || AI_PROVIDER_KIND_LABELS[config.kind];
+  const baseUrl = config.baseUrl?.trim() || env(defaults.baseUrlEnv);
+  const apiKeyEnv = config.apiKeyEnv?.trim() || defaults.apiKeyEnv;
+  // Settings saved before the restrictions may still break them; the key is never read then
+  const keyProblem = apiKeyProblem(config);
+  const apiKey = keyProblem ? undefined : env(apiKeyEnv);
+  const model = (task: AiTask) =>
+    config.taskModels?.[task]?.trim() || config.model?.trim() || env(defaults.modelEnv) || defaults.defaultModel;
+  const embeddingModel =
+    config.kind === "anthropic"
+      ? undefined
+      : config.embeddingModel?.trim() || env(defaults.embeddingModelEnv) || defaults.defaultEmbeddingModel;
+
+  let problem: string | null = null;
+  if (keyProblem) problem = keyProblem;
+  else if (defaults.baseUrlRequired && !baseUrl) problem = `No endpoint (set ${defaults.baseUrlEnv} or a base URL)`;
+  else if (defaults.apiKeyRequired && !apiKey) problem = `No API key (set ${apiKeyEnv})`;
+  else if (!model("generate")) problem = `No model (set ${defaults.modelEnv} or a default model)`;
+
+  return {
+    id: config.id,
+    kind: config.kind,
+    label,
+    enabled: config.enabled,
+    problem,
+    model,
+    embeddingModel,
+    async embed(texts) {
+      if (problem) throw new Error(`${label}: ${problem}`);
+      if (!embeddingModel) throw new Error(`${label}: No embedding model`);
+      switch (config.kind) {
+        case "azure-openai":
+          return embedWithAzureOpenAI(texts, { endpoint: baseUrl, apiKey, deployment: embeddingModel });
+        case "openai":
+        case "openai-compatible":
+          return embedWithOpenAI(texts, { baseUrl, apiKey, model: embeddingModel });
+        case "anthropic":
+          throw new Error(`${label}: No embeddings API`);
+      }
+    },
+    async complete(task, prompt, options = {}) {
+      if (problem) throw new Error(`${label}: ${problem}`);
+      const chosen = model(task)!;
+      switch (config.kind) {
+        case "azure-openai":
+          return generateWithAzureOpenAI(prompt, { endpoint: baseUrl, apiKey, deployment: chosen, ...options });
+        case "openai":
+          return generateWithOpenAI(prompt, { baseUrl, apiKey, model: chosen, ...options });
+        case "openai-compatible":
+          return generateWithOpenAI(prompt, { baseUrl: baseUrl!, apiKey, model: chosen, ...options });
+        case "anthropic":
+          return generateWithAnthropic(prompt, { baseUrl, apiKey: apiKey!, model: chosen, ...options });
+      }
+    },
+    async stream(task, prompt, onDelta, options = {}) {
+      if (problem) throw new Error(`${label}: ${problem}`);
+      const chosen = model(task)!;
+      switch (config.kind) {
+        case "azure-openai":
+          return streamWithAzureOpenAI(prompt, onDelta, { endpoint: baseUrl, apiKey, deployment: chosen, ...options });
+        case "openai":
+          return streamWithOpenAI(prompt, onDelta, { baseUrl, apiKey, model: chosen, ...options });
+        case "openai-compatible":
+          return streamWithOpenAI(prompt, onDelta, { baseUrl: baseUrl!, apiKey, model: chosen, ...options });
+        case "anthropic":
+          return streamWithAnthropic(prompt, onDelta, { baseUrl, apiKey: apiKey!, model: chosen, ...options });
+      }
+    }
+  };
+}
+
+export async function loadAiSettings(): Promise<AiSettings> {
+  return (await getAiSettings()) ?? defaultAiSettings();
+}
+
+/** Readiness of each provider in the settings, for the settings screen */
+export function describeAiProviders(settings: AiSettings) {
+  return settings.providers.map((config) => {
+    const p = resolveProvider(config);
+    return { id: p.id, ready: !p.problem, problem: p.problem };
+  });
+}
+
+/** Every configured provider, usable or not, in failover order */
+export async function listAiProviders(): Promise<AiProvider[]> {
+  const settings = await loadAiSettings();
+  return settings.providers.map(resolveProvider);
+}
+
+/** The usable providers, in failover order */
+export async function getAiChain(): Promise<AiProvider[]> {
+  return (await listAiProviders()).filter((p) => p.enabled && !p.problem);
+}
+
+/**
+ * The provider that embeds knowledge base text: the first usable one in the
+ * chain with an embedding model. There is no failover, since vectors from
+ * different models can't be compared; null means retrieval uses BM25 alone.
+ */
+export async function getEmbeddingProvider(): Promise<AiProvider | null> {
+  return (await getAiChain()).find((p) => p.embeddingModel) ?? null;
+}
+
+/**
+ * Run a prompt through the chain until a provider returns something `parse`
+ * accepts. `parse` should throw on output it can't use, which moves on to the
+ * next provider. Returns null when no provider is usable, so callers can fall
+ * back to a template; throws when every usable provider failed.
+ */
+export async function completeWithFailover<T>(
+  task: AiTask,
+  prompt: string,
+  parse: (raw: string) => T,
+  options?: CompletionOptions
+): Promise<{ value: T; provider: AiProvider } | null> {
+  const chain = await getAiChain();
+  if (chain.length === 0) return null;
+
+  const failures: string[] = [];
+  for (const provider of chain) {
+    try {
+      const raw = await provider.complete(task, prompt, options);
+      return { value: parse(raw), provider };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`AI provider ${provider.id} failed on ${task}:`, message);
+      failures.push(`${provider.label}: ${message}`);
+    }
+  }
+
+  throw new Error(`All AI providers failed (${failures.join("; ")})`);
+}
+
+export type StreamResult = {
+  text: string;
+  provider: AiProvider;
+  // Set when the provider failed after text had already been passed on
+  error?: string;
+};
+
+/**
+ * Stream a prompt through the chain. A provider that fails before sending any
+ * text is skipped like in completeWithFailover; once text has been passed to
+ * `onDelta` there is no switching (it can't be taken back), so the text so
+ * far is returned with the error instead. Returns null when no provider is
+ * usable; throws when every usable provider failed before sending anything.
+ */
+export async function streamWithFailover(
+  task: AiTask,
+  prompt: string,
+  onDelta: (text: string) => void,
+  options?: CompletionOptions
+): Promise<StreamResult | null> {
+  const chain = await getAiChain();
+  if (chain.length === 0) return null;
+
+  const failures: string[] = [];
+  for (const provider of chain) {
+    let text = "";
+    try {
+      const raw = await provider.stream(
+        task,
+        prompt,
+        (delta) => {
+          text += delta;
+          onDelta(delta);
+        },
+        options
+      );
+      return { text: raw, provider };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`AI provider ${provider.id} failed while streaming ${task}:`, message);
+      if (text) return { text, provider, error: message };
+      failures.push(`${provider.label}: ${message}`);
+    }
+  }
+
+  throw new Error(`All AI providers failed (${failures.join("; ")})`);
+}
@@ -0,0 +1,152 @@
+import { z } from "zod";
+import type { AuditAction, AuditChange, AuditEntityType, AuditEntry, AuditFilter } from "@/lib/storage/types";
+
+export const DEFAULT_AUDIT_LIMIT = 200;
+export const MAX_AUDIT_LIMIT = 10_000;
+
+export const AUDIT_ACTIONS = [
+  "create",
+  "update",
+  "publish",
+  "unpublish",
+  "archive",
+  "schedule",
+  "unschedule",
+  "review",
+  "delete",
+  "import"
+] as const satisfies readonly AuditAction[];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  post: "Post",
+  source: "Knowledge source",
+  watched_source: "Watched source",
+  org: "Organization profile",
+  workspace: "Workspace",
+  media: "Media"
+};
+
+const AUDIT_ENTITY_TYPES = [
+  "post",
+  "source",
+  "watched_source",
+  "org",
+  "workspace",
+  "media"
+] as const satisfies readonly AuditEntityType[];
+
+const Day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+/** Filters as they appear in a query string; `from` and `to` are whole UTC days */
+export const AuditQuerySchema = z.object({
+  actor: z.guid().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  type: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entity: z.guid().optional(),
+  from: Day.optional(),
+  to: Day.optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_LIMIT).optional()
+});
+
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+/** Reads the query fields from URL search params, treating empty ones as absent */
+export function parseAuditQuery(params: URLSearchParams) {
+  const fields = Object.fromEntries([...params.entries()].filter(([, value]) => value.trim() !== ""));
+  return AuditQuerySchema.safeParse(fields);
+}
+
+export function auditFilterFromQuery(query: AuditQuery): AuditFilter {
+  return {
+    actorId: query.actor,
+    action: query.action,
+    entityType: query.type,
+    entityId: query.entity,
+    from: query.from && `${query.from}T00:00:00.000Z`,
+    to: query.to && `${query.to}T23:59:59.999Z`,
+    limit: query.limit
+  };
+}
+
+const MAX_VALUE_LENGTH = 160;
+
+// Bookkeeping that changes on every save or fetch, and identifiers that never change
+const IGNORED_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "createdBy",
+  "updatedAt",
+  "updatedBy",
+  "refreshedAt",
+  "lastFetchedAt"
+]);
+
+function serialize(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (Array.isArray(value) && value.length === 0) return null;
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function shorten(text: string | null): string | null {
+  if (text === null || text.length <= MAX_VALUE_LENGTH) return text;
+  return `${text.slice(0, MAX_VALUE_LENGTH - 1)}… (${text.length.toLocaleString("en-US")} characters)`;
+}
+
+/**
+ * The fields that differ between two versions of a record, with long values
+ * shortened. A missing version (create, delete) counts as all-empty.
+ */
+export function diffRecords(before: object | null, after: object | null): AuditChange[] {
+  const a = (before ?? {}) as Record<string, unknown>;
+  const b = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChange[] = [];
+
+  for (const field of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const was = serialize(a[field]);
+    const now = serialize(b[field]);
+    if (was === now) continue;
+    changes.push({ field, before: shorten(was), after: shorten(now) });
+  }
+  return changes;
+}
+
+/** For providers that filter in memory; the databases do the same in SQL */
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  if (filter.actorId && entry.actorId !== filter.actorId) return false;
+  if (filter.action && entry.action !== filter.action) return false;
+  if (filter.entityType && entry.entityType !== filter.entityType) return false;
+  if (filter.entityId && entry.entityId !== filter.entityId) return false;
+  if (filter.from && entry.at < filter.from) return false;
+  if (filter.to && entry.at > filter.to) return false;
+  return true;
+}
+
+export function auditLimit(filter: AuditFilter): number {
+  return Math.min(Math.max(filter.limit ?? DEFAULT_AUDIT_LIMIT, 1), MAX_AUDIT_LIMIT);
+}
+
+// Quote every cell, and defuse values a spreadsheet would run as a formula
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function formatAuditChange(change: AuditChange): string {
+  return `${change.field}: ${change.before ?? "(empty)"} → ${change.after ?? "(empty)"}`;
+}
+
+export function auditLogCsv(entries: AuditEntry[]): string {
+  const header = ["Time", "Actor", "Actor ID", "Action", "Type", "ID", "Title", "Changes"];
+  const rows = entries.map((e) => [
+    e.at,
+    e.actorName,
+    e.actorId ?? "",
+    e.action,
+    e.entityType,
+    e.entityId,
+    e.entityTitle,
+    e.changes.map(formatAuditChange).join("\n")
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -1,18 +1,34 @@
 import { NextResponse } from "next/server";
-import { isValidSessionToken, SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { hasRole } from "@/lib/auth/roles";
+import { getSessionUser } from "@/lib/auth/users";
+import type { User, UserRole } from "@/lib/storage/types";
 
-export function requireAdminApi(request: Request) {
+function readSessionCookie(request: Request) {
   const cookieHeader = request.headers.get("cookie") ?? "";
   const match = cookieHeader
     .split(";")
     .map((s) => s.trim())
     .find((s) => s.startsWith(`${SESSION_COOKIE_NAME}=`));
 
-  const token = match ? decodeURIComponent(match.split("=").slice(1).join("=")) : "";
-  if (!token || !isValidSessionToken(token)) {
+  return match ? decodeURIComponent(match.split("=").slice(1).join("=")) : "";
+}
+
+/**
+ * Returns the signed-in user, or a 401/403 response to return as-is:
+ *
+ *   const user = await requireApiRole(request, "editor");
+ *   if (user instanceof NextResponse) return user;
+ */
+export async function requireApiRole(request: Request, role: UserRole): Promise<User | NextResponse> {
+  const user = await getSessionUser(readSessionCookie(request));
+  if (!user) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  return null;
-}
+  if (!hasRole(user, role)) {
+    return NextResponse.json({ error: `Requires ${role} role` }, { status: 403 });
+  }
 
+  return user;
+}
@@ -0,0 +1,24 @@
+// Verify cron secret for security
+export function verifyCronAuth(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET?.trim();
+
+  // If no secret configured, allow in development only
+  if (!cronSecret) {
+    return process.env.NODE_ENV === "development";
+  }
+
+  // Check Authorization header
+  const authHeader = request.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    const token = authHeader.slice(7);
+    return token === cronSecret;
+  }
+
+  // Check x-cron-secret header (alternative)
+  const cronHeader = request.headers.get("x-cron-secret");
+  if (cronHeader) {
+    return cronHeader === cronSecret;
+  }
+
+  return false;
+}
@@ -0,0 +1,22 @@
+import crypto from "node:crypto";
+import { promisify } from "node:util";
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt b64url>$<hash b64url>"
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, "base64url");
+  const actual = await scrypt(password, Buffer.from(saltB64, "base64url"), expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(new Uint8Array(actual), new Uint8Array(expected));
+}
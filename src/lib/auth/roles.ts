@@ -0,0 +1,24 @@
+import type { PostReview, User, UserRole } from "@/lib/storage/types";
+
+// Ordered from least to most privileged; each role can do everything the previous ones can
+export const USER_ROLES: UserRole[] = ["viewer", "writer", "editor", "admin"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: "Viewer",
+  writer: "Writer",
+  editor: "Editor",
+  admin: "Admin"
+};
+
+export function hasRole(user: Pick<User, "role">, required: UserRole) {
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Whether `user` may approve a post under `review`. Editors can't approve a
+ * review they asked for, so approval always takes a second person; admins
+ * can, so a site run by a single admin can still publish.
+ */
+export function canApproveReview(user: Pick<User, "id" | "role">, review: Pick<PostReview, "requestedById">) {
+  return hasRole(user, "admin") || (hasRole(user, "editor") && review.requestedById !== user.id);
+}
@@ -1,12 +1,18 @@
 import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
-import { isValidSessionToken, SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { hasRole } from "@/lib/auth/roles";
+import { getSessionUser } from "@/lib/auth/users";
+import type { User, UserRole } from "@/lib/storage/types";
 
-export async function isAdmin() {
+export async function getCurrentUser(): Promise<User | null> {
   const token = (await cookies()).get(SESSION_COOKIE_NAME)?.value;
-  return Boolean(token && isValidSessionToken(token));
+  return getSessionUser(token);
 }
 
-export async function requireAdmin() {
-  if (!(await isAdmin())) redirect("/login");
+export async function requireRole(role: UserRole = "viewer"): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) redirect("/login");
+  if (!hasRole(user, role)) redirect("/dashboard?forbidden=1");
+  return user;
 }
@@ -3,14 +3,22 @@ import crypto from "node:crypto";
 export const SESSION_COOKIE_NAME = "wb_session";
 
 const SESSION_TTL_SECONDS = 60 * 60 * 24 * 14; // 14 days
-const TOKEN_VERSION = 1;
+// v3 tokens carry the user's id and credential stamp; older tokens are rejected
+const TOKEN_VERSION = 3;
 
-type SessionPayload = {
+export type SessionPayload = {
   v: number;
+  sub: string;
+  // See credentialStamp
+  pwd: string;
   iat: number;
   exp: number;
 };
 
+/**
+ * Bootstrap password: only accepted while no user accounts exist,
+ * to create the first admin.
+ */
 export function getAdminPassword() {
   return process.env.WILDLIFE_BLOGGER_ADMIN_PASSWORD?.trim() ?? "";
 }
@@ -33,36 +41,55 @@ function sign(payloadB64: string) {
   return crypto.createHmac("sha256", secret).update(payloadB64).digest("base64url");
 }
 
-export function createSessionToken(now = Date.now()) {
+/**
+ * Ties a session to the password it was signed in with: setting a new
+ * password changes the hash, and with it the stamp, so older sessions stop
+ * working. The hash itself never leaves the server.
+ */
+function credentialStamp(passwordHash: string) {
+  return sign(`pwd:${passwordHash}`).slice(0, 22);
+}
+
+/** Whether the session was signed in with the user's current password */
+export function hasCurrentCredentials(session: SessionPayload, passwordHash: string) {
+  const expected = credentialStamp(passwordHash);
+  if (session.pwd.length !== expected.length) return false;
+  const encoder = new TextEncoder();
+  return crypto.timingSafeEqual(encoder.encode(session.pwd), encoder.encode(expected));
+}
+
+export function createSessionToken(user: { id: string; passwordHash: string }, now = Date.now()) {
   const iat = Math.floor(now / 1000);
   const exp = iat + SESSION_TTL_SECONDS;
-  const payload: SessionPayload = { v: TOKEN_VERSION, iat, exp };
+  const payload: SessionPayload = { v: TOKEN_VERSION, sub: user.id, pwd: credentialStamp(user.passwordHash), iat, exp };
   const payloadB64 = base64urlEncodeUtf8(JSON.stringify(payload));
   const sig = sign(payloadB64);
   return `${payloadB64}.${sig}`;
 }
 
-export function isValidSessionToken(token: string) {
+export function parseSessionToken(token: string): SessionPayload | null {
   try {
     const [payloadB64, sig] = token.split(".");
-    if (!payloadB64 || !sig) return false;
+    if (!payloadB64 || !sig) return null;
 
     const expected = sign(payloadB64);
-    if (sig.length !== expected.length) return false;
+    if (sig.length !== expected.length) return null;
 
     const encoder = new TextEncoder();
     const ok = crypto.timingSafeEqual(encoder.encode(sig), encoder.encode(expected));
-    if (!ok) return false;
+    if (!ok) return null;
 
     const parsed = JSON.parse(base64urlDecodeUtf8(payloadB64)) as SessionPayload;
-    if (parsed.v !== TOKEN_VERSION) return false;
-    if (typeof parsed.exp !== "number") return false;
+    if (parsed.v !== TOKEN_VERSION) return null;
+    if (typeof parsed.sub !== "string" || !parsed.sub) return null;
+    if (typeof parsed.pwd !== "string" || !parsed.pwd) return null;
+    if (typeof parsed.exp !== "number") return null;
     const now = Math.floor(Date.now() / 1000);
-    if (now >= parsed.exp) return false;
+    if (now >= parsed.exp) return null;
 
-    return true;
+    return parsed;
   } catch {
-    return false;
+    return null;
   }
 }
 
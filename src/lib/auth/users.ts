@@ -0,0 +1,54 @@
+import { createSessionToken, getAdminPassword, hasCurrentCredentials, parseSessionToken } from "@/lib/auth/session";
+import { hashPassword, verifyPassword } from "@/lib/auth/password";
+import { countUsers, createUser, getUserByEmail, getUserRecordById } from "@/lib/storage/users";
+import type { User } from "@/lib/storage/types";
+
+/**
+ * Resolve a session cookie to an active user.
+ * The role is read from storage on every request so demotions apply immediately,
+ * and a session from before the user's last password change is refused.
+ */
+export async function getSessionUser(token: string | undefined): Promise<User | null> {
+  if (!token) return null;
+  const session = parseSessionToken(token);
+  if (!session) return null;
+
+  const record = await getUserRecordById(session.sub);
+  if (!record || record.disabled) return null;
+  if (!hasCurrentCredentials(session, record.passwordHash)) return null;
+
+  const { passwordHash, ...user } = record;
+  return user;
+}
+
+/** A session token for a user who just signed in */
+export async function createUserSession(user: User): Promise<string> {
+  const record = await getUserRecordById(user.id);
+  if (!record) throw new Error("User not found");
+  return createSessionToken(record);
+}
+
+export async function authenticateUser(email: string, password: string): Promise<User | null> {
+  if (!password) return null;
+
+  // First sign-in on a fresh install: the bootstrap password creates the first admin
+  if ((await countUsers()) === 0) {
+    const adminPassword = getAdminPassword();
+    if (!adminPassword || password !== adminPassword) return null;
+
+    const normalizedEmail = email.trim().toLowerCase() || "admin";
+    return createUser({
+      email: normalizedEmail,
+      name: "Admin",
+      role: "admin",
+      passwordHash: await hashPassword(password)
+    });
+  }
+
+  const record = await getUserByEmail(email);
+  if (!record || record.disabled) return null;
+  if (!(await verifyPassword(password, record.passwordHash))) return null;
+
+  const { passwordHash, ...user } = record;
+  return user;
+}
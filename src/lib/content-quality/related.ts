@@ -0,0 +1,184 @@
+/**
+ * Related content
+ *
+ * Scores posts against each other by shared keywords, tags and vocabulary,
+ * and finds phrases in a draft that could link to related published posts.
+ */
+
+import { analyzeText } from "@/lib/research/keywords";
+import type { BlogPost } from "@/lib/storage/types";
+
+type ComparablePost = Pick<BlogPost, "title" | "summary" | "keywords" | "tags" | "contentMarkdown">;
+// What a candidate needs besides its profile: link suggestions read its slug, title and key phrases
+type RelatedPost = Pick<BlogPost, "id" | "slug" | "title" | "keywords" | "tags">;
+
+// Below this, posts share little more than the site's usual vocabulary
+export const MIN_RELATEDNESS = 0.15;
+
+export interface LinkSuggestion {
+  phrase: string;
+  // The sentence around the phrase, to show where the link would go
+  context: string;
+  postId: string;
+  slug: string;
+  title: string;
+  score: number;
+}
+
+export interface TermProfile {
+  terms: Map<string, number>;
+  keywords: Set<string>;
+}
+
+// Tags are stored hyphenated ("wildlife-corridors") but read as phrases
+function keyPhrases(post: Pick<BlogPost, "keywords" | "tags">) {
+  return Array.from(
+    new Set(
+      [...post.keywords, ...post.tags.map((t) => t.replaceAll("-", " "))]
+        .map((k) => k.trim().toLowerCase().replace(/\s+/g, " "))
+        .filter(Boolean)
+    )
+  );
+}
+
+/** A post's most frequent terms and its key phrases; callers comparing against many posts can keep these */
+export function termProfile(post: ComparablePost): TermProfile {
+  const { topTerms } = analyzeText([post.title, post.summary, post.contentMarkdown].join("\n"));
+  return {
+    terms: new Map(topTerms.map((t) => [t.term, t.count])),
+    keywords: new Set(keyPhrases(post))
+  };
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>) {
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) ?? 0);
+  const norm = (m: Map<string, number>) => Math.sqrt(Array.from(m.values()).reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * 0–1: how closely two profiles cover the same ground. Shared keywords and
+ * tags count as much as the overlap of the most frequent terms.
+ */
+function relatedness(a: TermProfile, b: TermProfile) {
+  return 0.5 * jaccard(a.keywords, b.keywords) + 0.5 * cosine(a.terms, b.terms);
+}
+
+/** The candidates most related to `post`, best first, leaving out the post itself */
+export function rankRelatedPosts<T extends Pick<BlogPost, "id">>(
+  post: ComparablePost & Pick<BlogPost, "id">,
+  candidates: Array<{ post: T; profile: TermProfile }>,
+  limit: number
+): Array<{ post: T; score: number }> {
+  const profile = termProfile(post);
+  return candidates
+    .filter((c) => c.post.id !== post.id)
+    .map((c) => ({ post: c.post, score: relatedness(profile, c.profile) }))
+    .filter((r) => r.score >= MIN_RELATEDNESS)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Markdown that can't take a link: code, headings, footnotes, and existing links, images, HTML and URLs
+const UNLINKABLE_RES = [
+  /^(```|~~~)[\s\S]*?^\1/gm,
+  /^#{1,6}\s.*$/gm,
+  /^\[\^[^\]]+\]:.*$/gm,
+  /!?\[[^\]]*\]\([^)]*\)/g,
+  /\[\^[^\]]+\]/g,
+  /`[^`\n]*`/g,
+  /<[^>\n]+>/g,
+  /https?:\/\/\S+/g
+];
+
+function unlinkableRanges(markdown: string) {
+  return UNLINKABLE_RES.flatMap((re) =>
+    Array.from(markdown.matchAll(re), (m) => [m.index, m.index + m[0].length] as const)
+  );
+}
+
+function phrasePattern(phrase: string) {
+  const words = phrase.split(/[\s-]+/).filter(Boolean).map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words.join("[ \\t-]+")}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+/**
+ * The first place `phrase` appears in running text, in any letter case and
+ * with spaces or hyphens between its words, or null if it only appears where
+ * a link can't go.
+ */
+export function findLinkablePhrase(markdown: string, phrase: string): { index: number; text: string } | null {
+  if (!phrase.trim()) return null;
+  const blocked = unlinkableRanges(markdown);
+  for (const m of markdown.matchAll(phrasePattern(phrase))) {
+    const end = m.index + m[0].length;
+    if (!blocked.some(([from, to]) => m.index < to && end > from)) return { index: m.index, text: m[0] };
+  }
+  return null;
+}
+
+/** `markdown` with the first linkable `phrase` linked to `href`, or null if the phrase is no longer there */
+export function insertInternalLink(markdown: string, phrase: string, href: string): string | null {
+  const found = findLinkablePhrase(markdown, phrase);
+  if (!found) return null;
+  const end = found.index + found.text.length;
+  return `${markdown.slice(0, found.index)}[${found.text}](${href})${markdown.slice(end)}`;
+}
+
+function sentenceAround(markdown: string, index: number, length: number) {
+  const before = markdown.slice(0, index);
+  const start = Math.max(before.search(/[^.!?\n]*$/), index - 120);
+  const after = markdown.slice(index + length).match(/^[^.!?\n]{0,120}[.!?]?/)?.[0] ?? "";
+  return (markdown.slice(start, index + length) + after).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Phrases in `post` that could link to a related published post: one per
+ * post, taken from that post's keywords and tags (longest phrase first), and
+ * never for a post the draft already links to.
+ */
+export function suggestInternalLinks(
+  post: ComparablePost & Pick<BlogPost, "id">,
+  published: Array<{ post: RelatedPost; profile: TermProfile }>,
+  limit = 8
+): LinkSuggestion[] {
+  const suggestions: LinkSuggestion[] = [];
+  const usedPhrases = new Set<string>();
+  // Where earlier suggestions go, so no two of them wrap the same words
+  const taken: Array<readonly [number, number]> = [];
+
+  for (const { post: target, score } of rankRelatedPosts(post, published, published.length)) {
+    if (new RegExp(`/blog/${target.slug}(?![\\w-])`).test(post.contentMarkdown)) continue;
+
+    const phrases = keyPhrases(target)
+      .filter((p) => p.length >= 4 && !usedPhrases.has(p))
+      .sort((a, b) => b.length - a.length);
+    for (const phrase of phrases) {
+      const found = findLinkablePhrase(post.contentMarkdown, phrase);
+      const end = found ? found.index + found.text.length : 0;
+      if (!found || taken.some(([from, to]) => found.index < to && end > from)) continue;
+      usedPhrases.add(phrase);
+      taken.push([found.index, end]);
+      suggestions.push({
+        phrase: found.text,
+        context: sentenceAround(post.contentMarkdown, found.index, found.text.length),
+        postId: target.id,
+        slug: target.slug,
+        title: target.title,
+        score
+      });
+      break;
+    }
+    if (suggestions.length >= limit) break;
+  }
+  return suggestions;
+}
@@ -0,0 +1,158 @@
+import { splitMarkdownSections } from "@/lib/utils/sections";
+
+export type ClaimFacts = {
+  // Numeric values in the sentence; percentages and years are kept apart
+  // so "45%" never contradicts "45 otters"
+  numbers: number[];
+  percentages: number[];
+  years: number[];
+  statuses: IucnStatus[];
+};
+
+export type FactClaim = {
+  id: string;
+  sectionId: string;
+  sectionTitle: string;
+  text: string;
+  facts: ClaimFacts;
+};
+
+export type IucnStatus = "EX" | "EW" | "CR" | "EN" | "VU" | "NT" | "LC" | "DD";
+
+// Longest phrases first so "critically endangered" isn't read as
+// "endangered". The last three are everyday words too, so they only count
+// when the sentence talks about a listing.
+const IUCN_PHRASES: Array<[RegExp, IucnStatus, boolean]> = [
+  [/\bextinct in the wild\b/gi, "EW", false],
+  [/\bcritically endangered\b/gi, "CR", false],
+  [/\bnear[- ]threatened\b/gi, "NT", false],
+  [/\bleast[- ]concern\b/gi, "LC", false],
+  [/\bdata[- ]deficient\b/gi, "DD", false],
+  [/\bendangered\b/gi, "EN", true],
+  [/\bvulnerable\b/gi, "VU", true],
+  [/\bextinct\b/gi, "EX", true]
+];
+
+const LISTING_CONTEXT_RE = /\b(?:IUCN|red list|listed|classified|assessed|status|categor(?:y|ised|ized))\b/i;
+
+const IUCN_CODE_RE = /\b(?:IUCN[^.]{0,40}?)\(?\b(EX|EW|CR|EN|VU|NT|LC|DD)\b\)?/g;
+
+const SCALE: Record<string, number> = {
+  hundred: 100,
+  thousand: 1_000,
+  million: 1_000_000,
+  billion: 1_000_000_000
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  hundred: 100,
+  dozen: 12
+};
+
+const MONTHS = "january|february|march|april|may|june|july|august|september|october|november|december";
+
+const NUMBER_RE = new RegExp(
+  `(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)(\\s*%|\\s+per\\s?cent)?(?:\\s+(hundred|thousand|million|billion)\\b)?`,
+  "gi"
+);
+const WORD_COUNT_RE = new RegExp(
+  `\\b(${Object.keys(NUMBER_WORDS).join("|")})\\s+(?:(hundred|thousand|million|billion)\\s+)?[a-z]+`,
+  "gi"
+);
+const DATE_RE = new RegExp(`\\b(?:${MONTHS})\\s+\\d{1,2}\\b|\\b\\d{1,2}\\s+(?:${MONTHS})\\b`, "i");
+
+/**
+ * Strip markdown down to the prose a reader sees, keeping sentence
+ * punctuation. Footnote markers and definitions are dropped.
+ */
+function toPlainText(markdown: string) {
+  return markdown
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/^\[\^[^\]]+\]:.*$/gm, "")
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/[*_]{1,3}([^*_]+)[*_]{1,3}/g, "$1")
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, "")
+    .replace(/^\s*>\s?/gm, "")
+    .replace(/^\s*\|.*\|\s*$/gm, "");
+}
+
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/\n{2,}|\n(?=\s*\S)|(?<=[.!?])\s+(?=["“(]?[A-Z0-9])/)
+    .map((s) => s.replace(/\s+/g, " ").trim())
+    .filter((s) => s.length >= 20);
+}
+
+export function extractFacts(sentence: string): ClaimFacts {
+  const facts: ClaimFacts = { numbers: [], percentages: [], years: [], statuses: [] };
+
+  for (const m of sentence.matchAll(NUMBER_RE)) {
+    const raw = m[1].replace(/,/g, "");
+    const value = Number(raw) * (m[3] ? SCALE[m[3].toLowerCase()] : 1);
+    if (!Number.isFinite(value)) continue;
+    if (m[2]) facts.percentages.push(value);
+    else if (!m[3] && /^\d{4}$/.test(raw) && value >= 1500 && value <= 2100) facts.years.push(value);
+    else facts.numbers.push(value);
+  }
+
+  for (const m of sentence.matchAll(WORD_COUNT_RE)) {
+    const base = NUMBER_WORDS[m[1].toLowerCase()];
+    facts.numbers.push(base * (m[2] ? SCALE[m[2].toLowerCase()] : 1));
+  }
+
+  const listing = LISTING_CONTEXT_RE.test(sentence);
+  let rest = sentence;
+  for (const [re, status, needsContext] of IUCN_PHRASES) {
+    if (rest.search(re) === -1) continue;
+    rest = rest.replace(re, " ");
+    if (!needsContext || listing) facts.statuses.push(status);
+  }
+  for (const m of sentence.matchAll(IUCN_CODE_RE)) facts.statuses.push(m[1] as IucnStatus);
+
+  return {
+    numbers: Array.from(new Set(facts.numbers)),
+    percentages: Array.from(new Set(facts.percentages)),
+    years: Array.from(new Set(facts.years)),
+    statuses: Array.from(new Set(facts.statuses))
+  };
+}
+
+export function hasFacts(facts: ClaimFacts) {
+  return facts.numbers.length + facts.percentages.length + facts.years.length + facts.statuses.length > 0;
+}
+
+/**
+ * Pull the checkable sentences out of a post: those stating numbers, dates,
+ * counts or IUCN statuses. Headings are used for grouping, not checked.
+ */
+export function extractClaims(contentMarkdown: string): FactClaim[] {
+  const claims: FactClaim[] = [];
+
+  for (const section of splitMarkdownSections(contentMarkdown)) {
+    splitSentences(toPlainText(section.body)).forEach((text, i) => {
+      const facts = extractFacts(text);
+      if (!hasFacts(facts) && !DATE_RE.test(text)) return;
+      claims.push({ id: `${section.id}:${i}`, sectionId: section.id, sectionTitle: section.title, text, facts });
+    });
+  }
+
+  return claims;
+}
@@ -0,0 +1,166 @@
+import { bm25Index, indexTerms } from "@/lib/rag/bm25";
+import type { KnowledgeSource } from "@/lib/storage/types";
+import { extractFacts, splitSentences, type ClaimFacts, type FactClaim, type IucnStatus } from "@/lib/fact-check/claims";
+
+export type FactVerdict = "supported" | "contradicted" | "unsupported";
+
+export type FactPassage = {
+  sourceId: string;
+  sourceTitle: string;
+  sourceUrl?: string;
+  text: string;
+};
+
+export type FactCheckResult = {
+  claimId: string;
+  sectionId: string;
+  sectionTitle: string;
+  claim: string;
+  verdict: FactVerdict;
+  passage?: FactPassage;
+  note: string;
+};
+
+export type FactCheckReport = {
+  method: "lexical" | "model";
+  // Label of the AI provider that judged the claims, when one did
+  provider?: string;
+  checkedAt: string;
+  sourceCount: number;
+  results: FactCheckResult[];
+};
+
+export type PassageIndex = {
+  candidates(claim: FactClaim, limit: number): FactPassage[];
+};
+
+// Share of the claim's words a passage must contain to count as being about
+// the same thing, and the stricter bar before calling a mismatch a contradiction
+const MIN_OVERLAP = 0.4;
+const CONTRADICTION_OVERLAP = 0.5;
+const CANDIDATES = 5;
+
+const IUCN_LABELS: Record<IucnStatus, string> = {
+  EX: "Extinct",
+  EW: "Extinct in the Wild",
+  CR: "Critically Endangered",
+  EN: "Endangered",
+  VU: "Vulnerable",
+  NT: "Near Threatened",
+  LC: "Least Concern",
+  DD: "Data Deficient"
+};
+
+/**
+ * Index every source as overlapping two-sentence passages, so a figure and
+ * the subject it belongs to are usually in the same passage.
+ */
+export function buildPassageIndex(sources: KnowledgeSource[]): PassageIndex {
+  const passages: FactPassage[] = [];
+  for (const source of sources) {
+    const sentences = splitSentences(source.contentText);
+    for (let i = 0; i < sentences.length; i++) {
+      passages.push({
+        sourceId: source.id,
+        sourceTitle: source.title,
+        sourceUrl: source.url,
+        text: sentences.slice(i, i + 2).join(" ")
+      });
+    }
+  }
+
+  const score = bm25Index(passages.map((p) => p.text));
+  return {
+    candidates(claim, limit) {
+      return score(claim.text)
+        .map((s, i) => ({ s, i }))
+        .filter((r) => r.s > 0)
+        .sort((a, b) => b.s - a.s)
+        .slice(0, limit)
+        .map((r) => passages[r.i]);
+    }
+  };
+}
+
+function overlap(claim: string, passage: string) {
+  const claimTerms = new Set(indexTerms(claim));
+  if (claimTerms.size === 0) return 0;
+  const passageTerms = new Set(indexTerms(passage));
+  let shared = 0;
+  for (const t of claimTerms) if (passageTerms.has(t)) shared++;
+  return shared / claimTerms.size;
+}
+
+function sameNumber(a: number, b: number) {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * 0.005;
+}
+
+const FACT_KINDS = ["numbers", "percentages", "years", "statuses"] as const;
+
+function formatFact(kind: (typeof FACT_KINDS)[number], value: number | IucnStatus) {
+  if (kind === "statuses") return IUCN_LABELS[value as IucnStatus];
+  if (kind === "percentages") return `${value}%`;
+  if (kind === "years") return String(value);
+  return (value as number).toLocaleString("en-US");
+}
+
+/**
+ * Compare the claim's facts with the passage's: which the passage also
+ * states, and which it gives a different value for.
+ */
+function compareFacts(claim: ClaimFacts, passage: ClaimFacts) {
+  const missing: string[] = [];
+  const conflicting: string[] = [];
+
+  for (const kind of FACT_KINDS) {
+    const theirs = passage[kind] as Array<number | IucnStatus>;
+    for (const value of claim[kind] as Array<number | IucnStatus>) {
+      const found = theirs.some((v) =>
+        typeof v === "number" && typeof value === "number" ? sameNumber(v, value) : v === value
+      );
+      if (found) continue;
+      missing.push(formatFact(kind, value));
+      if (theirs.length > 0) conflicting.push(...theirs.map((v) => formatFact(kind, v)));
+    }
+  }
+
+  return { missing, conflicting: Array.from(new Set(conflicting)) };
+}
+
+export function checkClaimLexically(claim: FactClaim, index: PassageIndex): FactCheckResult {
+  const base = { claimId: claim.id, sectionId: claim.sectionId, sectionTitle: claim.sectionTitle, claim: claim.text };
+  const hasFigures = FACT_KINDS.some((k) => claim.facts[k].length > 0);
+
+  let contradiction: FactCheckResult | null = null;
+  let closest: FactCheckResult | null = null;
+
+  for (const passage of index.candidates(claim, CANDIDATES)) {
+    const ov = overlap(claim.text, passage.text);
+    if (ov < MIN_OVERLAP) continue;
+
+    const { missing, conflicting } = compareFacts(claim.facts, extractFacts(passage.text));
+    if (missing.length === 0 && (hasFigures || ov >= 0.6)) {
+      return { ...base, verdict: "supported", passage, note: "The source states the same facts." };
+    }
+    if (!contradiction && conflicting.length > 0 && ov >= CONTRADICTION_OVERLAP) {
+      contradiction = {
+        ...base,
+        verdict: "contradicted",
+        passage,
+        note: `The post says ${missing.join(", ")}; the source says ${conflicting.join(", ")}.`
+      };
+    }
+    if (!closest) {
+      closest = {
+        ...base,
+        verdict: "unsupported",
+        passage,
+        note: missing.length
+          ? `The closest passage doesn't mention ${missing.join(", ")}.`
+          : "The closest passage doesn't clearly state this."
+      };
+    }
+  }
+
+  return contradiction ?? closest ?? { ...base, verdict: "unsupported", note: "No source passage covers this." };
+}
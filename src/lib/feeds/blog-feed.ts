@@ -0,0 +1,252 @@
+import crypto from "node:crypto";
+import { NextResponse } from "next/server";
+import { mediaFileUrl, pickRendition } from "@/lib/media/urls";
+import { getPublicSite } from "@/lib/site";
+import { listMedia } from "@/lib/storage/media";
+import { getOrgProfile } from "@/lib/storage/org";
+import { getPostById, listPublishedPosts, listPublishedPostsTagged } from "@/lib/storage/posts";
+import type { BlogPostMeta } from "@/lib/storage/types";
+import { renderPostHtml } from "@/lib/utils/markdown-html";
+import { tagPath } from "@/lib/utils/post-tags";
+
+export type BlogFeedFormat = "rss" | "atom" | "json";
+
+// Newest posts only, so a feed with full content stays a sensible size
+export const FEED_ITEM_LIMIT = 50;
+
+const FEEDS: Record<BlogFeedFormat, { file: string; contentType: string }> = {
+  rss: { file: "rss.xml", contentType: "application/rss+xml; charset=utf-8" },
+  atom: { file: "atom.xml", contentType: "application/atom+xml; charset=utf-8" },
+  json: { file: "feed.json", contentType: "application/feed+json; charset=utf-8" }
+};
+
+/** The <link rel="alternate"> types for the feeds of a listing at `url` (the site's base URL or a tag page) */
+export function feedAlternates(url: string) {
+  return {
+    "application/rss+xml": `${url}/${FEEDS.rss.file}`,
+    "application/atom+xml": `${url}/${FEEDS.atom.file}`,
+    "application/feed+json": `${url}/${FEEDS.json.file}`
+  };
+}
+
+type FeedItem = {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  // Rendered body, for feeds asked for with ?content=full
+  html?: string;
+  categories: string[];
+  published: string;
+  updated: string;
+  image?: { url: string; bytes: number; mimeType: string };
+};
+
+type BlogFeed = {
+  title: string;
+  description: string;
+  // The page the feed mirrors, and the feed's own URL
+  link: string;
+  feedUrl: string;
+  author: { name: string; url: string };
+  updated: string;
+  items: FeedItem[];
+};
+
+function escapeXml(input: string) {
+  return input
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&apos;");
+}
+
+// Public tags, then SEO keywords, without repeats in any letter case
+function categories(post: BlogPostMeta) {
+  const seen = new Set<string>();
+  return [...post.tags, ...post.keywords].filter((term) => {
+    const key = term.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+async function feedItems(baseUrl: string, posts: BlogPostMeta[], full: boolean): Promise<FeedItem[]> {
+  const media = new Map(posts.some((p) => p.featuredImageId) ? (await listMedia()).map((m) => [m.id, m]) : []);
+
+  return Promise.all(
+    posts.map(async (p) => {
+      const url = `${baseUrl}/blog/${p.slug}`;
+      const image = p.featuredImageId ? media.get(p.featuredImageId) : undefined;
+      const rendition = image && pickRendition(image, 1024);
+      const post = full ? await getPostById(p.id) : null;
+      return {
+        id: url,
+        url,
+        title: p.title,
+        summary: p.summary,
+        html: post ? renderPostHtml(post, baseUrl) : undefined,
+        categories: categories(p),
+        published: p.publishedAt ?? p.updatedAt,
+        updated: p.updatedAt,
+        image:
+          image && rendition
+            ? { url: mediaFileUrl(baseUrl, image.id, rendition), bytes: rendition.bytes, mimeType: rendition.mimeType }
+            : undefined
+      };
+    })
+  );
+}
+
+function sizeAndType(image: NonNullable<FeedItem["image"]>) {
+  return `length="${image.bytes}" type="${image.mimeType}"`;
+}
+
+function renderRss(feed: BlogFeed): string {
+  const items = feed.items
+    .map((item) => {
+      const lines = [
+        `<title>${escapeXml(item.title)}</title>`,
+        `<link>${escapeXml(item.url)}</link>`,
+        `<guid>${escapeXml(item.id)}</guid>`,
+        `<pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+        `<description>${escapeXml(item.summary)}</description>`,
+        ...(item.html ? [`<content:encoded>${escapeXml(item.html)}</content:encoded>`] : []),
+        ...item.categories.map((c) => `<category>${escapeXml(c)}</category>`),
+        ...(item.image ? [`<enclosure url="${escapeXml(item.image.url)}" ${sizeAndType(item.image)} />`] : [])
+      ];
+      return `<item>\n${lines.map((l) => `  ${l}`).join("\n")}\n</item>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+<channel>
+  <title>${escapeXml(feed.title)}</title>
+  <link>${escapeXml(feed.link)}</link>
+  <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />
+  <description>${escapeXml(feed.description)}</description>
+  <language>en</language>
+  <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>
+${items}
+</channel>
+</rss>`;
+}
+
+function renderAtom(feed: BlogFeed): string {
+  const entries = feed.items
+    .map((item) => {
+      const lines = [
+        `<id>${escapeXml(item.id)}</id>`,
+        `<title>${escapeXml(item.title)}</title>`,
+        `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+        `<published>${item.published}</published>`,
+        `<updated>${item.updated}</updated>`,
+        `<summary>${escapeXml(item.summary)}</summary>`,
+        ...(item.html ? [`<content type="html">${escapeXml(item.html)}</content>`] : []),
+        ...item.categories.map((c) => `<category term="${escapeXml(c)}" />`),
+        ...(item.image
+          ? [`<link rel="enclosure" href="${escapeXml(item.image.url)}" ${sizeAndType(item.image)} />`]
+          : [])
+      ];
+      return `<entry>\n${lines.map((l) => `  ${l}`).join("\n")}\n</entry>`;
+    })
+    .join("\n");
+
+  // The feed's id leaves out the query, so the full-content variant is the same feed
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">
+  <id>${escapeXml(feed.feedUrl.split("?")[0])}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.link)}" />
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}" />
+  <updated>${feed.updated}</updated>
+  <author>
+    <name>${escapeXml(feed.author.name)}</name>
+    <uri>${escapeXml(feed.author.url)}</uri>
+  </author>
+${entries}
+</feed>`;
+}
+
+function renderJsonFeed(feed: BlogFeed): string {
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: feed.title,
+      home_page_url: feed.link,
+      feed_url: feed.feedUrl,
+      description: feed.description,
+      authors: [feed.author],
+      language: "en",
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        summary: item.summary,
+        ...(item.html ? { content_html: item.html } : { content_text: item.summary }),
+        image: item.image?.url,
+        date_published: item.published,
+        date_modified: item.updated,
+        tags: item.categories.length ? item.categories : undefined
+      }))
+    },
+    null,
+    2
+  );
+}
+
+const RENDERERS: Record<BlogFeedFormat, (feed: BlogFeed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed
+};
+
+/**
+ * A public blog feed: every published post, or those tagged `tag`, newest
+ * first. Titles and description come from the organization profile; with
+ * `?content=full` each item carries its rendered body as well as its summary.
+ * Readers revalidate with If-None-Match (the body's hash). If-Modified-Since
+ * isn't answered: unpublishing a post or editing the profile changes the feed
+ * without a newer date, so Last-Modified is only informational.
+ */
+export async function blogFeedResponse(request: Request, format: BlogFeedFormat, tag?: string): Promise<Response> {
+  const site = await getPublicSite();
+  if (!site) return new NextResponse("Not found", { status: 404 });
+  const posts = tag === undefined ? await listPublishedPosts() : tag ? await listPublishedPostsTagged(tag) : [];
+  // A tag feed exists while its archive page does
+  if (tag !== undefined && posts.length === 0) return new NextResponse("Not found", { status: 404 });
+
+  const { baseUrl } = site;
+  const org = await getOrgProfile();
+  const full = new URL(request.url).searchParams.get("content") === "full";
+  const listing = tag ? tagPath(baseUrl, tag) : baseUrl;
+  const recent = posts.slice(0, FEED_ITEM_LIMIT);
+  const updated = recent.reduce((latest, p) => (p.updatedAt > latest ? p.updatedAt : latest), site.workspace.createdAt);
+
+  const body = RENDERERS[format]({
+    title: tag ? `${org.name}: #${tag}` : org.name,
+    description: tag
+      ? `Posts tagged #${tag} from ${org.name}.`
+      : org.tagline || org.mission || `Wildlife conservation writing from ${org.name}.`,
+    link: tag ? listing : `${baseUrl}/blog`,
+    feedUrl: `${listing}/${FEEDS[format].file}${full ? "?content=full" : ""}`,
+    author: { name: org.name, url: org.website || baseUrl },
+    updated,
+    items: await feedItems(baseUrl, recent, full)
+  });
+
+  const headers = {
+    etag: `"${crypto.createHash("sha256").update(body, "utf8").digest("base64url").slice(0, 27)}"`,
+    "last-modified": new Date(updated).toUTCString(),
+    "cache-control": "public, max-age=0, must-revalidate"
+  };
+  const match = request.headers.get("if-none-match");
+  if (match?.split(/\s*,\s*/).includes(headers.etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(body, { headers: { ...headers, "content-type": FEEDS[format].contentType } });
+}
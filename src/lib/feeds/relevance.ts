@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type {
+  FetchedArticle,
+  OrganizationObjective,
+  OrganizationProfile,
+  RelevanceRule,
+  RelevanceRules
+} from "@/lib/storage/types";
+
+// Words a proximity rule allows between its term and a `near` term when `within` is unset
+export const DEFAULT_PROXIMITY = 10;
+
+// Terms for each objective, used by the default rules
+const OBJECTIVE_TERMS: Record<OrganizationObjective, string[]> = {
+  education: ["learn", "science", "research", "study", "discovery"],
+  awareness: ["campaign", "awareness", "impact", "threat", "crisis"],
+  donations: ["donate", "support", "fund", "contribute", "sponsor"],
+  news: ["news", "update", "announcement", "milestone", "achievement"],
+  "species-info": ["species", "wildlife", "animal", "population", "habitat"],
+  "habitat-info": ["ecosystem", "habitat", "environment", "restoration", "conservation"],
+  advocacy: ["policy", "legislation", "advocate", "protect", "law"],
+  volunteering: ["volunteer", "join", "help", "community", "event"]
+};
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+const Term = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .max(80)
+  .refine((term) => tokenize(term).length > 0, "Terms need at least one letter or digit");
+
+const TermList = z.array(Term).max(50);
+
+export const RelevanceRuleSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .max(80)
+    .optional()
+    .transform((v) => v || undefined),
+  terms: TermList.min(1, "Give each rule at least one term"),
+  exclude: TermList.optional(),
+  weight: z.number().min(0).max(1),
+  near: TermList.optional(),
+  within: z.number().int().min(0).max(50).optional()
+});
+
+export const RelevanceRulesSchema = z.object({
+  rules: z.array(RelevanceRuleSchema).max(200),
+  sourceBoosts: z.record(z.string(), z.number().min(0).max(5)).default({}),
+  recencyHalfLifeDays: z.number().positive().max(3650).nullable().default(null)
+});
+
+/**
+ * The rules a workspace starts with, from its profile: each focus area is
+ * worth 0.25, each preferred term 0.15, and each objective 0.15 when any of
+ * its usual terms appears. No source boosts and no recency decay.
+ */
+export function defaultRelevanceRules(profile: OrganizationProfile): RelevanceRules {
+  const rules: RelevanceRule[] = [];
+  const seen = new Set<string>();
+  const addTerm = (label: string, term: string, weight: number) => {
+    const key = term.trim().toLowerCase();
+    if (key.length < 2 || seen.has(key)) return;
+    seen.add(key);
+    rules.push({ label, terms: [key], weight });
+  };
+
+  for (const area of profile.focusAreas) addTerm(`Focus area: ${area}`, area, 0.25);
+  for (const term of profile.preferredTerms) addTerm(`Preferred term: ${term}`, term, 0.15);
+  for (const objective of profile.objectives) {
+    const terms = OBJECTIVE_TERMS[objective];
+    if (terms) rules.push({ label: `Objective: ${objective}`, terms, weight: 0.15 });
+  }
+
+  return { rules, sourceBoosts: {}, recencyHalfLifeDays: null };
+}
+
+type Span = { start: number; end: number };
+
+// Where the words of `term` appear in `tokens` as consecutive words
+function findTerm(tokens: string[], term: string): Span[] {
+  const words = tokenize(term);
+  const spans: Span[] = [];
+  if (words.length === 0) return spans;
+  for (let i = 0; i + words.length <= tokens.length; i += 1) {
+    if (words.every((word, j) => tokens[i + j] === word)) spans.push({ start: i, end: i + words.length });
+  }
+  return spans;
+}
+
+// Number of words between two spans; zero when they touch or overlap
+function gap(a: Span, b: Span): number {
+  return Math.max(0, b.start - a.end, a.start - b.end);
+}
+
+/** The include terms that make `rule` fire for `tokens`, or none */
+function matchRule(tokens: string[], rule: RelevanceRule): string[] {
+  if ((rule.exclude ?? []).some((term) => findTerm(tokens, term).length > 0)) return [];
+
+  const nearSpans = (rule.near ?? []).flatMap((term) => findTerm(tokens, term));
+  const within = rule.within ?? DEFAULT_PROXIMITY;
+
+  return rule.terms.filter((term) => {
+    const spans = findTerm(tokens, term);
+    if (!rule.near?.length) return spans.length > 0;
+    return spans.some((span) => nearSpans.some((near) => gap(span, near) <= within));
+  });
+}
+
+export type RelevanceResult = Pick<FetchedArticle, "matchedKeywords" | "relevanceScore">;
+
+/**
+ * Score an article from 0 to 1 under `rules`. Recency decay counts the age
+ * from the publication date (or the fetch date when there is none) to `now`;
+ * the fetch cron rescores stored articles so their scores keep up with it.
+ */
+export function scoreArticle(
+  article: Pick<FetchedArticle, "title" | "excerpt" | "sourceId" | "publishedAt"> & { fetchedAt?: string },
+  rules: RelevanceRules,
+  now: Date = new Date()
+): RelevanceResult {
+  const tokens = tokenize(`${article.title} ${article.excerpt}`);
+  const matched = new Set<string>();
+  let weight = 0;
+
+  for (const rule of rules.rules) {
+    const terms = matchRule(tokens, rule);
+    if (terms.length === 0) continue;
+    weight += rule.weight;
+    for (const term of terms) matched.add(term);
+  }
+
+  let score = Math.min(1, weight) * (rules.sourceBoosts[article.sourceId] ?? 1);
+
+  const dated = Date.parse(article.publishedAt ?? article.fetchedAt ?? "");
+  if (rules.recencyHalfLifeDays && Number.isFinite(dated)) {
+    const ageDays = Math.max(0, now.getTime() - dated) / 86_400_000;
+    score *= 0.5 ** (ageDays / rules.recencyHalfLifeDays);
+  }
+
+  return {
+    matchedKeywords: [...matched],
+    relevanceScore: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100
+  };
+}
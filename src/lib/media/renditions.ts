@@ -0,0 +1,79 @@
+import sharp from "sharp";
+import type { MediaFile } from "@/lib/storage/types";
+
+export const MEDIA_MAX_BYTES = 15 * 1024 * 1024;
+
+// Widths of the WebP renditions; narrower uploads get one at their own width
+export const RENDITION_WIDTHS = [320, 640, 1024, 1600];
+
+const FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  jpeg: { mimeType: "image/jpeg", extension: "jpg" },
+  png: { mimeType: "image/png", extension: "png" },
+  webp: { mimeType: "image/webp", extension: "webp" },
+  gif: { mimeType: "image/gif", extension: "gif" },
+  avif: { mimeType: "image/avif", extension: "avif" }
+};
+
+export const ACCEPTED_MEDIA_TYPES = Object.values(FORMATS).map((f) => f.mimeType);
+
+export type ProcessedUpload = {
+  original: MediaFile;
+  renditions: MediaFile[];
+  files: Map<string, Buffer>;
+};
+
+/**
+ * Check that `data` is an image we accept and make its renditions. Sizes are
+ * as displayed, after applying the camera's orientation; the renditions
+ * carry no metadata.
+ */
+export async function processUpload(data: Buffer): Promise<ProcessedUpload> {
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(data).metadata();
+  } catch {
+    throw new Error("Not an image file");
+  }
+
+  const format = meta.format ? FORMATS[meta.format] : undefined;
+  if (!format || !meta.width || !meta.height) {
+    throw new Error("Unsupported image type. Use JPEG, PNG, WebP, GIF or AVIF");
+  }
+
+  // EXIF orientations 5-8 turn the picture on its side
+  const rotated = (meta.orientation ?? 1) >= 5;
+  const width = rotated ? meta.height : meta.width;
+  const height = rotated ? meta.width : meta.height;
+
+  const original: MediaFile = {
+    file: `original.${format.extension}`,
+    width,
+    height,
+    mimeType: format.mimeType,
+    bytes: data.byteLength
+  };
+  const files = new Map<string, Buffer>([[original.file, data]]);
+  const renditions: MediaFile[] = [];
+
+  const widths = RENDITION_WIDTHS.filter((w) => w < width);
+  if (widths.length < RENDITION_WIDTHS.length) widths.push(width);
+
+  for (const target of widths) {
+    const { data: output, info } = await sharp(data)
+      .rotate()
+      .resize({ width: target, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    const rendition: MediaFile = {
+      file: `${info.width}.webp`,
+      width: info.width,
+      height: info.height,
+      mimeType: "image/webp",
+      bytes: info.size
+    };
+    files.set(rendition.file, output);
+    renditions.push(rendition);
+  }
+
+  return { original, renditions, files };
+}
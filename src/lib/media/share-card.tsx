@@ -0,0 +1,99 @@
+import { ImageResponse } from "next/og";
+import sharp from "sharp";
+
+export const SHARE_CARD_WIDTH = 1200;
+export const SHARE_CARD_HEIGHT = 630;
+
+// Characters the bundled Latin font has: Latin-1, general punctuation, € and ™
+const SUPPORTED = /^[\x20-\x7e\u00a0-\u00ff\u2010-\u2027\u2030-\u205e\u20ac\u2122]$/;
+
+/**
+ * The renderer fetches fonts or emoji from the web for any character its
+ * bundled font lacks. Those are reduced to their base letter (ő becomes o) or
+ * dropped, so rendering a card never leaves the server.
+ */
+function cardText(text: string, max: number) {
+  const plain = Array.from(text.normalize("NFC"), (ch) =>
+    SUPPORTED.test(ch)
+      ? ch
+      : Array.from(ch.normalize("NFKD"))
+          .filter((part) => SUPPORTED.test(part))
+          .join("")
+  )
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+  return plain.length > max ? `${plain.slice(0, max - 1).trimEnd()}…` : plain;
+}
+
+// The renderer takes JPEG but not WebP, so the photo is cropped to fill the card
+async function photoDataUrl(photo: Buffer) {
+  const jpeg = await sharp(photo)
+    .resize({ width: SHARE_CARD_WIDTH, height: SHARE_CARD_HEIGHT, fit: "cover" })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+}
+
+/** A 1200×630 PNG for a post's OpenGraph and Twitter cards, in the site's colours */
+export async function renderShareCard(
+  input: { title: string; subtitle?: string; orgName: string; photo?: Buffer | null },
+  init?: { headers?: Record<string, string> }
+): Promise<ImageResponse> {
+  const title = cardText(input.title, 120);
+  const subtitle = input.subtitle ? cardText(input.subtitle, 160) : "";
+  const photo = input.photo ? await photoDataUrl(input.photo) : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          position: "relative",
+          display: "flex",
+          width: "100%",
+          height: "100%",
+          background: "linear-gradient(180deg, #04110c, #071a12)",
+          color: "#eef5ef"
+        }}
+      >
+        {photo ? (
+          <img
+            src={photo}
+            width={SHARE_CARD_WIDTH}
+            height={SHARE_CARD_HEIGHT}
+            style={{ position: "absolute", top: 0, left: 0 }}
+            alt=""
+          />
+        ) : null}
+        <div
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "flex-end",
+            padding: "56px 64px",
+            background: photo
+              ? "linear-gradient(180deg, rgba(4, 17, 12, 0.1) 20%, rgba(4, 17, 12, 0.92) 75%)"
+              : "radial-gradient(900px 500px at 10% 10%, rgba(86, 209, 139, 0.28), transparent 60%)"
+          }}
+        >
+          <div style={{ fontSize: title.length > 70 ? 52 : 64, lineHeight: 1.1, letterSpacing: -1 }}>{title}</div>
+          {subtitle ? (
+            <div style={{ marginTop: 20, fontSize: 30, lineHeight: 1.3, color: "rgba(238, 245, 239, 0.8)" }}>
+              {subtitle}
+            </div>
+          ) : null}
+          <div style={{ display: "flex", alignItems: "center", marginTop: 36, fontSize: 26, color: "#89f7c0" }}>
+            <div style={{ width: 40, height: 6, marginRight: 16, borderRadius: 3, background: "#56d18b" }} />
+            {cardText(input.orgName, 60)}
+          </div>
+        </div>
+      </div>
+    ),
+    { width: SHARE_CARD_WIDTH, height: SHARE_CARD_HEIGHT, headers: init?.headers }
+  );
+}
@@ -0,0 +1,27 @@
+import type { BlogPostMeta, MediaAsset, MediaFile } from "@/lib/storage/types";
+
+/** Where a rendition is served on a public site; `base` is its base path or base URL */
+export function mediaFileUrl(base: string, assetId: string, file: MediaFile) {
+  return `${base}/media/${assetId}/${file.file}`;
+}
+
+/** The narrowest rendition at least `width` wide, or the widest there is */
+export function pickRendition(asset: Pick<MediaAsset, "renditions">, width: number): MediaFile | undefined {
+  return asset.renditions.find((r) => r.width >= width) ?? asset.renditions.at(-1);
+}
+
+export function mediaSrcSet(base: string, asset: Pick<MediaAsset, "id" | "renditions">) {
+  return asset.renditions.map((r) => `${mediaFileUrl(base, asset.id, r)} ${r.width}w`).join(", ");
+}
+
+/**
+ * A post's generated share card. The version changes whenever the post is
+ * saved, so each URL's image can be cached for good.
+ */
+export function shareCardUrl(base: string, post: Pick<BlogPostMeta, "slug" | "updatedAt">) {
+  return `${base}/blog/${post.slug}/og.png?v=${shareCardVersion(post)}`;
+}
+
+export function shareCardVersion(post: Pick<BlogPostMeta, "updatedAt">) {
+  return String(Date.parse(post.updatedAt));
+}
@@ -0,0 +1,56 @@
+import { tokenize } from "@/lib/research/keywords";
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Fold simple plurals so "otter" matches "otters"
+export function indexTerms(text: string) {
+  return tokenize(text).map((t) => (t.length > 4 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+/**
+ * Build an Okapi BM25 index over the documents once and return a scorer
+ * that rates every document against a query. Use this when scoring many
+ * queries against the same documents.
+ */
+export function bm25Index(documents: string[]): (query: string) => number[] {
+  const docs = documents.map((d) => {
+    const tokens = indexTerms(d);
+    const freqs = new Map<string, number>();
+    for (const t of tokens) freqs.set(t, (freqs.get(t) ?? 0) + 1);
+    return { length: tokens.length, freqs };
+  });
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1;
+
+  return (query) => {
+    const queryTerms = Array.from(new Set(indexTerms(query)));
+    if (queryTerms.length === 0 || docs.length === 0) return docs.map(() => 0);
+
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const df = docs.filter((d) => d.freqs.has(term)).length;
+      idf.set(term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5)));
+    }
+
+    return docs.map((d) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = d.freqs.get(term) ?? 0;
+        if (tf === 0) continue;
+        score += (idf.get(term) ?? 0) * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * d.length) / avgLength)));
+      }
+      return score;
+    });
+  };
+}
+
+/**
+ * Okapi BM25 score of every document against the query. Used for ranking
+ * when no embedding provider is configured, and fused with vector ranks
+ * when one is.
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+  if (documents.length === 0) return [];
+  return bm25Index(documents)(query);
+}
@@ -0,0 +1,54 @@
+const TARGET_CHARS = 1_200;
+const MAX_CHARS = 1_800;
+
+function splitSentences(paragraph: string) {
+  const sentences = paragraph.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) ?? [paragraph];
+  return sentences.map((s) => s.trim()).filter(Boolean);
+}
+
+// Break a paragraph that's too long on its own into sentence-aligned pieces
+function splitLongParagraph(paragraph: string): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of splitSentences(paragraph)) {
+    if (sentence.length > MAX_CHARS) {
+      if (current) pieces.push(current);
+      current = "";
+      for (let i = 0; i < sentence.length; i += MAX_CHARS) pieces.push(sentence.slice(i, i + MAX_CHARS));
+      continue;
+    }
+    if (current && current.length + sentence.length + 1 > TARGET_CHARS) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Split source text into retrieval chunks of roughly TARGET_CHARS, packing
+ * whole paragraphs where possible and falling back to sentence boundaries.
+ */
+export function chunkText(text: string): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap((p) => (p.length > MAX_CHARS ? splitLongParagraph(p) : [p]));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > TARGET_CHARS) {
+      chunks.push(current);
+      current = paragraph;
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,135 @@
+import { cosineSimilarity, embedTexts, getEmbeddingModel } from "@/lib/ai/embeddings";
+import { bm25Scores } from "@/lib/rag/bm25";
+import { chunkText } from "@/lib/rag/chunk";
+import { listSourceChunks, replaceSourceChunks } from "@/lib/storage/sources";
+import type { KnowledgeSource, SourceChunk } from "@/lib/storage/types";
+
+export type RetrievedChunk = SourceChunk & {
+  source: Pick<KnowledgeSource, "id" | "title" | "type" | "url">;
+  score: number;
+};
+
+// Reciprocal rank fusion constant; 60 is the usual choice
+const RRF_K = 60;
+
+/**
+ * Load the chunks of the given sources, chunking any source stored before
+ * chunking existed and embedding chunks that have no vector for the current
+ * model. Embedding failures are logged and leave BM25 to do the ranking.
+ */
+export async function ensureSourceChunks(sources: KnowledgeSource[]): Promise<SourceChunk[]> {
+  const stored = await listSourceChunks(sources.map((s) => s.id));
+  const bySource = new Map<string, SourceChunk[]>();
+  for (const chunk of stored) {
+    const list = bySource.get(chunk.sourceId) ?? [];
+    list.push(chunk);
+    bySource.set(chunk.sourceId, list);
+  }
+
+  const model = await getEmbeddingModel();
+  const all: SourceChunk[] = [];
+
+  for (const source of sources) {
+    let chunks = bySource.get(source.id);
+    let changed = false;
+    if (!chunks || chunks.length === 0) {
+      chunks = chunkText(source.contentText).map((text, index) => ({
+        id: `${source.id}:${index}`,
+        sourceId: source.id,
+        index,
+        text
+      }));
+      changed = true;
+    }
+
+    const missing = model ? chunks.filter((c) => c.embeddingModel !== model) : [];
+    if (missing.length > 0) {
+      try {
+        const embedded = await embedTexts(missing.map((c) => c.text));
+        if (embedded) {
+          missing.forEach((c, i) => {
+            c.embedding = embedded.vectors[i];
+            c.embeddingModel = embedded.model;
+          });
+          changed = true;
+        }
+      } catch (e) {
+        console.error(`Embedding failed for source ${source.id}:`, e);
+      }
+    }
+
+    if (changed) await replaceSourceChunks(source.id, chunks);
+    all.push(...chunks);
+  }
+
+  return all;
+}
+
+/**
+ * Pick the chunks most relevant to `query` across the given sources, best
+ * first, until `maxChars` of chunk text is used. BM25 always contributes;
+ * when the query and chunks can be embedded, vector similarity is fused in
+ * by reciprocal rank.
+ */
+export async function retrieveChunks(args: {
+  query: string;
+  sources: KnowledgeSource[];
+  maxChars: number;
+}): Promise<{ chunks: RetrievedChunk[]; method: "embeddings" | "bm25" }> {
+  const chunks = await ensureSourceChunks(args.sources);
+  if (chunks.length === 0) return { chunks: [], method: "bm25" };
+
+  const fused = new Map<string, number>();
+  const addRanking = (scores: number[]) => {
+    const order = scores
+      .map((score, i) => ({ score, i }))
+      .filter((r) => r.score > 0)
+      .sort((a, b) => b.score - a.score);
+    order.forEach((r, rank) => {
+      const id = chunks[r.i].id;
+      fused.set(id, (fused.get(id) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  };
+
+  addRanking(bm25Scores(args.query, chunks.map((c) => c.text)));
+
+  let method: "embeddings" | "bm25" = "bm25";
+  const model = await getEmbeddingModel();
+  if (model && chunks.some((c) => c.embeddingModel === model)) {
+    try {
+      const embedded = await embedTexts([args.query]);
+      if (embedded) {
+        const queryVector = embedded.vectors[0];
+        addRanking(
+          chunks.map((c) =>
+            c.embedding && c.embeddingModel === embedded.model ? cosineSimilarity(queryVector, c.embedding) : 0
+          )
+        );
+        method = "embeddings";
+      }
+    } catch (e) {
+      console.error("Query embedding failed, using BM25 only:", e);
+    }
+  }
+
+  const sourcesById = new Map(args.sources.map((s) => [s.id, s]));
+  // Unmatched chunks keep document order at the end, so the budget still gets used
+  const ranked = chunks
+    .map((chunk, position) => ({ chunk, position, score: fused.get(chunk.id) ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.position - b.position);
+
+  const picked: RetrievedChunk[] = [];
+  let used = 0;
+  for (const { chunk, score } of ranked) {
+    if (used + chunk.text.length > args.maxChars) continue;
+    const source = sourcesById.get(chunk.sourceId)!;
+    picked.push({
+      ...chunk,
+      source: { id: source.id, title: source.title, type: source.type, url: source.url },
+      score
+    });
+    used += chunk.text.length;
+  }
+
+  return { chunks: picked, method };
+}
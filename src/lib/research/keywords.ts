@@ -127,7 +127,7 @@ const STOPWORDS = new Set([
   "yourselves"
 ]);
 
-function tokenize(text: string) {
+export function tokenize(text: string) {
   return text
     .toLowerCase()
     .replace(/https?:\/\/\S+/g, " ")
@@ -0,0 +1,51 @@
+import { listPostComments, listPosts } from "@/lib/storage/posts";
+import type { BlogPostMeta, ReviewState } from "@/lib/storage/types";
+import { reviewWaitingOn } from "@/lib/review/waiting";
+
+export type ReviewQueueItem = {
+  post: BlogPostMeta;
+  state: ReviewState;
+  // null when the item is open to any editor
+  waitingOnId: string | null;
+  waitingOn: string;
+  openComments: number;
+};
+
+export type ReviewQueueCount = {
+  id: string | null;
+  name: string;
+  count: number;
+};
+
+export async function getReviewQueue(): Promise<{ items: ReviewQueueItem[]; counts: ReviewQueueCount[] }> {
+  const posts = await listPosts();
+  const items: ReviewQueueItem[] = [];
+
+  for (const post of posts) {
+    const waiting = reviewWaitingOn(post);
+    if (!waiting || !post.review) continue;
+
+    const comments = await listPostComments(post.id);
+    items.push({
+      post,
+      state: post.review.state,
+      waitingOnId: waiting.id,
+      waitingOn: waiting.name,
+      openComments: comments.filter((c) => !c.resolved).length
+    });
+  }
+
+  // Oldest request first
+  items.sort((a, b) => (a.post.review?.requestedAt ?? "").localeCompare(b.post.review?.requestedAt ?? ""));
+
+  const byPerson = new Map<string, ReviewQueueCount>();
+  for (const item of items) {
+    const key = item.waitingOnId ?? "";
+    const entry = byPerson.get(key) ?? { id: item.waitingOnId, name: item.waitingOn, count: 0 };
+    entry.count += 1;
+    byPerson.set(key, entry);
+  }
+
+  const counts = [...byPerson.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  return { items, counts };
+}
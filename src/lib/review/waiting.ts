@@ -0,0 +1,26 @@
+import type { BlogPostMeta } from "@/lib/storage/types";
+
+export const ANY_EDITOR = "Any editor";
+
+/**
+ * Who has to act next on a post, or null when it isn't in a review round.
+ * Pending reviews wait on the assigned reviewer, approved posts on whoever
+ * approved them (to publish or schedule), and change requests on the author.
+ */
+export function reviewWaitingOn(post: BlogPostMeta): { id: string | null; name: string } | null {
+  const review = post.review;
+  if (!review) return null;
+
+  if (post.status === "IN_REVIEW" && review.state === "pending") {
+    if (!review.reviewerId) return { id: null, name: ANY_EDITOR };
+    return { id: review.reviewerId, name: review.reviewerName ?? ANY_EDITOR };
+  }
+  if (post.status === "IN_REVIEW" && review.state === "approved") {
+    if (!review.decidedById) return { id: null, name: ANY_EDITOR };
+    return { id: review.decidedById, name: review.decidedBy ?? ANY_EDITOR };
+  }
+  if (post.status === "DRAFT" && review.state === "changes_requested") {
+    return { id: review.requestedById, name: review.requestedBy };
+  }
+  return null;
+}
@@ -0,0 +1,183 @@
+import { indexTerms } from "@/lib/rag/bm25";
+import { tokenize } from "@/lib/research/keywords";
+import type { SnippetPart } from "@/lib/storage/types";
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Private-use characters the databases wrap matches in, so snippets need no HTML
+export const HIGHLIGHT_START = "\uE000";
+export const HIGHLIGHT_END = "\uE001";
+
+const K1 = 1.2;
+const B = 0.75;
+// A title word counts as this many body words
+const TITLE_WEIGHT = 3;
+const SNIPPET_WORDS = 32;
+
+function stripMarkdown(markdown: string) {
+  return markdown
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/^\[\^[^\]]+\]:.*$/gm, "")
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`#>|]+/g, " ")
+    .replace(/\s+/g, " ");
+}
+
+/** Markdown reduced to the words a reader sees, for indexing and snippets */
+export function searchableText(markdown: string) {
+  return stripMarkdown(markdown).trim();
+}
+
+function pushPart(parts: SnippetPart[], text: string, match: boolean) {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.match === match) last.text += text;
+  else parts.push({ text, match });
+}
+
+/** Split a database-made snippet on the highlight characters */
+export function parseHighlighted(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  const pieces = snippet.split(HIGHLIGHT_START);
+  pushPart(parts, stripMarkdown(pieces[0]).trimStart(), false);
+  for (const piece of pieces.slice(1)) {
+    const [matched, rest = ""] = piece.split(HIGHLIGHT_END);
+    pushPart(parts, matched, true);
+    pushPart(parts, stripMarkdown(rest), false);
+  }
+  const last = parts[parts.length - 1];
+  if (last && !last.match) last.text = last.text.trimEnd();
+  return parts.filter((p) => p.text);
+}
+
+/**
+ * The run of about 32 words with the most query terms in it, with those
+ * words marked. Without a match it is the start of the text.
+ */
+export function buildSnippet(text: string, query: string): SnippetPart[] {
+  const terms = new Set(indexTerms(query));
+  const words = text.split(/\s+/).filter(Boolean);
+  const matches = words.map((w) => indexTerms(w).some((t) => terms.has(t)));
+
+  let start = 0;
+  let best = -1;
+  let count = 0;
+  for (let i = 0; i < words.length; i++) {
+    if (matches[i]) count++;
+    if (i >= SNIPPET_WORDS && matches[i - SNIPPET_WORDS]) count--;
+    if (count > best) {
+      best = count;
+      start = Math.max(0, i - SNIPPET_WORDS + 1);
+    }
+  }
+  // Lead in with a few words before the first match
+  const firstMatch = matches.indexOf(true, start);
+  if (firstMatch >= 0) start = Math.max(0, Math.min(start, firstMatch - 4));
+  const end = Math.min(words.length, start + SNIPPET_WORDS);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) pushPart(parts, "… ", false);
+  for (let i = start; i < end; i++) {
+    pushPart(parts, words[i], matches[i]);
+    if (i < end - 1) pushPart(parts, " ", false);
+  }
+  if (end < words.length) pushPart(parts, " …", false);
+  return parts;
+}
+
+/** FTS5 MATCH expression requiring every word of the query, or null when nothing is searchable */
+export function toFtsQuery(query: string) {
+  const terms = Array.from(new Set(tokenize(query)));
+  return terms.length ? terms.map((t) => `"${t}"`).join(" ") : null;
+}
+
+type Entry<T> = { doc: T; length: number; freqs: Map<string, number> };
+
+/**
+ * In-memory inverted index with Okapi BM25 ranking, for providers without a
+ * search engine of their own. Documents are keyed so they can be replaced
+ * or removed one at a time as the underlying records change.
+ */
+export class InvertedIndex<T> {
+  private entries = new Map<string, Entry<T>>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  get size() {
+    return this.entries.size;
+  }
+
+  keys() {
+    return this.entries.keys();
+  }
+
+  get(key: string): T | undefined {
+    return this.entries.get(key)?.doc;
+  }
+
+  set(key: string, fields: { title: string; body: string }, doc: T) {
+    this.remove(key);
+
+    const freqs = new Map<string, number>();
+    const titleTerms = indexTerms(fields.title);
+    const bodyTerms = indexTerms(fields.body);
+    for (const t of titleTerms) freqs.set(t, (freqs.get(t) ?? 0) + TITLE_WEIGHT);
+    for (const t of bodyTerms) freqs.set(t, (freqs.get(t) ?? 0) + 1);
+
+    const length = titleTerms.length * TITLE_WEIGHT + bodyTerms.length;
+    this.entries.set(key, { doc, length, freqs });
+    this.totalLength += length;
+    for (const term of freqs.keys()) {
+      let keys = this.postings.get(term);
+      if (!keys) this.postings.set(term, (keys = new Set()));
+      keys.add(key);
+    }
+  }
+
+  remove(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalLength -= entry.length;
+    for (const term of entry.freqs.keys()) {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(term);
+    }
+  }
+
+  /** Documents containing every query term, best first */
+  search(query: string, accept: (doc: T) => boolean = () => true): Array<{ doc: T; score: number }> {
+    const terms = Array.from(new Set(indexTerms(query)));
+    if (terms.length === 0) return [];
+
+    const lists = terms.map((t) => this.postings.get(t) ?? new Set<string>());
+    lists.sort((a, b) => a.size - b.size);
+    const avgLength = this.totalLength / this.entries.size || 1;
+    const idf = new Map(
+      terms.map((t) => {
+        const df = this.postings.get(t)?.size ?? 0;
+        return [t, Math.log(1 + (this.entries.size - df + 0.5) / (df + 0.5))];
+      })
+    );
+
+    const hits: Array<{ doc: T; score: number }> = [];
+    for (const key of lists[0]) {
+      if (!lists.every((keys) => keys.has(key))) continue;
+      const entry = this.entries.get(key)!;
+      if (!accept(entry.doc)) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        const tf = entry.freqs.get(term) ?? 0;
+        score += idf.get(term)! * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * entry.length) / avgLength)));
+      }
+      hits.push({ doc: entry.doc, score });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+}
@@ -1,6 +1,5 @@
 import { z } from "zod";
-import { generateWithAzureOpenAI } from "@/lib/ai/providers/azure";
-import { generateWithOpenAI } from "@/lib/ai/providers/openai";
+import { completeWithFailover } from "@/lib/ai/registry";
 import { extractJsonObject } from "@/lib/ai/json";
 import type { ExtractedOrgProfile } from "@/lib/ai/extract-org";
 
@@ -164,43 +163,17 @@ function buildFallbackDiscovery(profile: ExtractedOrgProfile): DiscoveryResult {
 
 export async function discoverRelatedSources(profile: ExtractedOrgProfile): Promise<{
   result: DiscoveryResult;
-  provider: "azure-openai" | "openai" | "fallback";
+  provider: string;
 }> {
   const prompt = buildDiscoveryPrompt(profile);
 
-  const azureConfigured =
-    Boolean(process.env.AZURE_OPENAI_ENDPOINT?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_API_KEY?.trim()) &&
-    Boolean(process.env.AZURE_OPENAI_DEPLOYMENT?.trim());
-
-  const openaiConfigured = Boolean(process.env.OPENAI_API_KEY?.trim());
-
-  // Try Azure OpenAI first
-  if (azureConfigured) {
-    try {
-      const raw = await generateWithAzureOpenAI(prompt);
-      const obj = extractJsonObject(raw);
-      const parsed = DiscoveryResultSchema.safeParse(obj);
-      if (parsed.success) {
-        return { result: parsed.data, provider: "azure-openai" };
-      }
-    } catch {
-      // Fall through to next provider
-    }
-  }
-
-  // Try OpenAI
-  if (openaiConfigured) {
-    try {
-      const raw = await generateWithOpenAI(prompt);
-      const obj = extractJsonObject(raw);
-      const parsed = DiscoveryResultSchema.safeParse(obj);
-      if (parsed.success) {
-        return { result: parsed.data, provider: "openai" };
-      }
-    } catch {
-      // Fall through to fallback
-    }
+  try {
+    const result = await completeWithFailover("discover", prompt, (raw) =>
+      DiscoveryResultSchema.parse(extractJsonObject(raw))
+    );
+    if (result) return { result: result.value, provider: result.provider.id };
+  } catch {
+    // Every provider failed; fall through to fallback
   }
 
   // Fallback: return basic suggestions
@@ -1,6 +1,37 @@
+import { getSiteWorkspace } from "@/lib/storage/currentWorkspace";
+import type { Workspace } from "@/lib/storage/types";
+import { DEFAULT_WORKSPACE_ID } from "@/lib/storage/workspaceSchema";
+
 export function getBaseUrl() {
   const fromEnv = process.env.WILDLIFE_BLOGGER_BASE_URL?.trim();
   if (fromEnv) return fromEnv.replace(/\/+$/, "");
   return "http://localhost:3000";
 }
 
+/** Where a workspace's public pages live on the main site: "" or "/w/<slug>" */
+export function workspaceBasePath(workspace: Pick<Workspace, "id" | "slug">) {
+  return workspace.id === DEFAULT_WORKSPACE_ID ? "" : `/w/${workspace.slug}`;
+}
+
+export type PublicSite = {
+  workspace: Workspace;
+  // Prefix for links within the site
+  basePath: string;
+  // Absolute URL of the site's home, for feeds, sitemaps and canonical links
+  baseUrl: string;
+};
+
+/**
+ * The public site being served: a workspace reached at its own hostname,
+ * under /w/<slug>, or the default workspace at the top of the base URL.
+ * Null for a /w/<slug> that matches no workspace (and outside public pages).
+ */
+export async function getPublicSite(): Promise<PublicSite | null> {
+  const site = await getSiteWorkspace();
+  if (!site) return null;
+  return {
+    workspace: site.workspace,
+    basePath: site.basePath,
+    baseUrl: site.origin ?? `${getBaseUrl()}${site.basePath}`
+  };
+}
@@ -1,10 +1,11 @@
 /**
  * Articles storage - public API
  *
- * This module delegates to the configured storage provider.
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
  */
 
-import { getStorageProvider, initStorage } from "./factory";
+import { getWorkspaceStorage } from "./currentWorkspace";
 import type { FetchedArticle } from "./types";
 
 export async function listArticles(options?: {
@@ -12,20 +13,17 @@ export async function listArticles(options?: {
   limit?: number;
   minRelevance?: number;
 }): Promise<FetchedArticle[]> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.list(options);
 }
 
 export async function getArticleById(id: string): Promise<FetchedArticle | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.getById(id);
 }
 
 export async function getArticleByUrl(url: string): Promise<FetchedArticle | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.getByUrl(url);
 }
 
@@ -39,25 +37,21 @@ export async function addArticle(args: {
   matchedKeywords: string[];
   relevanceScore: number;
 }): Promise<FetchedArticle> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.add(args);
 }
 
 export async function markArticleSaved(id: string): Promise<FetchedArticle | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.markSaved(id);
 }
 
 export async function deleteArticle(id: string): Promise<boolean> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.delete(id);
 }
 
 export async function deleteArticlesBySource(sourceId: string): Promise<number> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.articles.deleteBySource(sourceId);
 }
@@ -0,0 +1,71 @@
+/**
+ * Audit log - public API
+ *
+ * The storage modules record every create, update, publish, delete and
+ * organization profile change of the current workspace here, with the
+ * signed-in user who made it and the fields that changed. Writes without a
+ * session (cron jobs, scripts) are recorded as made by "System".
+ */
+
+import { diffRecords } from "@/lib/audit/log";
+import { SESSION_COOKIE_NAME } from "@/lib/auth/session";
+import { getSessionUser } from "@/lib/auth/users";
+import { getWorkspaceStorage, requestContext } from "./currentWorkspace";
+import type { IWorkspaceStorage } from "./interfaces";
+import type { AuditAction, AuditEntityType, AuditEntry, AuditFilter } from "./types";
+
+type AuditedRecord = { id: string; title?: string; name?: string };
+
+async function currentActor(): Promise<{ id: string | null; name: string }> {
+  const token = (await requestContext())?.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const user = await getSessionUser(token);
+  return user ? { id: user.id, name: user.name } : { id: null, name: "System" };
+}
+
+/**
+ * Append an entry for a write that went from `before` to `after` (null when
+ * created or deleted). A deletion keeps only the title; updates that changed
+ * nothing worth showing are skipped.
+ */
+export async function recordAudit(
+  provider: IWorkspaceStorage,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  before: AuditedRecord | null,
+  after: AuditedRecord | null
+): Promise<void> {
+  const record = after ?? before;
+  if (!record) return;
+
+  const changes = after ? diffRecords(before, after) : [];
+  if (action === "update" && changes.length === 0) return;
+
+  const actor = await currentActor();
+  await provider.audit.append({
+    actorId: actor.id,
+    actorName: actor.name,
+    action,
+    entityType,
+    entityId: record.id,
+    entityTitle: record.title ?? record.name ?? "",
+    changes
+  });
+}
+
+/** Run `write` and record it, unless it returned null (record not found) */
+export async function audited<T extends AuditedRecord>(
+  provider: IWorkspaceStorage,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  before: AuditedRecord | null,
+  write: () => Promise<T | null>
+): Promise<T | null> {
+  const after = await write();
+  if (after) await recordAudit(provider, action, entityType, before, after);
+  return after;
+}
+
+export async function listAuditEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const provider = await getWorkspaceStorage();
+  return provider.audit.list(filter);
+}
@@ -0,0 +1,48 @@
+/**
+ * Workspace backup - public API
+ *
+ * Exports and imports bundles (see ./bundle) for the current workspace.
+ */
+
+import { recordAudit } from "./audit";
+import { getWorkspaceStorage } from "./currentWorkspace";
+import {
+  exportWorkspace,
+  importWorkspace,
+  summarizeImport,
+  type ConflictMode,
+  type ImportReport,
+  type WorkspaceBundle
+} from "./bundle";
+import { getWorkspaceById } from "./workspaces";
+
+export async function exportWorkspaceBundle(): Promise<WorkspaceBundle> {
+  const provider = await getWorkspaceStorage();
+  return exportWorkspace(provider);
+}
+
+export async function importWorkspaceBundle(
+  bundle: WorkspaceBundle,
+  options: { conflict: ConflictMode; dryRun?: boolean }
+): Promise<ImportReport> {
+  const provider = await getWorkspaceStorage();
+  const report = await importWorkspace(provider, bundle, options);
+  if (!report.dryRun) {
+    // The bundle's records are written as they were exported, so the import is one entry with its totals
+    const workspace = (await getWorkspaceById(provider.workspaceId)) ?? { id: provider.workspaceId, name: "" };
+    const imported = { ...workspace, org: report.org, ...importTotals(report) };
+    await recordAudit(provider, "import", "workspace", workspace, imported);
+  }
+  return report;
+}
+
+function importTotals(report: ImportReport): Record<string, string> {
+  const totals: Record<string, string> = {};
+  for (const [kind, counts] of Object.entries(summarizeImport(report))) {
+    const parts = Object.entries(counts)
+      .filter(([, n]) => n > 0)
+      .map(([outcome, n]) => `${n} ${outcome}`);
+    if (parts.length > 0) totals[kind] = parts.join(", ");
+  }
+  return totals;
+}
@@ -0,0 +1,515 @@
+/**
+ * Workspace export bundle
+ *
+ * A versioned, gzipped JSON archive of everything a workspace is made of: the
+ * organization profile and its article relevance rules, posts, the media
+ * library (with each image's files), knowledge sources (with their retrieval
+ * chunks), watched sources and fetched articles. It is written and read
+ * through IWorkspaceStorage only, so a bundle exported from one provider or
+ * workspace loads into any other. Users, AI settings, post revisions and
+ * review comments are not included.
+ */
+
+import crypto from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { z } from "zod";
+import { RelevanceRulesSchema } from "@/lib/feeds/relevance";
+import type { IWorkspaceStorage } from "./interfaces";
+import type {
+  BlogPost,
+  FetchedArticle,
+  KnowledgeSource,
+  MediaAsset,
+  OrganizationProfile,
+  RelevanceRules,
+  SourceChunk,
+  WatchedSource
+} from "./types";
+import { OrgProfileSchema } from "./orgProfile";
+
+export const BUNDLE_FORMAT = "wildlife-blogger-export";
+// 2: relevance rules; 3: media library
+export const BUNDLE_VERSION = 3;
+
+export type BundledSource = KnowledgeSource & { chunks: SourceChunk[] };
+// Each of the asset's files, base64-encoded
+export type BundledMedia = MediaAsset & { files: Record<string, string> };
+
+export type WorkspaceBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  org: OrganizationProfile;
+  // Null when the workspace scores articles with the defaults from its profile
+  relevanceRules: RelevanceRules | null;
+  posts: BlogPost[];
+  media: BundledMedia[];
+  sources: BundledSource[];
+  watchedSources: WatchedSource[];
+  articles: FetchedArticle[];
+};
+
+/**
+ * What to do with a bundle record that matches one already stored, by id or
+ * by its natural key (post slug, source content hash, watched source or
+ * article URL). `rename` imports posts as copies under a free slug; other
+ * records have no slug, so it skips them like `skip`.
+ */
+export const CONFLICT_MODES = ["skip", "overwrite", "rename"] as const;
+export type ConflictMode = (typeof CONFLICT_MODES)[number];
+
+export type BundleKind = "post" | "media" | "source" | "watchedSource" | "article";
+export type ImportOutcome = "created" | "overwritten" | "renamed" | "skipped" | "failed";
+
+export type ImportItem = {
+  kind: BundleKind;
+  id: string;
+  title: string;
+  outcome: ImportOutcome;
+  detail?: string;
+};
+
+export type ImportReport = {
+  dryRun: boolean;
+  conflict: ConflictMode;
+  org: "replaced" | "kept";
+  items: ImportItem[];
+};
+
+const optionalString = z.string().optional();
+
+const CitationSchema = z.object({
+  marker: z.number().int(),
+  sourceId: z.string(),
+  sourceTitle: z.string(),
+  sourceUrl: optionalString,
+  quote: z.string()
+});
+
+const ReviewSchema = z.object({
+  state: z.enum(["pending", "changes_requested", "approved"]),
+  requestedById: z.string(),
+  requestedBy: z.string(),
+  requestedAt: z.string(),
+  reviewerId: optionalString,
+  reviewerName: optionalString,
+  decidedById: optionalString,
+  decidedBy: optionalString,
+  decidedAt: optionalString,
+  approvedRevisionId: optionalString
+});
+
+const GenerationSchema = z.object({
+  provider: z.string(),
+  generatedAt: z.string(),
+  retrieval: z.enum(["embeddings", "bm25"]),
+  chunks: z.array(
+    z.object({
+      chunkId: z.string(),
+      sourceId: z.string(),
+      sourceTitle: z.string(),
+      index: z.number().int(),
+      score: z.number()
+    })
+  ),
+  incomplete: optionalString
+});
+
+const PostSchema = z.object({
+  id: z.string().min(1),
+  slug: z.string().min(1).max(255),
+  status: z.enum(["DRAFT", "IN_REVIEW", "SCHEDULED", "PUBLISHED", "ARCHIVED"]),
+  title: z.string().min(1),
+  subtitle: optionalString,
+  summary: z.string(),
+  keywords: z.array(z.string()),
+  // Bundles from before tags existed
+  tags: z.array(z.string()).default([]),
+  seoTitle: optionalString,
+  seoDescription: optionalString,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  publishedAt: optionalString,
+  scheduledFor: optionalString,
+  createdBy: optionalString,
+  updatedBy: optionalString,
+  review: ReviewSchema.optional(),
+  generation: GenerationSchema.optional(),
+  citations: z.array(CitationSchema).optional(),
+  featuredImageId: optionalString,
+  contentMarkdown: z.string()
+});
+
+const MediaFileSchema = z.object({
+  file: z.string().min(1),
+  width: z.number().int(),
+  height: z.number().int(),
+  mimeType: z.string(),
+  bytes: z.number().int()
+});
+
+const MediaSchema = z.object({
+  id: z.string().min(1),
+  filename: z.string(),
+  alt: z.string(),
+  caption: optionalString,
+  credit: optionalString,
+  license: optionalString,
+  original: MediaFileSchema,
+  renditions: z.array(MediaFileSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  createdBy: optionalString,
+  files: z.record(z.string(), z.string())
+});
+
+const ChunkSchema = z.object({
+  id: z.string(),
+  sourceId: z.string(),
+  index: z.number().int(),
+  text: z.string(),
+  embedding: z.array(z.number()).optional(),
+  embeddingModel: optionalString
+});
+
+const SourceSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(["UPLOAD", "PASTE", "ORG_URL", "COMPETITOR_URL"]),
+  title: z.string(),
+  url: optionalString,
+  createdAt: z.string(),
+  updatedAt: optionalString,
+  wordCount: z.number().int(),
+  sha256: z.string(),
+  refreshedAt: optionalString,
+  refreshChanged: z.boolean().optional(),
+  tags: z.array(z.string()).default([]),
+  collections: z.array(z.string()).default([]),
+  contentText: z.string(),
+  chunks: z.array(ChunkSchema).default([])
+});
+
+const WatchedSourceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  url: z.string().min(1),
+  type: z.enum(["RSS", "HTML"]),
+  enabled: z.boolean(),
+  lastFetchedAt: z.string().nullable(),
+  fetchIntervalHours: z.number().int().positive(),
+  createdAt: z.string()
+});
+
+const ArticleSchema = z.object({
+  id: z.string().min(1),
+  sourceId: z.string(),
+  sourceName: z.string(),
+  title: z.string(),
+  url: z.string().min(1),
+  publishedAt: z.string().nullable(),
+  fetchedAt: z.string(),
+  excerpt: z.string(),
+  matchedKeywords: z.array(z.string()),
+  relevanceScore: z.number().min(0).max(1),
+  savedToKnowledge: z.boolean()
+});
+
+const BundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.number().int().min(1).max(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  org: OrgProfileSchema,
+  // Version 1 bundles have none
+  relevanceRules: RelevanceRulesSchema.extend({ updatedAt: optionalString, updatedBy: optionalString })
+    .nullable()
+    .default(null),
+  posts: z.array(PostSchema),
+  // Bundles before version 3 have none
+  media: z.array(MediaSchema).default([]),
+  sources: z.array(SourceSchema),
+  watchedSources: z.array(WatchedSourceSchema),
+  articles: z.array(ArticleSchema)
+});
+
+export async function exportWorkspace(provider: IWorkspaceStorage): Promise<WorkspaceBundle> {
+  const posts: BlogPost[] = [];
+  for (const meta of await provider.posts.list()) {
+    const post = await provider.posts.getById(meta.id);
+    if (post) posts.push(post);
+  }
+
+  // An asset with a missing file couldn't be imported, so it's left out
+  const media: BundledMedia[] = [];
+  for (const asset of await provider.media.list()) {
+    const files: Record<string, string> = {};
+    for (const { file } of [asset.original, ...asset.renditions]) {
+      const data = await provider.media.readFile(asset.id, file);
+      if (data) files[file] = data.toString("base64");
+    }
+    if (Object.keys(files).length === 1 + asset.renditions.length) media.push({ ...asset, files });
+  }
+
+  const sources: BundledSource[] = [];
+  for (const meta of await provider.sources.list()) {
+    const source = await provider.sources.getById(meta.id);
+    if (source) sources.push({ ...source, chunks: await provider.sources.listChunks([source.id]) });
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    org: await provider.org.get(),
+    relevanceRules: await provider.org.getRelevanceRules(),
+    posts,
+    media,
+    sources,
+    watchedSources: await provider.watchedSources.list(),
+    articles: await provider.articles.list()
+  };
+}
+
+export function bundleFileName(bundle: Pick<WorkspaceBundle, "exportedAt">) {
+  return `wildlife-blogger-${bundle.exportedAt.slice(0, 10)}.json.gz`;
+}
+
+export function encodeBundle(bundle: WorkspaceBundle): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(gzipSync(JSON.stringify(bundle)));
+}
+
+/**
+ * Read a bundle from an archive (or its plain JSON). Throws with a readable
+ * message when the data isn't a bundle this version can load.
+ */
+export function decodeBundle(data: Uint8Array): WorkspaceBundle {
+  let json: unknown;
+  try {
+    // gzip magic number; plain JSON is accepted too
+    const raw = data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : Buffer.from(data);
+    json = JSON.parse(raw.toString("utf8"));
+  } catch {
+    throw new Error("Not a workspace export (expected gzipped or plain JSON)");
+  }
+
+  const header = json as { format?: unknown; version?: unknown } | null;
+  if (header?.format !== BUNDLE_FORMAT) throw new Error("Not a workspace export");
+  if (typeof header.version === "number" && header.version > BUNDLE_VERSION) {
+    throw new Error(`Export format version ${header.version} is newer than this app supports (${BUNDLE_VERSION})`);
+  }
+
+  const parsed = BundleSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid export: ${issue ? `${issue.path.join(".")}: ${issue.message}` : "unreadable"}`);
+  }
+  return parsed.data;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * The database providers key records by UUID. Other ids (the file provider's
+ * seed post) become a UUID derived from them, so importing the same bundle
+ * twice still matches by id.
+ */
+function portableId(id: string) {
+  if (UUID_PATTERN.test(id)) return id.toLowerCase();
+  const hex = crypto.createHash("sha256").update(id, "utf8").digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function freeSlug(base: string, used: Set<string>) {
+  if (!used.has(base)) return base;
+  let i = 2;
+  while (used.has(`${base}-${i}`)) i += 1;
+  return `${base}-${i}`;
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Load a bundle into `provider`. Records keep their ids and timestamps; see
+ * ConflictMode for records that already exist. The organization profile and
+ * relevance rules are replaced with `overwrite`, or when the target hasn't
+ * been set up yet.
+ * With `dryRun` nothing is written and the report shows what would happen.
+ */
+export async function importWorkspace(
+  provider: IWorkspaceStorage,
+  bundle: WorkspaceBundle,
+  options: { conflict: ConflictMode; dryRun?: boolean }
+): Promise<ImportReport> {
+  const { conflict } = options;
+  const dryRun = options.dryRun ?? false;
+  const items: ImportItem[] = [];
+
+  async function write(item: ImportItem, run: () => Promise<unknown>) {
+    if (!dryRun && item.outcome !== "skipped") {
+      try {
+        await run();
+      } catch (err) {
+        item = { ...item, outcome: "failed", detail: errorMessage(err) };
+      }
+    }
+    items.push(item);
+    return item.outcome !== "failed" && item.outcome !== "skipped";
+  }
+
+  // Organization profile
+  const currentOrg = await provider.org.get();
+  const replaceOrg = conflict === "overwrite" || !currentOrg.onboardingCompletedAt;
+  if (replaceOrg && !dryRun) await provider.org.update(bundle.org);
+
+  // Knowledge sources, first so post citations can follow any id changes
+  const sourceIds = new Map<string, string>();
+  const existingSources = await provider.sources.list();
+  for (const { chunks, ...bundled } of bundle.sources) {
+    const id = portableId(bundled.id);
+    const match =
+      existingSources.find((s) => s.id === id) ?? existingSources.find((s) => s.sha256 === bundled.sha256);
+    const targetId = match?.id ?? id;
+    const outcome: ImportOutcome = !match ? "created" : conflict === "overwrite" ? "overwritten" : "skipped";
+
+    const stored = await write({ kind: "source", id: targetId, title: bundled.title, outcome }, async () => {
+      await provider.sources.put({ ...bundled, id: targetId });
+      await provider.sources.replaceChunks(
+        targetId,
+        chunks.map((c) => ({ ...c, id: `${targetId}:${c.index}`, sourceId: targetId }))
+      );
+    });
+    if (stored || match) sourceIds.set(bundled.id, targetId);
+  }
+
+  // Watched sources
+  const watchedIds = new Map<string, string>();
+  const existingWatched = await provider.watchedSources.list();
+  for (const bundled of bundle.watchedSources) {
+    const id = portableId(bundled.id);
+    const match = existingWatched.find((s) => s.id === id) ?? existingWatched.find((s) => s.url === bundled.url);
+    const targetId = match?.id ?? id;
+    const outcome: ImportOutcome = !match ? "created" : conflict === "overwrite" ? "overwritten" : "skipped";
+
+    const stored = await write({ kind: "watchedSource", id: targetId, title: bundled.name, outcome }, () =>
+      provider.watchedSources.put({ ...bundled, id: targetId })
+    );
+    if (stored || match) watchedIds.set(bundled.id, targetId);
+  }
+
+  // Relevance rules, whose source boosts follow the watched sources' ids
+  if (replaceOrg && bundle.relevanceRules && !dryRun) {
+    const sourceBoosts = Object.fromEntries(
+      Object.entries(bundle.relevanceRules.sourceBoosts).map(([id, boost]) => [watchedIds.get(id) ?? id, boost])
+    );
+    await provider.org.updateRelevanceRules({ ...bundle.relevanceRules, sourceBoosts });
+  }
+
+  // Articles, which belong to a watched source
+  const existingArticles = await provider.articles.list();
+  for (const bundled of bundle.articles) {
+    const id = portableId(bundled.id);
+    const sourceId = watchedIds.get(bundled.sourceId);
+    const match = existingArticles.find((a) => a.id === id) ?? existingArticles.find((a) => a.url === bundled.url);
+    const targetId = match?.id ?? id;
+
+    if (!sourceId) {
+      items.push({
+        kind: "article",
+        id: targetId,
+        title: bundled.title,
+        outcome: "failed",
+        detail: "Its watched source wasn't imported"
+      });
+      continue;
+    }
+
+    const outcome: ImportOutcome = !match ? "created" : conflict === "overwrite" ? "overwritten" : "skipped";
+    await write({ kind: "article", id: targetId, title: bundled.title, outcome }, () =>
+      provider.articles.put({ ...bundled, id: targetId, sourceId })
+    );
+  }
+
+  // Media, before the posts that feature it
+  const existingMedia = new Set((await provider.media.list()).map((m) => m.id));
+  const mediaIds = new Set(existingMedia);
+  for (const { files, ...bundled } of bundle.media) {
+    const id = portableId(bundled.id);
+    const match = existingMedia.has(id);
+    const outcome: ImportOutcome = !match ? "created" : conflict === "overwrite" ? "overwritten" : "skipped";
+    const data = new Map(Object.entries(files).map(([file, base64]) => [file, Buffer.from(base64, "base64")]));
+
+    const stored = await write({ kind: "media", id, title: bundled.filename, outcome }, () =>
+      provider.media.put({ ...bundled, id }, data)
+    );
+    if (stored) mediaIds.add(id);
+  }
+
+  // Posts
+  const existingPosts = await provider.posts.list();
+  const takenIds = new Set(existingPosts.map((p) => p.id));
+  const slugOwners = new Map(existingPosts.map((p) => [p.slug, p.id]));
+  for (const bundled of bundle.posts) {
+    const id = portableId(bundled.id);
+    const idMatch = takenIds.has(id);
+    const slugOwner = slugOwners.get(bundled.slug);
+    const citations = bundled.citations?.map((c) => ({ ...c, sourceId: sourceIds.get(c.sourceId) ?? c.sourceId }));
+
+    // A featured image that isn't in the target would show nothing
+    const featuredImageId =
+      bundled.featuredImageId && mediaIds.has(portableId(bundled.featuredImageId))
+        ? portableId(bundled.featuredImageId)
+        : undefined;
+
+    let target: BlogPost = { ...bundled, id, citations, featuredImageId };
+    let outcome: ImportOutcome = "created";
+    let detail: string | undefined;
+
+    if (idMatch || slugOwner) {
+      if (conflict === "skip") {
+        outcome = "skipped";
+      } else if (conflict === "overwrite") {
+        // Replace the post with this id, or else the one using the slug
+        const targetId = idMatch ? id : slugOwner!;
+        const slugTaken = slugOwner !== undefined && slugOwner !== targetId;
+        target = { ...target, id: targetId };
+        if (slugTaken) {
+          const used = new Set([...slugOwners.keys()].filter((s) => slugOwners.get(s) !== targetId));
+          target.slug = freeSlug(bundled.slug, used);
+          detail = `Slug ${bundled.slug} belongs to another post; saved as ${target.slug}`;
+        }
+        outcome = "overwritten";
+      } else {
+        target = {
+          ...target,
+          id: idMatch ? crypto.randomUUID() : id,
+          slug: freeSlug(bundled.slug, new Set(slugOwners.keys()))
+        };
+        outcome = "renamed";
+        detail = target.slug !== bundled.slug ? `Imported as ${target.slug}` : "Imported as a copy";
+      }
+    }
+
+    const stored = await write({ kind: "post", id: target.id, title: bundled.title, outcome, detail }, () =>
+      provider.posts.put(target)
+    );
+    if (stored) {
+      // An overwritten post may have moved off its old slug
+      for (const [slug, owner] of slugOwners) if (owner === target.id) slugOwners.delete(slug);
+      slugOwners.set(target.slug, target.id);
+      takenIds.add(target.id);
+    }
+  }
+
+  return { dryRun, conflict, org: replaceOrg ? "replaced" : "kept", items };
+}
+
+/** Outcome counts per record kind */
+export function summarizeImport(report: ImportReport) {
+  const summary = {} as Record<BundleKind, Record<ImportOutcome, number>>;
+  for (const kind of ["post", "media", "source", "watchedSource", "article"] as const) {
+    summary[kind] = { created: 0, overwritten: 0, renamed: 0, skipped: 0, failed: 0 };
+  }
+  for (const item of report.items) summary[item.kind][item.outcome]++;
+  return summary;
+}
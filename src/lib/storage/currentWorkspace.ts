@@ -0,0 +1,97 @@
+/**
+ * Current workspace
+ *
+ * The storage modules act on one workspace, picked in this order: the one
+ * passed to `runInWorkspace` (cron jobs, scripts); on public pages the one
+ * named by the /w/<slug> prefix or whose hostname matches the request; the
+ * one chosen in the dashboard switcher; the default workspace.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { getStorageProvider, initStorage } from "./factory";
+import type { IWorkspaceStorage } from "./interfaces";
+import type { Workspace } from "./types";
+import {
+  DEFAULT_WORKSPACE_ID,
+  PUBLIC_SITE_HEADER,
+  WORKSPACE_COOKIE_NAME,
+  normalizeHostname
+} from "./workspaceSchema";
+
+const scope = new AsyncLocalStorage<string>();
+
+export type SiteWorkspace = {
+  workspace: Workspace;
+  // "" or "/w/<slug>"; public links are prefixed with it
+  basePath: string;
+  // Set when the workspace was matched by its own hostname
+  origin: string | null;
+};
+
+export function runInWorkspace<T>(workspaceId: string, fn: () => Promise<T>): Promise<T> {
+  return scope.run(workspaceId, fn);
+}
+
+// Outside a request (scripts, cron jobs started by a timer) there are no headers
+export async function requestContext() {
+  try {
+    const { cookies, headers } = await import("next/headers");
+    return { headers: await headers(), cookies: await cookies() };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The workspace a public page is for. Null on a /w/<slug> prefix that
+ * matches no workspace, and when the request isn't for a public page.
+ */
+export async function getSiteWorkspace(): Promise<SiteWorkspace | null> {
+  const context = await requestContext();
+  const site = context?.headers.get(PUBLIC_SITE_HEADER);
+  if (!context || !site) return null;
+
+  await initStorage();
+  const workspaces = await getStorageProvider().workspaces.list();
+
+  const slug = site.match(/^\/w\/([^/]+)$/)?.[1];
+  if (slug) {
+    const workspace = workspaces.find((w) => w.slug === slug);
+    return workspace ? { workspace, basePath: site, origin: null } : null;
+  }
+
+  const host = normalizeHostname(context.headers.get("host") ?? "");
+  const byHost = host ? workspaces.find((w) => w.hostname === host) : undefined;
+  if (byHost) {
+    const protocol = context.headers.get("x-forwarded-proto")?.split(",")[0].trim() || "https";
+    return { workspace: byHost, basePath: "", origin: `${protocol}://${host}` };
+  }
+
+  const fallback = workspaces.find((w) => w.id === DEFAULT_WORKSPACE_ID);
+  return fallback ? { workspace: fallback, basePath: "", origin: null } : null;
+}
+
+/** The workspace chosen in the dashboard, if it still exists */
+export async function getSelectedWorkspaceId(): Promise<string | null> {
+  const context = await requestContext();
+  const selected = context?.cookies.get(WORKSPACE_COOKIE_NAME)?.value;
+  if (!selected) return null;
+
+  await initStorage();
+  return (await getStorageProvider().workspaces.getById(selected)) ? selected : null;
+}
+
+export async function getCurrentWorkspaceId(): Promise<string> {
+  const scoped = scope.getStore();
+  if (scoped) return scoped;
+
+  const site = await getSiteWorkspace();
+  if (site) return site.workspace.id;
+
+  return (await getSelectedWorkspaceId()) ?? DEFAULT_WORKSPACE_ID;
+}
+
+export async function getWorkspaceStorage(): Promise<IWorkspaceStorage> {
+  await initStorage();
+  return getStorageProvider().workspace(await getCurrentWorkspaceId());
+}
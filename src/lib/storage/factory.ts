@@ -7,11 +7,32 @@
 import type { IStorageProvider } from "./interfaces";
 import { FileStorageProvider } from "./providers/file";
 import { PostgresStorageProvider } from "./providers/postgres";
+import { SqliteStorageProvider } from "./providers/sqlite";
 
-type StorageProviderType = "file" | "postgres";
+type StorageProviderType = "file" | "postgres" | "sqlite";
 
 let cachedProvider: IStorageProvider | null = null;
 
+/**
+ * Create a new, uninitialized provider of the given type. Most code should use
+ * `getStorageProvider()`; this is for tools that work with two providers at once.
+ */
+export function createStorageProvider(type: string): IStorageProvider {
+  switch (type.toLowerCase() as StorageProviderType) {
+    case "file":
+      return new FileStorageProvider();
+
+    case "postgres":
+      return new PostgresStorageProvider();
+
+    case "sqlite":
+      return new SqliteStorageProvider();
+
+    default:
+      throw new Error(`Unknown storage provider: ${type}`);
+  }
+}
+
 /**
  * Get the storage provider
  *
@@ -23,21 +44,7 @@ export function getStorageProvider(): IStorageProvider {
     return cachedProvider;
   }
 
-  const providerType = (process.env.STORAGE_PROVIDER?.toLowerCase() || "file") as StorageProviderType;
-
-  switch (providerType) {
-    case "file":
-      cachedProvider = new FileStorageProvider();
-      break;
-
-    case "postgres":
-      cachedProvider = new PostgresStorageProvider();
-      break;
-
-    default:
-      throw new Error(`Unknown storage provider: ${providerType}`);
-  }
-
+  cachedProvider = createStorageProvider(process.env.STORAGE_PROVIDER || "file");
   return cachedProvider;
 }
 
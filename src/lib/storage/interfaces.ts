@@ -9,17 +9,48 @@ import type {
   BlogPost,
   BlogPostMeta,
   PostStatus,
+  PostReview,
+  PostComment,
+  PostCommentAnchor,
+  PostCitation,
+  PostRevision,
+  PostRevisionMeta,
+  RevisionSource,
   KnowledgeSource,
   KnowledgeSourceMeta,
+  SourceChunk,
   SourceType,
+  GenerationRecord,
   OrganizationProfile,
   WatchedSource,
   WatchedSourceType,
-  FetchedArticle
+  FetchedArticle,
+  User,
+  UserRecord,
+  UserRole,
+  AiSettings,
+  SearchHit,
+  SearchOptions,
+  Workspace,
+  AuditEntry,
+  AuditFilter,
+  RelevanceRules,
+  MediaAsset
 } from "./types";
 
+/**
+ * Who caused a post write, recorded on the revision it creates
+ */
+export type RevisionContext = {
+  source: RevisionSource;
+  author: string;
+};
+
 /**
  * Posts storage operations
+ *
+ * Every create/update records an immutable revision holding the saved content.
+ * Review records and comments are stored as given; workflow rules are enforced by the API routes.
  */
 export interface IPostsStorage {
   getById(id: string): Promise<BlogPost | null>;
@@ -27,42 +58,95 @@ export interface IPostsStorage {
   getPublishedBySlug(slug: string): Promise<BlogPost | null>;
   list(status?: PostStatus): Promise<BlogPostMeta[]>;
   listPublished(): Promise<BlogPostMeta[]>;
-  create(input: {
-    title: string;
-    subtitle?: string;
-    summary: string;
-    keywords: string[];
-    seoTitle?: string;
-    seoDescription?: string;
-    contentMarkdown: string;
-  }): Promise<BlogPost>;
+  create(
+    input: {
+      title: string;
+      subtitle?: string;
+      summary: string;
+      keywords: string[];
+      tags?: string[];
+      seoTitle?: string;
+      seoDescription?: string;
+      contentMarkdown: string;
+      generation?: GenerationRecord;
+      citations?: PostCitation[];
+      featuredImageId?: string;
+    },
+    revision: RevisionContext
+  ): Promise<BlogPost>;
   update(
     id: string,
-    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt">>
+    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt" | "scheduledFor" | "review" | "generation">>,
+    revision: RevisionContext
   ): Promise<BlogPost | null>;
   publish(id: string): Promise<BlogPost | null>;
+  /** Return a published or archived post to draft; publishedAt is kept for history */
+  unpublish(id: string): Promise<BlogPost | null>;
+  archive(id: string): Promise<BlogPost | null>;
+  /** Permanently remove a post, its content and its revisions */
+  delete(id: string): Promise<boolean>;
+  schedule(id: string, scheduledFor: string): Promise<BlogPost | null>;
+  unschedule(id: string): Promise<BlogPost | null>;
+  getDueForPublish(): Promise<BlogPostMeta[]>;
+  listRevisions(postId: string): Promise<PostRevisionMeta[]>;
+  getRevision(postId: string, revisionId: string): Promise<PostRevision | null>;
+  /** Replace the post's review record and move it to `status` */
+  setReview(id: string, status: PostStatus, review: PostReview): Promise<BlogPost | null>;
+  listComments(postId: string): Promise<PostComment[]>;
+  addComment(
+    postId: string,
+    input: { authorId: string; authorName: string; body: string; anchor: PostCommentAnchor }
+  ): Promise<PostComment>;
+  /** Pass `resolvedBy: null` to reopen a comment */
+  resolveComment(postId: string, commentId: string, resolvedBy: string | null): Promise<PostComment | null>;
+  /**
+   * Write a post exactly as given (id, slug, status and timestamps), replacing
+   * any post with the same id. Used by workspace import: no revision is
+   * recorded and the caller must make sure the slug is free.
+   */
+  put(post: BlogPost): Promise<BlogPost>;
 }
 
 /**
  * Knowledge sources storage operations
+ *
+ * `createFromText` and `update` also split new text into retrieval chunks (without embeddings).
+ * Sources are deduplicated by the sha256 of their text.
  */
 export interface ISourcesStorage {
   list(type?: SourceType): Promise<KnowledgeSourceMeta[]>;
   getById(id: string): Promise<KnowledgeSource | null>;
+  getBySha256(sha256: string): Promise<KnowledgeSource | null>;
+  /** Returns the existing source instead when one already has exactly this text */
   createFromText(input: {
     type: SourceType;
     title: string;
     url?: string;
     contentText: string;
   }): Promise<KnowledgeSource>;
+  update(
+    id: string,
+    updates: Partial<Pick<KnowledgeSource, "title" | "url" | "contentText" | "tags" | "collections" | "refreshedAt" | "refreshChanged">>
+  ): Promise<KnowledgeSource | null>;
+  /** Remove a source with its content and chunks; citations in posts keep their copied title and URL */
+  delete(id: string): Promise<boolean>;
+  listChunks(sourceIds: string[]): Promise<SourceChunk[]>;
+  replaceChunks(sourceId: string, chunks: SourceChunk[]): Promise<void>;
+  /** Write a source as given, replacing one with the same id; chunks are left to `replaceChunks` */
+  put(source: KnowledgeSource): Promise<KnowledgeSource>;
 }
 
 /**
  * Organization profile storage operations
+ *
+ * Each workspace has one profile; `get` returns the seed profile until it is saved.
  */
 export interface IOrgStorage {
   get(): Promise<OrganizationProfile>;
   update(profile: OrganizationProfile): Promise<OrganizationProfile>;
+  /** The saved article scoring rules, or null when none were saved yet */
+  getRelevanceRules(): Promise<RelevanceRules | null>;
+  updateRelevanceRules(rules: RelevanceRules): Promise<RelevanceRules>;
 }
 
 /**
@@ -83,6 +167,8 @@ export interface IWatchedSourcesStorage {
   ): Promise<WatchedSource | null>;
   delete(id: string): Promise<boolean>;
   getDueForFetch(): Promise<WatchedSource[]>;
+  /** Write a watched source as given, replacing one with the same id; the URL must be free */
+  put(source: WatchedSource): Promise<WatchedSource>;
 }
 
 /**
@@ -109,19 +195,138 @@ export interface IArticlesStorage {
   markSaved(id: string): Promise<FetchedArticle | null>;
   delete(id: string): Promise<boolean>;
   deleteBySource(sourceId: string): Promise<number>;
+  /** Replace the keywords and score of the given articles, after the scoring rules changed */
+  setRelevance(scores: Array<Pick<FetchedArticle, "id" | "matchedKeywords" | "relevanceScore">>): Promise<void>;
+  /** Write an article as given, replacing one with the same id; the URL must be free */
+  put(article: FetchedArticle): Promise<FetchedArticle>;
 }
 
 /**
- * Main storage provider interface
+ * User accounts storage operations
  *
- * A storage provider implements all sub-storage interfaces
+ * Only `getByEmail` and `getRecordById` expose the password hash, for signing
+ * in and checking sessions; everything else returns plain users.
  */
-export interface IStorageProvider {
+export interface IUsersStorage {
+  list(): Promise<User[]>;
+  count(): Promise<number>;
+  getById(id: string): Promise<User | null>;
+  getRecordById(id: string): Promise<UserRecord | null>;
+  getByEmail(email: string): Promise<UserRecord | null>;
+  create(input: {
+    email: string;
+    name: string;
+    role: UserRole;
+    passwordHash: string;
+  }): Promise<User>;
+  update(
+    id: string,
+    updates: Partial<Pick<UserRecord, "name" | "role" | "passwordHash" | "disabled">>
+  ): Promise<User | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Application settings storage operations
+ *
+ * `getAi` returns null until an admin saves AI settings; callers then fall
+ * back to the environment-derived defaults.
+ */
+export interface ISettingsStorage {
+  getAi(): Promise<AiSettings | null>;
+  updateAi(settings: AiSettings): Promise<AiSettings>;
+}
+
+/**
+ * Full-text search over posts, knowledge sources and fetched articles
+ *
+ * `query` is what a person typed; all its words must match. Hits come back
+ * best first with a highlighted snippet of the matching text.
+ */
+export interface ISearchStorage {
+  search(query: string, options?: SearchOptions): Promise<SearchHit[]>;
+}
+
+/**
+ * Audit log operations
+ *
+ * Append-only: entries are never changed or removed. `list` returns the
+ * newest first.
+ */
+export interface IAuditStorage {
+  append(entry: Omit<AuditEntry, "id" | "at">): Promise<AuditEntry>;
+  list(filter?: AuditFilter): Promise<AuditEntry[]>;
+}
+
+/**
+ * Media library operations
+ *
+ * An asset is stored together with the bytes of its files. `create` takes
+ * them keyed by file name and needs one for the original and each rendition.
+ * `list` returns the newest first.
+ */
+export interface IMediaStorage {
+  list(): Promise<MediaAsset[]>;
+  getById(id: string): Promise<MediaAsset | null>;
+  create(asset: Omit<MediaAsset, "id" | "createdAt" | "updatedAt">, files: Map<string, Buffer>): Promise<MediaAsset>;
+  update(
+    id: string,
+    updates: Partial<Pick<MediaAsset, "alt" | "caption" | "credit" | "license">>
+  ): Promise<MediaAsset | null>;
+  /** Remove an asset and its files; posts that feature it are left to the caller */
+  delete(id: string): Promise<boolean>;
+  readFile(id: string, file: string): Promise<Buffer | null>;
+  /** Write an asset and its files as given, replacing one with the same id; used by workspace import */
+  put(asset: MediaAsset, files: Map<string, Buffer>): Promise<MediaAsset>;
+}
+
+/**
+ * Workspace registry operations
+ *
+ * The default workspace (DEFAULT_WORKSPACE_ID) always exists and holds
+ * everything stored before workspaces were added. Slugs and hostnames are
+ * stored lowercase and must be unique.
+ */
+export interface IWorkspacesStorage {
+  list(): Promise<Workspace[]>;
+  getById(id: string): Promise<Workspace | null>;
+  create(input: { slug: string; name: string; hostname: string | null }): Promise<Workspace>;
+  update(id: string, updates: Partial<Pick<Workspace, "slug" | "name" | "hostname">>): Promise<Workspace | null>;
+}
+
+/**
+ * Storage for one workspace's content
+ *
+ * Every read and write is limited to the workspace it was opened for, so ids
+ * from another workspace are not found.
+ */
+export interface IWorkspaceStorage {
+  workspaceId: string;
   posts: IPostsStorage;
   sources: ISourcesStorage;
   org: IOrgStorage;
   watchedSources: IWatchedSourcesStorage;
   articles: IArticlesStorage;
+  search: ISearchStorage;
+  audit: IAuditStorage;
+  media: IMediaStorage;
+}
+
+/**
+ * Main storage provider interface
+ *
+ * A storage provider implements all sub-storage interfaces. Content lives in
+ * workspaces (see `workspace()`); users and settings are deployment-wide.
+ */
+export interface IStorageProvider {
+  users: IUsersStorage;
+  settings: ISettingsStorage;
+  workspaces: IWorkspacesStorage;
+
+  /**
+   * Content storage scoped to one workspace
+   */
+  workspace(workspaceId: string): IWorkspaceStorage;
 
   /**
    * Initialize the storage (create tables, directories, etc.)
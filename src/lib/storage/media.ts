@@ -0,0 +1,86 @@
+/**
+ * Media library storage - public API
+ *
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
+ */
+
+import { processUpload } from "@/lib/media/renditions";
+import { recordAudit } from "./audit";
+import { getWorkspaceStorage } from "./currentWorkspace";
+import type { BlogPostMeta, MediaAsset } from "./types";
+
+type MediaDetails = Partial<Pick<MediaAsset, "alt" | "caption" | "credit" | "license">>;
+
+// What the audit log shows of an asset: its descriptive fields, titled by filename
+function auditRecord(asset: MediaAsset | null) {
+  if (!asset) return null;
+  const { id, filename, alt, caption, credit, license } = asset;
+  return { id, title: filename, alt, caption, credit, license };
+}
+
+export async function listMedia(): Promise<MediaAsset[]> {
+  const provider = await getWorkspaceStorage();
+  return provider.media.list();
+}
+
+export async function getMediaById(id: string): Promise<MediaAsset | null> {
+  const provider = await getWorkspaceStorage();
+  return provider.media.getById(id);
+}
+
+/** The post's featured image, if it has one that still exists */
+export async function getFeaturedImage(post: Pick<BlogPostMeta, "featuredImageId">): Promise<MediaAsset | null> {
+  return post.featuredImageId ? getMediaById(post.featuredImageId) : null;
+}
+
+/** Store an upload with its renditions; throws if it isn't an image we accept */
+export async function uploadMedia(
+  input: { filename: string; data: Buffer; alt: string; createdBy?: string } & MediaDetails
+): Promise<MediaAsset> {
+  const provider = await getWorkspaceStorage();
+  const { original, renditions, files } = await processUpload(input.data);
+  const asset = await provider.media.create(
+    {
+      filename: input.filename,
+      alt: input.alt,
+      caption: input.caption || undefined,
+      credit: input.credit || undefined,
+      license: input.license || undefined,
+      original,
+      renditions,
+      createdBy: input.createdBy
+    },
+    files
+  );
+  await recordAudit(provider, "create", "media", null, auditRecord(asset));
+  return asset;
+}
+
+export async function updateMedia(id: string, updates: MediaDetails): Promise<MediaAsset | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.media.getById(id);
+  const after = await provider.media.update(id, updates);
+  if (after) await recordAudit(provider, "update", "media", auditRecord(before), auditRecord(after));
+  return after;
+}
+
+/** Posts of any status that use the asset as their featured image */
+export async function listPostsUsingMedia(id: string): Promise<BlogPostMeta[]> {
+  const provider = await getWorkspaceStorage();
+  const posts = await provider.posts.list();
+  return posts.filter((p) => p.featuredImageId === id);
+}
+
+export async function deleteMedia(id: string): Promise<boolean> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.media.getById(id);
+  const deleted = await provider.media.delete(id);
+  if (deleted) await recordAudit(provider, "delete", "media", auditRecord(before), null);
+  return deleted;
+}
+
+export async function readMediaFile(id: string, file: string): Promise<Buffer | null> {
+  const provider = await getWorkspaceStorage();
+  return provider.media.readFile(id, file);
+}
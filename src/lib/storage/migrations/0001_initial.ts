@@ -1,6 +1,5 @@
--- Wildlife Blogger Database Schema
--- PostgreSQL 14+
-
+// Schema as first released: organization, posts, knowledge sources and watched sources
+export const up = `
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
@@ -149,3 +148,4 @@ COMMENT ON TABLE sources IS 'Knowledge sources metadata';
 COMMENT ON TABLE source_content IS 'Knowledge sources content (separated for performance)';
 COMMENT ON TABLE watched_sources IS 'RSS/HTML sources being monitored';
 COMMENT ON TABLE articles IS 'Articles fetched from watched sources';
+`;
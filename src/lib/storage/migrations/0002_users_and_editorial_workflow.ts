@@ -0,0 +1,77 @@
+// Revisions, scheduling, archiving, user accounts and editorial review.
+// Written to be safe on databases created from any earlier schema.sql, which
+// may already have some of these objects.
+export const up = `
+-- User accounts (dashboard sign-in)
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    email VARCHAR(320) NOT NULL UNIQUE,
+    name VARCHAR(120) NOT NULL,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('viewer', 'writer', 'editor', 'admin')),
+    password_hash VARCHAR(255) NOT NULL,
+    disabled BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Post workflow columns
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS created_by VARCHAR(120);
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS updated_by VARCHAR(120);
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS review JSONB;
+
+-- Statuses beyond DRAFT and PUBLISHED
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check
+    CHECK (status IN ('DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'));
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS valid_published_at;
+ALTER TABLE posts ADD CONSTRAINT valid_published_at CHECK (
+    (status = 'PUBLISHED' AND published_at IS NOT NULL) OR
+    (status = 'SCHEDULED' AND scheduled_for IS NOT NULL) OR
+    (status IN ('DRAFT', 'IN_REVIEW', 'ARCHIVED'))
+);
+
+-- Post revisions (immutable snapshot of every save)
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('generate', 'improve', 'manual', 'restore')),
+    author VARCHAR(120) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    subtitle VARCHAR(255),
+    summary TEXT NOT NULL,
+    keywords JSONB DEFAULT '[]'::jsonb,
+    seo_title VARCHAR(100),
+    seo_description VARCHAR(255),
+    content_markdown TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Review comments, anchored to a section of the post content
+CREATE TABLE IF NOT EXISTS post_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL,
+    author_name VARCHAR(120) NOT NULL,
+    body TEXT NOT NULL,
+    section_id VARCHAR(255) NOT NULL,
+    section_title VARCHAR(255) NOT NULL,
+    quote TEXT,
+    resolved BOOLEAN NOT NULL DEFAULT false,
+    resolved_by VARCHAR(120),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled_for ON posts(scheduled_for) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_id ON post_revisions(post_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_comments_post_id ON post_comments(post_id, created_at);
+
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE users IS 'Dashboard user accounts with roles';
+COMMENT ON TABLE post_revisions IS 'Immutable history of post saves';
+COMMENT ON TABLE post_comments IS 'Editorial review comments anchored to post sections';
+`;
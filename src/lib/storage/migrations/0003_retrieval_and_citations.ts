@@ -0,0 +1,18 @@
+// Retrieval chunks for the knowledge base, and generation/citation records on posts
+export const up = `
+-- Retrieval chunks of each source; embedding is a JSON float array tagged with its model
+CREATE TABLE IF NOT EXISTS source_chunks (
+    id VARCHAR(80) PRIMARY KEY,
+    source_id UUID NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    embedding JSONB,
+    embedding_model VARCHAR(120),
+    UNIQUE (source_id, chunk_index)
+);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS generation JSONB;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS citations JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON TABLE source_chunks IS 'Knowledge source chunks used for retrieval';
+`;
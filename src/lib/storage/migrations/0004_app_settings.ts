@@ -0,0 +1,10 @@
+// Key/value settings (AI provider chain)
+export const up = `
+CREATE TABLE IF NOT EXISTS app_settings (
+    key VARCHAR(100) PRIMARY KEY,
+    value JSONB NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE app_settings IS 'Application settings stored as JSON by key';
+`;
@@ -0,0 +1,6 @@
+// Editing and re-fetching knowledge sources
+export const up = `
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS refreshed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS refresh_changed BOOLEAN;
+`;
@@ -0,0 +1,5 @@
+// Tags and collections on knowledge sources
+export const up = `
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS collections JSONB NOT NULL DEFAULT '[]'::jsonb;
+`;
@@ -0,0 +1,31 @@
+// Full-text search: a weighted tsvector per record, maintained by Postgres
+export const up = `
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(subtitle, '') || ' ' || coalesce(summary, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english'::regconfig, coalesce(keywords, '[]'::jsonb), '["string"]'), 'B')
+) STORED;
+
+ALTER TABLE post_content ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(content_markdown, '')), 'C')
+) STORED;
+
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A')
+) STORED;
+
+ALTER TABLE source_content ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(content_text, '')), 'C')
+) STORED;
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(excerpt, '')), 'B')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_posts_search ON posts USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_post_content_search ON post_content USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_sources_search ON sources USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_source_content_search ON source_content USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_articles_search ON articles USING GIN (search_vector);
+`;
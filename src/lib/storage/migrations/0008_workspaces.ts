@@ -0,0 +1,46 @@
+// Several organizations in one deployment: content is scoped to a workspace.
+// Existing content and the organization profile move into the default workspace.
+export const up = `
+CREATE TABLE IF NOT EXISTS workspaces (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    slug VARCHAR(60) NOT NULL UNIQUE,
+    name VARCHAR(120) NOT NULL,
+    hostname VARCHAR(253) UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO workspaces (id, slug, name)
+VALUES (
+    '00000000-0000-0000-0000-000000000000',
+    'default',
+    COALESCE((SELECT name FROM organization LIMIT 1), 'Default workspace')
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP INDEX IF EXISTS organization_singleton;
+ALTER TABLE organization ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+    DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE;
+CREATE UNIQUE INDEX IF NOT EXISTS organization_workspace ON organization(workspace_id);
+COMMENT ON TABLE organization IS 'Organization profile (one row per workspace)';
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+    DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_slug_key;
+CREATE UNIQUE INDEX IF NOT EXISTS posts_workspace_slug ON posts(workspace_id, slug);
+
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+    DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_sources_workspace_sha256 ON sources(workspace_id, sha256);
+
+ALTER TABLE watched_sources ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+    DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE watched_sources DROP CONSTRAINT IF EXISTS watched_sources_url_key;
+CREATE UNIQUE INDEX IF NOT EXISTS watched_sources_workspace_url ON watched_sources(workspace_id, url);
+
+ALTER TABLE articles ADD COLUMN IF NOT EXISTS workspace_id UUID NOT NULL
+    DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES workspaces(id) ON DELETE CASCADE;
+ALTER TABLE articles DROP CONSTRAINT IF EXISTS articles_url_key;
+CREATE UNIQUE INDEX IF NOT EXISTS articles_workspace_url ON articles(workspace_id, url);
+
+COMMENT ON TABLE workspaces IS 'Organizations sharing this deployment; content tables carry workspace_id';
+`;
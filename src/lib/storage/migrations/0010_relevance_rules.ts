@@ -0,0 +1,4 @@
+// Per-workspace scoring rules for fetched articles, kept with the organization profile
+export const up = `
+ALTER TABLE organization ADD COLUMN IF NOT EXISTS relevance_rules JSONB;
+`;
@@ -0,0 +1,29 @@
+// Media library: uploaded images with their renditions, and featured images on posts
+export const up = `
+CREATE TABLE IF NOT EXISTS media (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    filename VARCHAR(255) NOT NULL,
+    alt VARCHAR(500) NOT NULL,
+    caption TEXT,
+    credit VARCHAR(300),
+    license VARCHAR(200),
+    original JSONB NOT NULL,
+    renditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_by VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_workspace_created ON media(workspace_id, created_at DESC);
+COMMENT ON TABLE media IS 'Media library: uploaded images and their renditions';
+
+CREATE TABLE IF NOT EXISTS media_files (
+    media_id UUID NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+    file VARCHAR(100) NOT NULL,
+    data BYTEA NOT NULL,
+    PRIMARY KEY (media_id, file)
+);
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS featured_image_id UUID;
+`;
@@ -0,0 +1,4 @@
+// Public tags on posts, kept apart from their SEO keywords
+export const up = `
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]'::jsonb;
+`;
@@ -0,0 +1,7 @@
+// Tags, citations and featured image on revisions, so restoring one brings them back.
+// NULL tags mark a revision saved before these were recorded.
+export const up = `
+ALTER TABLE post_revisions ADD COLUMN IF NOT EXISTS tags JSONB;
+ALTER TABLE post_revisions ADD COLUMN IF NOT EXISTS citations JSONB;
+ALTER TABLE post_revisions ADD COLUMN IF NOT EXISTS featured_image_id UUID;
+`;
@@ -0,0 +1,149 @@
+/**
+ * PostgreSQL schema migrations
+ *
+ * Numbered up migrations, applied in order and recorded in `schema_migrations`
+ * with a checksum of their SQL. An applied migration must never be edited;
+ * add a new one instead. Databases created from the old single schema.sql
+ * (before this table existed) are adopted at version 1, and later migrations
+ * are written so they also apply cleanly on those.
+ */
+
+import type { Pool, PoolClient } from "pg";
+import crypto from "node:crypto";
+import { up as initial } from "./0001_initial";
+import { up as usersAndEditorialWorkflow } from "./0002_users_and_editorial_workflow";
+import { up as retrievalAndCitations } from "./0003_retrieval_and_citations";
+import { up as appSettings } from "./0004_app_settings";
+import { up as sourceLifecycle } from "./0005_source_lifecycle";
+import { up as sourceLabels } from "./0006_source_labels";
+import { up as fullTextSearch } from "./0007_full_text_search";
+import { up as workspaces } from "./0008_workspaces";
+import { up as auditLog } from "./0009_audit_log";
+import { up as relevanceRules } from "./0010_relevance_rules";
+import { up as mediaLibrary } from "./0011_media_library";
+import { up as postTags } from "./0012_post_tags";
+import { up as revisionPostFields } from "./0013_revision_post_fields";
+
+export type Migration = {
+  version: number;
+  name: string;
+  sql: string;
+};
+
+export const POSTGRES_MIGRATIONS: Migration[] = [
+  { version: 1, name: "initial", sql: initial },
+  { version: 2, name: "users_and_editorial_workflow", sql: usersAndEditorialWorkflow },
+  { version: 3, name: "retrieval_and_citations", sql: retrievalAndCitations },
+  { version: 4, name: "app_settings", sql: appSettings },
+  { version: 5, name: "source_lifecycle", sql: sourceLifecycle },
+  { version: 6, name: "source_labels", sql: sourceLabels },
+  { version: 7, name: "full_text_search", sql: fullTextSearch },
+  { version: 8, name: "workspaces", sql: workspaces },
+  { version: 9, name: "audit_log", sql: auditLog },
+  { version: 10, name: "relevance_rules", sql: relevanceRules },
+  { version: 11, name: "media_library", sql: mediaLibrary },
+  { version: 12, name: "post_tags", sql: postTags },
+  { version: 13, name: "revision_post_fields", sql: revisionPostFields }
+];
+
+// Key for pg_advisory_lock, so app instances starting together don't both migrate
+const MIGRATION_LOCK_KEY = 724_051_963;
+
+export function migrationLabel(m: Pick<Migration, "version" | "name">) {
+  return `${String(m.version).padStart(4, "0")}_${m.name}`;
+}
+
+export function migrationChecksum(sql: string) {
+  return crypto.createHash("sha256").update(sql.replace(/\r\n/g, "\n").trim(), "utf8").digest("hex");
+}
+
+async function tableExists(client: PoolClient, table: string) {
+  const result = await client.query(`SELECT to_regclass($1) IS NOT NULL AS exists`, [table]);
+  return result.rows[0].exists as boolean;
+}
+
+/**
+ * Work out which migrations still need to run, checking that the applied
+ * ones haven't changed since. A pre-migrations database counts as being at
+ * version 1; unless `dryRun`, that is recorded.
+ */
+async function pendingMigrations(client: PoolClient, dryRun: boolean): Promise<Migration[]> {
+  if (!dryRun) {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+         version INTEGER PRIMARY KEY,
+         name VARCHAR(200) NOT NULL,
+         checksum VARCHAR(64) NOT NULL,
+         applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+       )`
+    );
+  }
+
+  const applied = new Map<number, { name: string; checksum: string }>();
+  if (await tableExists(client, "schema_migrations")) {
+    const result = await client.query(`SELECT version, name, checksum FROM schema_migrations`);
+    for (const row of result.rows) applied.set(row.version, { name: row.name, checksum: row.checksum });
+  }
+
+  if (applied.size === 0 && (await tableExists(client, "posts"))) {
+    const baseline = POSTGRES_MIGRATIONS[0];
+    applied.set(baseline.version, { name: baseline.name, checksum: migrationChecksum(baseline.sql) });
+    if (!dryRun) {
+      await client.query(`INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`, [
+        baseline.version,
+        baseline.name,
+        migrationChecksum(baseline.sql)
+      ]);
+    }
+  }
+
+  for (const [version, row] of applied) {
+    const known = POSTGRES_MIGRATIONS.find((m) => m.version === version);
+    if (!known) {
+      console.warn(`Database has migration ${migrationLabel({ version, name: row.name })}, which this version doesn't know`);
+    } else if (migrationChecksum(known.sql) !== row.checksum) {
+      throw new Error(`Migration ${migrationLabel(known)} was changed after it was applied; add a new migration instead`);
+    }
+  }
+
+  return POSTGRES_MIGRATIONS.filter((m) => !applied.has(m.version)).sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply pending migrations, each in its own transaction. With `dryRun`
+ * nothing is changed and the pending migrations are only returned.
+ */
+export async function migratePostgres(pool: Pool, options: { dryRun?: boolean } = {}): Promise<Migration[]> {
+  const dryRun = options.dryRun ?? false;
+  const client = await pool.connect();
+  try {
+    if (dryRun) return await pendingMigrations(client, true);
+
+    await client.query(`SELECT pg_advisory_lock($1)`, [MIGRATION_LOCK_KEY]);
+    try {
+      const pending = await pendingMigrations(client, false);
+      for (const migration of pending) {
+        try {
+          await client.query("BEGIN");
+          await client.query(migration.sql);
+          await client.query(`INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)`, [
+            migration.version,
+            migration.name,
+            migrationChecksum(migration.sql)
+          ]);
+          await client.query("COMMIT");
+        } catch (err) {
+          await client.query("ROLLBACK");
+          throw new Error(
+            `Migration ${migrationLabel(migration)} failed: ${err instanceof Error ? err.message : String(err)}`
+          );
+        }
+      }
+      return pending;
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock($1)`, [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
@@ -1,20 +1,76 @@
 /**
  * Organization profile storage - public API
  *
- * This module delegates to the configured storage provider.
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
  */
 
-import { getStorageProvider, initStorage } from "./factory";
-import type { OrganizationProfile } from "./types";
+import { defaultRelevanceRules, scoreArticle } from "@/lib/feeds/relevance";
+import { recordAudit } from "./audit";
+import { getWorkspaceStorage } from "./currentWorkspace";
+import type { IWorkspaceStorage } from "./interfaces";
+import type { OrganizationProfile, RelevanceRules } from "./types";
 
 export async function getOrgProfile(): Promise<OrganizationProfile> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.org.get();
 }
 
 export async function updateOrgProfile(profile: OrganizationProfile): Promise<OrganizationProfile> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.org.update(profile);
+  const provider = await getWorkspaceStorage();
+  const before = await provider.org.get();
+  const updated = await provider.org.update(profile);
+  // The profile has no id of its own; there is one per workspace
+  const id = provider.workspaceId;
+  await recordAudit(provider, "update", "org", { ...before, id }, { ...updated, id });
+
+  // Until rules are saved, they follow the profile
+  if (!(await provider.org.getRelevanceRules())) {
+    await rescoreArticles(provider, defaultRelevanceRules(updated));
+  }
+  return updated;
+}
+
+/** The workspace's article scoring rules; defaults from the profile until some are saved */
+export async function getRelevanceRules(): Promise<RelevanceRules> {
+  const provider = await getWorkspaceStorage();
+  return (await provider.org.getRelevanceRules()) ?? defaultRelevanceRules(await provider.org.get());
+}
+
+/** Save the scoring rules and rescore every fetched article with them */
+export async function updateRelevanceRules(
+  rules: RelevanceRules
+): Promise<{ rules: RelevanceRules; rescored: number }> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.org.getRelevanceRules();
+  const saved = await provider.org.updateRelevanceRules(rules);
+  const entry = (relevanceRules: RelevanceRules | null) => ({
+    id: provider.workspaceId,
+    name: "Relevance rules",
+    relevanceRules
+  });
+  await recordAudit(provider, "update", "org", entry(before), entry(saved));
+  const rescored = await rescoreArticles(provider, saved);
+  return { rules: saved, rescored };
+}
+
+/**
+ * Rescore every fetched article when the rules decay scores with age, so the
+ * stored scores keep aging between rule changes; the fetch cron runs this.
+ * Returns how many were rescored, none when there is no half-life.
+ */
+export async function rescoreArticlesForAge(): Promise<number> {
+  const provider = await getWorkspaceStorage();
+  const rules = (await provider.org.getRelevanceRules()) ?? defaultRelevanceRules(await provider.org.get());
+  if (!rules.recencyHalfLifeDays) return 0;
+  return rescoreArticles(provider, rules);
+}
+
+async function rescoreArticles(provider: IWorkspaceStorage, rules: RelevanceRules): Promise<number> {
+  const now = new Date();
+  const articles = await provider.articles.list();
+  await provider.articles.setRelevance(
+    articles.map((article) => ({ id: article.id, ...scoreArticle(article, rules, now) }))
+  );
+  return articles.length;
 }
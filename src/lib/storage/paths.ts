@@ -1,10 +1,79 @@
 import path from "node:path";
+import { DEFAULT_WORKSPACE_ID } from "./workspaceSchema";
 
 const configuredDataDir = process.env.WILDLIFE_BLOGGER_DATA_DIR?.trim();
 
 export const DATA_DIR = configuredDataDir ? path.resolve(configuredDataDir) : path.join(process.cwd(), "data");
 export const POSTS_DIR = path.join(DATA_DIR, "posts");
+export const REVISIONS_DIR = path.join(DATA_DIR, "revisions");
+export const COMMENTS_DIR = path.join(DATA_DIR, "comments");
 export const SOURCES_DIR = path.join(DATA_DIR, "sources");
+export const CHUNKS_DIR = path.join(DATA_DIR, "chunks");
 export const ORG_PROFILE_PATH = path.join(DATA_DIR, "org.json");
 export const WATCHED_SOURCES_PATH = path.join(DATA_DIR, "watched-sources.json");
 export const ARTICLES_DIR = path.join(DATA_DIR, "articles");
+export const USERS_PATH = path.join(DATA_DIR, "users.json");
+export const AI_SETTINGS_PATH = path.join(DATA_DIR, "ai-settings.json");
+export const WORKSPACES_PATH = path.join(DATA_DIR, "workspaces.json");
+
+export type WorkspaceDirs = {
+  root: string;
+  posts: string;
+  revisions: string;
+  comments: string;
+  sources: string;
+  chunks: string;
+  articles: string;
+  // One directory per media asset: asset.json and its files
+  media: string;
+  orgProfile: string;
+  watchedSources: string;
+  // Slug, status and dates of every post, kept by the file provider
+  postsIndex: string;
+  // Append-only, one JSON entry per line
+  auditLog: string;
+  relevanceRules: string;
+};
+
+// The default workspace keeps the original layout; others live in workspaces/<id>
+export function workspaceDirs(workspaceId: string): WorkspaceDirs {
+  if (workspaceId === DEFAULT_WORKSPACE_ID) {
+    return {
+      root: DATA_DIR,
+      posts: POSTS_DIR,
+      revisions: REVISIONS_DIR,
+      comments: COMMENTS_DIR,
+      sources: SOURCES_DIR,
+      chunks: CHUNKS_DIR,
+      articles: ARTICLES_DIR,
+      media: path.join(DATA_DIR, "media"),
+      orgProfile: ORG_PROFILE_PATH,
+      watchedSources: WATCHED_SOURCES_PATH,
+      postsIndex: path.join(DATA_DIR, "posts-index.json"),
+      auditLog: path.join(DATA_DIR, "audit-log.jsonl"),
+      relevanceRules: path.join(DATA_DIR, "relevance-rules.json")
+    };
+  }
+  const root = path.join(DATA_DIR, "workspaces", path.basename(workspaceId));
+  return {
+    root,
+    posts: path.join(root, "posts"),
+    revisions: path.join(root, "revisions"),
+    comments: path.join(root, "comments"),
+    sources: path.join(root, "sources"),
+    chunks: path.join(root, "chunks"),
+    articles: path.join(root, "articles"),
+    media: path.join(root, "media"),
+    orgProfile: path.join(root, "org.json"),
+    watchedSources: path.join(root, "watched-sources.json"),
+    postsIndex: path.join(root, "posts-index.json"),
+    auditLog: path.join(root, "audit-log.jsonl"),
+    relevanceRules: path.join(root, "relevance-rules.json")
+  };
+}
+
+// SQLite storage: database file, in the data directory unless SQLITE_PATH is set
+const configuredSqlitePath = process.env.SQLITE_PATH?.trim();
+export const SQLITE_PATH = configuredSqlitePath
+  ? path.resolve(configuredSqlitePath)
+  : path.join(DATA_DIR, "wildlife-blogger.db");
@@ -1,68 +1,316 @@
 /**
  * Posts storage - public API
  *
- * This module delegates to the configured storage provider.
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
  */
 
-import { getStorageProvider, initStorage } from "./factory";
-import type { BlogPost, BlogPostMeta, PostStatus } from "./types";
+import {
+  type LinkSuggestion,
+  type TermProfile,
+  rankRelatedPosts,
+  suggestInternalLinks,
+  termProfile
+} from "@/lib/content-quality/related";
+import { normalizePostTag, normalizePostTags } from "@/lib/utils/post-tags";
+import { audited, recordAudit } from "./audit";
+import { getWorkspaceStorage } from "./currentWorkspace";
+import type { RevisionContext } from "./interfaces";
+import type {
+  BlogPost,
+  BlogPostMeta,
+  GenerationRecord,
+  PostComment,
+  PostCommentAnchor,
+  PostCitation,
+  PostRevision,
+  PostReview,
+  PostRevisionMeta,
+  PostStatus,
+  User
+} from "./types";
 
 export async function getPostById(id: string): Promise<BlogPost | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.posts.getById(id);
 }
 
 export async function listPosts(status?: PostStatus): Promise<BlogPostMeta[]> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.posts.list(status);
 }
 
 export async function listPublishedPosts(): Promise<BlogPostMeta[]> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.posts.listPublished();
 }
 
+/** Published posts carrying `tag` (in any spelling normalizePostTag accepts), newest first */
+export async function listPublishedPostsTagged(tag: string): Promise<BlogPostMeta[]> {
+  const normalized = normalizePostTag(tag);
+  const posts = await listPublishedPosts();
+  return posts.filter((p) => p.tags.includes(normalized));
+}
+
+type CachedProfile = { updatedAt: string; profile: TermProfile };
+
+// Term profiles of published posts, per workspace and post. An entry holds
+// while the post's updatedAt does, and goes once it's no longer published, so
+// only posts published or edited since the last call have their bodies read.
+const publishedProfiles = new Map<string, Map<string, CachedProfile>>();
+
+// Published posts with the term profiles related-content scoring compares
+async function listPublishedProfiles(): Promise<Array<{ post: BlogPostMeta; profile: TermProfile }>> {
+  const provider = await getWorkspaceStorage();
+  const published = await provider.posts.listPublished();
+  const cached = publishedProfiles.get(provider.workspaceId);
+  const current = new Map<string, CachedProfile>();
+
+  for (const meta of published) {
+    let entry = cached?.get(meta.id);
+    if (entry?.updatedAt !== meta.updatedAt) {
+      const post = await provider.posts.getById(meta.id);
+      if (!post) continue;
+      entry = { updatedAt: meta.updatedAt, profile: termProfile(post) };
+    }
+    current.set(meta.id, entry);
+  }
+  publishedProfiles.set(provider.workspaceId, current);
+
+  return published.flatMap((post) => {
+    const entry = current.get(post.id);
+    return entry ? [{ post, profile: entry.profile }] : [];
+  });
+}
+
+/** Published posts on the same subject as `post`, most related first */
+export async function listRelatedPosts(post: BlogPost, limit = 3): Promise<BlogPostMeta[]> {
+  return rankRelatedPosts(post, await listPublishedProfiles(), limit).map((r) => r.post);
+}
+
+/** Phrases in `post` (saved or not) that could link to related published posts */
+export async function suggestPostLinks(post: BlogPost): Promise<LinkSuggestion[]> {
+  return suggestInternalLinks(post, await listPublishedProfiles());
+}
+
 export async function getPublishedPostBySlug(slug: string): Promise<BlogPost | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.posts.getPublishedBySlug(slug);
 }
 
 export async function getPostBySlug(slug: string): Promise<BlogPost | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.posts.getBySlug(slug);
 }
 
-export async function createDraft(input: {
-  title: string;
-  subtitle?: string;
-  summary: string;
-  keywords: string[];
-  seoTitle?: string;
-  seoDescription?: string;
-  contentMarkdown: string;
-}): Promise<BlogPost> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.posts.create(input);
+export async function createDraft(
+  input: {
+    title: string;
+    subtitle?: string;
+    summary: string;
+    keywords: string[];
+    tags?: string[];
+    seoTitle?: string;
+    seoDescription?: string;
+    contentMarkdown: string;
+    generation?: GenerationRecord;
+    citations?: PostCitation[];
+    featuredImageId?: string;
+  },
+  revision: RevisionContext
+): Promise<BlogPost> {
+  const provider = await getWorkspaceStorage();
+  const post = await provider.posts.create({ ...input, tags: normalizePostTags(input.tags ?? []) }, revision);
+  await recordAudit(provider, "create", "post", null, post);
+  return post;
 }
 
 export async function updateDraft(
   id: string,
-  updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt">>
+  updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt" | "scheduledFor" | "review" | "generation">>,
+  revision: RevisionContext
 ): Promise<BlogPost | null> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.posts.update(id, updates);
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "update", "post", before, () =>
+    provider.posts.update(id, { ...updates, tags: updates.tags && normalizePostTags(updates.tags) }, revision)
+  );
 }
 
 export async function publishPost(id: string): Promise<BlogPost | null> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.posts.publish(id);
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "publish", "post", before, () => provider.posts.publish(id));
+}
+
+export async function unpublishPost(id: string): Promise<BlogPost | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "unpublish", "post", before, () => provider.posts.unpublish(id));
 }
 
+export async function archivePost(id: string): Promise<BlogPost | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "archive", "post", before, () => provider.posts.archive(id));
+}
+
+export async function deletePost(id: string): Promise<boolean> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  const deleted = await provider.posts.delete(id);
+  if (deleted) await recordAudit(provider, "delete", "post", before, null);
+  return deleted;
+}
+
+export async function schedulePost(id: string, scheduledFor: string): Promise<BlogPost | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "schedule", "post", before, () => provider.posts.schedule(id, scheduledFor));
+}
+
+export async function unschedulePost(id: string): Promise<BlogPost | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "unschedule", "post", before, () => provider.posts.unschedule(id));
+}
+
+export async function getPostsDueForPublish(): Promise<BlogPostMeta[]> {
+  const provider = await getWorkspaceStorage();
+  return provider.posts.getDueForPublish();
+}
+
+export async function listPostRevisions(postId: string): Promise<PostRevisionMeta[]> {
+  const provider = await getWorkspaceStorage();
+  return provider.posts.listRevisions(postId);
+}
+
+export async function getPostRevision(postId: string, revisionId: string): Promise<PostRevision | null> {
+  const provider = await getWorkspaceStorage();
+  return provider.posts.getRevision(postId, revisionId);
+}
+
+/**
+ * Restore a revision by saving its content as a new revision.
+ * History is never rewritten, so the restore itself can be undone. Citations
+ * come back with the content so its footnote markers keep their sources; a
+ * featured image deleted since is cleared rather than restored.
+ */
+export async function restorePostRevision(
+  postId: string,
+  revisionId: string,
+  author: string
+): Promise<BlogPost | null> {
+  const revision = await getPostRevision(postId, revisionId);
+  if (!revision) return null;
+
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(postId);
+  const restored = {
+    title: revision.title,
+    subtitle: revision.subtitle,
+    summary: revision.summary,
+    keywords: revision.keywords,
+    seoTitle: revision.seoTitle,
+    seoDescription: revision.seoDescription,
+    contentMarkdown: revision.contentMarkdown,
+    ...(revision.tags
+      ? {
+          tags: revision.tags,
+          citations: revision.citations ?? [],
+          featuredImageId:
+            revision.featuredImageId && (await provider.media.getById(revision.featuredImageId))
+              ? revision.featuredImageId
+              : ""
+        }
+      : {})
+  };
+  return audited(provider, "update", "post", before, () =>
+    provider.posts.update(postId, restored, { source: "restore", author })
+  );
+}
+
+export async function submitPostForReview(
+  id: string,
+  requester: Pick<User, "id" | "name">,
+  reviewer?: Pick<User, "id" | "name"> | null
+): Promise<BlogPost | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.posts.getById(id);
+  return audited(provider, "review", "post", before, () =>
+    provider.posts.setReview(id, "IN_REVIEW", {
+      state: "pending",
+      requestedById: requester.id,
+      requestedBy: requester.name,
+      requestedAt: new Date().toISOString(),
+      reviewerId: reviewer?.id,
+      reviewerName: reviewer?.name
+    })
+  );
+}
+
+/**
+ * Approve the post as it currently stands. The approval is pinned to the
+ * latest revision, so any later save needs a fresh review.
+ */
+export async function approvePost(id: string, reviewer: Pick<User, "id" | "name">): Promise<BlogPost | null> {
+  const post = await getPostById(id);
+  if (!post?.review) return null;
+
+  const [latest] = await listPostRevisions(id);
+  const review: PostReview = {
+    ...post.review,
+    state: "approved",
+    decidedById: reviewer.id,
+    decidedBy: reviewer.name,
+    decidedAt: new Date().toISOString(),
+    approvedRevisionId: latest?.id
+  };
+  const provider = await getWorkspaceStorage();
+  return audited(provider, "review", "post", post, () => provider.posts.setReview(id, "IN_REVIEW", review));
+}
+
+export async function requestPostChanges(id: string, reviewer: Pick<User, "id" | "name">): Promise<BlogPost | null> {
+  const post = await getPostById(id);
+  if (!post?.review) return null;
+
+  const review: PostReview = {
+    ...post.review,
+    state: "changes_requested",
+    decidedById: reviewer.id,
+    decidedBy: reviewer.name,
+    decidedAt: new Date().toISOString(),
+    approvedRevisionId: undefined
+  };
+  const provider = await getWorkspaceStorage();
+  return audited(provider, "review", "post", post, () => provider.posts.setReview(id, "DRAFT", review));
+}
+
+/** True when the post was approved and hasn't been saved since */
+export async function hasCurrentApproval(post: BlogPostMeta): Promise<boolean> {
+  if (post.review?.state !== "approved" || !post.review.approvedRevisionId) return false;
+  const [latest] = await listPostRevisions(post.id);
+  return latest?.id === post.review.approvedRevisionId;
+}
+
+export async function listPostComments(postId: string): Promise<PostComment[]> {
+  const provider = await getWorkspaceStorage();
+  return provider.posts.listComments(postId);
+}
+
+export async function addPostComment(
+  postId: string,
+  input: { authorId: string; authorName: string; body: string; anchor: PostCommentAnchor }
+): Promise<PostComment> {
+  const provider = await getWorkspaceStorage();
+  return provider.posts.addComment(postId, input);
+}
+
+export async function resolvePostComment(
+  postId: string,
+  commentId: string,
+  resolvedBy: string | null
+): Promise<PostComment | null> {
+  const provider = await getWorkspaceStorage();
+  return provider.posts.resolveComment(postId, commentId, resolvedBy);
+}
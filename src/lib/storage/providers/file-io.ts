@@ -0,0 +1,51 @@
+/**
+ * File storage primitives
+ *
+ * Every write goes to a temporary file next to the target and is renamed over
+ * it, so a crash leaves the old file or the new one, never half of one.
+ * Read-modify-write sequences run under a lock per collection. The lock is
+ * in-process: it covers the app server, not two processes sharing a data
+ * directory.
+ */
+
+import crypto from "node:crypto";
+import { open, rename, rm } from "node:fs/promises";
+
+// Suffix of in-flight writes; a crash can leave one behind (see FileStorageProvider.repair)
+export const TEMP_SUFFIX = ".tmp";
+
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}-${crypto.randomUUID()}${TEMP_SUFFIX}`;
+  try {
+    const handle = await open(tempPath, "w");
+    try {
+      await handle.writeFile(data, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, filePath);
+  } catch (err) {
+    await rm(tempPath, { force: true });
+    throw err;
+  }
+}
+
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` once every earlier call with the same key has settled. Keys are
+ * the collection's directory or file path. Don't take the same lock again
+ * inside `fn`: it would wait for itself.
+ */
+export async function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = queues.get(key) ?? Promise.resolve();
+  const run = previous.then(fn);
+  const tail = run.catch(() => undefined);
+  queues.set(key, tail);
+  try {
+    return await run;
+  } finally {
+    if (queues.get(key) === tail) queues.delete(key);
+  }
+}
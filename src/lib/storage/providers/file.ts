@@ -3,10 +3,12 @@
  *
  * Stores data as JSON and text files in the filesystem.
  * This is the original storage implementation, refactored into a provider.
+ * The default workspace uses the top of the data directory; other
+ * workspaces get the same layout under workspaces/<id>.
  */
 
 import crypto from "node:crypto";
-import { readFile, readdir, writeFile, mkdir } from "node:fs/promises";
+import { appendFile, readFile, readdir, mkdir, rm, stat } from "node:fs/promises";
 import path from "node:path";
 import type {
   IStorageProvider,
@@ -14,31 +16,71 @@ import type {
   ISourcesStorage,
   IOrgStorage,
   IWatchedSourcesStorage,
-  IArticlesStorage
+  IArticlesStorage,
+  IUsersStorage,
+  ISettingsStorage,
+  ISearchStorage,
+  IWorkspacesStorage,
+  IWorkspaceStorage,
+  IAuditStorage,
+  IMediaStorage,
+  RevisionContext
 } from "../interfaces";
 import type {
   BlogPost,
   BlogPostMeta,
   PostStatus,
+  PostReview,
+  PostComment,
+  PostCommentAnchor,
+  PostCitation,
+  PostRevision,
+  PostRevisionMeta,
   KnowledgeSource,
   KnowledgeSourceMeta,
+  SourceChunk,
   SourceType,
+  GenerationRecord,
   OrganizationProfile,
   WatchedSource,
   WatchedSourceType,
-  FetchedArticle
+  FetchedArticle,
+  User,
+  UserRecord,
+  UserRole,
+  AiSettings,
+  SearchHit,
+  SearchKind,
+  SearchOptions,
+  Workspace,
+  AuditEntry,
+  AuditFilter,
+  RelevanceRules,
+  MediaAsset
 } from "../types";
 import { slugify } from "@/lib/utils/slug";
 import { makeSeedProfile } from "../seed";
 import { normalizeOrgProfile } from "../orgProfile";
-
-const configuredDataDir = process.env.WILDLIFE_BLOGGER_DATA_DIR?.trim();
-const DATA_DIR = configuredDataDir ? path.resolve(configuredDataDir) : path.join(process.cwd(), "data");
-const POSTS_DIR = path.join(DATA_DIR, "posts");
-const SOURCES_DIR = path.join(DATA_DIR, "sources");
-const ORG_PROFILE_PATH = path.join(DATA_DIR, "org.json");
-const WATCHED_SOURCES_PATH = path.join(DATA_DIR, "watched-sources.json");
-const ARTICLES_DIR = path.join(DATA_DIR, "articles");
+import { chunkText } from "@/lib/rag/chunk";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  InvertedIndex,
+  MAX_SEARCH_LIMIT,
+  buildSnippet,
+  searchableText
+} from "@/lib/search/full-text";
+import { auditLimit, matchesAuditFilter } from "@/lib/audit/log";
+
+import {
+  AI_SETTINGS_PATH,
+  DATA_DIR,
+  USERS_PATH,
+  WORKSPACES_PATH,
+  workspaceDirs,
+  type WorkspaceDirs
+} from "../paths";
+import { DEFAULT_WORKSPACE_ID, DEFAULT_WORKSPACE_SLUG } from "../workspaceSchema";
+import { TEMP_SUFFIX, withLock, writeFileAtomic } from "./file-io";
 
 // Helper functions
 function cleanText(text: string) {
@@ -55,26 +97,137 @@ function sha256(text: string) {
   return crypto.createHash("sha256").update(text, "utf8").digest("hex");
 }
 
-// Posts storage implementation
+type PostIndexEntry = Pick<
+  BlogPostMeta,
+  "id" | "slug" | "status" | "createdAt" | "updatedAt" | "publishedAt" | "scheduledFor"
+>;
+
+// A post being written is marked pending in the index until its .json is in place
+type StoredIndexEntry = PostIndexEntry & { pending?: true };
+
+const POST_INDEX_VERSION = 1;
+
+// Newest first, by publication date for published posts
+function byPostDate(a: PostIndexEntry, b: PostIndexEntry) {
+  return (b.publishedAt ?? b.createdAt).localeCompare(a.publishedAt ?? a.createdAt);
+}
+
+// Posts storage implementation. Lookups by slug, status and date go through
+// an index file, so only the posts they return are read.
 class FilePostsStorage implements IPostsStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
   private async readMetaFile(filePath: string): Promise<BlogPostMeta> {
     const raw = await readFile(filePath, "utf8");
-    return JSON.parse(raw) as BlogPostMeta;
+    const meta = JSON.parse(raw) as BlogPostMeta;
+    // Posts saved before tags existed
+    return { ...meta, tags: meta.tags ?? [] };
   }
 
   private async readPostById(id: string): Promise<BlogPost | null> {
     try {
-      const meta = await this.readMetaFile(`${POSTS_DIR}/${id}.json`);
-      const contentMarkdown = await readFile(`${POSTS_DIR}/${id}.md`, "utf8");
+      const meta = await this.readMetaFile(`${this.dirs.posts}/${id}.json`);
+      const contentMarkdown = await readFile(`${this.dirs.posts}/${id}.md`, "utf8");
       return { ...meta, contentMarkdown };
     } catch {
       return null;
     }
   }
 
+  private indexEntry(meta: BlogPostMeta): PostIndexEntry {
+    const { id, slug, status, createdAt, updatedAt, publishedAt, scheduledFor } = meta;
+    return { id, slug, status, createdAt, updatedAt, publishedAt, scheduledFor };
+  }
+
+  // Every post's metadata, read from the post files; unreadable ones are skipped
+  private async scanIndex(): Promise<PostIndexEntry[]> {
+    const entries: PostIndexEntry[] = [];
+    for (const file of await readdir(this.dirs.posts)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        entries.push(this.indexEntry(await this.readMetaFile(`${this.dirs.posts}/${file}`)));
+      } catch {
+        // Reported by FileStorageProvider.repair
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * The index, or a scan of the post files when it is missing, unreadable,
+   * lists other posts than the directory holds or still has a pending entry
+   * (a write that stopped part way, so that post's file and entry may differ).
+   * `pendingId` is a post being written or removed right now, which may be on
+   * one side only.
+   */
+  private async readIndex(pendingId?: string): Promise<PostIndexEntry[]> {
+    const onDisk = new Set(
+      (await readdir(this.dirs.posts)).filter((f) => f.endsWith(".json")).map((f) => f.slice(0, -".json".length))
+    );
+    if (pendingId) onDisk.delete(pendingId);
+
+    try {
+      const index = JSON.parse(await readFile(this.dirs.postsIndex, "utf8")) as {
+        version: number;
+        posts: StoredIndexEntry[];
+      };
+      const listed = index.posts.filter((p) => p.id !== pendingId);
+      const current =
+        listed.length === onDisk.size && listed.every((p) => onDisk.has(p.id) && !p.pending);
+      if (index.version === POST_INDEX_VERSION && current) return index.posts;
+    } catch {
+      // Missing or unreadable
+    }
+    return this.scanIndex();
+  }
+
+  private async writeIndex(entries: StoredIndexEntry[]): Promise<void> {
+    await writeFileAtomic(this.dirs.postsIndex, JSON.stringify({ version: POST_INDEX_VERSION, posts: entries }));
+  }
+
+  // Callers hold the posts lock. The content goes first: the .json is what makes a post exist. The
+  // index entry is written pending before the .json and settled after it, so a crash in between
+  // leaves an index that readIndex won't trust rather than one with the old status or slug.
+  private async writePost(meta: BlogPostMeta, contentMarkdown?: string): Promise<void> {
+    if (contentMarkdown !== undefined) await writeFileAtomic(`${this.dirs.posts}/${meta.id}.md`, contentMarkdown);
+
+    const others = (await this.readIndex(meta.id)).filter((e) => e.id !== meta.id);
+    const entry = this.indexEntry(meta);
+    await this.writeIndex([...others, { ...entry, pending: true }]);
+    await writeFileAtomic(`${this.dirs.posts}/${meta.id}.json`, JSON.stringify(meta, null, 2));
+    await this.writeIndex([...others, entry]);
+  }
+
+  // Metadata of the indexed posts that pass `filter`, newest first
+  private async readMetas(filter: (entry: PostIndexEntry) => boolean): Promise<BlogPostMeta[]> {
+    const entries = (await this.readIndex()).filter(filter).sort(byPostDate);
+    const metas: BlogPostMeta[] = [];
+    for (const entry of entries) {
+      try {
+        metas.push(await this.readMetaFile(`${this.dirs.posts}/${entry.id}.json`));
+      } catch {
+        // Removed since the index was read
+      }
+    }
+    return metas;
+  }
+
+  /** Rebuild the index from the post files */
+  async rebuildIndex(): Promise<number> {
+    return withLock(this.dirs.posts, async () => {
+      const entries = await this.scanIndex();
+      await this.writeIndex(entries);
+      return entries.length;
+    });
+  }
+
   private async ensureUniqueSlug(slugBase: string, selfId?: string): Promise<string> {
-    const metas = await this.list();
-    const used = new Set(metas.filter((m) => m.id !== selfId).map((m) => m.slug));
+    const entries = await this.readIndex(selfId);
+    const used = new Set(entries.filter((m) => m.id !== selfId).map((m) => m.slug));
 
     if (!used.has(slugBase)) return slugBase;
 
@@ -83,155 +236,419 @@ class FilePostsStorage implements IPostsStorage {
     return `${slugBase}-${i}`;
   }
 
+  private async writeRevision(post: BlogPost, revision: RevisionContext): Promise<void> {
+    const dir = path.join(this.dirs.revisions, post.id);
+    await mkdir(dir, { recursive: true });
+
+    const record: PostRevision = {
+      id: crypto.randomUUID(),
+      postId: post.id,
+      source: revision.source,
+      author: revision.author,
+      createdAt: post.updatedAt,
+      title: post.title,
+      subtitle: post.subtitle,
+      summary: post.summary,
+      keywords: post.keywords,
+      seoTitle: post.seoTitle,
+      seoDescription: post.seoDescription,
+      contentMarkdown: post.contentMarkdown,
+      tags: post.tags,
+      citations: post.citations ?? [],
+      featuredImageId: post.featuredImageId
+    };
+
+    await writeFileAtomic(path.join(dir, `${record.id}.json`), JSON.stringify(record, null, 2));
+  }
+
+  private commentsPath(postId: string) {
+    return path.join(this.dirs.comments, `${path.basename(postId)}.json`);
+  }
+
+  private async writeComments(postId: string, comments: PostComment[]): Promise<void> {
+    await writeFileAtomic(this.commentsPath(postId), JSON.stringify(comments, null, 2));
+  }
+
   async getById(id: string): Promise<BlogPost | null> {
     return this.readPostById(id);
   }
 
   async getBySlug(slug: string): Promise<BlogPost | null> {
-    const metas = await this.list();
-    const match = metas.find((m) => m.slug === slug);
+    const match = (await this.readIndex()).find((e) => e.slug === slug);
     if (!match) return null;
-    return this.readPostById(match.id);
+    const post = await this.readPostById(match.id);
+    return post?.slug === slug ? post : null;
   }
 
   async getPublishedBySlug(slug: string): Promise<BlogPost | null> {
-    const metas = await this.listPublished();
-    const match = metas.find((m) => m.slug === slug);
+    const match = (await this.readIndex()).find((e) => e.slug === slug && e.status === "PUBLISHED");
     if (!match) return null;
     const post = await this.readPostById(match.id);
-    if (!post || post.status !== "PUBLISHED") return null;
+    if (!post || post.status !== "PUBLISHED" || post.slug !== slug) return null;
     return post;
   }
 
   async list(status?: PostStatus): Promise<BlogPostMeta[]> {
-    const files = await readdir(POSTS_DIR);
-    const metas: BlogPostMeta[] = [];
-    for (const file of files) {
-      if (!file.endsWith(".json")) continue;
-      const meta = await this.readMetaFile(`${POSTS_DIR}/${file}`);
-      if (status && meta.status !== status) continue;
-      metas.push(meta);
-    }
-
-    metas.sort((a, b) => {
-      const ad = a.publishedAt ?? a.createdAt;
-      const bd = b.publishedAt ?? b.createdAt;
-      return bd.localeCompare(ad);
-    });
-
-    return metas;
+    return this.readMetas((e) => !status || e.status === status);
   }
 
   async listPublished(): Promise<BlogPostMeta[]> {
     return this.list("PUBLISHED");
   }
 
-  async create(input: {
-    title: string;
-    subtitle?: string;
-    summary: string;
-    keywords: string[];
-    seoTitle?: string;
-    seoDescription?: string;
-    contentMarkdown: string;
-  }): Promise<BlogPost> {
-    const id = crypto.randomUUID();
-    const now = new Date().toISOString();
-    const slugBase = slugify(input.title);
-    const slug = await this.ensureUniqueSlug(slugBase);
-
-    const meta: BlogPostMeta = {
-      id,
-      slug,
-      status: "DRAFT",
-      title: input.title,
-      subtitle: input.subtitle,
-      summary: input.summary,
-      keywords: input.keywords,
-      seoTitle: input.seoTitle,
-      seoDescription: input.seoDescription,
-      createdAt: now,
-      updatedAt: now
-    };
-
-    await writeFile(`${POSTS_DIR}/${id}.json`, JSON.stringify(meta, null, 2), "utf8");
-    await writeFile(`${POSTS_DIR}/${id}.md`, input.contentMarkdown, "utf8");
-    return { ...meta, contentMarkdown: input.contentMarkdown };
+  async create(
+    input: {
+      title: string;
+      subtitle?: string;
+      summary: string;
+      keywords: string[];
+      tags?: string[];
+      seoTitle?: string;
+      seoDescription?: string;
+      contentMarkdown: string;
+      generation?: GenerationRecord;
+      citations?: PostCitation[];
+      featuredImageId?: string;
+    },
+    revision: RevisionContext
+  ): Promise<BlogPost> {
+    return withLock(this.dirs.posts, async () => {
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+      const slugBase = slugify(input.title);
+      const slug = await this.ensureUniqueSlug(slugBase);
+
+      const meta: BlogPostMeta = {
+        id,
+        slug,
+        status: "DRAFT",
+        title: input.title,
+        subtitle: input.subtitle,
+        summary: input.summary,
+        keywords: input.keywords,
+        tags: input.tags ?? [],
+        seoTitle: input.seoTitle,
+        seoDescription: input.seoDescription,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: revision.author,
+        updatedBy: revision.author,
+        generation: input.generation,
+        citations: input.citations,
+        featuredImageId: input.featuredImageId || undefined
+      };
+
+      await this.writePost(meta, input.contentMarkdown);
+
+      const post = { ...meta, contentMarkdown: input.contentMarkdown };
+      await this.writeRevision(post, revision);
+      return post;
+    });
   }
 
   async update(
     id: string,
-    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt">>
+    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt" | "scheduledFor" | "review" | "generation">>,
+    revision: RevisionContext
   ): Promise<BlogPost | null> {
-    const existing = await this.readPostById(id);
-    if (!existing) return null;
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
+
+      const now = new Date().toISOString();
+      let slug = existing.slug;
+      let title = existing.title;
+
+      if (typeof updates.title === "string" && updates.title.trim() && updates.title !== existing.title) {
+        title = updates.title;
+        if (existing.status !== "PUBLISHED") {
+          slug = await this.ensureUniqueSlug(slugify(title), id);
+        }
+      }
 
-    const now = new Date().toISOString();
-    let slug = existing.slug;
-    let title = existing.title;
+      const meta: BlogPostMeta = {
+        id,
+        slug,
+        status: updates.status ?? existing.status,
+        title,
+        subtitle: updates.subtitle ?? existing.subtitle,
+        summary: updates.summary ?? existing.summary,
+        keywords: updates.keywords ?? existing.keywords,
+        tags: updates.tags ?? existing.tags,
+        seoTitle: updates.seoTitle ?? existing.seoTitle,
+        seoDescription: updates.seoDescription ?? existing.seoDescription,
+        createdAt: existing.createdAt,
+        updatedAt: now,
+        publishedAt: existing.publishedAt,
+        scheduledFor: existing.scheduledFor,
+        createdBy: existing.createdBy,
+        updatedBy: revision.author,
+        review: existing.review,
+        generation: existing.generation,
+        citations: updates.citations ?? existing.citations,
+        featuredImageId:
+          updates.featuredImageId !== undefined ? updates.featuredImageId || undefined : existing.featuredImageId
+      };
+
+      const contentMarkdown = updates.contentMarkdown ?? existing.contentMarkdown;
+      await this.writePost(meta, contentMarkdown);
+
+      const post = { ...meta, contentMarkdown };
+      await this.writeRevision(post, revision);
+      return post;
+    });
+  }
+
+  async publish(id: string): Promise<BlogPost | null> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
+
+      const now = new Date().toISOString();
+      const slug = await this.ensureUniqueSlug(existing.slug, id);
+
+      const { contentMarkdown, ...existingMeta } = existing;
+      const meta: BlogPostMeta = {
+        ...existingMeta,
+        slug,
+        status: "PUBLISHED",
+        updatedAt: now,
+        publishedAt: existing.publishedAt ?? now,
+        scheduledFor: undefined
+      };
+
+      await this.writePost(meta);
+      return { ...meta, contentMarkdown };
+    });
+  }
+
+  async unpublish(id: string): Promise<BlogPost | null> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
+      if (existing.status !== "PUBLISHED" && existing.status !== "ARCHIVED") return existing;
+
+      const { contentMarkdown, ...existingMeta } = existing;
+      const meta: BlogPostMeta = {
+        ...existingMeta,
+        status: "DRAFT",
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.writePost(meta);
+      return { ...meta, contentMarkdown };
+    });
+  }
+
+  async archive(id: string): Promise<BlogPost | null> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
+
+      const { contentMarkdown, ...existingMeta } = existing;
+      const meta: BlogPostMeta = {
+        ...existingMeta,
+        status: "ARCHIVED",
+        updatedAt: new Date().toISOString(),
+        scheduledFor: undefined
+      };
+
+      await this.writePost(meta);
+      return { ...meta, contentMarkdown };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return false;
+
+      await rm(`${this.dirs.posts}/${id}.json`, { force: true });
+      await rm(`${this.dirs.posts}/${id}.md`, { force: true });
+      await this.writeIndex((await this.readIndex(id)).filter((e) => e.id !== id));
+      await rm(path.join(this.dirs.revisions, id), { recursive: true, force: true });
+      await rm(path.join(this.dirs.comments, `${id}.json`), { force: true });
+      return true;
+    });
+  }
+
+  async schedule(id: string, scheduledFor: string): Promise<BlogPost | null> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
+
+      const { contentMarkdown, ...existingMeta } = existing;
+      const meta: BlogPostMeta = {
+        ...existingMeta,
+        status: "SCHEDULED",
+        updatedAt: new Date().toISOString(),
+        scheduledFor
+      };
+
+      await this.writePost(meta);
+      return { ...meta, contentMarkdown };
+    });
+  }
+
+  async unschedule(id: string): Promise<BlogPost | null> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
+      if (existing.status !== "SCHEDULED") return existing;
+
+      const { contentMarkdown, ...existingMeta } = existing;
+      const meta: BlogPostMeta = {
+        ...existingMeta,
+        status: "DRAFT",
+        updatedAt: new Date().toISOString(),
+        scheduledFor: undefined
+      };
+
+      await this.writePost(meta);
+      return { ...meta, contentMarkdown };
+    });
+  }
+
+  async getDueForPublish(): Promise<BlogPostMeta[]> {
+    const now = Date.now();
+    const due = await this.readMetas(
+      (e) => e.status === "SCHEDULED" && !!e.scheduledFor && new Date(e.scheduledFor).getTime() <= now
+    );
+    return due.sort((a, b) => (a.scheduledFor ?? "").localeCompare(b.scheduledFor ?? ""));
+  }
+
+  async listRevisions(postId: string): Promise<PostRevisionMeta[]> {
+    let files: string[];
+    try {
+      files = await readdir(path.join(this.dirs.revisions, postId));
+    } catch {
+      return [];
+    }
 
-    if (typeof updates.title === "string" && updates.title.trim() && updates.title !== existing.title) {
-      title = updates.title;
-      if (existing.status !== "PUBLISHED") {
-        slug = await this.ensureUniqueSlug(slugify(title), id);
+    const revisions: PostRevisionMeta[] = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const raw = await readFile(path.join(this.dirs.revisions, postId, file), "utf8");
+        const { id, source, author, createdAt, title } = JSON.parse(raw) as PostRevision;
+        revisions.push({ id, postId, source, author, createdAt, title });
+      } catch {
+        // Skip corrupted files
       }
     }
 
-    const meta: BlogPostMeta = {
-      id,
-      slug,
-      status: updates.status ?? existing.status,
-      title,
-      subtitle: updates.subtitle ?? existing.subtitle,
-      summary: updates.summary ?? existing.summary,
-      keywords: updates.keywords ?? existing.keywords,
-      seoTitle: updates.seoTitle ?? existing.seoTitle,
-      seoDescription: updates.seoDescription ?? existing.seoDescription,
-      createdAt: existing.createdAt,
-      updatedAt: now,
-      publishedAt: existing.publishedAt
-    };
+    revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return revisions;
+  }
+
+  async getRevision(postId: string, revisionId: string): Promise<PostRevision | null> {
+    try {
+      const raw = await readFile(path.join(this.dirs.revisions, postId, `${path.basename(revisionId)}.json`), "utf8");
+      return JSON.parse(raw) as PostRevision;
+    } catch {
+      return null;
+    }
+  }
+
+  async setReview(id: string, status: PostStatus, review: PostReview): Promise<BlogPost | null> {
+    return withLock(this.dirs.posts, async () => {
+      const existing = await this.readPostById(id);
+      if (!existing) return null;
 
-    const contentMarkdown = updates.contentMarkdown ?? existing.contentMarkdown;
-    await writeFile(`${POSTS_DIR}/${id}.json`, JSON.stringify(meta, null, 2), "utf8");
-    await writeFile(`${POSTS_DIR}/${id}.md`, contentMarkdown, "utf8");
+      const { contentMarkdown, ...existingMeta } = existing;
+      const meta: BlogPostMeta = {
+        ...existingMeta,
+        status,
+        updatedAt: new Date().toISOString(),
+        review
+      };
 
-    return { ...meta, contentMarkdown };
+      await this.writePost(meta);
+      return { ...meta, contentMarkdown };
+    });
   }
 
-  async publish(id: string): Promise<BlogPost | null> {
-    const existing = await this.readPostById(id);
-    if (!existing) return null;
+  async listComments(postId: string): Promise<PostComment[]> {
+    try {
+      const raw = await readFile(this.commentsPath(postId), "utf8");
+      return JSON.parse(raw) as PostComment[];
+    } catch {
+      return [];
+    }
+  }
 
-    const now = new Date().toISOString();
-    const slug = await this.ensureUniqueSlug(existing.slug, id);
-
-    const meta: BlogPostMeta = {
-      ...existing,
-      slug,
-      status: "PUBLISHED",
-      updatedAt: now,
-      publishedAt: existing.publishedAt ?? now
-    };
+  async addComment(
+    postId: string,
+    input: { authorId: string; authorName: string; body: string; anchor: PostCommentAnchor }
+  ): Promise<PostComment> {
+    return withLock(this.commentsPath(postId), async () => {
+      const comments = await this.listComments(postId);
+      const comment: PostComment = {
+        id: crypto.randomUUID(),
+        postId,
+        authorId: input.authorId,
+        authorName: input.authorName,
+        body: input.body,
+        anchor: input.anchor,
+        resolved: false,
+        createdAt: new Date().toISOString()
+      };
+
+      comments.push(comment);
+      await this.writeComments(postId, comments);
+      return comment;
+    });
+  }
 
-    await writeFile(`${POSTS_DIR}/${id}.json`, JSON.stringify(meta, null, 2), "utf8");
-    return { ...meta, contentMarkdown: existing.contentMarkdown };
+  async resolveComment(postId: string, commentId: string, resolvedBy: string | null): Promise<PostComment | null> {
+    return withLock(this.commentsPath(postId), async () => {
+      const comments = await this.listComments(postId);
+      const index = comments.findIndex((c) => c.id === commentId);
+      if (index === -1) return null;
+
+      const updated: PostComment = {
+        ...comments[index],
+        resolved: resolvedBy !== null,
+        resolvedBy: resolvedBy ?? undefined,
+        resolvedAt: resolvedBy !== null ? new Date().toISOString() : undefined
+      };
+
+      comments[index] = updated;
+      await this.writeComments(postId, comments);
+      return updated;
+    });
+  }
+
+  async put(post: BlogPost): Promise<BlogPost> {
+    return withLock(this.dirs.posts, async () => {
+      const { contentMarkdown, ...meta } = post;
+      await this.writePost(meta, contentMarkdown);
+      return post;
+    });
   }
 }
 
 // Sources storage implementation
 class FileSourcesStorage implements ISourcesStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
   private async readMetaFile(filePath: string): Promise<KnowledgeSourceMeta> {
     const raw = await readFile(filePath, "utf8");
-    return JSON.parse(raw) as KnowledgeSourceMeta;
+    const meta = JSON.parse(raw) as KnowledgeSourceMeta;
+    // Sources saved before tags and collections existed
+    return { ...meta, tags: meta.tags ?? [], collections: meta.collections ?? [] };
   }
 
   async list(type?: SourceType): Promise<KnowledgeSourceMeta[]> {
-    const files = await readdir(SOURCES_DIR);
+    const files = await readdir(this.dirs.sources);
     const metas: KnowledgeSourceMeta[] = [];
     for (const file of files) {
       if (!file.endsWith(".json")) continue;
-      const meta = await this.readMetaFile(`${SOURCES_DIR}/${file}`);
+      const meta = await this.readMetaFile(`${this.dirs.sources}/${file}`);
       if (type && meta.type !== type) continue;
       metas.push(meta);
     }
@@ -242,45 +659,152 @@ class FileSourcesStorage implements ISourcesStorage {
 
   async getById(id: string): Promise<KnowledgeSource | null> {
     try {
-      const meta = await this.readMetaFile(`${SOURCES_DIR}/${id}.json`);
-      const contentText = await readFile(`${SOURCES_DIR}/${id}.txt`, "utf8");
+      const meta = await this.readMetaFile(`${this.dirs.sources}/${id}.json`);
+      const contentText = await readFile(`${this.dirs.sources}/${id}.txt`, "utf8");
       return { ...meta, contentText };
     } catch {
       return null;
     }
   }
 
+  async getBySha256(hash: string): Promise<KnowledgeSource | null> {
+    const metas = await this.list();
+    const match = metas.find((m) => m.sha256 === hash);
+    return match ? this.getById(match.id) : null;
+  }
+
   async createFromText(input: {
     type: SourceType;
     title: string;
     url?: string;
     contentText: string;
   }): Promise<KnowledgeSource> {
-    const id = crypto.randomUUID();
-    const createdAt = new Date().toISOString();
-    const contentText = input.contentText.slice(0, 200_000);
-    const meta: KnowledgeSourceMeta = {
-      id,
-      type: input.type,
-      title: input.title.trim() || "Untitled source",
-      url: input.url,
-      createdAt,
-      wordCount: wordCount(contentText),
-      sha256: sha256(contentText)
-    };
+    return withLock(this.dirs.sources, async () => {
+      const contentText = input.contentText.slice(0, 200_000);
+      const existing = await this.getBySha256(sha256(contentText));
+      if (existing) return existing;
+
+      const id = crypto.randomUUID();
+      const createdAt = new Date().toISOString();
+      const meta: KnowledgeSourceMeta = {
+        id,
+        type: input.type,
+        title: input.title.trim() || "Untitled source",
+        url: input.url,
+        createdAt,
+        wordCount: wordCount(contentText),
+        sha256: sha256(contentText),
+        tags: [],
+        collections: []
+      };
+
+      await writeFileAtomic(`${this.dirs.sources}/${id}.txt`, contentText);
+      await writeFileAtomic(`${this.dirs.sources}/${id}.json`, JSON.stringify(meta, null, 2));
+      await this.replaceChunks(
+        id,
+        chunkText(contentText).map((text, index) => ({ id: `${id}:${index}`, sourceId: id, index, text }))
+      );
+
+      return { ...meta, contentText };
+    });
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<KnowledgeSource, "title" | "url" | "contentText" | "tags" | "collections" | "refreshedAt" | "refreshChanged">>
+  ): Promise<KnowledgeSource | null> {
+    return withLock(this.dirs.sources, async () => {
+      const existing = await this.getById(id);
+      if (!existing) return null;
+
+      const { contentText: existingText, ...existingMeta } = existing;
+      const contentText = updates.contentText?.slice(0, 200_000) ?? existingText;
+      const textChanged = contentText !== existingText;
+      const edited =
+        textChanged ||
+        updates.title !== undefined ||
+        updates.url !== undefined ||
+        updates.tags !== undefined ||
+        updates.collections !== undefined;
+
+      const meta: KnowledgeSourceMeta = {
+        ...existingMeta,
+        title: updates.title?.trim() || existing.title,
+        url: updates.url !== undefined ? updates.url || undefined : existing.url,
+        updatedAt: edited ? new Date().toISOString() : existing.updatedAt,
+        wordCount: wordCount(contentText),
+        sha256: sha256(contentText),
+        tags: updates.tags ?? existing.tags,
+        collections: updates.collections ?? existing.collections,
+        refreshedAt: updates.refreshedAt ?? existing.refreshedAt,
+        refreshChanged: updates.refreshChanged ?? existing.refreshChanged
+      };
+
+      if (textChanged) await writeFileAtomic(`${this.dirs.sources}/${id}.txt`, contentText);
+      await writeFileAtomic(`${this.dirs.sources}/${id}.json`, JSON.stringify(meta, null, 2));
+      if (textChanged) {
+        await this.replaceChunks(
+          id,
+          chunkText(contentText).map((text, index) => ({ id: `${id}:${index}`, sourceId: id, index, text }))
+        );
+      }
+
+      return { ...meta, contentText };
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return withLock(this.dirs.sources, async () => {
+      const existing = await this.getById(id);
+      if (!existing) return false;
+
+      await rm(`${this.dirs.sources}/${id}.json`, { force: true });
+      await rm(`${this.dirs.sources}/${id}.txt`, { force: true });
+      await rm(path.join(this.dirs.chunks, `${id}.json`), { force: true });
+      return true;
+    });
+  }
 
-    await writeFile(`${SOURCES_DIR}/${id}.json`, JSON.stringify(meta, null, 2), "utf8");
-    await writeFile(`${SOURCES_DIR}/${id}.txt`, contentText, "utf8");
+  async listChunks(sourceIds: string[]): Promise<SourceChunk[]> {
+    const chunks: SourceChunk[] = [];
+    for (const sourceId of sourceIds) {
+      try {
+        const raw = await readFile(path.join(this.dirs.chunks, `${path.basename(sourceId)}.json`), "utf8");
+        chunks.push(...(JSON.parse(raw) as SourceChunk[]));
+      } catch {
+        // Not chunked yet
+      }
+    }
+    return chunks;
+  }
+
+  async replaceChunks(sourceId: string, chunks: SourceChunk[]): Promise<void> {
+    return withLock(this.dirs.chunks, async () => {
+      await writeFileAtomic(path.join(this.dirs.chunks, `${path.basename(sourceId)}.json`), JSON.stringify(chunks));
+    });
+  }
 
-    return { ...meta, contentText };
+  async put(source: KnowledgeSource): Promise<KnowledgeSource> {
+    return withLock(this.dirs.sources, async () => {
+      const { contentText, ...meta } = source;
+      await writeFileAtomic(`${this.dirs.sources}/${source.id}.txt`, contentText);
+      await writeFileAtomic(`${this.dirs.sources}/${source.id}.json`, JSON.stringify(meta, null, 2));
+      return source;
+    });
   }
 }
 
 // Organization storage implementation
 class FileOrgStorage implements IOrgStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
   async get(): Promise<OrganizationProfile> {
     try {
-      const raw = await readFile(ORG_PROFILE_PATH, "utf8");
+      const raw = await readFile(this.dirs.orgProfile, "utf8");
       return normalizeOrgProfile(JSON.parse(raw));
     } catch {
       return makeSeedProfile();
@@ -288,16 +812,35 @@ class FileOrgStorage implements IOrgStorage {
   }
 
   async update(profile: OrganizationProfile): Promise<OrganizationProfile> {
-    await writeFile(ORG_PROFILE_PATH, JSON.stringify(profile, null, 2), "utf8");
+    await writeFileAtomic(this.dirs.orgProfile, JSON.stringify(profile, null, 2));
     return profile;
   }
+
+  async getRelevanceRules(): Promise<RelevanceRules | null> {
+    try {
+      return JSON.parse(await readFile(this.dirs.relevanceRules, "utf8")) as RelevanceRules;
+    } catch {
+      return null;
+    }
+  }
+
+  async updateRelevanceRules(rules: RelevanceRules): Promise<RelevanceRules> {
+    await writeFileAtomic(this.dirs.relevanceRules, JSON.stringify(rules, null, 2));
+    return rules;
+  }
 }
 
 // Watched sources storage implementation
 class FileWatchedSourcesStorage implements IWatchedSourcesStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
   private async readWatchedSources(): Promise<WatchedSource[]> {
     try {
-      const data = await readFile(WATCHED_SOURCES_PATH, "utf8");
+      const data = await readFile(this.dirs.watchedSources, "utf8");
       return JSON.parse(data) as WatchedSource[];
     } catch {
       return [];
@@ -305,7 +848,7 @@ class FileWatchedSourcesStorage implements IWatchedSourcesStorage {
   }
 
   private async writeWatchedSources(sources: WatchedSource[]): Promise<void> {
-    await writeFile(WATCHED_SOURCES_PATH, JSON.stringify(sources, null, 2), "utf8");
+    await writeFileAtomic(this.dirs.watchedSources, JSON.stringify(sources, null, 2));
   }
 
   async list(): Promise<WatchedSource[]> {
@@ -323,49 +866,55 @@ class FileWatchedSourcesStorage implements IWatchedSourcesStorage {
     type: WatchedSourceType;
     fetchIntervalHours?: number;
   }): Promise<WatchedSource> {
-    const sources = await this.readWatchedSources();
+    return withLock(this.dirs.watchedSources, async () => {
+      const sources = await this.readWatchedSources();
 
-    const existing = sources.find((s) => s.url === args.url);
-    if (existing) {
-      throw new Error("This URL is already being watched");
-    }
-
-    const source: WatchedSource = {
-      id: crypto.randomUUID(),
-      name: args.name,
-      url: args.url,
-      type: args.type,
-      enabled: true,
-      lastFetchedAt: null,
-      fetchIntervalHours: args.fetchIntervalHours ?? 24,
-      createdAt: new Date().toISOString()
-    };
+      const existing = sources.find((s) => s.url === args.url);
+      if (existing) {
+        throw new Error("This URL is already being watched");
+      }
 
-    sources.push(source);
-    await this.writeWatchedSources(sources);
-    return source;
+      const source: WatchedSource = {
+        id: crypto.randomUUID(),
+        name: args.name,
+        url: args.url,
+        type: args.type,
+        enabled: true,
+        lastFetchedAt: null,
+        fetchIntervalHours: args.fetchIntervalHours ?? 24,
+        createdAt: new Date().toISOString()
+      };
+
+      sources.push(source);
+      await this.writeWatchedSources(sources);
+      return source;
+    });
   }
 
   async update(
     id: string,
     updates: Partial<Pick<WatchedSource, "name" | "enabled" | "fetchIntervalHours" | "lastFetchedAt">>
   ): Promise<WatchedSource | null> {
-    const sources = await this.readWatchedSources();
-    const index = sources.findIndex((s) => s.id === id);
-    if (index === -1) return null;
-
-    sources[index] = { ...sources[index], ...updates };
-    await this.writeWatchedSources(sources);
-    return sources[index];
+    return withLock(this.dirs.watchedSources, async () => {
+      const sources = await this.readWatchedSources();
+      const index = sources.findIndex((s) => s.id === id);
+      if (index === -1) return null;
+
+      sources[index] = { ...sources[index], ...updates };
+      await this.writeWatchedSources(sources);
+      return sources[index];
+    });
   }
 
   async delete(id: string): Promise<boolean> {
-    const sources = await this.readWatchedSources();
-    const filtered = sources.filter((s) => s.id !== id);
-    if (filtered.length === sources.length) return false;
+    return withLock(this.dirs.watchedSources, async () => {
+      const sources = await this.readWatchedSources();
+      const filtered = sources.filter((s) => s.id !== id);
+      if (filtered.length === sources.length) return false;
 
-    await this.writeWatchedSources(filtered);
-    return true;
+      await this.writeWatchedSources(filtered);
+      return true;
+    });
   }
 
   async getDueForFetch(): Promise<WatchedSource[]> {
@@ -381,12 +930,37 @@ class FileWatchedSourcesStorage implements IWatchedSourcesStorage {
       return now - lastFetch >= intervalMs;
     });
   }
+
+  async put(source: WatchedSource): Promise<WatchedSource> {
+    return withLock(this.dirs.watchedSources, async () => {
+      const sources = await this.readWatchedSources();
+      const index = sources.findIndex((s) => s.id === source.id);
+      if (index === -1) sources.push(source);
+      else sources[index] = source;
+
+      await this.writeWatchedSources(sources);
+      return source;
+    });
+  }
 }
 
 // Articles storage implementation
 class FileArticlesStorage implements IArticlesStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
   private articlePath(id: string): string {
-    return path.join(ARTICLES_DIR, `${id}.json`);
+    return path.join(this.dirs.articles, `${id}.json`);
+  }
+
+  // Articles fetched before scores ran from 0 to 1 were stored as percentages
+  private parseArticle(data: string): FetchedArticle {
+    const article = JSON.parse(data) as FetchedArticle;
+    if (article.relevanceScore > 1) article.relevanceScore = Math.min(1, article.relevanceScore / 100);
+    return article;
   }
 
   async list(options?: {
@@ -395,14 +969,14 @@ class FileArticlesStorage implements IArticlesStorage {
     minRelevance?: number;
   }): Promise<FetchedArticle[]> {
     try {
-      const files = await readdir(ARTICLES_DIR);
+      const files = await readdir(this.dirs.articles);
       const jsonFiles = files.filter((f) => f.endsWith(".json"));
 
       const articles: FetchedArticle[] = [];
       for (const file of jsonFiles) {
         try {
-          const data = await readFile(path.join(ARTICLES_DIR, file), "utf8");
-          const article = JSON.parse(data) as FetchedArticle;
+          const data = await readFile(path.join(this.dirs.articles, file), "utf8");
+          const article = this.parseArticle(data);
 
           if (options?.sourceId && article.sourceId !== options.sourceId) continue;
           if (options?.minRelevance && article.relevanceScore < options.minRelevance) continue;
@@ -428,7 +1002,7 @@ class FileArticlesStorage implements IArticlesStorage {
   async getById(id: string): Promise<FetchedArticle | null> {
     try {
       const data = await readFile(this.articlePath(id), "utf8");
-      return JSON.parse(data) as FetchedArticle;
+      return this.parseArticle(data);
     } catch {
       return null;
     }
@@ -449,46 +1023,52 @@ class FileArticlesStorage implements IArticlesStorage {
     matchedKeywords: string[];
     relevanceScore: number;
   }): Promise<FetchedArticle> {
-    const existing = await this.getByUrl(args.url);
-    if (existing) {
-      return existing;
-    }
-
-    const article: FetchedArticle = {
-      id: crypto.randomUUID(),
-      sourceId: args.sourceId,
-      sourceName: args.sourceName,
-      title: args.title,
-      url: args.url,
-      publishedAt: args.publishedAt,
-      fetchedAt: new Date().toISOString(),
-      excerpt: args.excerpt,
-      matchedKeywords: args.matchedKeywords,
-      relevanceScore: args.relevanceScore,
-      savedToKnowledge: false
-    };
+    return withLock(this.dirs.articles, async () => {
+      const existing = await this.getByUrl(args.url);
+      if (existing) {
+        return existing;
+      }
 
-    await writeFile(this.articlePath(article.id), JSON.stringify(article, null, 2), "utf8");
-    return article;
+      const article: FetchedArticle = {
+        id: crypto.randomUUID(),
+        sourceId: args.sourceId,
+        sourceName: args.sourceName,
+        title: args.title,
+        url: args.url,
+        publishedAt: args.publishedAt,
+        fetchedAt: new Date().toISOString(),
+        excerpt: args.excerpt,
+        matchedKeywords: args.matchedKeywords,
+        relevanceScore: args.relevanceScore,
+        savedToKnowledge: false
+      };
+
+      await writeFileAtomic(this.articlePath(article.id), JSON.stringify(article, null, 2));
+      return article;
+    });
   }
 
   async markSaved(id: string): Promise<FetchedArticle | null> {
-    const article = await this.getById(id);
-    if (!article) return null;
+    return withLock(this.dirs.articles, async () => {
+      const article = await this.getById(id);
+      if (!article) return null;
 
-    article.savedToKnowledge = true;
-    await writeFile(this.articlePath(id), JSON.stringify(article, null, 2), "utf8");
-    return article;
+      article.savedToKnowledge = true;
+      await writeFileAtomic(this.articlePath(id), JSON.stringify(article, null, 2));
+      return article;
+    });
   }
 
   async delete(id: string): Promise<boolean> {
-    try {
-      const fs = await import("node:fs/promises");
-      await fs.unlink(this.articlePath(id));
-      return true;
-    } catch {
-      return false;
-    }
+    return withLock(this.dirs.articles, async () => {
+      try {
+        const fs = await import("node:fs/promises");
+        await fs.unlink(this.articlePath(id));
+        return true;
+      } catch {
+        return false;
+      }
+    });
   }
 
   async deleteBySource(sourceId: string): Promise<number> {
@@ -501,71 +1081,709 @@ class FileArticlesStorage implements IArticlesStorage {
     }
     return deleted;
   }
+
+  async setRelevance(
+    scores: Array<Pick<FetchedArticle, "id" | "matchedKeywords" | "relevanceScore">>
+  ): Promise<void> {
+    await withLock(this.dirs.articles, async () => {
+      for (const score of scores) {
+        const article = await this.getById(score.id);
+        if (!article) continue;
+        article.matchedKeywords = score.matchedKeywords;
+        article.relevanceScore = score.relevanceScore;
+        await writeFileAtomic(this.articlePath(article.id), JSON.stringify(article, null, 2));
+      }
+    });
+  }
+
+  async put(article: FetchedArticle): Promise<FetchedArticle> {
+    return withLock(this.dirs.articles, async () => {
+      await writeFileAtomic(this.articlePath(article.id), JSON.stringify(article, null, 2));
+      return article;
+    });
+  }
+}
+
+// Users storage implementation
+class FileUsersStorage implements IUsersStorage {
+  private async readUsers(): Promise<UserRecord[]> {
+    try {
+      const data = await readFile(USERS_PATH, "utf8");
+      return JSON.parse(data) as UserRecord[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeUsers(users: UserRecord[]): Promise<void> {
+    await writeFileAtomic(USERS_PATH, JSON.stringify(users, null, 2));
+  }
+
+  private toUser(record: UserRecord): User {
+    const { passwordHash, ...user } = record;
+    return user;
+  }
+
+  async list(): Promise<User[]> {
+    const users = await this.readUsers();
+    return users
+      .map((u) => this.toUser(u))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async count(): Promise<number> {
+    return (await this.readUsers()).length;
+  }
+
+  async getById(id: string): Promise<User | null> {
+    const users = await this.readUsers();
+    const match = users.find((u) => u.id === id);
+    return match ? this.toUser(match) : null;
+  }
+
+  async getRecordById(id: string): Promise<UserRecord | null> {
+    const users = await this.readUsers();
+    return users.find((u) => u.id === id) ?? null;
+  }
+
+  async getByEmail(email: string): Promise<UserRecord | null> {
+    const normalized = email.trim().toLowerCase();
+    const users = await this.readUsers();
+    return users.find((u) => u.email === normalized) ?? null;
+  }
+
+  async create(input: {
+    email: string;
+    name: string;
+    role: UserRole;
+    passwordHash: string;
+  }): Promise<User> {
+    return withLock(USERS_PATH, async () => {
+      const users = await this.readUsers();
+      const email = input.email.trim().toLowerCase();
+
+      if (users.some((u) => u.email === email)) {
+        throw new Error("A user with this email already exists");
+      }
+
+      const now = new Date().toISOString();
+      const record: UserRecord = {
+        id: crypto.randomUUID(),
+        email,
+        name: input.name.trim() || email,
+        role: input.role,
+        disabled: false,
+        createdAt: now,
+        updatedAt: now,
+        passwordHash: input.passwordHash
+      };
+
+      users.push(record);
+      await this.writeUsers(users);
+      return this.toUser(record);
+    });
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<UserRecord, "name" | "role" | "passwordHash" | "disabled">>
+  ): Promise<User | null> {
+    return withLock(USERS_PATH, async () => {
+      const users = await this.readUsers();
+      const index = users.findIndex((u) => u.id === id);
+      if (index === -1) return null;
+
+      users[index] = { ...users[index], ...updates, updatedAt: new Date().toISOString() };
+      await this.writeUsers(users);
+      return this.toUser(users[index]);
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return withLock(USERS_PATH, async () => {
+      const users = await this.readUsers();
+      const filtered = users.filter((u) => u.id !== id);
+      if (filtered.length === users.length) return false;
+
+      await this.writeUsers(filtered);
+      return true;
+    });
+  }
+}
+
+// Settings storage implementation
+class FileSettingsStorage implements ISettingsStorage {
+  async getAi(): Promise<AiSettings | null> {
+    try {
+      const raw = await readFile(AI_SETTINGS_PATH, "utf8");
+      return JSON.parse(raw) as AiSettings;
+    } catch {
+      return null;
+    }
+  }
+
+  async updateAi(settings: AiSettings): Promise<AiSettings> {
+    await writeFileAtomic(AI_SETTINGS_PATH, JSON.stringify(settings, null, 2));
+    return settings;
+  }
 }
 
+type SearchDoc = Omit<SearchHit, "snippet" | "score"> & { text: string; mtime: number };
+
+// Search storage implementation: an in-memory inverted index, brought up to
+// date before each search from the modification times of the record files
+class FileSearchStorage implements ISearchStorage {
+  private index = new InvertedIndex<SearchDoc>();
+  private dirs: WorkspaceDirs;
+  private posts: IPostsStorage;
+  private sources: ISourcesStorage;
+  private articles: IArticlesStorage;
+
+  constructor(workspaceId: string, posts: IPostsStorage, sources: ISourcesStorage, articles: IArticlesStorage) {
+    this.dirs = workspaceDirs(workspaceId);
+    this.posts = posts;
+    this.sources = sources;
+    this.articles = articles;
+  }
+
+  // Latest modification time of each record in a directory, by id
+  private async modified(dir: string, kind: SearchKind): Promise<Map<string, number>> {
+    const times = new Map<string, number>();
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch {
+      return times;
+    }
+    for (const file of files) {
+      if (!/\.(json|md|txt)$/.test(file)) continue;
+      try {
+        const { mtimeMs } = await stat(path.join(dir, file));
+        const key = `${kind}:${file.replace(/\.[^.]+$/, "")}`;
+        times.set(key, Math.max(times.get(key) ?? 0, mtimeMs));
+      } catch {
+        // Removed while listing
+      }
+    }
+    return times;
+  }
+
+  private async load(key: string, mtime: number): Promise<{ title: string; doc: SearchDoc } | null> {
+    const [kind, id] = key.split(":") as [SearchKind, string];
+    if (kind === "post") {
+      const post = await this.posts.getById(id);
+      if (!post) return null;
+      const text = searchableText(post.contentMarkdown);
+      return {
+        title: post.title,
+        doc: {
+          kind,
+          id,
+          title: post.title,
+          date: post.updatedAt,
+          slug: post.slug,
+          status: post.status,
+          text: [post.subtitle, post.summary, post.keywords.join(", "), text].filter(Boolean).join("\n"),
+          mtime
+        }
+      };
+    }
+    if (kind === "source") {
+      const source = await this.sources.getById(id);
+      if (!source) return null;
+      return {
+        title: source.title,
+        doc: {
+          kind,
+          id,
+          title: source.title,
+          date: source.updatedAt ?? source.createdAt,
+          url: source.url,
+          text: source.contentText,
+          mtime
+        }
+      };
+    }
+    const article = await this.articles.getById(id);
+    if (!article) return null;
+    return {
+      title: article.title,
+      doc: {
+        kind,
+        id,
+        title: article.title,
+        date: article.publishedAt ?? article.fetchedAt,
+        url: article.url,
+        text: article.excerpt,
+        mtime
+      }
+    };
+  }
+
+  private async sync(): Promise<void> {
+    const current = new Map([
+      ...(await this.modified(this.dirs.posts, "post")),
+      ...(await this.modified(this.dirs.sources, "source")),
+      ...(await this.modified(this.dirs.articles, "article"))
+    ]);
+
+    for (const key of Array.from(this.index.keys())) {
+      if (!current.has(key)) this.index.remove(key);
+    }
+    for (const [key, mtime] of current) {
+      if (this.index.get(key)?.mtime === mtime) continue;
+      const loaded = await this.load(key, mtime);
+      if (loaded) this.index.set(key, { title: loaded.title, body: loaded.doc.text }, loaded.doc);
+      else this.index.remove(key);
+    }
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    await this.sync();
+
+    const kinds = options.publishedOnly ? ["post"] : (options.kinds ?? ["post", "source", "article"]);
+    const limit = Math.min(options.limit ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+    const hits = this.index.search(
+      query,
+      (doc) => kinds.includes(doc.kind) && (!options.publishedOnly || doc.status === "PUBLISHED")
+    );
+
+    return hits.slice(0, limit).map(({ doc, score }) => {
+      const { text, mtime: _mtime, ...hit } = doc;
+      return { ...hit, score, snippet: buildSnippet(text, query) };
+    });
+  }
+}
+
+// Audit log storage implementation
+class FileAuditStorage implements IAuditStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
+  async append(input: Omit<AuditEntry, "id" | "at">): Promise<AuditEntry> {
+    const entry: AuditEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), ...input };
+    await withLock(this.dirs.auditLog, () => appendFile(this.dirs.auditLog, JSON.stringify(entry) + "\n", "utf8"));
+    return entry;
+  }
+
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.dirs.auditLog, "utf8");
+    } catch {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as AuditEntry;
+        if (matchesAuditFilter(entry, filter)) entries.push(entry);
+      } catch {
+        // A line cut short by a crash
+      }
+    }
+    return entries.reverse().slice(0, auditLimit(filter));
+  }
+}
+
+// Media storage implementation: media/<id>/ holds the files, then asset.json,
+// which is written last so a half-stored upload is never listed
+const MEDIA_ASSET_FILE = "asset.json";
+
+class FileMediaStorage implements IMediaStorage {
+  private dirs: WorkspaceDirs;
+
+  constructor(workspaceId: string) {
+    this.dirs = workspaceDirs(workspaceId);
+  }
+
+  private assetDir(id: string): string {
+    return path.join(this.dirs.media, path.basename(id));
+  }
+
+  private async writeAsset(asset: MediaAsset): Promise<void> {
+    await writeFileAtomic(path.join(this.assetDir(asset.id), MEDIA_ASSET_FILE), JSON.stringify(asset, null, 2));
+  }
+
+  async list(): Promise<MediaAsset[]> {
+    let ids: string[];
+    try {
+      ids = await readdir(this.dirs.media);
+    } catch {
+      return [];
+    }
+
+    const assets: MediaAsset[] = [];
+    for (const id of ids) {
+      const asset = await this.getById(id);
+      if (asset) assets.push(asset);
+    }
+    return assets.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getById(id: string): Promise<MediaAsset | null> {
+    try {
+      const data = await readFile(path.join(this.assetDir(id), MEDIA_ASSET_FILE), "utf8");
+      return JSON.parse(data) as MediaAsset;
+    } catch {
+      return null;
+    }
+  }
+
+  async create(
+    input: Omit<MediaAsset, "id" | "createdAt" | "updatedAt">,
+    files: Map<string, Buffer>
+  ): Promise<MediaAsset> {
+    const now = new Date().toISOString();
+    const asset: MediaAsset = { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    const dir = this.assetDir(asset.id);
+    await mkdir(dir, { recursive: true });
+
+    try {
+      for (const { file } of [asset.original, ...asset.renditions]) {
+        const data = files.get(file);
+        if (!data) throw new Error(`Missing data for ${file}`);
+        const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        await writeFileAtomic(path.join(dir, path.basename(file)), bytes);
+      }
+      await this.writeAsset(asset);
+    } catch (err) {
+      await rm(dir, { recursive: true, force: true });
+      throw err;
+    }
+    return asset;
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<MediaAsset, "alt" | "caption" | "credit" | "license">>
+  ): Promise<MediaAsset | null> {
+    return withLock(this.assetDir(id), async () => {
+      const existing = await this.getById(id);
+      if (!existing) return null;
+
+      const asset: MediaAsset = {
+        ...existing,
+        alt: updates.alt ?? existing.alt,
+        caption: updates.caption !== undefined ? updates.caption || undefined : existing.caption,
+        credit: updates.credit !== undefined ? updates.credit || undefined : existing.credit,
+        license: updates.license !== undefined ? updates.license || undefined : existing.license,
+        updatedAt: new Date().toISOString()
+      };
+      await this.writeAsset(asset);
+      return asset;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return withLock(this.assetDir(id), async () => {
+      if (!(await this.getById(id))) return false;
+      await rm(this.assetDir(id), { recursive: true, force: true });
+      return true;
+    });
+  }
+
+  async readFile(id: string, file: string): Promise<Buffer | null> {
+    const asset = await this.getById(id);
+    if (!asset || ![asset.original, ...asset.renditions].some((f) => f.file === file)) return null;
+    try {
+      return await readFile(path.join(this.assetDir(id), path.basename(file)));
+    } catch {
+      return null;
+    }
+  }
+
+  async put(asset: MediaAsset, files: Map<string, Buffer>): Promise<MediaAsset> {
+    return withLock(this.assetDir(asset.id), async () => {
+      const dir = this.assetDir(asset.id);
+      await mkdir(dir, { recursive: true });
+      for (const { file } of [asset.original, ...asset.renditions]) {
+        const data = files.get(file);
+        if (!data) throw new Error(`Missing data for ${file}`);
+        const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+        await writeFileAtomic(path.join(dir, path.basename(file)), bytes);
+      }
+      await this.writeAsset(asset);
+      return asset;
+    });
+  }
+}
+
+// Create a workspace's directories and empty watched sources list if missing
+async function ensureWorkspaceDirs(dirs: WorkspaceDirs): Promise<void> {
+  for (const dir of [
+    dirs.root,
+    dirs.posts,
+    dirs.revisions,
+    dirs.comments,
+    dirs.sources,
+    dirs.chunks,
+    dirs.articles,
+    dirs.media
+  ]) {
+    await mkdir(dir, { recursive: true });
+  }
+  try {
+    await readFile(dirs.watchedSources, "utf8");
+  } catch {
+    await writeFileAtomic(dirs.watchedSources, JSON.stringify([], null, 2));
+  }
+}
+
+// Workspaces storage implementation
+class FileWorkspacesStorage implements IWorkspacesStorage {
+  private async readWorkspaces(): Promise<Workspace[]> {
+    try {
+      const data = await readFile(WORKSPACES_PATH, "utf8");
+      return JSON.parse(data) as Workspace[];
+    } catch {
+      return [];
+    }
+  }
+
+  private async writeWorkspaces(workspaces: Workspace[]): Promise<void> {
+    await writeFileAtomic(WORKSPACES_PATH, JSON.stringify(workspaces, null, 2));
+  }
+
+  private ensureUnique(workspaces: Workspace[], slug: string, hostname: string | null, selfId?: string): void {
+    const others = workspaces.filter((w) => w.id !== selfId);
+    if (others.some((w) => w.slug === slug)) throw new Error(`The workspace slug "${slug}" is taken`);
+    if (hostname && others.some((w) => w.hostname === hostname)) {
+      throw new Error(`The hostname "${hostname}" is used by another workspace`);
+    }
+  }
+
+  async list(): Promise<Workspace[]> {
+    const workspaces = await this.readWorkspaces();
+    return workspaces.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getById(id: string): Promise<Workspace | null> {
+    const workspaces = await this.readWorkspaces();
+    return workspaces.find((w) => w.id === id) ?? null;
+  }
+
+  async create(input: { slug: string; name: string; hostname: string | null }): Promise<Workspace> {
+    return withLock(WORKSPACES_PATH, async () => {
+      const workspaces = await this.readWorkspaces();
+      this.ensureUnique(workspaces, input.slug, input.hostname);
+
+      const workspace: Workspace = {
+        id: crypto.randomUUID(),
+        slug: input.slug,
+        name: input.name,
+        hostname: input.hostname,
+        createdAt: new Date().toISOString()
+      };
+
+      await ensureWorkspaceDirs(workspaceDirs(workspace.id));
+      workspaces.push(workspace);
+      await this.writeWorkspaces(workspaces);
+      return workspace;
+    });
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<Workspace, "slug" | "name" | "hostname">>
+  ): Promise<Workspace | null> {
+    return withLock(WORKSPACES_PATH, async () => {
+      const workspaces = await this.readWorkspaces();
+      const index = workspaces.findIndex((w) => w.id === id);
+      if (index === -1) return null;
+
+      const next = { ...workspaces[index], ...updates };
+      this.ensureUnique(workspaces, next.slug, next.hostname, id);
+      workspaces[index] = next;
+      await this.writeWorkspaces(workspaces);
+      return next;
+    });
+  }
+
+  // Registers the default workspace, which holds the data from before workspaces
+  async ensureDefault(name: string): Promise<void> {
+    return withLock(WORKSPACES_PATH, async () => {
+      const workspaces = await this.readWorkspaces();
+      if (workspaces.some((w) => w.id === DEFAULT_WORKSPACE_ID)) return;
+
+      workspaces.unshift({
+        id: DEFAULT_WORKSPACE_ID,
+        slug: DEFAULT_WORKSPACE_SLUG,
+        name: name.trim() || "Default workspace",
+        hostname: null,
+        createdAt: new Date().toISOString()
+      });
+      await this.writeWorkspaces(workspaces);
+    });
+  }
+}
+
+export type FileRepairReport = {
+  workspace: string;
+  indexedPosts: number;
+  // A post or source file whose other half (.json, or .md/.txt) is missing,
+  // or a media directory without its asset.json
+  orphans: string[];
+  unreadable: string[];
+  tempFilesRemoved: number;
+};
+
 // Main provider implementation
 export class FileStorageProvider implements IStorageProvider {
-  posts: IPostsStorage;
-  sources: ISourcesStorage;
-  org: IOrgStorage;
-  watchedSources: IWatchedSourcesStorage;
-  articles: IArticlesStorage;
+  users: IUsersStorage;
+  settings: ISettingsStorage;
+  workspaces: FileWorkspacesStorage;
+  // Kept so each workspace's in-memory search index survives between requests
+  private scoped = new Map<string, IWorkspaceStorage>();
 
   constructor() {
-    this.posts = new FilePostsStorage();
-    this.sources = new FileSourcesStorage();
-    this.org = new FileOrgStorage();
-    this.watchedSources = new FileWatchedSourcesStorage();
-    this.articles = new FileArticlesStorage();
+    this.users = new FileUsersStorage();
+    this.settings = new FileSettingsStorage();
+    this.workspaces = new FileWorkspacesStorage();
+  }
+
+  workspace(workspaceId: string): IWorkspaceStorage {
+    const cached = this.scoped.get(workspaceId);
+    if (cached) return cached;
+
+    const posts = new FilePostsStorage(workspaceId);
+    const sources = new FileSourcesStorage(workspaceId);
+    const articles = new FileArticlesStorage(workspaceId);
+    const storage: IWorkspaceStorage = {
+      workspaceId,
+      posts,
+      sources,
+      org: new FileOrgStorage(workspaceId),
+      watchedSources: new FileWatchedSourcesStorage(workspaceId),
+      articles,
+      search: new FileSearchStorage(workspaceId, posts, sources, articles),
+      audit: new FileAuditStorage(workspaceId),
+      media: new FileMediaStorage(workspaceId)
+    };
+    this.scoped.set(workspaceId, storage);
+    return storage;
   }
 
   async init(): Promise<void> {
     // Create directories if they don't exist
     await mkdir(DATA_DIR, { recursive: true });
-    await mkdir(POSTS_DIR, { recursive: true });
-    await mkdir(SOURCES_DIR, { recursive: true });
-    await mkdir(ARTICLES_DIR, { recursive: true });
-
-    // Create watched sources file if it doesn't exist
-    try {
-      await readFile(WATCHED_SOURCES_PATH, "utf8");
-    } catch {
-      await writeFile(WATCHED_SOURCES_PATH, JSON.stringify([], null, 2), "utf8");
-    }
+    const dirs = workspaceDirs(DEFAULT_WORKSPACE_ID);
+    await ensureWorkspaceDirs(dirs);
 
     // Initialize org profile (normalize if exists, create seed if not)
-    await this.initOrgProfile();
+    const profile = await this.initOrgProfile(dirs);
+    await this.workspaces.ensureDefault(profile.name);
+    for (const workspace of await this.workspaces.list()) {
+      await ensureWorkspaceDirs(workspaceDirs(workspace.id));
+    }
 
     // Seed a sample post if none exist
-    await this.seedSamplePostIfNeeded();
+    await this.seedSamplePostIfNeeded(dirs);
+
+    // Post files may have been edited or copied in while the app was stopped
+    for (const workspace of await this.workspaces.list()) {
+      await new FilePostsStorage(workspace.id).rebuildIndex();
+    }
+  }
+
+  /**
+   * Rebuild every workspace's post index and report what a crash or a hand
+   * edit left behind: half-written posts and sources, files that don't parse,
+   * and temporary files, which are removed once they are older than
+   * `tempMaxAgeMs`. Only temporary files are deleted; the rest is for a person
+   * to look at.
+   */
+  async repair(options: { tempMaxAgeMs?: number } = {}): Promise<FileRepairReport[]> {
+    const tempMaxAgeMs = options.tempMaxAgeMs ?? 5 * 60_000;
+    const reports: FileRepairReport[] = [];
+
+    for (const workspace of await this.workspaces.list()) {
+      const dirs = workspaceDirs(workspace.id);
+      const report: FileRepairReport = {
+        workspace: workspace.slug,
+        indexedPosts: 0,
+        orphans: [],
+        unreadable: [],
+        tempFilesRemoved: 0
+      };
+
+      for (const [dir, meta, content] of [
+        [dirs.posts, ".json", ".md"],
+        [dirs.sources, ".json", ".txt"]
+      ] as const) {
+        const files = new Set(await readdir(dir));
+        for (const file of files) {
+          const filePath = path.join(dir, file);
+          if (file.endsWith(TEMP_SUFFIX)) {
+            const { mtimeMs } = await stat(filePath);
+            if (Date.now() - mtimeMs >= tempMaxAgeMs) {
+              await rm(filePath, { force: true });
+              report.tempFilesRemoved += 1;
+            }
+            continue;
+          }
+
+          const ext = path.extname(file);
+          const id = file.slice(0, -ext.length);
+          if (ext === meta) {
+            if (!files.has(id + content)) report.orphans.push(filePath);
+            try {
+              JSON.parse(await readFile(filePath, "utf8"));
+            } catch {
+              report.unreadable.push(filePath);
+            }
+          } else if (ext === content && !files.has(id + meta)) {
+            report.orphans.push(filePath);
+          }
+        }
+      }
+
+      for (const id of await readdir(dirs.media)) {
+        const dir = path.join(dirs.media, id);
+        const files = await readdir(dir).catch(() => null);
+        if (files && !files.includes(MEDIA_ASSET_FILE)) report.orphans.push(dir);
+      }
+
+      report.indexedPosts = await new FilePostsStorage(workspace.id).rebuildIndex();
+      reports.push(report);
+    }
+
+    return reports;
   }
 
-  private async initOrgProfile(): Promise<void> {
+  private async initOrgProfile(dirs: WorkspaceDirs): Promise<OrganizationProfile> {
     try {
-      const raw = await readFile(ORG_PROFILE_PATH, "utf8");
+      const raw = await readFile(dirs.orgProfile, "utf8");
       const json = JSON.parse(raw) as unknown;
       const normalized = normalizeOrgProfile(json, { markOnboardingCompleteIfLegacyCustomized: true });
       const next = JSON.stringify(normalized, null, 2);
       if (raw.trim() !== next.trim()) {
-        await writeFile(ORG_PROFILE_PATH, next, "utf8");
+        await writeFileAtomic(dirs.orgProfile, next);
       }
+      return normalized;
     } catch {
       const profile = makeSeedProfile();
-      await writeFile(ORG_PROFILE_PATH, JSON.stringify(profile, null, 2), "utf8");
+      await writeFileAtomic(dirs.orgProfile, JSON.stringify(profile, null, 2));
+      return profile;
     }
   }
 
-  private async seedSamplePostIfNeeded(): Promise<void> {
+  private async seedSamplePostIfNeeded(dirs: WorkspaceDirs): Promise<void> {
     try {
-      const posts = await readdir(POSTS_DIR);
+      const posts = await readdir(dirs.posts);
       const hasAnyPost = posts.some((f) => f.endsWith(".json"));
       if (hasAnyPost) return;
 
       // Import seed dynamically to avoid circular dependency
       const { makeSeedPost } = await import("../seed");
       const seed = makeSeedPost();
-      await writeFile(`${POSTS_DIR}/${seed.id}.json`, JSON.stringify(seed.meta, null, 2), "utf8");
-      await writeFile(`${POSTS_DIR}/${seed.id}.md`, seed.markdown, "utf8");
+      await writeFileAtomic(`${dirs.posts}/${seed.id}.md`, seed.markdown);
+      await writeFileAtomic(`${dirs.posts}/${seed.id}.json`, JSON.stringify(seed.meta, null, 2));
     } catch (err) {
       // Seeding is optional, don't fail initialization
       console.error("Failed to seed sample post:", err);
@@ -12,22 +12,62 @@ import type {
   ISourcesStorage,
   IOrgStorage,
   IWatchedSourcesStorage,
-  IArticlesStorage
+  IArticlesStorage,
+  IUsersStorage,
+  ISettingsStorage,
+  ISearchStorage,
+  IWorkspacesStorage,
+  IWorkspaceStorage,
+  IAuditStorage,
+  IMediaStorage,
+  RevisionContext
 } from "../interfaces";
 import type {
   BlogPost,
   BlogPostMeta,
   PostStatus,
+  PostReview,
+  PostComment,
+  PostCommentAnchor,
+  PostCitation,
+  PostRevision,
+  PostRevisionMeta,
+  RevisionSource,
   KnowledgeSource,
   KnowledgeSourceMeta,
+  SourceChunk,
   SourceType,
+  GenerationRecord,
   OrganizationProfile,
   WatchedSource,
   WatchedSourceType,
-  FetchedArticle
+  FetchedArticle,
+  User,
+  UserRecord,
+  UserRole,
+  AiSettings,
+  SearchHit,
+  SearchKind,
+  SearchOptions,
+  Workspace,
+  AuditEntry,
+  AuditFilter,
+  RelevanceRules,
+  MediaAsset
 } from "../types";
 import { slugify } from "@/lib/utils/slug";
 import { makeSeedProfile } from "../seed";
+import { chunkText } from "@/lib/rag/chunk";
+import { migratePostgres, migrationLabel } from "../migrations";
+import { DEFAULT_WORKSPACE_ID } from "../workspaceSchema";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  MAX_SEARCH_LIMIT,
+  parseHighlighted
+} from "@/lib/search/full-text";
+import { auditLimit } from "@/lib/audit/log";
 import crypto from "node:crypto";
 
 // Database connection pool
@@ -64,12 +104,19 @@ function sha256(text: string) {
   return crypto.createHash("sha256").update(text, "utf8").digest("hex");
 }
 
+// Limits post_revisions/post_comments rows to posts in the workspace bound to `param`
+function postInWorkspace(param: string) {
+  return `post_id IN (SELECT id FROM posts WHERE workspace_id = ${param})`;
+}
+
 // Posts storage implementation
 class PostgresPostsStorage implements IPostsStorage {
   private pool: Pool;
+  private workspaceId: string;
 
-  constructor(pool: Pool) {
+  constructor(pool: Pool, workspaceId: string) {
     this.pool = pool;
+    this.workspaceId = workspaceId;
   }
 
   async getById(id: string): Promise<BlogPost | null> {
@@ -77,8 +124,8 @@ class PostgresPostsStorage implements IPostsStorage {
       `SELECT p.*, pc.content_markdown
        FROM posts p
        JOIN post_content pc ON p.id = pc.post_id
-       WHERE p.id = $1`,
-      [id]
+       WHERE p.id = $1 AND p.workspace_id = $2`,
+      [id, this.workspaceId]
     );
 
     if (result.rows.length === 0) return null;
@@ -92,8 +139,8 @@ class PostgresPostsStorage implements IPostsStorage {
       `SELECT p.*, pc.content_markdown
        FROM posts p
        JOIN post_content pc ON p.id = pc.post_id
-       WHERE p.slug = $1`,
-      [slug]
+       WHERE p.slug = $1 AND p.workspace_id = $2`,
+      [slug, this.workspaceId]
     );
 
     if (result.rows.length === 0) return null;
@@ -107,8 +154,8 @@ class PostgresPostsStorage implements IPostsStorage {
       `SELECT p.*, pc.content_markdown
        FROM posts p
        JOIN post_content pc ON p.id = pc.post_id
-       WHERE p.slug = $1 AND p.status = 'PUBLISHED'`,
-      [slug]
+       WHERE p.slug = $1 AND p.workspace_id = $2 AND p.status = 'PUBLISHED'`,
+      [slug, this.workspaceId]
     );
 
     if (result.rows.length === 0) return null;
@@ -119,12 +166,12 @@ class PostgresPostsStorage implements IPostsStorage {
 
   async list(status?: PostStatus): Promise<BlogPostMeta[]> {
     const query = status
-      ? `SELECT * FROM posts WHERE status = $1 ORDER BY COALESCE(published_at, created_at) DESC`
-      : `SELECT * FROM posts ORDER BY COALESCE(published_at, created_at) DESC`;
+      ? `SELECT * FROM posts WHERE workspace_id = $1 AND status = $2 ORDER BY COALESCE(published_at, created_at) DESC`
+      : `SELECT * FROM posts WHERE workspace_id = $1 ORDER BY COALESCE(published_at, created_at) DESC`;
 
     const result = status
-      ? await this.pool.query(query, [status])
-      : await this.pool.query(query);
+      ? await this.pool.query(query, [this.workspaceId, status])
+      : await this.pool.query(query, [this.workspaceId]);
 
     return result.rows.map(row => this.rowToPostMeta(row));
   }
@@ -133,15 +180,22 @@ class PostgresPostsStorage implements IPostsStorage {
     return this.list("PUBLISHED");
   }
 
-  async create(input: {
-    title: string;
-    subtitle?: string;
-    summary: string;
-    keywords: string[];
-    seoTitle?: string;
-    seoDescription?: string;
-    contentMarkdown: string;
-  }): Promise<BlogPost> {
+  async create(
+    input: {
+      title: string;
+      subtitle?: string;
+      summary: string;
+      keywords: string[];
+      tags?: string[];
+      seoTitle?: string;
+      seoDescription?: string;
+      contentMarkdown: string;
+      generation?: GenerationRecord;
+      citations?: PostCitation[];
+      featuredImageId?: string;
+    },
+    revision: RevisionContext
+  ): Promise<BlogPost> {
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
@@ -151,8 +205,8 @@ class PostgresPostsStorage implements IPostsStorage {
       const slug = await this.ensureUniqueSlug(slugBase, undefined, client);
 
       const result = await client.query(
-        `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, seo_title, seo_description)
-         VALUES ($1, $2, 'DRAFT', $3, $4, $5, $6, $7, $8)
+        `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, tags, seo_title, seo_description, created_by, updated_by, generation, citations, featured_image_id, workspace_id)
+         VALUES ($1, $2, 'DRAFT', $3, $4, $5, $6, $7, $8, $9, $10, $10, $11, $12, $13, $14)
          RETURNING *`,
         [
           id,
@@ -161,8 +215,14 @@ class PostgresPostsStorage implements IPostsStorage {
           input.subtitle || null,
           input.summary,
           JSON.stringify(input.keywords),
+          JSON.stringify(input.tags ?? []),
           input.seoTitle || null,
-          input.seoDescription || null
+          input.seoDescription || null,
+          revision.author,
+          input.generation ? JSON.stringify(input.generation) : null,
+          JSON.stringify(input.citations ?? []),
+          input.featuredImageId || null,
+          this.workspaceId
         ]
       );
 
@@ -172,12 +232,15 @@ class PostgresPostsStorage implements IPostsStorage {
         [id, input.contentMarkdown]
       );
 
-      await client.query('COMMIT');
-
-      return {
+      const post = {
         ...this.rowToPostMeta(result.rows[0]),
         contentMarkdown: input.contentMarkdown
       };
+      await this.insertRevision(post, revision, client);
+
+      await client.query('COMMIT');
+
+      return post;
     } catch (err) {
       await client.query('ROLLBACK');
       throw err;
@@ -188,7 +251,8 @@ class PostgresPostsStorage implements IPostsStorage {
 
   async update(
     id: string,
-    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt">>
+    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt" | "scheduledFor" | "review" | "generation">>,
+    revision: RevisionContext
   ): Promise<BlogPost | null> {
     const existing = await this.getById(id);
     if (!existing) return null;
@@ -217,8 +281,12 @@ class PostgresPostsStorage implements IPostsStorage {
              keywords = $6,
              seo_title = $7,
              seo_description = $8,
+             citations = $9,
+             featured_image_id = $10,
+             tags = $11,
+             updated_by = $12,
              updated_at = NOW()
-         WHERE id = $9
+         WHERE id = $13
          RETURNING *`,
         [
           slug,
@@ -229,6 +297,10 @@ class PostgresPostsStorage implements IPostsStorage {
           JSON.stringify(updates.keywords ?? existing.keywords),
           updates.seoTitle !== undefined ? (updates.seoTitle || null) : existing.seoTitle,
           updates.seoDescription !== undefined ? (updates.seoDescription || null) : existing.seoDescription,
+          JSON.stringify(updates.citations ?? existing.citations ?? []),
+          updates.featuredImageId !== undefined ? (updates.featuredImageId || null) : (existing.featuredImageId ?? null),
+          JSON.stringify(updates.tags ?? existing.tags),
+          revision.author,
           id
         ]
       );
@@ -243,13 +315,15 @@ class PostgresPostsStorage implements IPostsStorage {
         );
       }
 
-      await client.query('COMMIT');
-
-      const contentMarkdown = updates.contentMarkdown ?? existing.contentMarkdown;
-      return {
+      const post = {
         ...this.rowToPostMeta(result.rows[0]),
-        contentMarkdown
+        contentMarkdown: updates.contentMarkdown ?? existing.contentMarkdown
       };
+      await this.insertRevision(post, revision, client);
+
+      await client.query('COMMIT');
+
+      return post;
     } catch (err) {
       await client.query('ROLLBACK');
       throw err;
@@ -274,6 +348,7 @@ class PostgresPostsStorage implements IPostsStorage {
          SET slug = $1,
              status = 'PUBLISHED',
              published_at = $2,
+             scheduled_for = NULL,
              updated_at = NOW()
          WHERE id = $3
          RETURNING *`,
@@ -294,14 +369,285 @@ class PostgresPostsStorage implements IPostsStorage {
     }
   }
 
+  async unpublish(id: string): Promise<BlogPost | null> {
+    await this.pool.query(
+      `UPDATE posts
+       SET status = 'DRAFT',
+           updated_at = NOW()
+       WHERE id = $1 AND workspace_id = $2 AND status IN ('PUBLISHED', 'ARCHIVED')`,
+      [id, this.workspaceId]
+    );
+
+    return this.getById(id);
+  }
+
+  async archive(id: string): Promise<BlogPost | null> {
+    const result = await this.pool.query(
+      `UPDATE posts
+       SET status = 'ARCHIVED',
+           scheduled_for = NULL,
+           updated_at = NOW()
+       WHERE id = $1 AND workspace_id = $2
+       RETURNING id`,
+      [id, this.workspaceId]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.getById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    // post_content, post_revisions and post_comments are removed by ON DELETE CASCADE
+    const result = await this.pool.query(`DELETE FROM posts WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async schedule(id: string, scheduledFor: string): Promise<BlogPost | null> {
+    const result = await this.pool.query(
+      `UPDATE posts
+       SET status = 'SCHEDULED',
+           scheduled_for = $1,
+           updated_at = NOW()
+       WHERE id = $2 AND workspace_id = $3
+       RETURNING id`,
+      [scheduledFor, id, this.workspaceId]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.getById(id);
+  }
+
+  async unschedule(id: string): Promise<BlogPost | null> {
+    await this.pool.query(
+      `UPDATE posts
+       SET status = 'DRAFT',
+           scheduled_for = NULL,
+           updated_at = NOW()
+       WHERE id = $1 AND workspace_id = $2 AND status = 'SCHEDULED'`,
+      [id, this.workspaceId]
+    );
+
+    return this.getById(id);
+  }
+
+  async getDueForPublish(): Promise<BlogPostMeta[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM posts
+       WHERE workspace_id = $1
+         AND status = 'SCHEDULED'
+         AND scheduled_for <= NOW()
+       ORDER BY scheduled_for ASC`,
+      [this.workspaceId]
+    );
+
+    return result.rows.map(row => this.rowToPostMeta(row));
+  }
+
+  async listRevisions(postId: string): Promise<PostRevisionMeta[]> {
+    const result = await this.pool.query(
+      `SELECT id, post_id, source, author, title, created_at
+       FROM post_revisions
+       WHERE post_id = $1 AND ${postInWorkspace("$2")}
+       ORDER BY created_at DESC`,
+      [postId, this.workspaceId]
+    );
+
+    return result.rows.map(row => this.rowToRevisionMeta(row));
+  }
+
+  async getRevision(postId: string, revisionId: string): Promise<PostRevision | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM post_revisions WHERE id = $1 AND post_id = $2 AND ${postInWorkspace("$3")}`,
+      [revisionId, postId, this.workspaceId]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      ...this.rowToRevisionMeta(row),
+      subtitle: row.subtitle || undefined,
+      summary: row.summary,
+      keywords: Array.isArray(row.keywords) ? row.keywords : JSON.parse(row.keywords || '[]'),
+      seoTitle: row.seo_title || undefined,
+      seoDescription: row.seo_description || undefined,
+      contentMarkdown: row.content_markdown,
+      tags: (row.tags as string[] | null) ?? undefined,
+      citations: (row.citations as PostCitation[] | null) ?? undefined,
+      featuredImageId: row.featured_image_id || undefined
+    };
+  }
+
+  async setReview(id: string, status: PostStatus, review: PostReview): Promise<BlogPost | null> {
+    const result = await this.pool.query(
+      `UPDATE posts
+       SET status = $1,
+           review = $2,
+           updated_at = NOW()
+       WHERE id = $3 AND workspace_id = $4
+       RETURNING id`,
+      [status, JSON.stringify(review), id, this.workspaceId]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.getById(id);
+  }
+
+  async listComments(postId: string): Promise<PostComment[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM post_comments WHERE post_id = $1 AND ${postInWorkspace("$2")} ORDER BY created_at ASC`,
+      [postId, this.workspaceId]
+    );
+
+    return result.rows.map(row => this.rowToComment(row));
+  }
+
+  async addComment(
+    postId: string,
+    input: { authorId: string; authorName: string; body: string; anchor: PostCommentAnchor }
+  ): Promise<PostComment> {
+    const result = await this.pool.query(
+      `INSERT INTO post_comments (id, post_id, author_id, author_name, body, section_id, section_title, quote)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        crypto.randomUUID(),
+        postId,
+        input.authorId,
+        input.authorName,
+        input.body,
+        input.anchor.sectionId,
+        input.anchor.sectionTitle,
+        input.anchor.quote || null
+      ]
+    );
+
+    return this.rowToComment(result.rows[0]);
+  }
+
+  async resolveComment(postId: string, commentId: string, resolvedBy: string | null): Promise<PostComment | null> {
+    const result = await this.pool.query(
+      `UPDATE post_comments
+       SET resolved = $1,
+           resolved_by = $2,
+           resolved_at = CASE WHEN $1 THEN NOW() ELSE NULL END
+       WHERE id = $3 AND post_id = $4 AND ${postInWorkspace("$5")}
+       RETURNING *`,
+      [resolvedBy !== null, resolvedBy, commentId, postId, this.workspaceId]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.rowToComment(result.rows[0]);
+  }
+
+  async put(post: BlogPost): Promise<BlogPost> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, seo_title, seo_description, created_at, updated_at, published_at, scheduled_for, created_by, updated_by, review, generation, citations, featured_image_id, tags, workspace_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21)
+         ON CONFLICT (id) DO UPDATE
+         SET slug = EXCLUDED.slug,
+             status = EXCLUDED.status,
+             title = EXCLUDED.title,
+             subtitle = EXCLUDED.subtitle,
+             summary = EXCLUDED.summary,
+             keywords = EXCLUDED.keywords,
+             seo_title = EXCLUDED.seo_title,
+             seo_description = EXCLUDED.seo_description,
+             created_at = EXCLUDED.created_at,
+             published_at = EXCLUDED.published_at,
+             scheduled_for = EXCLUDED.scheduled_for,
+             created_by = EXCLUDED.created_by,
+             updated_by = EXCLUDED.updated_by,
+             review = EXCLUDED.review,
+             generation = EXCLUDED.generation,
+             citations = EXCLUDED.citations,
+             featured_image_id = EXCLUDED.featured_image_id,
+             tags = EXCLUDED.tags
+         WHERE posts.workspace_id = EXCLUDED.workspace_id
+         RETURNING *`,
+        [
+          post.id,
+          post.slug,
+          post.status,
+          post.title,
+          post.subtitle || null,
+          post.summary,
+          JSON.stringify(post.keywords),
+          post.seoTitle || null,
+          post.seoDescription || null,
+          post.createdAt,
+          post.updatedAt,
+          post.publishedAt || null,
+          post.scheduledFor || null,
+          post.createdBy || null,
+          post.updatedBy || null,
+          post.review ? JSON.stringify(post.review) : null,
+          post.generation ? JSON.stringify(post.generation) : null,
+          JSON.stringify(post.citations ?? []),
+          post.featuredImageId || null,
+          JSON.stringify(post.tags),
+          this.workspaceId
+        ]
+      );
+      if (result.rows.length === 0) throw new Error(`Post ${post.id} belongs to another workspace`);
+
+      await client.query(
+        `INSERT INTO post_content (post_id, content_markdown)
+         VALUES ($1, $2)
+         ON CONFLICT (post_id) DO UPDATE SET content_markdown = EXCLUDED.content_markdown`,
+        [post.id, post.contentMarkdown]
+      );
+
+      await client.query('COMMIT');
+
+      return { ...this.rowToPostMeta(result.rows[0]), contentMarkdown: post.contentMarkdown };
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insertRevision(post: BlogPost, revision: RevisionContext, client: PoolClient): Promise<void> {
+    await client.query(
+      `INSERT INTO post_revisions (id, post_id, source, author, title, subtitle, summary, keywords, seo_title, seo_description, content_markdown, tags, citations, featured_image_id, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+      [
+        crypto.randomUUID(),
+        post.id,
+        revision.source,
+        revision.author,
+        post.title,
+        post.subtitle || null,
+        post.summary,
+        JSON.stringify(post.keywords),
+        post.seoTitle || null,
+        post.seoDescription || null,
+        post.contentMarkdown,
+        JSON.stringify(post.tags),
+        JSON.stringify(post.citations ?? []),
+        post.featuredImageId || null,
+        post.updatedAt
+      ]
+    );
+  }
+
   private async ensureUniqueSlug(slugBase: string, selfId: string | undefined, client: PoolClient): Promise<string> {
     const query = selfId
-      ? `SELECT slug FROM posts WHERE id != $1`
-      : `SELECT slug FROM posts`;
+      ? `SELECT slug FROM posts WHERE workspace_id = $1 AND id != $2`
+      : `SELECT slug FROM posts WHERE workspace_id = $1`;
 
     const result = selfId
-      ? await client.query(query, [selfId])
-      : await client.query(query);
+      ? await client.query(query, [this.workspaceId, selfId])
+      : await client.query(query, [this.workspaceId]);
 
     const used = new Set(result.rows.map(row => row.slug));
 
@@ -321,11 +667,19 @@ class PostgresPostsStorage implements IPostsStorage {
       subtitle: row.subtitle || undefined,
       summary: row.summary,
       keywords: Array.isArray(row.keywords) ? row.keywords : JSON.parse(row.keywords || '[]'),
+      tags: Array.isArray(row.tags) ? row.tags : JSON.parse(row.tags || '[]'),
       seoTitle: row.seo_title || undefined,
       seoDescription: row.seo_description || undefined,
       createdAt: row.created_at.toISOString(),
       updatedAt: row.updated_at.toISOString(),
-      publishedAt: row.published_at?.toISOString()
+      publishedAt: row.published_at?.toISOString(),
+      scheduledFor: row.scheduled_for?.toISOString(),
+      createdBy: row.created_by || undefined,
+      updatedBy: row.updated_by || undefined,
+      review: (row.review as PostReview | null) || undefined,
+      generation: (row.generation as GenerationRecord | null) || undefined,
+      citations: Array.isArray(row.citations) && row.citations.length > 0 ? row.citations : undefined,
+      featuredImageId: row.featured_image_id || undefined
     };
   }
 
@@ -335,24 +689,56 @@ class PostgresPostsStorage implements IPostsStorage {
       contentMarkdown: row.content_markdown
     };
   }
+
+  private rowToRevisionMeta(row: any): PostRevisionMeta {
+    return {
+      id: row.id,
+      postId: row.post_id,
+      source: row.source as RevisionSource,
+      author: row.author,
+      createdAt: row.created_at.toISOString(),
+      title: row.title
+    };
+  }
+
+  private rowToComment(row: any): PostComment {
+    return {
+      id: row.id,
+      postId: row.post_id,
+      authorId: row.author_id,
+      authorName: row.author_name,
+      body: row.body,
+      anchor: {
+        sectionId: row.section_id,
+        sectionTitle: row.section_title,
+        quote: row.quote || undefined
+      },
+      resolved: row.resolved,
+      createdAt: row.created_at.toISOString(),
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at?.toISOString()
+    };
+  }
 }
 
 // Sources storage implementation
 class PostgresSourcesStorage implements ISourcesStorage {
   private pool: Pool;
+  private workspaceId: string;
 
-  constructor(pool: Pool) {
+  constructor(pool: Pool, workspaceId: string) {
     this.pool = pool;
+    this.workspaceId = workspaceId;
   }
 
   async list(type?: SourceType): Promise<KnowledgeSourceMeta[]> {
     const query = type
-      ? `SELECT * FROM sources WHERE type = $1 ORDER BY created_at DESC`
-      : `SELECT * FROM sources ORDER BY created_at DESC`;
+      ? `SELECT * FROM sources WHERE workspace_id = $1 AND type = $2 ORDER BY created_at DESC`
+      : `SELECT * FROM sources WHERE workspace_id = $1 ORDER BY created_at DESC`;
 
     const result = type
-      ? await this.pool.query(query, [type])
-      : await this.pool.query(query);
+      ? await this.pool.query(query, [this.workspaceId, type])
+      : await this.pool.query(query, [this.workspaceId]);
 
     return result.rows.map(row => this.rowToSourceMeta(row));
   }
@@ -362,8 +748,8 @@ class PostgresSourcesStorage implements ISourcesStorage {
       `SELECT s.*, sc.content_text
        FROM sources s
        JOIN source_content sc ON s.id = sc.source_id
-       WHERE s.id = $1`,
-      [id]
+       WHERE s.id = $1 AND s.workspace_id = $2`,
+      [id, this.workspaceId]
     );
 
     if (result.rows.length === 0) return null;
@@ -372,22 +758,40 @@ class PostgresSourcesStorage implements ISourcesStorage {
     return this.rowToSource(row);
   }
 
+  async getBySha256(hash: string): Promise<KnowledgeSource | null> {
+    const result = await this.pool.query(
+      `SELECT s.*, sc.content_text
+       FROM sources s
+       JOIN source_content sc ON s.id = sc.source_id
+       WHERE s.sha256 = $1 AND s.workspace_id = $2
+       ORDER BY s.created_at
+       LIMIT 1`,
+      [hash, this.workspaceId]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.rowToSource(result.rows[0]);
+  }
+
   async createFromText(input: {
     type: SourceType;
     title: string;
     url?: string;
     contentText: string;
   }): Promise<KnowledgeSource> {
+    const contentText = input.contentText.slice(0, 200_000);
+    const existing = await this.getBySha256(sha256(contentText));
+    if (existing) return existing;
+
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
 
       const id = crypto.randomUUID();
-      const contentText = input.contentText.slice(0, 200_000);
 
       const result = await client.query(
-        `INSERT INTO sources (id, type, title, url, word_count, sha256)
-         VALUES ($1, $2, $3, $4, $5, $6)
+        `INSERT INTO sources (id, type, title, url, word_count, sha256, workspace_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
          RETURNING *`,
         [
           id,
@@ -395,7 +799,8 @@ class PostgresSourcesStorage implements ISourcesStorage {
           input.title.trim() || "Untitled source",
           input.url || null,
           wordCount(contentText),
-          sha256(contentText)
+          sha256(contentText),
+          this.workspaceId
         ]
       );
 
@@ -405,6 +810,12 @@ class PostgresSourcesStorage implements ISourcesStorage {
         [id, contentText]
       );
 
+      await this.insertChunks(
+        id,
+        chunkText(contentText).map((text, index) => ({ id: `${id}:${index}`, sourceId: id, index, text })),
+        client
+      );
+
       await client.query('COMMIT');
 
       return {
@@ -419,6 +830,198 @@ class PostgresSourcesStorage implements ISourcesStorage {
     }
   }
 
+  async update(
+    id: string,
+    updates: Partial<Pick<KnowledgeSource, "title" | "url" | "contentText" | "tags" | "collections" | "refreshedAt" | "refreshChanged">>
+  ): Promise<KnowledgeSource | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const contentText = updates.contentText?.slice(0, 200_000) ?? existing.contentText;
+    const textChanged = contentText !== existing.contentText;
+    const edited =
+      textChanged ||
+      updates.title !== undefined ||
+      updates.url !== undefined ||
+      updates.tags !== undefined ||
+      updates.collections !== undefined;
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE sources
+         SET title = $1,
+             url = $2,
+             word_count = $3,
+             sha256 = $4,
+             updated_at = CASE WHEN $5 THEN NOW() ELSE updated_at END,
+             refreshed_at = $6,
+             refresh_changed = $7,
+             tags = $8,
+             collections = $9
+         WHERE id = $10
+         RETURNING *`,
+        [
+          updates.title?.trim() || existing.title,
+          updates.url !== undefined ? (updates.url || null) : (existing.url || null),
+          wordCount(contentText),
+          sha256(contentText),
+          edited,
+          updates.refreshedAt ?? existing.refreshedAt ?? null,
+          updates.refreshChanged ?? existing.refreshChanged ?? null,
+          JSON.stringify(updates.tags ?? existing.tags),
+          JSON.stringify(updates.collections ?? existing.collections),
+          id
+        ]
+      );
+
+      if (textChanged) {
+        await client.query(
+          `UPDATE source_content
+           SET content_text = $1,
+               updated_at = NOW()
+           WHERE source_id = $2`,
+          [contentText, id]
+        );
+        await client.query(`DELETE FROM source_chunks WHERE source_id = $1`, [id]);
+        await this.insertChunks(
+          id,
+          chunkText(contentText).map((text, index) => ({ id: `${id}:${index}`, sourceId: id, index, text })),
+          client
+        );
+      }
+
+      await client.query('COMMIT');
+
+      return { ...this.rowToSourceMeta(result.rows[0]), contentText };
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query(`DELETE FROM sources WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async listChunks(sourceIds: string[]): Promise<SourceChunk[]> {
+    if (sourceIds.length === 0) return [];
+    const result = await this.pool.query(
+      `SELECT * FROM source_chunks
+       WHERE source_id = ANY($1::uuid[])
+         AND source_id IN (SELECT id FROM sources WHERE workspace_id = $2)
+       ORDER BY source_id, chunk_index`,
+      [sourceIds, this.workspaceId]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      sourceId: row.source_id,
+      index: row.chunk_index,
+      text: row.text,
+      embedding: row.embedding || undefined,
+      embeddingModel: row.embedding_model || undefined
+    }));
+  }
+
+  async replaceChunks(sourceId: string, chunks: SourceChunk[]): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`DELETE FROM source_chunks WHERE source_id = $1`, [sourceId]);
+      await this.insertChunks(sourceId, chunks, client);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async put(source: KnowledgeSource): Promise<KnowledgeSource> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO sources (id, type, title, url, word_count, sha256, created_at, updated_at, refreshed_at, refresh_changed, tags, collections, workspace_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (id) DO UPDATE
+         SET type = EXCLUDED.type,
+             title = EXCLUDED.title,
+             url = EXCLUDED.url,
+             word_count = EXCLUDED.word_count,
+             sha256 = EXCLUDED.sha256,
+             created_at = EXCLUDED.created_at,
+             updated_at = EXCLUDED.updated_at,
+             refreshed_at = EXCLUDED.refreshed_at,
+             refresh_changed = EXCLUDED.refresh_changed,
+             tags = EXCLUDED.tags,
+             collections = EXCLUDED.collections
+         WHERE sources.workspace_id = EXCLUDED.workspace_id
+         RETURNING *`,
+        [
+          source.id,
+          source.type,
+          source.title,
+          source.url || null,
+          source.wordCount,
+          source.sha256,
+          source.createdAt,
+          source.updatedAt || null,
+          source.refreshedAt || null,
+          source.refreshChanged ?? null,
+          JSON.stringify(source.tags),
+          JSON.stringify(source.collections),
+          this.workspaceId
+        ]
+      );
+      if (result.rows.length === 0) throw new Error(`Source ${source.id} belongs to another workspace`);
+
+      await client.query(
+        `INSERT INTO source_content (source_id, content_text)
+         VALUES ($1, $2)
+         ON CONFLICT (source_id) DO UPDATE SET content_text = EXCLUDED.content_text`,
+        [source.id, source.contentText]
+      );
+
+      await client.query('COMMIT');
+
+      return { ...this.rowToSourceMeta(result.rows[0]), contentText: source.contentText };
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insertChunks(sourceId: string, chunks: SourceChunk[], client: PoolClient): Promise<void> {
+    for (const chunk of chunks) {
+      await client.query(
+        `INSERT INTO source_chunks (id, source_id, chunk_index, text, embedding, embedding_model)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          chunk.id,
+          sourceId,
+          chunk.index,
+          chunk.text,
+          chunk.embedding ? JSON.stringify(chunk.embedding) : null,
+          chunk.embeddingModel || null
+        ]
+      );
+    }
+  }
+
   private rowToSourceMeta(row: any): KnowledgeSourceMeta {
     return {
       id: row.id,
@@ -426,8 +1029,13 @@ class PostgresSourcesStorage implements ISourcesStorage {
       title: row.title,
       url: row.url || undefined,
       createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at?.toISOString(),
       wordCount: row.word_count,
-      sha256: row.sha256
+      sha256: row.sha256,
+      tags: row.tags || [],
+      collections: row.collections || [],
+      refreshedAt: row.refreshed_at?.toISOString(),
+      refreshChanged: row.refresh_changed ?? undefined
     };
   }
 
@@ -442,13 +1050,15 @@ class PostgresSourcesStorage implements ISourcesStorage {
 // Organization storage implementation
 class PostgresOrgStorage implements IOrgStorage {
   private pool: Pool;
+  private workspaceId: string;
 
-  constructor(pool: Pool) {
+  constructor(pool: Pool, workspaceId: string) {
     this.pool = pool;
+    this.workspaceId = workspaceId;
   }
 
   async get(): Promise<OrganizationProfile> {
-    const result = await this.pool.query(`SELECT * FROM organization LIMIT 1`);
+    const result = await this.pool.query(`SELECT * FROM organization WHERE workspace_id = $1`, [this.workspaceId]);
 
     if (result.rows.length === 0) {
       // No org exists, return seed
@@ -460,13 +1070,13 @@ class PostgresOrgStorage implements IOrgStorage {
   }
 
   async update(profile: OrganizationProfile): Promise<OrganizationProfile> {
-    const existing = await this.pool.query(`SELECT id FROM organization LIMIT 1`);
+    const existing = await this.pool.query(`SELECT id FROM organization WHERE workspace_id = $1`, [this.workspaceId]);
 
     if (existing.rows.length === 0) {
       // Insert new org
       const result = await this.pool.query(
-        `INSERT INTO organization (name, website, tagline, mission, focus_areas, objectives, voice_guidelines, preferred_terms, avoid_terms, onboarding_completed_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        `INSERT INTO organization (name, website, tagline, mission, focus_areas, objectives, voice_guidelines, preferred_terms, avoid_terms, onboarding_completed_at, workspace_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
          RETURNING *`,
         [
           profile.name,
@@ -478,7 +1088,8 @@ class PostgresOrgStorage implements IOrgStorage {
           profile.voiceGuidelines,
           JSON.stringify(profile.preferredTerms),
           JSON.stringify(profile.avoidTerms),
-          profile.onboardingCompletedAt
+          profile.onboardingCompletedAt,
+          this.workspaceId
         ]
       );
       return this.rowToOrg(result.rows[0]);
@@ -518,6 +1129,25 @@ class PostgresOrgStorage implements IOrgStorage {
     }
   }
 
+  async getRelevanceRules(): Promise<RelevanceRules | null> {
+    const result = await this.pool.query(`SELECT relevance_rules FROM organization WHERE workspace_id = $1`, [
+      this.workspaceId
+    ]);
+    return result.rows[0]?.relevance_rules ?? null;
+  }
+
+  async updateRelevanceRules(rules: RelevanceRules): Promise<RelevanceRules> {
+    // The rules live on the profile row, which doesn't exist until the profile is first saved
+    const existing = await this.pool.query(`SELECT id FROM organization WHERE workspace_id = $1`, [this.workspaceId]);
+    if (existing.rows.length === 0) await this.update(makeSeedProfile());
+
+    await this.pool.query(
+      `UPDATE organization SET relevance_rules = $1, updated_at = NOW() WHERE workspace_id = $2`,
+      [JSON.stringify(rules), this.workspaceId]
+    );
+    return rules;
+  }
+
   private rowToOrg(row: any): OrganizationProfile {
     return {
       name: row.name,
@@ -537,18 +1167,26 @@ class PostgresOrgStorage implements IOrgStorage {
 // Watched sources storage implementation
 class PostgresWatchedSourcesStorage implements IWatchedSourcesStorage {
   private pool: Pool;
+  private workspaceId: string;
 
-  constructor(pool: Pool) {
+  constructor(pool: Pool, workspaceId: string) {
     this.pool = pool;
+    this.workspaceId = workspaceId;
   }
 
   async list(): Promise<WatchedSource[]> {
-    const result = await this.pool.query(`SELECT * FROM watched_sources ORDER BY created_at DESC`);
+    const result = await this.pool.query(
+      `SELECT * FROM watched_sources WHERE workspace_id = $1 ORDER BY created_at DESC`,
+      [this.workspaceId]
+    );
     return result.rows.map(row => this.rowToWatchedSource(row));
   }
 
   async getById(id: string): Promise<WatchedSource | null> {
-    const result = await this.pool.query(`SELECT * FROM watched_sources WHERE id = $1`, [id]);
+    const result = await this.pool.query(`SELECT * FROM watched_sources WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
     if (result.rows.length === 0) return null;
     return this.rowToWatchedSource(result.rows[0]);
   }
@@ -560,21 +1198,25 @@ class PostgresWatchedSourcesStorage implements IWatchedSourcesStorage {
     fetchIntervalHours?: number;
   }): Promise<WatchedSource> {
     // Check for duplicate URL
-    const existing = await this.pool.query(`SELECT id FROM watched_sources WHERE url = $1`, [args.url]);
+    const existing = await this.pool.query(`SELECT id FROM watched_sources WHERE url = $1 AND workspace_id = $2`, [
+      args.url,
+      this.workspaceId
+    ]);
     if (existing.rows.length > 0) {
       throw new Error("This URL is already being watched");
     }
 
     const result = await this.pool.query(
-      `INSERT INTO watched_sources (id, name, url, type, fetch_interval_hours)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO watched_sources (id, name, url, type, fetch_interval_hours, workspace_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
        RETURNING *`,
       [
         crypto.randomUUID(),
         args.name,
         args.url,
         args.type,
-        args.fetchIntervalHours ?? 24
+        args.fetchIntervalHours ?? 24,
+        this.workspaceId
       ]
     );
 
@@ -609,30 +1251,66 @@ class PostgresWatchedSourcesStorage implements IWatchedSourcesStorage {
   }
 
   async delete(id: string): Promise<boolean> {
-    const result = await this.pool.query(`DELETE FROM watched_sources WHERE id = $1`, [id]);
+    const result = await this.pool.query(`DELETE FROM watched_sources WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
     return (result.rowCount ?? 0) > 0;
   }
 
   async getDueForFetch(): Promise<WatchedSource[]> {
     const result = await this.pool.query(
       `SELECT * FROM watched_sources
-       WHERE enabled = true
+       WHERE workspace_id = $1
+         AND enabled = true
          AND (
            last_fetched_at IS NULL
            OR last_fetched_at <= NOW() - (fetch_interval_hours * INTERVAL '1 hour')
          )
-       ORDER BY last_fetched_at NULLS FIRST`
+       ORDER BY last_fetched_at NULLS FIRST`,
+      [this.workspaceId]
     );
 
     return result.rows.map(row => this.rowToWatchedSource(row));
   }
 
-  private rowToWatchedSource(row: any): WatchedSource {
-    return {
-      id: row.id,
-      name: row.name,
-      url: row.url,
-      type: row.type as WatchedSourceType,
+  async put(source: WatchedSource): Promise<WatchedSource> {
+    const result = await this.pool.query(
+      `INSERT INTO watched_sources (id, name, url, type, enabled, last_fetched_at, fetch_interval_hours, created_at, workspace_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       ON CONFLICT (id) DO UPDATE
+       SET name = EXCLUDED.name,
+           url = EXCLUDED.url,
+           type = EXCLUDED.type,
+           enabled = EXCLUDED.enabled,
+           last_fetched_at = EXCLUDED.last_fetched_at,
+           fetch_interval_hours = EXCLUDED.fetch_interval_hours,
+           created_at = EXCLUDED.created_at
+       WHERE watched_sources.workspace_id = EXCLUDED.workspace_id
+       RETURNING *`,
+      [
+        source.id,
+        source.name,
+        source.url,
+        source.type,
+        source.enabled,
+        source.lastFetchedAt,
+        source.fetchIntervalHours,
+        source.createdAt,
+        this.workspaceId
+      ]
+    );
+
+    if (result.rows.length === 0) throw new Error(`Watched source ${source.id} belongs to another workspace`);
+    return this.rowToWatchedSource(result.rows[0]);
+  }
+
+  private rowToWatchedSource(row: any): WatchedSource {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      type: row.type as WatchedSourceType,
       enabled: row.enabled,
       lastFetchedAt: row.last_fetched_at?.toISOString() || null,
       fetchIntervalHours: row.fetch_interval_hours,
@@ -644,9 +1322,11 @@ class PostgresWatchedSourcesStorage implements IWatchedSourcesStorage {
 // Articles storage implementation
 class PostgresArticlesStorage implements IArticlesStorage {
   private pool: Pool;
+  private workspaceId: string;
 
-  constructor(pool: Pool) {
+  constructor(pool: Pool, workspaceId: string) {
     this.pool = pool;
+    this.workspaceId = workspaceId;
   }
 
   async list(options?: {
@@ -654,9 +1334,9 @@ class PostgresArticlesStorage implements IArticlesStorage {
     limit?: number;
     minRelevance?: number;
   }): Promise<FetchedArticle[]> {
-    let query = `SELECT * FROM articles WHERE 1=1`;
-    const params: any[] = [];
-    let paramIndex = 1;
+    let query = `SELECT * FROM articles WHERE workspace_id = $1`;
+    const params: any[] = [this.workspaceId];
+    let paramIndex = 2;
 
     if (options?.sourceId) {
       query += ` AND source_id = $${paramIndex}`;
@@ -682,13 +1362,19 @@ class PostgresArticlesStorage implements IArticlesStorage {
   }
 
   async getById(id: string): Promise<FetchedArticle | null> {
-    const result = await this.pool.query(`SELECT * FROM articles WHERE id = $1`, [id]);
+    const result = await this.pool.query(`SELECT * FROM articles WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
     if (result.rows.length === 0) return null;
     return this.rowToArticle(result.rows[0]);
   }
 
   async getByUrl(url: string): Promise<FetchedArticle | null> {
-    const result = await this.pool.query(`SELECT * FROM articles WHERE url = $1`, [url]);
+    const result = await this.pool.query(`SELECT * FROM articles WHERE url = $1 AND workspace_id = $2`, [
+      url,
+      this.workspaceId
+    ]);
     if (result.rows.length === 0) return null;
     return this.rowToArticle(result.rows[0]);
   }
@@ -710,8 +1396,8 @@ class PostgresArticlesStorage implements IArticlesStorage {
     }
 
     const result = await this.pool.query(
-      `INSERT INTO articles (id, source_id, source_name, title, url, published_at, excerpt, matched_keywords, relevance_score)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      `INSERT INTO articles (id, source_id, source_name, title, url, published_at, excerpt, matched_keywords, relevance_score, workspace_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
        RETURNING *`,
       [
         crypto.randomUUID(),
@@ -722,7 +1408,8 @@ class PostgresArticlesStorage implements IArticlesStorage {
         args.publishedAt,
         args.excerpt,
         JSON.stringify(args.matchedKeywords),
-        args.relevanceScore
+        args.relevanceScore,
+        this.workspaceId
       ]
     );
 
@@ -733,9 +1420,9 @@ class PostgresArticlesStorage implements IArticlesStorage {
     const result = await this.pool.query(
       `UPDATE articles
        SET saved_to_knowledge = true
-       WHERE id = $1
+       WHERE id = $1 AND workspace_id = $2
        RETURNING *`,
-      [id]
+      [id, this.workspaceId]
     );
 
     if (result.rows.length === 0) return null;
@@ -743,15 +1430,77 @@ class PostgresArticlesStorage implements IArticlesStorage {
   }
 
   async delete(id: string): Promise<boolean> {
-    const result = await this.pool.query(`DELETE FROM articles WHERE id = $1`, [id]);
+    const result = await this.pool.query(`DELETE FROM articles WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
     return (result.rowCount ?? 0) > 0;
   }
 
   async deleteBySource(sourceId: string): Promise<number> {
-    const result = await this.pool.query(`DELETE FROM articles WHERE source_id = $1`, [sourceId]);
+    const result = await this.pool.query(`DELETE FROM articles WHERE source_id = $1 AND workspace_id = $2`, [
+      sourceId,
+      this.workspaceId
+    ]);
     return result.rowCount ?? 0;
   }
 
+  async setRelevance(
+    scores: Array<Pick<FetchedArticle, "id" | "matchedKeywords" | "relevanceScore">>
+  ): Promise<void> {
+    if (scores.length === 0) return;
+    const rows = scores.map((s) => ({
+      id: s.id,
+      matched_keywords: s.matchedKeywords,
+      relevance_score: s.relevanceScore
+    }));
+    await this.pool.query(
+      `UPDATE articles AS a
+       SET matched_keywords = s.matched_keywords,
+           relevance_score = s.relevance_score
+       FROM jsonb_to_recordset($1::jsonb) AS s(id UUID, matched_keywords JSONB, relevance_score DECIMAL(3, 2))
+       WHERE a.id = s.id AND a.workspace_id = $2`,
+      [JSON.stringify(rows), this.workspaceId]
+    );
+  }
+
+  async put(article: FetchedArticle): Promise<FetchedArticle> {
+    const result = await this.pool.query(
+      `INSERT INTO articles (id, source_id, source_name, title, url, published_at, fetched_at, excerpt, matched_keywords, relevance_score, saved_to_knowledge, workspace_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       ON CONFLICT (id) DO UPDATE
+       SET source_id = EXCLUDED.source_id,
+           source_name = EXCLUDED.source_name,
+           title = EXCLUDED.title,
+           url = EXCLUDED.url,
+           published_at = EXCLUDED.published_at,
+           fetched_at = EXCLUDED.fetched_at,
+           excerpt = EXCLUDED.excerpt,
+           matched_keywords = EXCLUDED.matched_keywords,
+           relevance_score = EXCLUDED.relevance_score,
+           saved_to_knowledge = EXCLUDED.saved_to_knowledge
+       WHERE articles.workspace_id = EXCLUDED.workspace_id
+       RETURNING *`,
+      [
+        article.id,
+        article.sourceId,
+        article.sourceName,
+        article.title,
+        article.url,
+        article.publishedAt,
+        article.fetchedAt,
+        article.excerpt,
+        JSON.stringify(article.matchedKeywords),
+        article.relevanceScore,
+        article.savedToKnowledge,
+        this.workspaceId
+      ]
+    );
+
+    if (result.rows.length === 0) throw new Error(`Article ${article.id} belongs to another workspace`);
+    return this.rowToArticle(result.rows[0]);
+  }
+
   private rowToArticle(row: any): FetchedArticle {
     return {
       id: row.id,
@@ -769,22 +1518,624 @@ class PostgresArticlesStorage implements IArticlesStorage {
   }
 }
 
+// Users storage implementation
+class PostgresUsersStorage implements IUsersStorage {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async list(): Promise<User[]> {
+    const result = await this.pool.query(`SELECT * FROM users ORDER BY name ASC`);
+    return result.rows.map(row => this.rowToUser(row));
+  }
+
+  async count(): Promise<number> {
+    const result = await this.pool.query(`SELECT COUNT(*) as count FROM users`);
+    return parseInt(result.rows[0].count);
+  }
+
+  async getById(id: string): Promise<User | null> {
+    const result = await this.pool.query(`SELECT * FROM users WHERE id = $1`, [id]);
+    if (result.rows.length === 0) return null;
+    return this.rowToUser(result.rows[0]);
+  }
+
+  async getRecordById(id: string): Promise<UserRecord | null> {
+    const result = await this.pool.query(`SELECT * FROM users WHERE id = $1`, [id]);
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return { ...this.rowToUser(row), passwordHash: row.password_hash };
+  }
+
+  async getByEmail(email: string): Promise<UserRecord | null> {
+    const result = await this.pool.query(`SELECT * FROM users WHERE email = $1`, [email.trim().toLowerCase()]);
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return { ...this.rowToUser(row), passwordHash: row.password_hash };
+  }
+
+  async create(input: {
+    email: string;
+    name: string;
+    role: UserRole;
+    passwordHash: string;
+  }): Promise<User> {
+    const email = input.email.trim().toLowerCase();
+
+    // Check for duplicate email
+    const existing = await this.pool.query(`SELECT id FROM users WHERE email = $1`, [email]);
+    if (existing.rows.length > 0) {
+      throw new Error("A user with this email already exists");
+    }
+
+    const result = await this.pool.query(
+      `INSERT INTO users (id, email, name, role, password_hash)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [crypto.randomUUID(), email, input.name.trim() || email, input.role, input.passwordHash]
+    );
+
+    return this.rowToUser(result.rows[0]);
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<UserRecord, "name" | "role" | "passwordHash" | "disabled">>
+  ): Promise<User | null> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET name = COALESCE($1, name),
+           role = COALESCE($2, role),
+           password_hash = COALESCE($3, password_hash),
+           disabled = COALESCE($4, disabled),
+           updated_at = NOW()
+       WHERE id = $5
+       RETURNING *`,
+      [
+        updates.name ?? null,
+        updates.role ?? null,
+        updates.passwordHash ?? null,
+        updates.disabled ?? null,
+        id
+      ]
+    );
+
+    if (result.rows.length === 0) return null;
+    return this.rowToUser(result.rows[0]);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query(`DELETE FROM users WHERE id = $1`, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private rowToUser(row: any): User {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      role: row.role as UserRole,
+      disabled: row.disabled,
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString()
+    };
+  }
+}
+
+// Settings storage implementation
+class PostgresSettingsStorage implements ISettingsStorage {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async getAi(): Promise<AiSettings | null> {
+    const result = await this.pool.query(`SELECT value FROM app_settings WHERE key = 'ai'`);
+    return result.rows.length > 0 ? (result.rows[0].value as AiSettings) : null;
+  }
+
+  async updateAi(settings: AiSettings): Promise<AiSettings> {
+    await this.pool.query(
+      `INSERT INTO app_settings (key, value)
+       VALUES ('ai', $1)
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+      [JSON.stringify(settings)]
+    );
+    return settings;
+  }
+}
+
+// ts_headline options; matches are wrapped in the highlight characters
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MinWords=16, MaxWords=32, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Search storage implementation: tsvector columns kept by migration 0007.
+// Each kind matches on its metadata or its content, then the best are ranked
+// and only those get a headline, which is the expensive part.
+class PostgresSearchStorage implements ISearchStorage {
+  private pool: Pool;
+  private workspaceId: string;
+
+  constructor(pool: Pool, workspaceId: string) {
+    this.pool = pool;
+    this.workspaceId = workspaceId;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    if (!query.trim()) return [];
+    const kinds: SearchKind[] = options.publishedOnly ? ["post"] : (options.kinds ?? ["post", "source", "article"]);
+    const limit = Math.min(options.limit ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+
+    const hits: SearchHit[] = [];
+    if (kinds.includes("post")) hits.push(...(await this.searchPosts(query, limit, options.publishedOnly ?? false)));
+    if (kinds.includes("source")) hits.push(...(await this.searchSources(query, limit)));
+    if (kinds.includes("article")) hits.push(...(await this.searchArticles(query, limit)));
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private async searchPosts(query: string, limit: number, publishedOnly: boolean): Promise<SearchHit[]> {
+    const result = await this.pool.query(
+      `WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query),
+       matched AS (
+         SELECT id FROM posts, q WHERE search_vector @@ q.query
+         UNION
+         SELECT post_id FROM post_content, q WHERE search_vector @@ q.query
+       ),
+       ranked AS (
+         SELECT p.id, ts_rank(p.search_vector || pc.search_vector, q.query) AS score
+         FROM matched m
+         JOIN posts p ON p.id = m.id
+         JOIN post_content pc ON pc.post_id = p.id, q
+         WHERE p.workspace_id = $5 AND (NOT $2::boolean OR p.status = 'PUBLISHED')
+         ORDER BY score DESC
+         LIMIT $3
+       )
+       SELECT p.id, p.slug, p.status, p.title, p.updated_at, r.score,
+              ts_headline('english', coalesce(p.summary, '') || ' ' || pc.content_markdown, q.query, $4) AS snippet
+       FROM ranked r
+       JOIN posts p ON p.id = r.id
+       JOIN post_content pc ON pc.post_id = r.id, q
+       ORDER BY r.score DESC`,
+      [query, publishedOnly, limit, HEADLINE_OPTIONS, this.workspaceId]
+    );
+
+    return result.rows.map(row => ({
+      kind: "post" as const,
+      id: row.id,
+      title: row.title,
+      slug: row.slug,
+      status: row.status as PostStatus,
+      date: row.updated_at.toISOString(),
+      score: Number(row.score),
+      snippet: parseHighlighted(row.snippet)
+    }));
+  }
+
+  private async searchSources(query: string, limit: number): Promise<SearchHit[]> {
+    const result = await this.pool.query(
+      `WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query),
+       matched AS (
+         SELECT id FROM sources, q WHERE search_vector @@ q.query
+         UNION
+         SELECT source_id FROM source_content, q WHERE search_vector @@ q.query
+       ),
+       ranked AS (
+         SELECT s.id, ts_rank(s.search_vector || sc.search_vector, q.query) AS score
+         FROM matched m
+         JOIN sources s ON s.id = m.id
+         JOIN source_content sc ON sc.source_id = s.id, q
+         WHERE s.workspace_id = $4
+         ORDER BY score DESC
+         LIMIT $2
+       )
+       SELECT s.id, s.title, s.url, s.created_at, s.updated_at, r.score,
+              ts_headline('english', sc.content_text, q.query, $3) AS snippet
+       FROM ranked r
+       JOIN sources s ON s.id = r.id
+       JOIN source_content sc ON sc.source_id = r.id, q
+       ORDER BY r.score DESC`,
+      [query, limit, HEADLINE_OPTIONS, this.workspaceId]
+    );
+
+    return result.rows.map(row => ({
+      kind: "source" as const,
+      id: row.id,
+      title: row.title,
+      url: row.url || undefined,
+      date: (row.updated_at ?? row.created_at).toISOString(),
+      score: Number(row.score),
+      snippet: parseHighlighted(row.snippet)
+    }));
+  }
+
+  private async searchArticles(query: string, limit: number): Promise<SearchHit[]> {
+    const result = await this.pool.query(
+      `WITH q AS (SELECT websearch_to_tsquery('english', $1) AS query)
+       SELECT a.id, a.title, a.url, a.published_at, a.fetched_at,
+              ts_rank(a.search_vector, q.query) AS score,
+              ts_headline('english', coalesce(a.excerpt, ''), q.query, $3) AS snippet
+       FROM articles a, q
+       WHERE a.workspace_id = $4 AND a.search_vector @@ q.query
+       ORDER BY score DESC
+       LIMIT $2`,
+      [query, limit, HEADLINE_OPTIONS, this.workspaceId]
+    );
+
+    return result.rows.map(row => ({
+      kind: "article" as const,
+      id: row.id,
+      title: row.title,
+      url: row.url,
+      date: (row.published_at ?? row.fetched_at).toISOString(),
+      score: Number(row.score),
+      snippet: parseHighlighted(row.snippet)
+    }));
+  }
+}
+
+// Workspaces storage implementation
+class PostgresWorkspacesStorage implements IWorkspacesStorage {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async list(): Promise<Workspace[]> {
+    const result = await this.pool.query(`SELECT * FROM workspaces ORDER BY created_at ASC`);
+    return result.rows.map(row => this.rowToWorkspace(row));
+  }
+
+  async getById(id: string): Promise<Workspace | null> {
+    const result = await this.pool.query(`SELECT * FROM workspaces WHERE id::text = $1`, [id]);
+    if (result.rows.length === 0) return null;
+    return this.rowToWorkspace(result.rows[0]);
+  }
+
+  async create(input: { slug: string; name: string; hostname: string | null }): Promise<Workspace> {
+    await this.ensureUnique(input.slug, input.hostname);
+    const result = await this.pool.query(
+      `INSERT INTO workspaces (id, slug, name, hostname)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [crypto.randomUUID(), input.slug, input.name, input.hostname]
+    );
+
+    return this.rowToWorkspace(result.rows[0]);
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<Workspace, "slug" | "name" | "hostname">>
+  ): Promise<Workspace | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const slug = updates.slug ?? existing.slug;
+    const hostname = updates.hostname !== undefined ? updates.hostname : existing.hostname;
+    await this.ensureUnique(slug, hostname, id);
+
+    const result = await this.pool.query(
+      `UPDATE workspaces
+       SET slug = $1,
+           name = $2,
+           hostname = $3
+       WHERE id = $4
+       RETURNING *`,
+      [slug, updates.name ?? existing.name, hostname, id]
+    );
+
+    return this.rowToWorkspace(result.rows[0]);
+  }
+
+  private async ensureUnique(slug: string, hostname: string | null, selfId?: string): Promise<void> {
+    const result = await this.pool.query(
+      `SELECT slug, hostname FROM workspaces
+       WHERE (slug = $1 OR hostname = $2) AND id::text IS DISTINCT FROM $3`,
+      [slug, hostname, selfId ?? null]
+    );
+    if (result.rows.some(row => row.slug === slug)) throw new Error(`The workspace slug "${slug}" is taken`);
+    if (result.rows.length > 0) throw new Error(`The hostname "${hostname}" is used by another workspace`);
+  }
+
+  private rowToWorkspace(row: any): Workspace {
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      hostname: row.hostname || null,
+      createdAt: row.created_at.toISOString()
+    };
+  }
+}
+
+// Audit log storage implementation
+class PostgresAuditStorage implements IAuditStorage {
+  private pool: Pool;
+  private workspaceId: string;
+
+  constructor(pool: Pool, workspaceId: string) {
+    this.pool = pool;
+    this.workspaceId = workspaceId;
+  }
+
+  async append(input: Omit<AuditEntry, "id" | "at">): Promise<AuditEntry> {
+    const result = await this.pool.query(
+      `INSERT INTO audit_log (workspace_id, actor_id, actor_name, action, entity_type, entity_id, entity_title, changes)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [
+        this.workspaceId,
+        input.actorId,
+        input.actorName,
+        input.action,
+        input.entityType,
+        input.entityId,
+        input.entityTitle,
+        JSON.stringify(input.changes)
+      ]
+    );
+    return this.rowToEntry(result.rows[0]);
+  }
+
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    let query = `SELECT * FROM audit_log WHERE workspace_id = $1`;
+    const params: any[] = [this.workspaceId];
+
+    for (const [condition, value] of [
+      ["actor_id =", filter.actorId],
+      ["action =", filter.action],
+      ["entity_type =", filter.entityType],
+      ["entity_id =", filter.entityId],
+      ["at >=", filter.from],
+      ["at <=", filter.to]
+    ] as const) {
+      if (!value) continue;
+      params.push(value);
+      query += ` AND ${condition} $${params.length}`;
+    }
+
+    params.push(auditLimit(filter));
+    query += ` ORDER BY at DESC LIMIT $${params.length}`;
+
+    const result = await this.pool.query(query, params);
+    return result.rows.map(row => this.rowToEntry(row));
+  }
+
+  private rowToEntry(row: any): AuditEntry {
+    return {
+      id: row.id,
+      at: row.at.toISOString(),
+      actorId: row.actor_id ?? null,
+      actorName: row.actor_name,
+      action: row.action,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      entityTitle: row.entity_title,
+      changes: row.changes ?? []
+    };
+  }
+}
+
+// Media storage implementation
+class PostgresMediaStorage implements IMediaStorage {
+  private pool: Pool;
+  private workspaceId: string;
+
+  constructor(pool: Pool, workspaceId: string) {
+    this.pool = pool;
+    this.workspaceId = workspaceId;
+  }
+
+  async list(): Promise<MediaAsset[]> {
+    const result = await this.pool.query(`SELECT * FROM media WHERE workspace_id = $1 ORDER BY created_at DESC`, [
+      this.workspaceId
+    ]);
+    return result.rows.map(row => this.rowToAsset(row));
+  }
+
+  async getById(id: string): Promise<MediaAsset | null> {
+    const result = await this.pool.query(`SELECT * FROM media WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
+    return result.rows.length > 0 ? this.rowToAsset(result.rows[0]) : null;
+  }
+
+  async create(
+    asset: Omit<MediaAsset, "id" | "createdAt" | "updatedAt">,
+    files: Map<string, Buffer>
+  ): Promise<MediaAsset> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO media (workspace_id, filename, alt, caption, credit, license, original, renditions, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          this.workspaceId,
+          asset.filename,
+          asset.alt,
+          asset.caption || null,
+          asset.credit || null,
+          asset.license || null,
+          JSON.stringify(asset.original),
+          JSON.stringify(asset.renditions),
+          asset.createdBy || null
+        ]
+      );
+      const created = this.rowToAsset(result.rows[0]);
+
+      for (const { file } of [asset.original, ...asset.renditions]) {
+        const data = files.get(file);
+        if (!data) throw new Error(`Missing data for ${file}`);
+        await client.query(`INSERT INTO media_files (media_id, file, data) VALUES ($1, $2, $3)`, [
+          created.id,
+          file,
+          data
+        ]);
+      }
+
+      await client.query('COMMIT');
+      return created;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<MediaAsset, "alt" | "caption" | "credit" | "license">>
+  ): Promise<MediaAsset | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const result = await this.pool.query(
+      `UPDATE media
+       SET alt = $1,
+           caption = $2,
+           credit = $3,
+           license = $4,
+           updated_at = NOW()
+       WHERE id = $5 AND workspace_id = $6
+       RETURNING *`,
+      [
+        updates.alt ?? existing.alt,
+        updates.caption !== undefined ? (updates.caption || null) : (existing.caption ?? null),
+        updates.credit !== undefined ? (updates.credit || null) : (existing.credit ?? null),
+        updates.license !== undefined ? (updates.license || null) : (existing.license ?? null),
+        id,
+        this.workspaceId
+      ]
+    );
+    return result.rows.length > 0 ? this.rowToAsset(result.rows[0]) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.pool.query(`DELETE FROM media WHERE id = $1 AND workspace_id = $2`, [
+      id,
+      this.workspaceId
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async readFile(id: string, file: string): Promise<Buffer | null> {
+    const result = await this.pool.query(
+      `SELECT f.data FROM media_files f JOIN media m ON m.id = f.media_id
+       WHERE f.media_id = $1 AND f.file = $2 AND m.workspace_id = $3`,
+      [id, file, this.workspaceId]
+    );
+    return result.rows.length > 0 ? (result.rows[0].data as Buffer) : null;
+  }
+
+  async put(asset: MediaAsset, files: Map<string, Buffer>): Promise<MediaAsset> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `INSERT INTO media (id, workspace_id, filename, alt, caption, credit, license, original, renditions, created_by, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         ON CONFLICT (id) DO UPDATE
+         SET filename = EXCLUDED.filename,
+             alt = EXCLUDED.alt,
+             caption = EXCLUDED.caption,
+             credit = EXCLUDED.credit,
+             license = EXCLUDED.license,
+             original = EXCLUDED.original,
+             renditions = EXCLUDED.renditions,
+             created_by = EXCLUDED.created_by,
+             created_at = EXCLUDED.created_at,
+             updated_at = EXCLUDED.updated_at
+         WHERE media.workspace_id = EXCLUDED.workspace_id
+         RETURNING *`,
+        [
+          asset.id,
+          this.workspaceId,
+          asset.filename,
+          asset.alt,
+          asset.caption || null,
+          asset.credit || null,
+          asset.license || null,
+          JSON.stringify(asset.original),
+          JSON.stringify(asset.renditions),
+          asset.createdBy || null,
+          asset.createdAt,
+          asset.updatedAt
+        ]
+      );
+      if (result.rows.length === 0) throw new Error(`Media ${asset.id} belongs to another workspace`);
+
+      await client.query(`DELETE FROM media_files WHERE media_id = $1`, [asset.id]);
+      for (const { file } of [asset.original, ...asset.renditions]) {
+        const data = files.get(file);
+        if (!data) throw new Error(`Missing data for ${file}`);
+        await client.query(`INSERT INTO media_files (media_id, file, data) VALUES ($1, $2, $3)`, [asset.id, file, data]);
+      }
+
+      await client.query('COMMIT');
+      return this.rowToAsset(result.rows[0]);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private rowToAsset(row: any): MediaAsset {
+    return {
+      id: row.id,
+      filename: row.filename,
+      alt: row.alt,
+      caption: row.caption || undefined,
+      credit: row.credit || undefined,
+      license: row.license || undefined,
+      original: row.original,
+      renditions: row.renditions ?? [],
+      createdAt: row.created_at.toISOString(),
+      updatedAt: row.updated_at.toISOString(),
+      createdBy: row.created_by || undefined
+    };
+  }
+}
+
 // Main provider implementation
 export class PostgresStorageProvider implements IStorageProvider {
   private pool: Pool;
-  posts: IPostsStorage;
-  sources: ISourcesStorage;
-  org: IOrgStorage;
-  watchedSources: IWatchedSourcesStorage;
-  articles: IArticlesStorage;
+  users: IUsersStorage;
+  settings: ISettingsStorage;
+  workspaces: IWorkspacesStorage;
 
   constructor() {
     this.pool = getPool();
-    this.posts = new PostgresPostsStorage(this.pool);
-    this.sources = new PostgresSourcesStorage(this.pool);
-    this.org = new PostgresOrgStorage(this.pool);
-    this.watchedSources = new PostgresWatchedSourcesStorage(this.pool);
-    this.articles = new PostgresArticlesStorage(this.pool);
+    this.users = new PostgresUsersStorage(this.pool);
+    this.settings = new PostgresSettingsStorage(this.pool);
+    this.workspaces = new PostgresWorkspacesStorage(this.pool);
+  }
+
+  workspace(workspaceId: string): IWorkspaceStorage {
+    return {
+      workspaceId,
+      posts: new PostgresPostsStorage(this.pool, workspaceId),
+      sources: new PostgresSourcesStorage(this.pool, workspaceId),
+      org: new PostgresOrgStorage(this.pool, workspaceId),
+      watchedSources: new PostgresWatchedSourcesStorage(this.pool, workspaceId),
+      articles: new PostgresArticlesStorage(this.pool, workspaceId),
+      search: new PostgresSearchStorage(this.pool, workspaceId),
+      audit: new PostgresAuditStorage(this.pool, workspaceId),
+      media: new PostgresMediaStorage(this.pool, workspaceId)
+    };
   }
 
   async init(): Promise<void> {
@@ -795,15 +2146,25 @@ export class PostgresStorageProvider implements IStorageProvider {
       throw new Error(`Failed to connect to PostgreSQL database: ${err instanceof Error ? err.message : String(err)}`);
     }
 
-    // Ensure organization exists (seed if not)
-    const orgResult = await this.pool.query(`SELECT COUNT(*) as count FROM organization`);
+    // Bring the schema up to date
+    const applied = await migratePostgres(this.pool);
+    if (applied.length > 0) {
+      console.log(`Applied database migrations: ${applied.map(migrationLabel).join(", ")}`);
+    }
+
+    // Ensure the default workspace has an organization (seed if not)
+    const orgResult = await this.pool.query(`SELECT COUNT(*) as count FROM organization WHERE workspace_id = $1`, [
+      DEFAULT_WORKSPACE_ID
+    ]);
     if (parseInt(orgResult.rows[0].count) === 0) {
       const profile = makeSeedProfile();
-      await this.org.update(profile);
+      await this.workspace(DEFAULT_WORKSPACE_ID).org.update(profile);
     }
 
     // Seed sample post if none exist
-    const postsResult = await this.pool.query(`SELECT COUNT(*) as count FROM posts`);
+    const postsResult = await this.pool.query(`SELECT COUNT(*) as count FROM posts WHERE workspace_id = $1`, [
+      DEFAULT_WORKSPACE_ID
+    ]);
     if (parseInt(postsResult.rows[0].count) === 0) {
       try {
         const { makeSeedPost } = await import("../seed");
@@ -814,8 +2175,8 @@ export class PostgresStorageProvider implements IStorageProvider {
           await client.query('BEGIN');
 
           await client.query(
-            `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, seo_title, seo_description, published_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())`,
+            `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, seo_title, seo_description, published_at, workspace_id)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), $10)`,
             [
               seed.id,
               seed.meta.slug,
@@ -825,7 +2186,8 @@ export class PostgresStorageProvider implements IStorageProvider {
               seed.meta.summary,
               JSON.stringify(seed.meta.keywords),
               seed.meta.seoTitle || null,
-              seed.meta.seoDescription || null
+              seed.meta.seoDescription || null,
+              DEFAULT_WORKSPACE_ID
             ]
           );
 
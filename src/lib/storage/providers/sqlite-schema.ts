@@ -0,0 +1,458 @@
+/**
+ * SQLite schema
+ *
+ * The SQLite counterpart of the PostgreSQL migrations: same tables, columns,
+ * constraints and indexes. UUIDs and timestamps are TEXT (timestamps as
+ * ISO 8601 strings in UTC, so they sort correctly), JSONB columns hold JSON
+ * text and booleans are 0/1. Every statement is idempotent; the provider
+ * runs it on every start. CREATE TABLE IF NOT EXISTS leaves existing tables
+ * alone, so columns added later are also listed in SQLITE_ADDED_COLUMNS.
+ * Tables whose unique keys became per-workspace (posts, watched sources,
+ * articles) are rebuilt once on databases from before workspaces.
+ * Full-text search is an FTS5 table that triggers keep in step with posts,
+ * sources and articles; it is filled from existing rows when first created.
+ */
+
+import type Database from "better-sqlite3";
+import { DEFAULT_WORKSPACE_ID, DEFAULT_WORKSPACE_SLUG } from "../workspaceSchema";
+
+// Same format as Date.prototype.toISOString()
+export const SQLITE_NOW = `strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+// Column added to every table scoped to a workspace
+const WORKSPACE_COLUMN = `workspace_id TEXT NOT NULL DEFAULT '${DEFAULT_WORKSPACE_ID}'`;
+
+export const SQLITE_SCHEMA = `
+-- Organizations sharing this deployment; content tables carry workspace_id
+CREATE TABLE IF NOT EXISTS workspaces (
+    id TEXT PRIMARY KEY,
+    slug TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    hostname TEXT UNIQUE,
+    created_at TEXT DEFAULT (${SQLITE_NOW})
+);
+
+-- Organization profile (one row per workspace)
+CREATE TABLE IF NOT EXISTS organization (
+    id TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16)))),
+    name TEXT NOT NULL,
+    website TEXT DEFAULT '',
+    tagline TEXT NOT NULL,
+    mission TEXT NOT NULL,
+    focus_areas TEXT DEFAULT '[]',
+    objectives TEXT DEFAULT '[]',
+    voice_guidelines TEXT NOT NULL,
+    preferred_terms TEXT DEFAULT '[]',
+    avoid_terms TEXT DEFAULT '[]',
+    onboarding_completed_at TEXT,
+    relevance_rules TEXT,
+    created_at TEXT DEFAULT (${SQLITE_NOW}),
+    updated_at TEXT DEFAULT (${SQLITE_NOW}),
+    ${WORKSPACE_COLUMN}
+);
+
+DROP INDEX IF EXISTS organization_singleton;
+
+-- User accounts (dashboard sign-in)
+CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('viewer', 'writer', 'editor', 'admin')),
+    password_hash TEXT NOT NULL,
+    disabled INTEGER NOT NULL DEFAULT 0 CHECK (disabled IN (0, 1)),
+    created_at TEXT DEFAULT (${SQLITE_NOW}),
+    updated_at TEXT DEFAULT (${SQLITE_NOW})
+);
+
+-- Blog posts
+CREATE TABLE IF NOT EXISTS posts (
+    id TEXT PRIMARY KEY,
+    slug TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED')),
+    title TEXT NOT NULL,
+    subtitle TEXT,
+    summary TEXT NOT NULL,
+    keywords TEXT DEFAULT '[]',
+    tags TEXT NOT NULL DEFAULT '[]',
+    seo_title TEXT,
+    seo_description TEXT,
+    created_at TEXT DEFAULT (${SQLITE_NOW}),
+    updated_at TEXT DEFAULT (${SQLITE_NOW}),
+    published_at TEXT,
+    scheduled_for TEXT,
+    created_by TEXT,
+    updated_by TEXT,
+    review TEXT,
+    generation TEXT,
+    citations TEXT DEFAULT '[]',
+    featured_image_id TEXT,
+    ${WORKSPACE_COLUMN},
+    UNIQUE (workspace_id, slug),
+    CONSTRAINT valid_published_at CHECK (
+        (status = 'PUBLISHED' AND published_at IS NOT NULL) OR
+        (status = 'SCHEDULED' AND scheduled_for IS NOT NULL) OR
+        (status IN ('DRAFT', 'IN_REVIEW', 'ARCHIVED'))
+    )
+);
+
+-- Post content (separate table for performance)
+CREATE TABLE IF NOT EXISTS post_content (
+    post_id TEXT PRIMARY KEY REFERENCES posts(id) ON DELETE CASCADE,
+    content_markdown TEXT NOT NULL,
+    updated_at TEXT DEFAULT (${SQLITE_NOW})
+);
+
+-- Post revisions (immutable snapshot of every save)
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id TEXT PRIMARY KEY,
+    post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    source TEXT NOT NULL CHECK (source IN ('generate', 'improve', 'manual', 'restore')),
+    author TEXT NOT NULL,
+    title TEXT NOT NULL,
+    subtitle TEXT,
+    summary TEXT NOT NULL,
+    keywords TEXT DEFAULT '[]',
+    seo_title TEXT,
+    seo_description TEXT,
+    content_markdown TEXT NOT NULL,
+    tags TEXT,
+    citations TEXT,
+    featured_image_id TEXT,
+    created_at TEXT DEFAULT (${SQLITE_NOW})
+);
+
+-- Review comments, anchored to a section of the post content
+CREATE TABLE IF NOT EXISTS post_comments (
+    id TEXT PRIMARY KEY,
+    post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+    author_id TEXT NOT NULL,
+    author_name TEXT NOT NULL,
+    body TEXT NOT NULL,
+    section_id TEXT NOT NULL,
+    section_title TEXT NOT NULL,
+    quote TEXT,
+    resolved INTEGER NOT NULL DEFAULT 0 CHECK (resolved IN (0, 1)),
+    resolved_by TEXT,
+    resolved_at TEXT,
+    created_at TEXT DEFAULT (${SQLITE_NOW})
+);
+
+-- Indexes for posts
+CREATE INDEX IF NOT EXISTS idx_posts_status ON posts(status);
+CREATE INDEX IF NOT EXISTS idx_posts_published_at ON posts(published_at DESC) WHERE status = 'PUBLISHED';
+CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_posts_slug ON posts(slug);
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled_for ON posts(scheduled_for) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post_id ON post_revisions(post_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_comments_post_id ON post_comments(post_id, created_at);
+
+-- Knowledge sources
+CREATE TABLE IF NOT EXISTS sources (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL CHECK (type IN ('UPLOAD', 'PASTE', 'ORG_URL', 'COMPETITOR_URL')),
+    title TEXT NOT NULL,
+    url TEXT,
+    word_count INTEGER NOT NULL DEFAULT 0,
+    sha256 TEXT NOT NULL,
+    created_at TEXT DEFAULT (${SQLITE_NOW}),
+    updated_at TEXT,
+    refreshed_at TEXT,
+    refresh_changed INTEGER CHECK (refresh_changed IN (0, 1)),
+    tags TEXT NOT NULL DEFAULT '[]',
+    collections TEXT NOT NULL DEFAULT '[]',
+    ${WORKSPACE_COLUMN}
+);
+
+-- Source content (separate table for performance)
+CREATE TABLE IF NOT EXISTS source_content (
+    source_id TEXT PRIMARY KEY REFERENCES sources(id) ON DELETE CASCADE,
+    content_text TEXT NOT NULL,
+    updated_at TEXT DEFAULT (${SQLITE_NOW})
+);
+
+-- Retrieval chunks of each source; embedding is a JSON float array tagged with its model
+CREATE TABLE IF NOT EXISTS source_chunks (
+    id TEXT PRIMARY KEY,
+    source_id TEXT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    text TEXT NOT NULL,
+    embedding TEXT,
+    embedding_model TEXT,
+    UNIQUE (source_id, chunk_index)
+);
+
+-- Indexes for sources
+CREATE INDEX IF NOT EXISTS idx_sources_type ON sources(type);
+CREATE INDEX IF NOT EXISTS idx_sources_created_at ON sources(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sources_sha256 ON sources(sha256);
+
+-- Watched sources (RSS/HTML monitoring)
+CREATE TABLE IF NOT EXISTS watched_sources (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('RSS', 'HTML')),
+    enabled INTEGER NOT NULL DEFAULT 1 CHECK (enabled IN (0, 1)),
+    last_fetched_at TEXT,
+    fetch_interval_hours INTEGER NOT NULL DEFAULT 24,
+    created_at TEXT DEFAULT (${SQLITE_NOW}),
+    ${WORKSPACE_COLUMN},
+    UNIQUE (workspace_id, url)
+);
+
+-- Indexes for watched sources
+CREATE INDEX IF NOT EXISTS idx_watched_sources_enabled ON watched_sources(enabled);
+CREATE INDEX IF NOT EXISTS idx_watched_sources_last_fetched ON watched_sources(last_fetched_at);
+
+-- Fetched articles
+CREATE TABLE IF NOT EXISTS articles (
+    id TEXT PRIMARY KEY,
+    source_id TEXT NOT NULL REFERENCES watched_sources(id) ON DELETE CASCADE,
+    source_name TEXT NOT NULL,
+    title TEXT NOT NULL,
+    url TEXT NOT NULL,
+    published_at TEXT,
+    fetched_at TEXT DEFAULT (${SQLITE_NOW}),
+    excerpt TEXT,
+    matched_keywords TEXT DEFAULT '[]',
+    relevance_score REAL NOT NULL DEFAULT 0.0 CHECK (relevance_score >= 0 AND relevance_score <= 1),
+    saved_to_knowledge INTEGER NOT NULL DEFAULT 0 CHECK (saved_to_knowledge IN (0, 1)),
+    created_at TEXT DEFAULT (${SQLITE_NOW}),
+    ${WORKSPACE_COLUMN},
+    UNIQUE (workspace_id, url)
+);
+
+-- Indexes for articles
+CREATE INDEX IF NOT EXISTS idx_articles_source_id ON articles(source_id);
+CREATE INDEX IF NOT EXISTS idx_articles_fetched_at ON articles(fetched_at DESC);
+CREATE INDEX IF NOT EXISTS idx_articles_relevance_score ON articles(relevance_score DESC);
+CREATE INDEX IF NOT EXISTS idx_articles_saved ON articles(saved_to_knowledge);
+CREATE INDEX IF NOT EXISTS idx_articles_url ON articles(url);
+
+-- Audit log: who changed what, append-only
+CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id),
+    at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+    actor_id TEXT,
+    actor_name TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    entity_title TEXT NOT NULL DEFAULT '',
+    changes TEXT NOT NULL DEFAULT '[]'
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_workspace_at ON audit_log(workspace_id, at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_id);
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+END;
+
+-- Media library: uploaded images, and the bytes of each one's original and renditions
+CREATE TABLE IF NOT EXISTS media (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id),
+    filename TEXT NOT NULL,
+    alt TEXT NOT NULL,
+    caption TEXT,
+    credit TEXT,
+    license TEXT,
+    original TEXT NOT NULL,
+    renditions TEXT NOT NULL DEFAULT '[]',
+    created_by TEXT,
+    created_at TEXT NOT NULL DEFAULT (${SQLITE_NOW}),
+    updated_at TEXT NOT NULL DEFAULT (${SQLITE_NOW})
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_workspace_created ON media(workspace_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS media_files (
+    media_id TEXT NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+    file TEXT NOT NULL,
+    data BLOB NOT NULL,
+    PRIMARY KEY (media_id, file)
+);
+
+-- Key/value application settings (AI provider chain, ...)
+CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT DEFAULT (${SQLITE_NOW})
+);
+`;
+
+// Columns added after their table first shipped, as [table, column, definition]
+export const SQLITE_ADDED_COLUMNS: Array<[string, string, string]> = [
+  ["sources", "updated_at", "TEXT"],
+  ["sources", "refreshed_at", "TEXT"],
+  ["sources", "refresh_changed", "INTEGER CHECK (refresh_changed IN (0, 1))"],
+  ["sources", "tags", "TEXT NOT NULL DEFAULT '[]'"],
+  ["sources", "collections", "TEXT NOT NULL DEFAULT '[]'"],
+  ["organization", "workspace_id", WORKSPACE_COLUMN.replace(/^workspace_id /, "")],
+  ["sources", "workspace_id", WORKSPACE_COLUMN.replace(/^workspace_id /, "")],
+  ["organization", "relevance_rules", "TEXT"],
+  ["posts", "featured_image_id", "TEXT"],
+  ["posts", "tags", "TEXT NOT NULL DEFAULT '[]'"],
+  ["post_revisions", "tags", "TEXT"],
+  ["post_revisions", "citations", "TEXT"],
+  ["post_revisions", "featured_image_id", "TEXT"]
+];
+
+// Tables whose URL or slug used to be unique across the whole database
+const SQLITE_REBUILT_FOR_WORKSPACES = ["posts", "watched_sources", "articles"];
+
+// Run once workspace_id exists everywhere: the default workspace and the per-workspace indexes
+const SQLITE_WORKSPACE_SCHEMA = `
+INSERT INTO workspaces (id, slug, name)
+VALUES ('${DEFAULT_WORKSPACE_ID}', '${DEFAULT_WORKSPACE_SLUG}', coalesce((SELECT name FROM organization LIMIT 1), 'Default workspace'))
+ON CONFLICT (id) DO NOTHING;
+
+CREATE UNIQUE INDEX IF NOT EXISTS organization_workspace ON organization(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_sources_workspace_sha256 ON sources(workspace_id, sha256);
+`;
+
+function hasColumn(db: Database.Database, table: string, column: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Copy each table that predates workspaces into a table with the current
+ * definition from SQLITE_SCHEMA. Foreign keys are off while the old table
+ * is dropped so dependent rows survive, and the search triggers are dropped
+ * (they are recreated afterwards) so the rename doesn't trip over them.
+ */
+function rebuildForWorkspaces(db: Database.Database) {
+  const tables = SQLITE_REBUILT_FOR_WORKSPACES.filter((t) => !hasColumn(db, t, "workspace_id"));
+  if (tables.length === 0) return false;
+
+  db.pragma("foreign_keys = OFF");
+  try {
+    db.transaction(() => {
+      const triggers = db
+        .prepare(`SELECT name FROM sqlite_master WHERE type = 'trigger' AND name LIKE 'search_%'`)
+        .all() as Array<{ name: string }>;
+      for (const { name } of triggers) db.exec(`DROP TRIGGER ${name}`);
+
+      for (const table of tables) {
+        const pattern = new RegExp(`CREATE TABLE IF NOT EXISTS ${table} \\(([\\s\\S]*?)\\n\\);`);
+        const definition = SQLITE_SCHEMA.match(pattern);
+        if (!definition) throw new Error(`No definition for table ${table}`);
+        const columns = (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+          .map((c) => c.name)
+          .join(", ");
+
+        db.exec(`CREATE TABLE ${table}_rebuild (${definition[1]}\n);`);
+        db.exec(`INSERT INTO ${table}_rebuild (${columns}) SELECT ${columns} FROM ${table}`);
+        db.exec(`DROP TABLE ${table}`);
+        db.exec(`ALTER TABLE ${table}_rebuild RENAME TO ${table}`);
+      }
+    })();
+  } finally {
+    db.pragma("foreign_keys = ON");
+  }
+  return true;
+}
+
+// Replace one record's search row with its current text
+function reindexPost(id: string) {
+  return `
+    DELETE FROM search_index WHERE kind = 'post' AND doc_id = ${id};
+    INSERT INTO search_index (kind, doc_id, title, body)
+    SELECT 'post', p.id, p.title,
+           concat_ws(' ', p.subtitle, p.summary, (SELECT group_concat(value, ', ') FROM json_each(p.keywords)), pc.content_markdown)
+    FROM posts p LEFT JOIN post_content pc ON pc.post_id = p.id
+    WHERE p.id = ${id};`;
+}
+
+function reindexSource(id: string) {
+  return `
+    DELETE FROM search_index WHERE kind = 'source' AND doc_id = ${id};
+    INSERT INTO search_index (kind, doc_id, title, body)
+    SELECT 'source', s.id, s.title, coalesce(sc.content_text, '')
+    FROM sources s LEFT JOIN source_content sc ON sc.source_id = s.id
+    WHERE s.id = ${id};`;
+}
+
+function reindexArticle(id: string) {
+  return `
+    DELETE FROM search_index WHERE kind = 'article' AND doc_id = ${id};
+    INSERT INTO search_index (kind, doc_id, title, body)
+    SELECT 'article', id, title, coalesce(excerpt, '') FROM articles WHERE id = ${id};`;
+}
+
+export const SQLITE_SEARCH_SCHEMA = `
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+    kind UNINDEXED,
+    doc_id UNINDEXED,
+    title,
+    body,
+    tokenize = 'porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS search_posts_insert AFTER INSERT ON posts BEGIN ${reindexPost("NEW.id")} END;
+CREATE TRIGGER IF NOT EXISTS search_posts_update AFTER UPDATE OF title, subtitle, summary, keywords ON posts
+BEGIN ${reindexPost("NEW.id")} END;
+CREATE TRIGGER IF NOT EXISTS search_posts_delete AFTER DELETE ON posts
+BEGIN DELETE FROM search_index WHERE kind = 'post' AND doc_id = OLD.id; END;
+CREATE TRIGGER IF NOT EXISTS search_post_content_insert AFTER INSERT ON post_content
+BEGIN ${reindexPost("NEW.post_id")} END;
+CREATE TRIGGER IF NOT EXISTS search_post_content_update AFTER UPDATE OF content_markdown ON post_content
+BEGIN ${reindexPost("NEW.post_id")} END;
+
+CREATE TRIGGER IF NOT EXISTS search_sources_insert AFTER INSERT ON sources BEGIN ${reindexSource("NEW.id")} END;
+CREATE TRIGGER IF NOT EXISTS search_sources_update AFTER UPDATE OF title ON sources BEGIN ${reindexSource("NEW.id")} END;
+CREATE TRIGGER IF NOT EXISTS search_sources_delete AFTER DELETE ON sources
+BEGIN DELETE FROM search_index WHERE kind = 'source' AND doc_id = OLD.id; END;
+CREATE TRIGGER IF NOT EXISTS search_source_content_insert AFTER INSERT ON source_content
+BEGIN ${reindexSource("NEW.source_id")} END;
+CREATE TRIGGER IF NOT EXISTS search_source_content_update AFTER UPDATE OF content_text ON source_content
+BEGIN ${reindexSource("NEW.source_id")} END;
+
+CREATE TRIGGER IF NOT EXISTS search_articles_insert AFTER INSERT ON articles BEGIN ${reindexArticle("NEW.id")} END;
+CREATE TRIGGER IF NOT EXISTS search_articles_update AFTER UPDATE OF title, excerpt ON articles
+BEGIN ${reindexArticle("NEW.id")} END;
+CREATE TRIGGER IF NOT EXISTS search_articles_delete AFTER DELETE ON articles
+BEGIN DELETE FROM search_index WHERE kind = 'article' AND doc_id = OLD.id; END;
+`;
+
+// Fill the search index from every existing record
+const SQLITE_SEARCH_BACKFILL = `
+DELETE FROM search_index;
+INSERT INTO search_index (kind, doc_id, title, body)
+SELECT 'post', p.id, p.title,
+       concat_ws(' ', p.subtitle, p.summary, (SELECT group_concat(value, ', ') FROM json_each(p.keywords)), pc.content_markdown)
+FROM posts p LEFT JOIN post_content pc ON pc.post_id = p.id;
+INSERT INTO search_index (kind, doc_id, title, body)
+SELECT 'source', s.id, s.title, coalesce(sc.content_text, '')
+FROM sources s LEFT JOIN source_content sc ON sc.source_id = s.id;
+INSERT INTO search_index (kind, doc_id, title, body)
+SELECT 'article', id, title, coalesce(excerpt, '') FROM articles;
+`;
+
+export function applySqliteSchema(db: Database.Database) {
+  db.exec(SQLITE_SCHEMA);
+  for (const [table, column, definition] of SQLITE_ADDED_COLUMNS) {
+    if (!hasColumn(db, table, column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  // A rebuild drops the tables' indexes; running the schema again restores them
+  if (rebuildForWorkspaces(db)) db.exec(SQLITE_SCHEMA);
+  db.exec(SQLITE_WORKSPACE_SCHEMA);
+
+  const hasSearch = db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'search_index'`).get();
+  db.transaction(() => {
+    db.exec(SQLITE_SEARCH_SCHEMA);
+    if (!hasSearch) db.exec(SQLITE_SEARCH_BACKFILL);
+  })();
+}
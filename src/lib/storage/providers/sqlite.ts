@@ -0,0 +1,2044 @@
+/**
+ * SQLite storage provider
+ *
+ * Stores data in a single SQLite database file for one-server deployments.
+ * Same tables and indexes as the PostgreSQL provider, without needing a database server.
+ */
+
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+import type {
+  IStorageProvider,
+  IPostsStorage,
+  ISourcesStorage,
+  IOrgStorage,
+  IWatchedSourcesStorage,
+  IArticlesStorage,
+  IUsersStorage,
+  ISettingsStorage,
+  ISearchStorage,
+  IWorkspacesStorage,
+  IWorkspaceStorage,
+  IAuditStorage,
+  IMediaStorage,
+  RevisionContext
+} from "../interfaces";
+import type {
+  BlogPost,
+  BlogPostMeta,
+  PostStatus,
+  PostReview,
+  PostComment,
+  PostCommentAnchor,
+  PostCitation,
+  PostRevision,
+  PostRevisionMeta,
+  RevisionSource,
+  KnowledgeSource,
+  KnowledgeSourceMeta,
+  SourceChunk,
+  SourceType,
+  GenerationRecord,
+  OrganizationProfile,
+  WatchedSource,
+  WatchedSourceType,
+  FetchedArticle,
+  User,
+  UserRecord,
+  UserRole,
+  AiSettings,
+  SearchHit,
+  SearchKind,
+  SearchOptions,
+  Workspace,
+  AuditEntry,
+  AuditFilter,
+  RelevanceRules,
+  MediaAsset
+} from "../types";
+import { slugify } from "@/lib/utils/slug";
+import { makeSeedProfile } from "../seed";
+import { chunkText } from "@/lib/rag/chunk";
+import { SQLITE_PATH } from "../paths";
+import { SQLITE_NOW, applySqliteSchema } from "./sqlite-schema";
+import { DEFAULT_WORKSPACE_ID } from "../workspaceSchema";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  MAX_SEARCH_LIMIT,
+  parseHighlighted,
+  toFtsQuery
+} from "@/lib/search/full-text";
+import { auditLimit } from "@/lib/audit/log";
+import crypto from "node:crypto";
+
+type Db = Database.Database;
+
+// Database connection (better-sqlite3 is synchronous, so one connection serves every request)
+let db: Db | null = null;
+
+function getDb(): Db {
+  if (!db) {
+    mkdirSync(path.dirname(SQLITE_PATH), { recursive: true });
+    db = new Database(SQLITE_PATH);
+    // WAL lets readers continue while a write is in progress
+    db.pragma("journal_mode = WAL");
+    db.pragma("synchronous = NORMAL");
+    db.pragma("foreign_keys = ON");
+    db.pragma("busy_timeout = 5000");
+  }
+  return db;
+}
+
+// Helper functions
+function cleanText(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function wordCount(text: string) {
+  const t = cleanText(text);
+  if (!t) return 0;
+  return t.split(/\s+/).filter(Boolean).length;
+}
+
+function sha256(text: string) {
+  return crypto.createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+function nowIso() {
+  return new Date().toISOString();
+}
+
+function parseJson<T>(text: string | null | undefined, fallback: T): T {
+  if (!text) return fallback;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Limits post_revisions/post_comments rows to posts in the workspace bound after the other parameters
+const POST_IN_WORKSPACE = `post_id IN (SELECT id FROM posts WHERE workspace_id = ?)`;
+
+// Posts storage implementation
+class SqlitePostsStorage implements IPostsStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async getById(id: string): Promise<BlogPost | null> {
+    const row = this.db
+      .prepare(
+        `SELECT p.*, pc.content_markdown
+         FROM posts p
+         JOIN post_content pc ON p.id = pc.post_id
+         WHERE p.id = ? AND p.workspace_id = ?`
+      )
+      .get(id, this.workspaceId);
+
+    return row ? this.rowToPost(row) : null;
+  }
+
+  async getBySlug(slug: string): Promise<BlogPost | null> {
+    const row = this.db
+      .prepare(
+        `SELECT p.*, pc.content_markdown
+         FROM posts p
+         JOIN post_content pc ON p.id = pc.post_id
+         WHERE p.slug = ? AND p.workspace_id = ?`
+      )
+      .get(slug, this.workspaceId);
+
+    return row ? this.rowToPost(row) : null;
+  }
+
+  async getPublishedBySlug(slug: string): Promise<BlogPost | null> {
+    const row = this.db
+      .prepare(
+        `SELECT p.*, pc.content_markdown
+         FROM posts p
+         JOIN post_content pc ON p.id = pc.post_id
+         WHERE p.slug = ? AND p.workspace_id = ? AND p.status = 'PUBLISHED'`
+      )
+      .get(slug, this.workspaceId);
+
+    return row ? this.rowToPost(row) : null;
+  }
+
+  async list(status?: PostStatus): Promise<BlogPostMeta[]> {
+    const rows = status
+      ? this.db
+          .prepare(
+            `SELECT * FROM posts WHERE workspace_id = ? AND status = ? ORDER BY COALESCE(published_at, created_at) DESC`
+          )
+          .all(this.workspaceId, status)
+      : this.db
+          .prepare(`SELECT * FROM posts WHERE workspace_id = ? ORDER BY COALESCE(published_at, created_at) DESC`)
+          .all(this.workspaceId);
+
+    return rows.map(row => this.rowToPostMeta(row));
+  }
+
+  async listPublished(): Promise<BlogPostMeta[]> {
+    return this.list("PUBLISHED");
+  }
+
+  async create(
+    input: {
+      title: string;
+      subtitle?: string;
+      summary: string;
+      keywords: string[];
+      tags?: string[];
+      seoTitle?: string;
+      seoDescription?: string;
+      contentMarkdown: string;
+      generation?: GenerationRecord;
+      citations?: PostCitation[];
+      featuredImageId?: string;
+    },
+    revision: RevisionContext
+  ): Promise<BlogPost> {
+    return this.db.transaction(() => {
+      const id = crypto.randomUUID();
+      const slug = this.ensureUniqueSlug(slugify(input.title), undefined);
+      const now = nowIso();
+
+      const row = this.db
+        .prepare(
+          `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, tags, seo_title, seo_description, created_at, updated_at, created_by, updated_by, generation, citations, featured_image_id, workspace_id)
+           VALUES (?, ?, 'DRAFT', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(
+          id,
+          slug,
+          input.title,
+          input.subtitle || null,
+          input.summary,
+          JSON.stringify(input.keywords),
+          JSON.stringify(input.tags ?? []),
+          input.seoTitle || null,
+          input.seoDescription || null,
+          now,
+          now,
+          revision.author,
+          revision.author,
+          input.generation ? JSON.stringify(input.generation) : null,
+          JSON.stringify(input.citations ?? []),
+          input.featuredImageId || null,
+          this.workspaceId
+        );
+
+      this.db
+        .prepare(`INSERT INTO post_content (post_id, content_markdown, updated_at) VALUES (?, ?, ?)`)
+        .run(id, input.contentMarkdown, now);
+
+      const post = { ...this.rowToPostMeta(row), contentMarkdown: input.contentMarkdown };
+      this.insertRevision(post, revision);
+      return post;
+    })();
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Omit<BlogPost, "id" | "createdAt" | "publishedAt" | "scheduledFor" | "review" | "generation">>,
+    revision: RevisionContext
+  ): Promise<BlogPost | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    return this.db.transaction(() => {
+      let slug = existing.slug;
+      let title = existing.title;
+
+      if (typeof updates.title === "string" && updates.title.trim() && updates.title !== existing.title) {
+        title = updates.title;
+        if (existing.status !== "PUBLISHED") {
+          slug = this.ensureUniqueSlug(slugify(title), id);
+        }
+      }
+
+      const now = nowIso();
+      const row = this.db
+        .prepare(
+          `UPDATE posts
+           SET slug = ?,
+               status = ?,
+               title = ?,
+               subtitle = ?,
+               summary = ?,
+               keywords = ?,
+               tags = ?,
+               seo_title = ?,
+               seo_description = ?,
+               citations = ?,
+               featured_image_id = ?,
+               updated_by = ?,
+               updated_at = ?
+           WHERE id = ?
+           RETURNING *`
+        )
+        .get(
+          slug,
+          updates.status ?? existing.status,
+          title,
+          (updates.subtitle !== undefined ? updates.subtitle : existing.subtitle) || null,
+          updates.summary ?? existing.summary,
+          JSON.stringify(updates.keywords ?? existing.keywords),
+          JSON.stringify(updates.tags ?? existing.tags),
+          (updates.seoTitle !== undefined ? updates.seoTitle : existing.seoTitle) || null,
+          (updates.seoDescription !== undefined ? updates.seoDescription : existing.seoDescription) || null,
+          JSON.stringify(updates.citations ?? existing.citations ?? []),
+          (updates.featuredImageId !== undefined ? updates.featuredImageId : existing.featuredImageId) || null,
+          revision.author,
+          now,
+          id
+        );
+
+      if (updates.contentMarkdown !== undefined) {
+        this.db
+          .prepare(`UPDATE post_content SET content_markdown = ?, updated_at = ? WHERE post_id = ?`)
+          .run(updates.contentMarkdown, now, id);
+      }
+
+      const post = {
+        ...this.rowToPostMeta(row),
+        contentMarkdown: updates.contentMarkdown ?? existing.contentMarkdown
+      };
+      this.insertRevision(post, revision);
+      return post;
+    })();
+  }
+
+  async publish(id: string): Promise<BlogPost | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    return this.db.transaction(() => {
+      const slug = this.ensureUniqueSlug(existing.slug, id);
+      const publishedAt = existing.publishedAt || nowIso();
+
+      const row = this.db
+        .prepare(
+          `UPDATE posts
+           SET slug = ?,
+               status = 'PUBLISHED',
+               published_at = ?,
+               scheduled_for = NULL,
+               updated_at = ?
+           WHERE id = ?
+           RETURNING *`
+        )
+        .get(slug, publishedAt, nowIso(), id);
+
+      return { ...this.rowToPostMeta(row), contentMarkdown: existing.contentMarkdown };
+    })();
+  }
+
+  async unpublish(id: string): Promise<BlogPost | null> {
+    this.db
+      .prepare(
+        `UPDATE posts
+         SET status = 'DRAFT',
+             updated_at = ?
+         WHERE id = ? AND workspace_id = ? AND status IN ('PUBLISHED', 'ARCHIVED')`
+      )
+      .run(nowIso(), id, this.workspaceId);
+
+    return this.getById(id);
+  }
+
+  async archive(id: string): Promise<BlogPost | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE posts
+         SET status = 'ARCHIVED',
+             scheduled_for = NULL,
+             updated_at = ?
+         WHERE id = ? AND workspace_id = ?`
+      )
+      .run(nowIso(), id, this.workspaceId);
+
+    if (result.changes === 0) return null;
+    return this.getById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    // post_content, post_revisions and post_comments are removed by ON DELETE CASCADE
+    const result = this.db.prepare(`DELETE FROM posts WHERE id = ? AND workspace_id = ?`).run(id, this.workspaceId);
+    return result.changes > 0;
+  }
+
+  async schedule(id: string, scheduledFor: string): Promise<BlogPost | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE posts
+         SET status = 'SCHEDULED',
+             scheduled_for = ?,
+             updated_at = ?
+         WHERE id = ? AND workspace_id = ?`
+      )
+      .run(new Date(scheduledFor).toISOString(), nowIso(), id, this.workspaceId);
+
+    if (result.changes === 0) return null;
+    return this.getById(id);
+  }
+
+  async unschedule(id: string): Promise<BlogPost | null> {
+    this.db
+      .prepare(
+        `UPDATE posts
+         SET status = 'DRAFT',
+             scheduled_for = NULL,
+             updated_at = ?
+         WHERE id = ? AND workspace_id = ? AND status = 'SCHEDULED'`
+      )
+      .run(nowIso(), id, this.workspaceId);
+
+    return this.getById(id);
+  }
+
+  async getDueForPublish(): Promise<BlogPostMeta[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM posts
+         WHERE workspace_id = ?
+           AND status = 'SCHEDULED'
+           AND scheduled_for <= ?
+         ORDER BY scheduled_for ASC`
+      )
+      .all(this.workspaceId, nowIso());
+
+    return rows.map(row => this.rowToPostMeta(row));
+  }
+
+  async listRevisions(postId: string): Promise<PostRevisionMeta[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT id, post_id, source, author, title, created_at
+         FROM post_revisions
+         WHERE post_id = ? AND ${POST_IN_WORKSPACE}
+         ORDER BY created_at DESC`
+      )
+      .all(postId, this.workspaceId);
+
+    return rows.map(row => this.rowToRevisionMeta(row));
+  }
+
+  async getRevision(postId: string, revisionId: string): Promise<PostRevision | null> {
+    const row: any = this.db
+      .prepare(`SELECT * FROM post_revisions WHERE id = ? AND post_id = ? AND ${POST_IN_WORKSPACE}`)
+      .get(revisionId, postId, this.workspaceId);
+
+    if (!row) return null;
+
+    return {
+      ...this.rowToRevisionMeta(row),
+      subtitle: row.subtitle || undefined,
+      summary: row.summary,
+      keywords: parseJson(row.keywords, []),
+      seoTitle: row.seo_title || undefined,
+      seoDescription: row.seo_description || undefined,
+      contentMarkdown: row.content_markdown,
+      tags: parseJson<string[] | undefined>(row.tags, undefined),
+      citations: parseJson<PostCitation[] | undefined>(row.citations, undefined),
+      featuredImageId: row.featured_image_id || undefined
+    };
+  }
+
+  async setReview(id: string, status: PostStatus, review: PostReview): Promise<BlogPost | null> {
+    const result = this.db
+      .prepare(
+        `UPDATE posts
+         SET status = ?,
+             review = ?,
+             updated_at = ?
+         WHERE id = ? AND workspace_id = ?`
+      )
+      .run(status, JSON.stringify(review), nowIso(), id, this.workspaceId);
+
+    if (result.changes === 0) return null;
+    return this.getById(id);
+  }
+
+  async listComments(postId: string): Promise<PostComment[]> {
+    const rows = this.db
+      .prepare(`SELECT * FROM post_comments WHERE post_id = ? AND ${POST_IN_WORKSPACE} ORDER BY created_at ASC`)
+      .all(postId, this.workspaceId);
+
+    return rows.map(row => this.rowToComment(row));
+  }
+
+  async addComment(
+    postId: string,
+    input: { authorId: string; authorName: string; body: string; anchor: PostCommentAnchor }
+  ): Promise<PostComment> {
+    const row = this.db
+      .prepare(
+        `INSERT INTO post_comments (id, post_id, author_id, author_name, body, section_id, section_title, quote, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        crypto.randomUUID(),
+        postId,
+        input.authorId,
+        input.authorName,
+        input.body,
+        input.anchor.sectionId,
+        input.anchor.sectionTitle,
+        input.anchor.quote || null,
+        nowIso()
+      );
+
+    return this.rowToComment(row);
+  }
+
+  async resolveComment(postId: string, commentId: string, resolvedBy: string | null): Promise<PostComment | null> {
+    const row = this.db
+      .prepare(
+        `UPDATE post_comments
+         SET resolved = ?,
+             resolved_by = ?,
+             resolved_at = ?
+         WHERE id = ? AND post_id = ? AND ${POST_IN_WORKSPACE}
+         RETURNING *`
+      )
+      .get(
+        resolvedBy !== null ? 1 : 0,
+        resolvedBy,
+        resolvedBy !== null ? nowIso() : null,
+        commentId,
+        postId,
+        this.workspaceId
+      );
+
+    return row ? this.rowToComment(row) : null;
+  }
+
+  async put(post: BlogPost): Promise<BlogPost> {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare(
+          `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, tags, seo_title, seo_description, created_at, updated_at, published_at, scheduled_for, created_by, updated_by, review, generation, citations, featured_image_id, workspace_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE
+           SET slug = excluded.slug,
+               status = excluded.status,
+               title = excluded.title,
+               subtitle = excluded.subtitle,
+               summary = excluded.summary,
+               keywords = excluded.keywords,
+               tags = excluded.tags,
+               seo_title = excluded.seo_title,
+               seo_description = excluded.seo_description,
+               created_at = excluded.created_at,
+               updated_at = excluded.updated_at,
+               published_at = excluded.published_at,
+               scheduled_for = excluded.scheduled_for,
+               created_by = excluded.created_by,
+               updated_by = excluded.updated_by,
+               review = excluded.review,
+               generation = excluded.generation,
+               citations = excluded.citations,
+               featured_image_id = excluded.featured_image_id
+           WHERE posts.workspace_id = excluded.workspace_id
+           RETURNING *`
+        )
+        .get(
+          post.id,
+          post.slug,
+          post.status,
+          post.title,
+          post.subtitle || null,
+          post.summary,
+          JSON.stringify(post.keywords),
+          JSON.stringify(post.tags),
+          post.seoTitle || null,
+          post.seoDescription || null,
+          post.createdAt,
+          post.updatedAt,
+          post.publishedAt || null,
+          post.scheduledFor || null,
+          post.createdBy || null,
+          post.updatedBy || null,
+          post.review ? JSON.stringify(post.review) : null,
+          post.generation ? JSON.stringify(post.generation) : null,
+          JSON.stringify(post.citations ?? []),
+          post.featuredImageId || null,
+          this.workspaceId
+        );
+      if (!row) throw new Error(`Post ${post.id} belongs to another workspace`);
+
+      this.db
+        .prepare(
+          `INSERT INTO post_content (post_id, content_markdown, updated_at)
+           VALUES (?, ?, ?)
+           ON CONFLICT (post_id) DO UPDATE SET content_markdown = excluded.content_markdown, updated_at = excluded.updated_at`
+        )
+        .run(post.id, post.contentMarkdown, post.updatedAt);
+
+      return { ...this.rowToPostMeta(row), contentMarkdown: post.contentMarkdown };
+    })();
+  }
+
+  private insertRevision(post: BlogPost, revision: RevisionContext): void {
+    this.db
+      .prepare(
+        `INSERT INTO post_revisions (id, post_id, source, author, title, subtitle, summary, keywords, seo_title, seo_description, content_markdown, tags, citations, featured_image_id, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        crypto.randomUUID(),
+        post.id,
+        revision.source,
+        revision.author,
+        post.title,
+        post.subtitle || null,
+        post.summary,
+        JSON.stringify(post.keywords),
+        post.seoTitle || null,
+        post.seoDescription || null,
+        post.contentMarkdown,
+        JSON.stringify(post.tags),
+        JSON.stringify(post.citations ?? []),
+        post.featuredImageId || null,
+        post.updatedAt
+      );
+  }
+
+  private ensureUniqueSlug(slugBase: string, selfId: string | undefined): string {
+    const rows = (
+      selfId
+        ? this.db.prepare(`SELECT slug FROM posts WHERE workspace_id = ? AND id != ?`).all(this.workspaceId, selfId)
+        : this.db.prepare(`SELECT slug FROM posts WHERE workspace_id = ?`).all(this.workspaceId)
+    ) as Array<{ slug: string }>;
+
+    const used = new Set(rows.map(row => row.slug));
+
+    if (!used.has(slugBase)) return slugBase;
+
+    let i = 2;
+    while (used.has(`${slugBase}-${i}`)) i += 1;
+    return `${slugBase}-${i}`;
+  }
+
+  private rowToPostMeta(row: any): BlogPostMeta {
+    const citations = parseJson<PostCitation[]>(row.citations, []);
+    return {
+      id: row.id,
+      slug: row.slug,
+      status: row.status as PostStatus,
+      title: row.title,
+      subtitle: row.subtitle || undefined,
+      summary: row.summary,
+      keywords: parseJson(row.keywords, []),
+      tags: parseJson(row.tags, []),
+      seoTitle: row.seo_title || undefined,
+      seoDescription: row.seo_description || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      publishedAt: row.published_at || undefined,
+      scheduledFor: row.scheduled_for || undefined,
+      createdBy: row.created_by || undefined,
+      updatedBy: row.updated_by || undefined,
+      review: parseJson<PostReview | undefined>(row.review, undefined),
+      generation: parseJson<GenerationRecord | undefined>(row.generation, undefined),
+      citations: citations.length > 0 ? citations : undefined,
+      featuredImageId: row.featured_image_id || undefined
+    };
+  }
+
+  private rowToPost(row: any): BlogPost {
+    return {
+      ...this.rowToPostMeta(row),
+      contentMarkdown: row.content_markdown
+    };
+  }
+
+  private rowToRevisionMeta(row: any): PostRevisionMeta {
+    return {
+      id: row.id,
+      postId: row.post_id,
+      source: row.source as RevisionSource,
+      author: row.author,
+      createdAt: row.created_at,
+      title: row.title
+    };
+  }
+
+  private rowToComment(row: any): PostComment {
+    return {
+      id: row.id,
+      postId: row.post_id,
+      authorId: row.author_id,
+      authorName: row.author_name,
+      body: row.body,
+      anchor: {
+        sectionId: row.section_id,
+        sectionTitle: row.section_title,
+        quote: row.quote || undefined
+      },
+      resolved: row.resolved === 1,
+      createdAt: row.created_at,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at || undefined
+    };
+  }
+}
+
+// Sources storage implementation
+class SqliteSourcesStorage implements ISourcesStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async list(type?: SourceType): Promise<KnowledgeSourceMeta[]> {
+    const rows = type
+      ? this.db
+          .prepare(`SELECT * FROM sources WHERE workspace_id = ? AND type = ? ORDER BY created_at DESC`)
+          .all(this.workspaceId, type)
+      : this.db.prepare(`SELECT * FROM sources WHERE workspace_id = ? ORDER BY created_at DESC`).all(this.workspaceId);
+
+    return rows.map(row => this.rowToSourceMeta(row));
+  }
+
+  async getById(id: string): Promise<KnowledgeSource | null> {
+    const row = this.db
+      .prepare(
+        `SELECT s.*, sc.content_text
+         FROM sources s
+         JOIN source_content sc ON s.id = sc.source_id
+         WHERE s.id = ? AND s.workspace_id = ?`
+      )
+      .get(id, this.workspaceId);
+
+    return row ? this.rowToSource(row) : null;
+  }
+
+  async getBySha256(hash: string): Promise<KnowledgeSource | null> {
+    const row = this.db
+      .prepare(
+        `SELECT s.*, sc.content_text
+         FROM sources s
+         JOIN source_content sc ON s.id = sc.source_id
+         WHERE s.sha256 = ? AND s.workspace_id = ?
+         ORDER BY s.created_at
+         LIMIT 1`
+      )
+      .get(hash, this.workspaceId);
+
+    return row ? this.rowToSource(row) : null;
+  }
+
+  async createFromText(input: {
+    type: SourceType;
+    title: string;
+    url?: string;
+    contentText: string;
+  }): Promise<KnowledgeSource> {
+    const contentText = input.contentText.slice(0, 200_000);
+    const existing = await this.getBySha256(sha256(contentText));
+    if (existing) return existing;
+
+    return this.db.transaction(() => {
+      const id = crypto.randomUUID();
+
+      const row = this.db
+        .prepare(
+          `INSERT INTO sources (id, type, title, url, word_count, sha256, created_at, workspace_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(
+          id,
+          input.type,
+          input.title.trim() || "Untitled source",
+          input.url || null,
+          wordCount(contentText),
+          sha256(contentText),
+          nowIso(),
+          this.workspaceId
+        );
+
+      this.db.prepare(`INSERT INTO source_content (source_id, content_text) VALUES (?, ?)`).run(id, contentText);
+
+      this.insertChunks(
+        id,
+        chunkText(contentText).map((text, index) => ({ id: `${id}:${index}`, sourceId: id, index, text }))
+      );
+
+      return { ...this.rowToSourceMeta(row), contentText };
+    })();
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<KnowledgeSource, "title" | "url" | "contentText" | "tags" | "collections" | "refreshedAt" | "refreshChanged">>
+  ): Promise<KnowledgeSource | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const contentText = updates.contentText?.slice(0, 200_000) ?? existing.contentText;
+    const textChanged = contentText !== existing.contentText;
+    const edited =
+      textChanged ||
+      updates.title !== undefined ||
+      updates.url !== undefined ||
+      updates.tags !== undefined ||
+      updates.collections !== undefined;
+    const refreshChanged = updates.refreshChanged ?? existing.refreshChanged;
+
+    return this.db.transaction(() => {
+      const now = nowIso();
+      const row = this.db
+        .prepare(
+          `UPDATE sources
+           SET title = ?,
+               url = ?,
+               word_count = ?,
+               sha256 = ?,
+               updated_at = ?,
+               refreshed_at = ?,
+               refresh_changed = ?,
+               tags = ?,
+               collections = ?
+           WHERE id = ?
+           RETURNING *`
+        )
+        .get(
+          updates.title?.trim() || existing.title,
+          updates.url !== undefined ? (updates.url || null) : (existing.url || null),
+          wordCount(contentText),
+          sha256(contentText),
+          edited ? now : (existing.updatedAt ?? null),
+          updates.refreshedAt ?? existing.refreshedAt ?? null,
+          refreshChanged === undefined ? null : refreshChanged ? 1 : 0,
+          JSON.stringify(updates.tags ?? existing.tags),
+          JSON.stringify(updates.collections ?? existing.collections),
+          id
+        );
+
+      if (textChanged) {
+        this.db
+          .prepare(`UPDATE source_content SET content_text = ?, updated_at = ? WHERE source_id = ?`)
+          .run(contentText, now, id);
+        this.db.prepare(`DELETE FROM source_chunks WHERE source_id = ?`).run(id);
+        this.insertChunks(
+          id,
+          chunkText(contentText).map((text, index) => ({ id: `${id}:${index}`, sourceId: id, index, text }))
+        );
+      }
+
+      return { ...this.rowToSourceMeta(row), contentText };
+    })();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM sources WHERE id = ? AND workspace_id = ?`).run(id, this.workspaceId);
+    return result.changes > 0;
+  }
+
+  async listChunks(sourceIds: string[]): Promise<SourceChunk[]> {
+    if (sourceIds.length === 0) return [];
+    const rows: any[] = this.db
+      .prepare(
+        `SELECT * FROM source_chunks
+         WHERE source_id IN (SELECT value FROM json_each(?))
+           AND source_id IN (SELECT id FROM sources WHERE workspace_id = ?)
+         ORDER BY source_id, chunk_index`
+      )
+      .all(JSON.stringify(sourceIds), this.workspaceId);
+
+    return rows.map(row => ({
+      id: row.id,
+      sourceId: row.source_id,
+      index: row.chunk_index,
+      text: row.text,
+      embedding: parseJson<number[] | undefined>(row.embedding, undefined),
+      embeddingModel: row.embedding_model || undefined
+    }));
+  }
+
+  async replaceChunks(sourceId: string, chunks: SourceChunk[]): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare(`DELETE FROM source_chunks WHERE source_id = ?`).run(sourceId);
+      this.insertChunks(sourceId, chunks);
+    })();
+  }
+
+  async put(source: KnowledgeSource): Promise<KnowledgeSource> {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare(
+          `INSERT INTO sources (id, type, title, url, word_count, sha256, created_at, updated_at, refreshed_at, refresh_changed, tags, collections, workspace_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE
+           SET type = excluded.type,
+               title = excluded.title,
+               url = excluded.url,
+               word_count = excluded.word_count,
+               sha256 = excluded.sha256,
+               created_at = excluded.created_at,
+               updated_at = excluded.updated_at,
+               refreshed_at = excluded.refreshed_at,
+               refresh_changed = excluded.refresh_changed,
+               tags = excluded.tags,
+               collections = excluded.collections
+           WHERE sources.workspace_id = excluded.workspace_id
+           RETURNING *`
+        )
+        .get(
+          source.id,
+          source.type,
+          source.title,
+          source.url || null,
+          source.wordCount,
+          source.sha256,
+          source.createdAt,
+          source.updatedAt || null,
+          source.refreshedAt || null,
+          source.refreshChanged === undefined ? null : source.refreshChanged ? 1 : 0,
+          JSON.stringify(source.tags),
+          JSON.stringify(source.collections),
+          this.workspaceId
+        );
+      if (!row) throw new Error(`Source ${source.id} belongs to another workspace`);
+
+      this.db
+        .prepare(
+          `INSERT INTO source_content (source_id, content_text)
+           VALUES (?, ?)
+           ON CONFLICT (source_id) DO UPDATE SET content_text = excluded.content_text`
+        )
+        .run(source.id, source.contentText);
+
+      return { ...this.rowToSourceMeta(row), contentText: source.contentText };
+    })();
+  }
+
+  private insertChunks(sourceId: string, chunks: SourceChunk[]): void {
+    const insert = this.db.prepare(
+      `INSERT INTO source_chunks (id, source_id, chunk_index, text, embedding, embedding_model)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    for (const chunk of chunks) {
+      insert.run(
+        chunk.id,
+        sourceId,
+        chunk.index,
+        chunk.text,
+        chunk.embedding ? JSON.stringify(chunk.embedding) : null,
+        chunk.embeddingModel || null
+      );
+    }
+  }
+
+  private rowToSourceMeta(row: any): KnowledgeSourceMeta {
+    return {
+      id: row.id,
+      type: row.type as SourceType,
+      title: row.title,
+      url: row.url || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || undefined,
+      wordCount: row.word_count,
+      sha256: row.sha256,
+      tags: parseJson<string[]>(row.tags, []),
+      collections: parseJson<string[]>(row.collections, []),
+      refreshedAt: row.refreshed_at || undefined,
+      refreshChanged: row.refresh_changed === null ? undefined : row.refresh_changed === 1
+    };
+  }
+
+  private rowToSource(row: any): KnowledgeSource {
+    return {
+      ...this.rowToSourceMeta(row),
+      contentText: row.content_text
+    };
+  }
+}
+
+// Organization storage implementation
+class SqliteOrgStorage implements IOrgStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async get(): Promise<OrganizationProfile> {
+    const row = this.db.prepare(`SELECT * FROM organization WHERE workspace_id = ?`).get(this.workspaceId);
+
+    // No org exists, return seed
+    return row ? this.rowToOrg(row) : makeSeedProfile();
+  }
+
+  async update(profile: OrganizationProfile): Promise<OrganizationProfile> {
+    const values = [
+      profile.name,
+      profile.website,
+      profile.tagline,
+      profile.mission,
+      JSON.stringify(profile.focusAreas),
+      JSON.stringify(profile.objectives),
+      profile.voiceGuidelines,
+      JSON.stringify(profile.preferredTerms),
+      JSON.stringify(profile.avoidTerms),
+      profile.onboardingCompletedAt
+    ];
+
+    const existing = this.db.prepare(`SELECT id FROM organization WHERE workspace_id = ?`).get(this.workspaceId) as
+      | { id: string }
+      | undefined;
+
+    const row = existing
+      ? this.db
+          .prepare(
+            `UPDATE organization
+             SET name = ?,
+                 website = ?,
+                 tagline = ?,
+                 mission = ?,
+                 focus_areas = ?,
+                 objectives = ?,
+                 voice_guidelines = ?,
+                 preferred_terms = ?,
+                 avoid_terms = ?,
+                 onboarding_completed_at = ?,
+                 updated_at = ?
+             WHERE id = ?
+             RETURNING *`
+          )
+          .get(...values, nowIso(), existing.id)
+      : this.db
+          .prepare(
+            `INSERT INTO organization (name, website, tagline, mission, focus_areas, objectives, voice_guidelines, preferred_terms, avoid_terms, onboarding_completed_at, workspace_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             RETURNING *`
+          )
+          .get(...values, this.workspaceId);
+
+    return this.rowToOrg(row);
+  }
+
+  async getRelevanceRules(): Promise<RelevanceRules | null> {
+    const row = this.db
+      .prepare(`SELECT relevance_rules FROM organization WHERE workspace_id = ?`)
+      .get(this.workspaceId) as { relevance_rules: string | null } | undefined;
+    return parseJson<RelevanceRules | null>(row?.relevance_rules, null);
+  }
+
+  async updateRelevanceRules(rules: RelevanceRules): Promise<RelevanceRules> {
+    // The rules live on the profile row, which doesn't exist until the profile is first saved
+    const exists = this.db.prepare(`SELECT 1 FROM organization WHERE workspace_id = ?`).get(this.workspaceId);
+    if (!exists) await this.update(makeSeedProfile());
+
+    this.db
+      .prepare(`UPDATE organization SET relevance_rules = ?, updated_at = ? WHERE workspace_id = ?`)
+      .run(JSON.stringify(rules), nowIso(), this.workspaceId);
+    return rules;
+  }
+
+  private rowToOrg(row: any): OrganizationProfile {
+    return {
+      name: row.name,
+      website: row.website,
+      tagline: row.tagline,
+      mission: row.mission,
+      focusAreas: parseJson(row.focus_areas, []),
+      objectives: parseJson(row.objectives, []),
+      voiceGuidelines: row.voice_guidelines,
+      preferredTerms: parseJson(row.preferred_terms, []),
+      avoidTerms: parseJson(row.avoid_terms, []),
+      onboardingCompletedAt: row.onboarding_completed_at || null
+    };
+  }
+}
+
+// Watched sources storage implementation
+class SqliteWatchedSourcesStorage implements IWatchedSourcesStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async list(): Promise<WatchedSource[]> {
+    const rows = this.db
+      .prepare(`SELECT * FROM watched_sources WHERE workspace_id = ? ORDER BY created_at DESC`)
+      .all(this.workspaceId);
+    return rows.map(row => this.rowToWatchedSource(row));
+  }
+
+  async getById(id: string): Promise<WatchedSource | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM watched_sources WHERE id = ? AND workspace_id = ?`)
+      .get(id, this.workspaceId);
+    return row ? this.rowToWatchedSource(row) : null;
+  }
+
+  async add(args: {
+    name: string;
+    url: string;
+    type: WatchedSourceType;
+    fetchIntervalHours?: number;
+  }): Promise<WatchedSource> {
+    // Check for duplicate URL
+    const existing = this.db
+      .prepare(`SELECT id FROM watched_sources WHERE url = ? AND workspace_id = ?`)
+      .get(args.url, this.workspaceId);
+    if (existing) {
+      throw new Error("This URL is already being watched");
+    }
+
+    const row = this.db
+      .prepare(
+        `INSERT INTO watched_sources (id, name, url, type, fetch_interval_hours, created_at, workspace_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        crypto.randomUUID(),
+        args.name,
+        args.url,
+        args.type,
+        args.fetchIntervalHours ?? 24,
+        nowIso(),
+        this.workspaceId
+      );
+
+    return this.rowToWatchedSource(row);
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<WatchedSource, "name" | "enabled" | "fetchIntervalHours" | "lastFetchedAt">>
+  ): Promise<WatchedSource | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const row = this.db
+      .prepare(
+        `UPDATE watched_sources
+         SET name = ?,
+             enabled = ?,
+             fetch_interval_hours = ?,
+             last_fetched_at = ?
+         WHERE id = ?
+         RETURNING *`
+      )
+      .get(
+        updates.name ?? existing.name,
+        (updates.enabled ?? existing.enabled) ? 1 : 0,
+        updates.fetchIntervalHours ?? existing.fetchIntervalHours,
+        updates.lastFetchedAt ?? existing.lastFetchedAt,
+        id
+      );
+
+    return this.rowToWatchedSource(row);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db
+      .prepare(`DELETE FROM watched_sources WHERE id = ? AND workspace_id = ?`)
+      .run(id, this.workspaceId);
+    return result.changes > 0;
+  }
+
+  async getDueForFetch(): Promise<WatchedSource[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM watched_sources
+         WHERE workspace_id = ?
+           AND enabled = 1
+           AND (
+             last_fetched_at IS NULL
+             OR last_fetched_at <= strftime('%Y-%m-%dT%H:%M:%fZ', 'now', '-' || fetch_interval_hours || ' hours')
+           )
+         ORDER BY last_fetched_at NULLS FIRST`
+      )
+      .all(this.workspaceId);
+
+    return rows.map(row => this.rowToWatchedSource(row));
+  }
+
+  async put(source: WatchedSource): Promise<WatchedSource> {
+    const row = this.db
+      .prepare(
+        `INSERT INTO watched_sources (id, name, url, type, enabled, last_fetched_at, fetch_interval_hours, created_at, workspace_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE
+         SET name = excluded.name,
+             url = excluded.url,
+             type = excluded.type,
+             enabled = excluded.enabled,
+             last_fetched_at = excluded.last_fetched_at,
+             fetch_interval_hours = excluded.fetch_interval_hours,
+             created_at = excluded.created_at
+         WHERE watched_sources.workspace_id = excluded.workspace_id
+         RETURNING *`
+      )
+      .get(
+        source.id,
+        source.name,
+        source.url,
+        source.type,
+        source.enabled ? 1 : 0,
+        source.lastFetchedAt,
+        source.fetchIntervalHours,
+        source.createdAt,
+        this.workspaceId
+      );
+
+    if (!row) throw new Error(`Watched source ${source.id} belongs to another workspace`);
+    return this.rowToWatchedSource(row);
+  }
+
+  private rowToWatchedSource(row: any): WatchedSource {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      type: row.type as WatchedSourceType,
+      enabled: row.enabled === 1,
+      lastFetchedAt: row.last_fetched_at || null,
+      fetchIntervalHours: row.fetch_interval_hours,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Articles storage implementation
+class SqliteArticlesStorage implements IArticlesStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async list(options?: {
+    sourceId?: string;
+    limit?: number;
+    minRelevance?: number;
+  }): Promise<FetchedArticle[]> {
+    let query = `SELECT * FROM articles WHERE workspace_id = ?`;
+    const params: unknown[] = [this.workspaceId];
+
+    if (options?.sourceId) {
+      query += ` AND source_id = ?`;
+      params.push(options.sourceId);
+    }
+
+    if (options?.minRelevance !== undefined) {
+      query += ` AND relevance_score >= ?`;
+      params.push(options.minRelevance);
+    }
+
+    query += ` ORDER BY fetched_at DESC`;
+
+    if (options?.limit) {
+      query += ` LIMIT ?`;
+      params.push(options.limit);
+    }
+
+    const rows = this.db.prepare(query).all(...params);
+    return rows.map(row => this.rowToArticle(row));
+  }
+
+  async getById(id: string): Promise<FetchedArticle | null> {
+    const row = this.db.prepare(`SELECT * FROM articles WHERE id = ? AND workspace_id = ?`).get(id, this.workspaceId);
+    return row ? this.rowToArticle(row) : null;
+  }
+
+  async getByUrl(url: string): Promise<FetchedArticle | null> {
+    const row = this.db.prepare(`SELECT * FROM articles WHERE url = ? AND workspace_id = ?`).get(url, this.workspaceId);
+    return row ? this.rowToArticle(row) : null;
+  }
+
+  async add(args: {
+    sourceId: string;
+    sourceName: string;
+    title: string;
+    url: string;
+    publishedAt: string | null;
+    excerpt: string;
+    matchedKeywords: string[];
+    relevanceScore: number;
+  }): Promise<FetchedArticle> {
+    // Check if article already exists
+    const existing = await this.getByUrl(args.url);
+    if (existing) {
+      return existing;
+    }
+
+    const now = nowIso();
+    const row = this.db
+      .prepare(
+        `INSERT INTO articles (id, source_id, source_name, title, url, published_at, fetched_at, excerpt, matched_keywords, relevance_score, created_at, workspace_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        crypto.randomUUID(),
+        args.sourceId,
+        args.sourceName,
+        args.title,
+        args.url,
+        args.publishedAt,
+        now,
+        args.excerpt,
+        JSON.stringify(args.matchedKeywords),
+        args.relevanceScore,
+        now,
+        this.workspaceId
+      );
+
+    return this.rowToArticle(row);
+  }
+
+  async markSaved(id: string): Promise<FetchedArticle | null> {
+    const row = this.db
+      .prepare(
+        `UPDATE articles
+         SET saved_to_knowledge = 1
+         WHERE id = ? AND workspace_id = ?
+         RETURNING *`
+      )
+      .get(id, this.workspaceId);
+
+    return row ? this.rowToArticle(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM articles WHERE id = ? AND workspace_id = ?`).run(id, this.workspaceId);
+    return result.changes > 0;
+  }
+
+  async deleteBySource(sourceId: string): Promise<number> {
+    const result = this.db
+      .prepare(`DELETE FROM articles WHERE source_id = ? AND workspace_id = ?`)
+      .run(sourceId, this.workspaceId);
+    return result.changes;
+  }
+
+  async setRelevance(
+    scores: Array<Pick<FetchedArticle, "id" | "matchedKeywords" | "relevanceScore">>
+  ): Promise<void> {
+    const statement = this.db.prepare(
+      `UPDATE articles SET matched_keywords = ?, relevance_score = ? WHERE id = ? AND workspace_id = ?`
+    );
+    this.db.transaction(() => {
+      for (const score of scores) {
+        statement.run(JSON.stringify(score.matchedKeywords), score.relevanceScore, score.id, this.workspaceId);
+      }
+    })();
+  }
+
+  async put(article: FetchedArticle): Promise<FetchedArticle> {
+    const row = this.db
+      .prepare(
+        `INSERT INTO articles (id, source_id, source_name, title, url, published_at, fetched_at, excerpt, matched_keywords, relevance_score, saved_to_knowledge, created_at, workspace_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE
+         SET source_id = excluded.source_id,
+             source_name = excluded.source_name,
+             title = excluded.title,
+             url = excluded.url,
+             published_at = excluded.published_at,
+             fetched_at = excluded.fetched_at,
+             excerpt = excluded.excerpt,
+             matched_keywords = excluded.matched_keywords,
+             relevance_score = excluded.relevance_score,
+             saved_to_knowledge = excluded.saved_to_knowledge
+         WHERE articles.workspace_id = excluded.workspace_id
+         RETURNING *`
+      )
+      .get(
+        article.id,
+        article.sourceId,
+        article.sourceName,
+        article.title,
+        article.url,
+        article.publishedAt,
+        article.fetchedAt,
+        article.excerpt,
+        JSON.stringify(article.matchedKeywords),
+        article.relevanceScore,
+        article.savedToKnowledge ? 1 : 0,
+        article.fetchedAt,
+        this.workspaceId
+      );
+
+    if (!row) throw new Error(`Article ${article.id} belongs to another workspace`);
+    return this.rowToArticle(row);
+  }
+
+  private rowToArticle(row: any): FetchedArticle {
+    return {
+      id: row.id,
+      sourceId: row.source_id,
+      sourceName: row.source_name,
+      title: row.title,
+      url: row.url,
+      publishedAt: row.published_at || null,
+      fetchedAt: row.fetched_at,
+      excerpt: row.excerpt ?? "",
+      matchedKeywords: parseJson(row.matched_keywords, []),
+      relevanceScore: row.relevance_score,
+      savedToKnowledge: row.saved_to_knowledge === 1
+    };
+  }
+}
+
+// Users storage implementation
+class SqliteUsersStorage implements IUsersStorage {
+  private db: Db;
+
+  constructor(db: Db) {
+    this.db = db;
+  }
+
+  async list(): Promise<User[]> {
+    const rows = this.db.prepare(`SELECT * FROM users ORDER BY name ASC`).all();
+    return rows.map(row => this.rowToUser(row));
+  }
+
+  async count(): Promise<number> {
+    const row = this.db.prepare(`SELECT COUNT(*) as count FROM users`).get() as { count: number };
+    return row.count;
+  }
+
+  async getById(id: string): Promise<User | null> {
+    const row = this.db.prepare(`SELECT * FROM users WHERE id = ?`).get(id);
+    return row ? this.rowToUser(row) : null;
+  }
+
+  async getRecordById(id: string): Promise<UserRecord | null> {
+    const row: any = this.db.prepare(`SELECT * FROM users WHERE id = ?`).get(id);
+    if (!row) return null;
+
+    return { ...this.rowToUser(row), passwordHash: row.password_hash };
+  }
+
+  async getByEmail(email: string): Promise<UserRecord | null> {
+    const row: any = this.db.prepare(`SELECT * FROM users WHERE email = ?`).get(email.trim().toLowerCase());
+    if (!row) return null;
+
+    return { ...this.rowToUser(row), passwordHash: row.password_hash };
+  }
+
+  async create(input: {
+    email: string;
+    name: string;
+    role: UserRole;
+    passwordHash: string;
+  }): Promise<User> {
+    const email = input.email.trim().toLowerCase();
+
+    // Check for duplicate email
+    const existing = this.db.prepare(`SELECT id FROM users WHERE email = ?`).get(email);
+    if (existing) {
+      throw new Error("A user with this email already exists");
+    }
+
+    const now = nowIso();
+    const row = this.db
+      .prepare(
+        `INSERT INTO users (id, email, name, role, password_hash, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(crypto.randomUUID(), email, input.name.trim() || email, input.role, input.passwordHash, now, now);
+
+    return this.rowToUser(row);
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<UserRecord, "name" | "role" | "passwordHash" | "disabled">>
+  ): Promise<User | null> {
+    const row = this.db
+      .prepare(
+        `UPDATE users
+         SET name = COALESCE(?, name),
+             role = COALESCE(?, role),
+             password_hash = COALESCE(?, password_hash),
+             disabled = COALESCE(?, disabled),
+             updated_at = ?
+         WHERE id = ?
+         RETURNING *`
+      )
+      .get(
+        updates.name ?? null,
+        updates.role ?? null,
+        updates.passwordHash ?? null,
+        updates.disabled === undefined ? null : updates.disabled ? 1 : 0,
+        nowIso(),
+        id
+      );
+
+    return row ? this.rowToUser(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM users WHERE id = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  private rowToUser(row: any): User {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      role: row.role as UserRole,
+      disabled: row.disabled === 1,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+// Settings storage implementation
+class SqliteSettingsStorage implements ISettingsStorage {
+  private db: Db;
+
+  constructor(db: Db) {
+    this.db = db;
+  }
+
+  async getAi(): Promise<AiSettings | null> {
+    const row = this.db.prepare(`SELECT value FROM app_settings WHERE key = 'ai'`).get() as
+      | { value: string }
+      | undefined;
+    return row ? parseJson<AiSettings | null>(row.value, null) : null;
+  }
+
+  async updateAi(settings: AiSettings): Promise<AiSettings> {
+    this.db
+      .prepare(
+        `INSERT INTO app_settings (key, value)
+         VALUES ('ai', ?)
+         ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = ${SQLITE_NOW}`
+      )
+      .run(JSON.stringify(settings));
+    return settings;
+  }
+}
+
+// Search storage implementation: the FTS5 search_index table, which triggers
+// keep current. Title matches weigh five times as much as body matches.
+class SqliteSearchStorage implements ISearchStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+    const kinds: SearchKind[] = options.publishedOnly ? ["post"] : (options.kinds ?? ["post", "source", "article"]);
+    const limit = Math.min(options.limit ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+
+    const rows: any[] = this.db
+      .prepare(
+        `SELECT kind, doc_id, bm25(search_index, 0, 0, 5.0, 1.0) AS rank,
+                snippet(search_index, 3, ?, ?, ' … ', 32) AS snippet
+         FROM search_index
+         WHERE search_index MATCH ?
+           AND kind IN (SELECT value FROM json_each(?))
+           AND CASE kind
+             WHEN 'post' THEN doc_id IN (SELECT id FROM posts WHERE workspace_id = ? AND (? = 0 OR status = 'PUBLISHED'))
+             WHEN 'source' THEN doc_id IN (SELECT id FROM sources WHERE workspace_id = ?)
+             ELSE doc_id IN (SELECT id FROM articles WHERE workspace_id = ?)
+           END
+         ORDER BY rank
+         LIMIT ?`
+      )
+      .all(
+        HIGHLIGHT_START,
+        HIGHLIGHT_END,
+        match,
+        JSON.stringify(kinds),
+        this.workspaceId,
+        options.publishedOnly ? 1 : 0,
+        this.workspaceId,
+        this.workspaceId,
+        limit
+      );
+
+    const hits: SearchHit[] = [];
+    for (const row of rows) {
+      const base = { id: row.doc_id, score: -row.rank, snippet: parseHighlighted(row.snippet) };
+      if (row.kind === "post") {
+        const post: any = this.db.prepare(`SELECT slug, status, title, updated_at FROM posts WHERE id = ?`).get(row.doc_id);
+        if (post) {
+          hits.push({ ...base, kind: "post", title: post.title, slug: post.slug, status: post.status, date: post.updated_at });
+        }
+      } else if (row.kind === "source") {
+        const source: any = this.db
+          .prepare(`SELECT title, url, created_at, updated_at FROM sources WHERE id = ?`)
+          .get(row.doc_id);
+        if (source) {
+          hits.push({
+            ...base,
+            kind: "source",
+            title: source.title,
+            url: source.url || undefined,
+            date: source.updated_at || source.created_at
+          });
+        }
+      } else {
+        const article: any = this.db
+          .prepare(`SELECT title, url, published_at, fetched_at FROM articles WHERE id = ?`)
+          .get(row.doc_id);
+        if (article) {
+          hits.push({
+            ...base,
+            kind: "article",
+            title: article.title,
+            url: article.url,
+            date: article.published_at || article.fetched_at
+          });
+        }
+      }
+    }
+    return hits;
+  }
+}
+
+// Workspaces storage implementation
+class SqliteWorkspacesStorage implements IWorkspacesStorage {
+  private db: Db;
+
+  constructor(db: Db) {
+    this.db = db;
+  }
+
+  async list(): Promise<Workspace[]> {
+    const rows = this.db.prepare(`SELECT * FROM workspaces ORDER BY created_at ASC`).all();
+    return rows.map(row => this.rowToWorkspace(row));
+  }
+
+  async getById(id: string): Promise<Workspace | null> {
+    const row = this.db.prepare(`SELECT * FROM workspaces WHERE id = ?`).get(id);
+    return row ? this.rowToWorkspace(row) : null;
+  }
+
+  async create(input: { slug: string; name: string; hostname: string | null }): Promise<Workspace> {
+    this.ensureUnique(input.slug, input.hostname);
+    const row = this.db
+      .prepare(
+        `INSERT INTO workspaces (id, slug, name, hostname, created_at)
+         VALUES (?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(crypto.randomUUID(), input.slug, input.name, input.hostname, nowIso());
+
+    return this.rowToWorkspace(row);
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<Workspace, "slug" | "name" | "hostname">>
+  ): Promise<Workspace | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const slug = updates.slug ?? existing.slug;
+    const hostname = updates.hostname !== undefined ? updates.hostname : existing.hostname;
+    this.ensureUnique(slug, hostname, id);
+
+    const row = this.db
+      .prepare(
+        `UPDATE workspaces
+         SET slug = ?,
+             name = ?,
+             hostname = ?
+         WHERE id = ?
+         RETURNING *`
+      )
+      .get(slug, updates.name ?? existing.name, hostname, id);
+
+    return this.rowToWorkspace(row);
+  }
+
+  private ensureUnique(slug: string, hostname: string | null, selfId?: string): void {
+    const rows = this.db
+      .prepare(`SELECT slug, hostname FROM workspaces WHERE (slug = ? OR hostname = ?) AND id IS NOT ?`)
+      .all(slug, hostname, selfId ?? null) as Array<{ slug: string; hostname: string | null }>;
+    if (rows.some(row => row.slug === slug)) throw new Error(`The workspace slug "${slug}" is taken`);
+    if (rows.length > 0) throw new Error(`The hostname "${hostname}" is used by another workspace`);
+  }
+
+  private rowToWorkspace(row: any): Workspace {
+    return {
+      id: row.id,
+      slug: row.slug,
+      name: row.name,
+      hostname: row.hostname || null,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Audit log storage implementation
+class SqliteAuditStorage implements IAuditStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async append(input: Omit<AuditEntry, "id" | "at">): Promise<AuditEntry> {
+    const row = this.db
+      .prepare(
+        `INSERT INTO audit_log (id, workspace_id, at, actor_id, actor_name, action, entity_type, entity_id, entity_title, changes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        crypto.randomUUID(),
+        this.workspaceId,
+        nowIso(),
+        input.actorId,
+        input.actorName,
+        input.action,
+        input.entityType,
+        input.entityId,
+        input.entityTitle,
+        JSON.stringify(input.changes)
+      );
+
+    return this.rowToEntry(row);
+  }
+
+  async list(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    let query = `SELECT * FROM audit_log WHERE workspace_id = ?`;
+    const params: unknown[] = [this.workspaceId];
+
+    for (const [column, value] of [
+      ["actor_id", filter.actorId],
+      ["action", filter.action],
+      ["entity_type", filter.entityType],
+      ["entity_id", filter.entityId]
+    ] as const) {
+      if (!value) continue;
+      query += ` AND ${column} = ?`;
+      params.push(value);
+    }
+    if (filter.from) {
+      query += ` AND at >= ?`;
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      query += ` AND at <= ?`;
+      params.push(filter.to);
+    }
+
+    query += ` ORDER BY at DESC, rowid DESC LIMIT ?`;
+    params.push(auditLimit(filter));
+
+    const rows = this.db.prepare(query).all(...params);
+    return rows.map(row => this.rowToEntry(row));
+  }
+
+  private rowToEntry(row: any): AuditEntry {
+    return {
+      id: row.id,
+      at: row.at,
+      actorId: row.actor_id ?? null,
+      actorName: row.actor_name,
+      action: row.action,
+      entityType: row.entity_type,
+      entityId: row.entity_id,
+      entityTitle: row.entity_title,
+      changes: parseJson(row.changes, [])
+    };
+  }
+}
+
+// Media storage implementation
+class SqliteMediaStorage implements IMediaStorage {
+  private db: Db;
+  private workspaceId: string;
+
+  constructor(db: Db, workspaceId: string) {
+    this.db = db;
+    this.workspaceId = workspaceId;
+  }
+
+  async list(): Promise<MediaAsset[]> {
+    const rows = this.db
+      .prepare(`SELECT * FROM media WHERE workspace_id = ? ORDER BY created_at DESC`)
+      .all(this.workspaceId);
+    return rows.map(row => this.rowToAsset(row));
+  }
+
+  async getById(id: string): Promise<MediaAsset | null> {
+    const row = this.db.prepare(`SELECT * FROM media WHERE id = ? AND workspace_id = ?`).get(id, this.workspaceId);
+    return row ? this.rowToAsset(row) : null;
+  }
+
+  async create(
+    asset: Omit<MediaAsset, "id" | "createdAt" | "updatedAt">,
+    files: Map<string, Buffer>
+  ): Promise<MediaAsset> {
+    return this.db.transaction(() => {
+      const id = crypto.randomUUID();
+      const now = nowIso();
+      const row = this.db
+        .prepare(
+          `INSERT INTO media (id, workspace_id, filename, alt, caption, credit, license, original, renditions, created_by, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(
+          id,
+          this.workspaceId,
+          asset.filename,
+          asset.alt,
+          asset.caption || null,
+          asset.credit || null,
+          asset.license || null,
+          JSON.stringify(asset.original),
+          JSON.stringify(asset.renditions),
+          asset.createdBy || null,
+          now,
+          now
+        );
+
+      const insertFile = this.db.prepare(`INSERT INTO media_files (media_id, file, data) VALUES (?, ?, ?)`);
+      for (const { file } of [asset.original, ...asset.renditions]) {
+        const data = files.get(file);
+        if (!data) throw new Error(`Missing data for ${file}`);
+        insertFile.run(id, file, data);
+      }
+      return this.rowToAsset(row);
+    })();
+  }
+
+  async update(
+    id: string,
+    updates: Partial<Pick<MediaAsset, "alt" | "caption" | "credit" | "license">>
+  ): Promise<MediaAsset | null> {
+    const existing = await this.getById(id);
+    if (!existing) return null;
+
+    const row = this.db
+      .prepare(
+        `UPDATE media
+         SET alt = ?,
+             caption = ?,
+             credit = ?,
+             license = ?,
+             updated_at = ?
+         WHERE id = ? AND workspace_id = ?
+         RETURNING *`
+      )
+      .get(
+        updates.alt ?? existing.alt,
+        (updates.caption !== undefined ? updates.caption : existing.caption) || null,
+        (updates.credit !== undefined ? updates.credit : existing.credit) || null,
+        (updates.license !== undefined ? updates.license : existing.license) || null,
+        nowIso(),
+        id,
+        this.workspaceId
+      );
+    return row ? this.rowToAsset(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM media WHERE id = ? AND workspace_id = ?`).run(id, this.workspaceId);
+    return result.changes > 0;
+  }
+
+  async readFile(id: string, file: string): Promise<Buffer | null> {
+    const row = this.db
+      .prepare(
+        `SELECT f.data FROM media_files f JOIN media m ON m.id = f.media_id
+         WHERE f.media_id = ? AND f.file = ? AND m.workspace_id = ?`
+      )
+      .get(id, file, this.workspaceId) as { data: Buffer } | undefined;
+    return row ? row.data : null;
+  }
+
+  async put(asset: MediaAsset, files: Map<string, Buffer>): Promise<MediaAsset> {
+    return this.db.transaction(() => {
+      const row = this.db
+        .prepare(
+          `INSERT INTO media (id, workspace_id, filename, alt, caption, credit, license, original, renditions, created_by, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO UPDATE
+           SET filename = excluded.filename,
+               alt = excluded.alt,
+               caption = excluded.caption,
+               credit = excluded.credit,
+               license = excluded.license,
+               original = excluded.original,
+               renditions = excluded.renditions,
+               created_by = excluded.created_by,
+               created_at = excluded.created_at,
+               updated_at = excluded.updated_at
+           WHERE media.workspace_id = excluded.workspace_id
+           RETURNING *`
+        )
+        .get(
+          asset.id,
+          this.workspaceId,
+          asset.filename,
+          asset.alt,
+          asset.caption || null,
+          asset.credit || null,
+          asset.license || null,
+          JSON.stringify(asset.original),
+          JSON.stringify(asset.renditions),
+          asset.createdBy || null,
+          asset.createdAt,
+          asset.updatedAt
+        );
+      if (!row) throw new Error(`Media ${asset.id} belongs to another workspace`);
+
+      this.db.prepare(`DELETE FROM media_files WHERE media_id = ?`).run(asset.id);
+      const insertFile = this.db.prepare(`INSERT INTO media_files (media_id, file, data) VALUES (?, ?, ?)`);
+      for (const { file } of [asset.original, ...asset.renditions]) {
+        const data = files.get(file);
+        if (!data) throw new Error(`Missing data for ${file}`);
+        insertFile.run(asset.id, file, data);
+      }
+      return this.rowToAsset(row);
+    })();
+  }
+
+  private rowToAsset(row: any): MediaAsset {
+    return {
+      id: row.id,
+      filename: row.filename,
+      alt: row.alt,
+      caption: row.caption || undefined,
+      credit: row.credit || undefined,
+      license: row.license || undefined,
+      original: parseJson(row.original, { file: "", width: 0, height: 0, mimeType: "", bytes: 0 }),
+      renditions: parseJson(row.renditions, []),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      createdBy: row.created_by || undefined
+    };
+  }
+}
+
+// Main provider implementation
+export class SqliteStorageProvider implements IStorageProvider {
+  private db: Db;
+  users: IUsersStorage;
+  settings: ISettingsStorage;
+  workspaces: IWorkspacesStorage;
+
+  constructor() {
+    this.db = getDb();
+    this.users = new SqliteUsersStorage(this.db);
+    this.settings = new SqliteSettingsStorage(this.db);
+    this.workspaces = new SqliteWorkspacesStorage(this.db);
+  }
+
+  workspace(workspaceId: string): IWorkspaceStorage {
+    return {
+      workspaceId,
+      posts: new SqlitePostsStorage(this.db, workspaceId),
+      sources: new SqliteSourcesStorage(this.db, workspaceId),
+      org: new SqliteOrgStorage(this.db, workspaceId),
+      watchedSources: new SqliteWatchedSourcesStorage(this.db, workspaceId),
+      articles: new SqliteArticlesStorage(this.db, workspaceId),
+      search: new SqliteSearchStorage(this.db, workspaceId),
+      audit: new SqliteAuditStorage(this.db, workspaceId),
+      media: new SqliteMediaStorage(this.db, workspaceId)
+    };
+  }
+
+  async init(): Promise<void> {
+    // Create tables and indexes that don't exist yet
+    try {
+      applySqliteSchema(this.db);
+    } catch (err) {
+      throw new Error(`Failed to open SQLite database at ${SQLITE_PATH}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Ensure the default workspace has an organization (seed if not)
+    const org = this.db
+      .prepare(`SELECT COUNT(*) as count FROM organization WHERE workspace_id = ?`)
+      .get(DEFAULT_WORKSPACE_ID) as { count: number };
+    if (org.count === 0) {
+      await this.workspace(DEFAULT_WORKSPACE_ID).org.update(makeSeedProfile());
+    }
+
+    // Seed sample post if none exist
+    const posts = this.db
+      .prepare(`SELECT COUNT(*) as count FROM posts WHERE workspace_id = ?`)
+      .get(DEFAULT_WORKSPACE_ID) as { count: number };
+    if (posts.count === 0) {
+      try {
+        const { makeSeedPost } = await import("../seed");
+        const seed = makeSeedPost();
+
+        this.db.transaction(() => {
+          this.db
+            .prepare(
+              `INSERT INTO posts (id, slug, status, title, subtitle, summary, keywords, seo_title, seo_description, created_at, updated_at, published_at, workspace_id)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .run(
+              seed.id,
+              seed.meta.slug,
+              seed.meta.status,
+              seed.meta.title,
+              seed.meta.subtitle || null,
+              seed.meta.summary,
+              JSON.stringify(seed.meta.keywords),
+              seed.meta.seoTitle || null,
+              seed.meta.seoDescription || null,
+              seed.meta.createdAt,
+              seed.meta.updatedAt,
+              seed.meta.publishedAt || seed.meta.createdAt,
+              DEFAULT_WORKSPACE_ID
+            );
+
+          this.db
+            .prepare(`INSERT INTO post_content (post_id, content_markdown) VALUES (?, ?)`)
+            .run(seed.id, seed.markdown);
+        })();
+      } catch (err) {
+        console.error("Failed to seed sample post:", err);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (db) {
+      db.close();
+      db = null;
+    }
+  }
+}
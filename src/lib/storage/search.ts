@@ -0,0 +1,20 @@
+/**
+ * Full-text search - public API
+ *
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
+ */
+
+import { getWorkspaceStorage } from "./currentWorkspace";
+import type { SearchHit, SearchOptions } from "./types";
+
+export async function searchContent(query: string, options?: SearchOptions): Promise<SearchHit[]> {
+  if (!query.trim()) return [];
+  const provider = await getWorkspaceStorage();
+  return provider.search.search(query.slice(0, 200), options);
+}
+
+/** Published posts only, for the public blog */
+export async function searchPublishedPosts(query: string, limit?: number): Promise<SearchHit[]> {
+  return searchContent(query, { publishedOnly: true, limit });
+}
@@ -30,6 +30,7 @@ export function makeSeedPost(): { id: string; meta: BlogPostMeta; markdown: stri
     summary:
       "wildlife-blogger helps conservation teams research other organizations’ content, build a knowledge base, and publish SEO-friendly articles that can be cited by search engines and LLMs.",
     keywords: ["wildlife conservation", "biodiversity", "education", "habitat"],
+    tags: [],
     seoTitle: "Welcome to wildlife-blogger · AI for conservation content",
     seoDescription:
       "Meet wildlife-blogger: research competitor pages, build a knowledge base, generate drafts, and publish conservation blog posts built for search and LLM discovery.",
@@ -0,0 +1,20 @@
+/**
+ * Application settings storage - public API
+ *
+ * This module delegates to the configured storage provider.
+ */
+
+import { getStorageProvider, initStorage } from "./factory";
+import type { AiSettings } from "./types";
+
+export async function getAiSettings(): Promise<AiSettings | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.settings.getAi();
+}
+
+export async function updateAiSettings(settings: AiSettings): Promise<AiSettings> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.settings.updateAi(settings);
+}
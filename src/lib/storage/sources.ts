@@ -1,21 +1,55 @@
 /**
  * Sources storage - public API
  *
- * This module delegates to the configured storage provider.
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
  */
 
-import { getStorageProvider, initStorage } from "./factory";
-import type { KnowledgeSource, KnowledgeSourceMeta, SourceType } from "./types";
+import crypto from "node:crypto";
+import { audited, recordAudit } from "./audit";
+import { getWorkspaceStorage } from "./currentWorkspace";
+import type { KnowledgeSource, KnowledgeSourceMeta, SourceChunk, SourceType } from "./types";
+import {
+  hasSourceFilter,
+  matchesSourceFilter,
+  normalizeCollections,
+  normalizeTags,
+  type SourceFilter
+} from "@/lib/utils/source-labels";
 
 export async function listSources(type?: SourceType): Promise<KnowledgeSourceMeta[]> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.sources.list(type);
 }
 
+export async function listSourcesMatching(filter: SourceFilter): Promise<KnowledgeSourceMeta[]> {
+  const sources = await listSources();
+  return sources.filter((s) => matchesSourceFilter(s, filter));
+}
+
+/**
+ * The sources a generation request asked for: the listed ids plus whatever
+ * matches its collection or tag filter, in that order without repeats.
+ * Unknown ids are skipped.
+ */
+export async function resolveSourceSelection(
+  selection: SourceFilter & { sourceIds?: string[] }
+): Promise<KnowledgeSource[]> {
+  const ids = new Set(selection.sourceIds ?? []);
+  if (hasSourceFilter(selection)) {
+    for (const s of await listSourcesMatching(selection)) ids.add(s.id);
+  }
+
+  const sources: KnowledgeSource[] = [];
+  for (const id of ids) {
+    const s = await getSourceById(id);
+    if (s) sources.push(s);
+  }
+  return sources;
+}
+
 export async function getSourceById(id: string): Promise<KnowledgeSource | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.sources.getById(id);
 }
 
@@ -25,8 +59,49 @@ export async function createSourceFromText(input: {
   url?: string;
   contentText: string;
 }): Promise<KnowledgeSource> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.sources.createFromText(input);
+  const provider = await getWorkspaceStorage();
+  const existing = await findSourceByText(input.contentText);
+  const source = await provider.sources.createFromText(input);
+  if (!existing) await recordAudit(provider, "create", "source", null, source);
+  return source;
+}
+
+/** The stored source with exactly this text, which createSourceFromText would return instead of adding one */
+export async function findSourceByText(contentText: string): Promise<KnowledgeSource | null> {
+  const provider = await getWorkspaceStorage();
+  const hash = crypto.createHash("sha256").update(contentText.slice(0, 200_000), "utf8").digest("hex");
+  return provider.sources.getBySha256(hash);
+}
+
+export async function updateSource(
+  id: string,
+  updates: Partial<Pick<KnowledgeSource, "title" | "url" | "contentText" | "tags" | "collections" | "refreshedAt" | "refreshChanged">>
+): Promise<KnowledgeSource | null> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.sources.getById(id);
+  return audited(provider, "update", "source", before, () =>
+    provider.sources.update(id, {
+      ...updates,
+      tags: updates.tags && normalizeTags(updates.tags),
+      collections: updates.collections && normalizeCollections(updates.collections)
+    })
+  );
+}
+
+export async function deleteSource(id: string): Promise<boolean> {
+  const provider = await getWorkspaceStorage();
+  const before = await provider.sources.getById(id);
+  const deleted = await provider.sources.delete(id);
+  if (deleted) await recordAudit(provider, "delete", "source", before, null);
+  return deleted;
+}
+
+export async function listSourceChunks(sourceIds: string[]): Promise<SourceChunk[]> {
+  const provider = await getWorkspaceStorage();
+  return provider.sources.listChunks(sourceIds);
 }
 
+export async function replaceSourceChunks(sourceId: string, chunks: SourceChunk[]): Promise<void> {
+  const provider = await getWorkspaceStorage();
+  return provider.sources.replaceChunks(sourceId, chunks);
+}
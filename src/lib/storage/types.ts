@@ -1,4 +1,20 @@
-export type PostStatus = "DRAFT" | "PUBLISHED";
+export type PostStatus = "DRAFT" | "IN_REVIEW" | "SCHEDULED" | "PUBLISHED" | "ARCHIVED";
+
+export type UserRole = "viewer" | "writer" | "editor" | "admin";
+
+export type User = {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UserRecord = User & {
+  passwordHash: string;
+};
 
 export type SourceType = "UPLOAD" | "PASTE" | "ORG_URL" | "COMPETITOR_URL";
 
@@ -25,6 +41,20 @@ export type OrganizationProfile = {
   onboardingCompletedAt: string | null;
 };
 
+/**
+ * One organization's space in a shared deployment: its own profile, posts,
+ * knowledge sources, watched sources and articles. The public blog is served
+ * under /w/<slug>, and also at `hostname` when one is set. User accounts and
+ * AI settings are shared by every workspace.
+ */
+export type Workspace = {
+  id: string;
+  slug: string;
+  name: string;
+  hostname: string | null;
+  createdAt: string;
+};
+
 export type BlogPostMeta = {
   id: string;
   slug: string;
@@ -32,32 +62,159 @@ export type BlogPostMeta = {
   title: string;
   subtitle?: string;
   summary: string;
+  // For search engines only; readers browse by `tags`
   keywords: string[];
+  // Public tags, lowercase and hyphenated (see normalizePostTags)
+  tags: string[];
   seoTitle?: string;
   seoDescription?: string;
   createdAt: string;
   updatedAt: string;
   publishedAt?: string;
+  scheduledFor?: string;
+  createdBy?: string;
+  updatedBy?: string;
+  review?: PostReview;
+  generation?: GenerationRecord;
+  citations?: PostCitation[];
+  // Media library asset shown on the post, its blog card and in feeds
+  featuredImageId?: string;
 };
 
 export type BlogPost = BlogPostMeta & {
   contentMarkdown: string;
 };
 
+/**
+ * Links a `[^marker]` footnote in contentMarkdown to the knowledge source
+ * passage that supports it. Title and URL are copied from the source so the
+ * public page never has to read the knowledge base.
+ */
+export type PostCitation = {
+  marker: number;
+  sourceId: string;
+  sourceTitle: string;
+  sourceUrl?: string;
+  quote: string;
+};
+
+export type RevisionSource = "generate" | "improve" | "manual" | "restore";
+
+export type PostRevisionMeta = {
+  id: string;
+  postId: string;
+  source: RevisionSource;
+  author: string;
+  createdAt: string;
+  title: string;
+};
+
+export type PostRevision = PostRevisionMeta & {
+  subtitle?: string;
+  summary: string;
+  keywords: string[];
+  seoTitle?: string;
+  seoDescription?: string;
+  contentMarkdown: string;
+  // Unset on revisions saved before these were recorded; restoring one of those keeps the post's current ones
+  tags?: string[];
+  citations?: PostCitation[];
+  featuredImageId?: string;
+};
+
+export type ReviewState = "pending" | "changes_requested" | "approved";
+
+/**
+ * Latest review round for a post. A post is IN_REVIEW while `pending` or
+ * `approved`; requesting changes sends it back to DRAFT.
+ */
+export type PostReview = {
+  state: ReviewState;
+  requestedById: string;
+  requestedBy: string;
+  requestedAt: string;
+  // Unset means any editor can pick it up
+  reviewerId?: string;
+  reviewerName?: string;
+  decidedById?: string;
+  decidedBy?: string;
+  decidedAt?: string;
+  // The revision the approval covers; saving again makes the approval stale
+  approvedRevisionId?: string;
+};
+
+export type PostCommentAnchor = {
+  sectionId: string;
+  sectionTitle: string;
+  quote?: string;
+};
+
+export type PostComment = {
+  id: string;
+  postId: string;
+  authorId: string;
+  authorName: string;
+  body: string;
+  anchor: PostCommentAnchor;
+  resolved: boolean;
+  createdAt: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+};
+
 export type KnowledgeSourceMeta = {
   id: string;
   type: SourceType;
   title: string;
   url?: string;
   createdAt: string;
+  updatedAt?: string;
   wordCount: number;
   sha256: string;
+  // Free-form labels, stored lowercase
+  tags: string[];
+  // Named groups a source belongs to, e.g. "Elephant Program"
+  collections: string[];
+  // Last re-fetch of a URL source, and whether it changed the text
+  refreshedAt?: string;
+  refreshChanged?: boolean;
 };
 
 export type KnowledgeSource = KnowledgeSourceMeta & {
   contentText: string;
 };
 
+/**
+ * Retrieval unit of a knowledge source. Ids are `<sourceId>:<index>` so they
+ * stay stable when a source is re-chunked with the same text.
+ */
+export type SourceChunk = {
+  id: string;
+  sourceId: string;
+  index: number;
+  text: string;
+  embedding?: number[];
+  embeddingModel?: string;
+};
+
+export type SourceChunkRef = {
+  chunkId: string;
+  sourceId: string;
+  sourceTitle: string;
+  index: number;
+  score: number;
+};
+
+/** What a generated draft was built from */
+export type GenerationRecord = {
+  provider: string;
+  generatedAt: string;
+  retrieval: "embeddings" | "bm25";
+  chunks: SourceChunkRef[];
+  // Set when streaming stopped early and the draft was saved as far as it got
+  incomplete?: string;
+};
+
 // Sources Monitor types
 export type WatchedSourceType = "RSS" | "HTML";
 
@@ -85,3 +242,168 @@ export type FetchedArticle = {
   relevanceScore: number;
   savedToKnowledge: boolean;
 };
+
+/**
+ * One weighted rule for scoring fetched articles. It fires when the title or
+ * excerpt contains any of `terms` (a term of several words matches as a
+ * phrase) and none of `exclude`. With `near`, the term must also occur within
+ * `within` words of one of those.
+ */
+export type RelevanceRule = {
+  label?: string;
+  terms: string[];
+  exclude?: string[];
+  weight: number;
+  near?: string[];
+  within?: number;
+};
+
+/**
+ * How a workspace scores fetched articles, from 0 to 1: the weights of the
+ * rules that fire, capped at 1, times the source's boost, halved for every
+ * `recencyHalfLifeDays` of the article's age.
+ */
+export type RelevanceRules = {
+  rules: RelevanceRule[];
+  // Multiplier per watched source id; sources not listed count as 1
+  sourceBoosts: Record<string, number>;
+  recencyHalfLifeDays: number | null;
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+// Full-text search
+export type SearchKind = "post" | "source" | "article";
+
+export type SnippetPart = { text: string; match: boolean };
+
+export type SearchOptions = {
+  kinds?: SearchKind[];
+  // Posts only, and only published ones, for the public blog
+  publishedOnly?: boolean;
+  limit?: number;
+};
+
+/**
+ * One ranked result. Scores order hits within a single search; they aren't
+ * comparable between searches or storage providers.
+ */
+export type SearchHit = {
+  kind: SearchKind;
+  id: string;
+  title: string;
+  snippet: SnippetPart[];
+  score: number;
+  date: string;
+  // Posts
+  slug?: string;
+  status?: PostStatus;
+  // Sources fetched from a URL, and articles
+  url?: string;
+};
+
+// Audit log
+export type AuditEntityType = "post" | "source" | "watched_source" | "org" | "workspace" | "media";
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "publish"
+  | "unpublish"
+  | "archive"
+  | "schedule"
+  | "unschedule"
+  | "review"
+  | "delete"
+  | "import";
+
+/** One changed field, with both values shortened for display */
+export type AuditChange = {
+  field: string;
+  before: string | null;
+  after: string | null;
+};
+
+export type AuditEntry = {
+  id: string;
+  at: string;
+  // Null for cron jobs and scripts
+  actorId: string | null;
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  // The title (or name) at the time, so entries stay readable after a delete
+  entityTitle: string;
+  changes: AuditChange[];
+};
+
+export type AuditFilter = {
+  actorId?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  // ISO timestamps, inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+// AI provider settings
+export type AiProviderKind = "azure-openai" | "openai" | "openai-compatible" | "anthropic";
+
+export type AiTask = "generate" | "suggest" | "improve" | "extract-org" | "discover" | "fact-check";
+
+/**
+ * One entry in the AI failover chain. API keys are never stored: `apiKeyEnv`
+ * names the environment variable that holds the key.
+ */
+export type AiProviderConfig = {
+  id: string;
+  kind: AiProviderKind;
+  label: string;
+  enabled: boolean;
+  baseUrl?: string;
+  model?: string;
+  apiKeyEnv?: string;
+  taskModels?: Partial<Record<AiTask, string>>;
+  // For knowledge base retrieval; the first usable provider that has one embeds
+  embeddingModel?: string;
+};
+
+/** Providers are tried in array order */
+export type AiSettings = {
+  providers: AiProviderConfig[];
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+// Media library
+/** One stored file of a media asset; `file` is its name within the asset */
+export type MediaFile = {
+  file: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  bytes: number;
+};
+
+/**
+ * An uploaded image and its resized renditions. The upload is kept as sent so
+ * renditions can be made again; only the renditions are served, because the
+ * upload may carry camera metadata such as where it was taken.
+ */
+export type MediaAsset = {
+  id: string;
+  filename: string;
+  alt: string;
+  caption?: string;
+  credit?: string;
+  license?: string;
+  original: MediaFile;
+  // WebP, narrowest first
+  renditions: MediaFile[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+};
@@ -0,0 +1,64 @@
+/**
+ * Users storage - public API
+ *
+ * This module delegates to the configured storage provider.
+ */
+
+import { getStorageProvider, initStorage } from "./factory";
+import type { User, UserRecord, UserRole } from "./types";
+
+export async function listUsers(): Promise<User[]> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.list();
+}
+
+export async function countUsers(): Promise<number> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.count();
+}
+
+export async function getUserById(id: string): Promise<User | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.getById(id);
+}
+
+export async function getUserRecordById(id: string): Promise<UserRecord | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.getRecordById(id);
+}
+
+export async function getUserByEmail(email: string): Promise<UserRecord | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.getByEmail(email);
+}
+
+export async function createUser(input: {
+  email: string;
+  name: string;
+  role: UserRole;
+  passwordHash: string;
+}): Promise<User> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.create(input);
+}
+
+export async function updateUser(
+  id: string,
+  updates: Partial<Pick<UserRecord, "name" | "role" | "passwordHash" | "disabled">>
+): Promise<User | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.update(id, updates);
+}
+
+export async function deleteUser(id: string): Promise<boolean> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.users.delete(id);
+}
@@ -1,21 +1,21 @@
 /**
  * Watched sources storage - public API
  *
- * This module delegates to the configured storage provider.
+ * This module delegates to the configured storage provider, scoped to the
+ * current workspace (see ./currentWorkspace).
  */
 
-import { getStorageProvider, initStorage } from "./factory";
+import { audited, recordAudit } from "./audit";
+import { getWorkspaceStorage } from "./currentWorkspace";
 import type { WatchedSource, WatchedSourceType } from "./types";
 
 export async function listWatchedSources(): Promise<WatchedSource[]> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.watchedSources.list();
 }
 
 export async function getWatchedSourceById(id: string): Promise<WatchedSource | null> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.watchedSources.getById(id);
 }
 
@@ -25,28 +25,30 @@ export async function addWatchedSource(args: {
   type: WatchedSourceType;
   fetchIntervalHours?: number;
 }): Promise<WatchedSource> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.watchedSources.add(args);
+  const provider = await getWorkspaceStorage();
+  const source = await provider.watchedSources.add(args);
+  await recordAudit(provider, "create", "watched_source", null, source);
+  return source;
 }
 
 export async function updateWatchedSource(
   id: string,
   updates: Partial<Pick<WatchedSource, "name" | "enabled" | "fetchIntervalHours" | "lastFetchedAt">>
 ): Promise<WatchedSource | null> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.watchedSources.update(id, updates);
+  const provider = await getWorkspaceStorage();
+  const before = await provider.watchedSources.getById(id);
+  return audited(provider, "update", "watched_source", before, () => provider.watchedSources.update(id, updates));
 }
 
 export async function deleteWatchedSource(id: string): Promise<boolean> {
-  await initStorage();
-  const provider = getStorageProvider();
-  return provider.watchedSources.delete(id);
+  const provider = await getWorkspaceStorage();
+  const before = await provider.watchedSources.getById(id);
+  const deleted = await provider.watchedSources.delete(id);
+  if (deleted) await recordAudit(provider, "delete", "watched_source", before, null);
+  return deleted;
 }
 
 export async function getSourcesDueForFetch(): Promise<WatchedSource[]> {
-  await initStorage();
-  const provider = getStorageProvider();
+  const provider = await getWorkspaceStorage();
   return provider.watchedSources.getDueForFetch();
 }
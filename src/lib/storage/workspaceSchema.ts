@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// Holds everything stored before workspaces existed; it cannot be removed
+export const DEFAULT_WORKSPACE_ID = "00000000-0000-0000-0000-000000000000";
+export const DEFAULT_WORKSPACE_SLUG = "default";
+
+export const WorkspaceSlugSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(2)
+  .max(60)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Use lowercase letters, digits and single hyphens");
+
+/** Accepts a bare hostname or a URL and keeps only the lowercase host (with port, if any) */
+export function normalizeHostname(input: string): string {
+  const trimmed = input.trim().toLowerCase();
+  if (!trimmed) return "";
+  try {
+    return new URL(trimmed.includes("://") ? trimmed : `http://${trimmed}`).host;
+  } catch {
+    return trimmed;
+  }
+}
+
+export const WorkspaceHostnameSchema = z
+  .string()
+  .max(253)
+  .transform(normalizeHostname)
+  .refine((h) => h === "" || /^[a-z0-9.-]+(?::\d+)?$/.test(h), "Not a valid hostname")
+  .transform((h) => h || null);
+
+export const WorkspaceInputSchema = z.object({
+  slug: WorkspaceSlugSchema,
+  name: z.string().trim().min(1).max(120),
+  hostname: WorkspaceHostnameSchema.nullable().default(null)
+});
+
+// The workspace picked in the dashboard, by id
+export const WORKSPACE_COOKIE_NAME = "wb_workspace";
+
+// Set by the middleware on public pages: the /w/<slug> prefix they were
+// requested under, or "/" when the workspace goes by the Host header
+export const PUBLIC_SITE_HEADER = "x-wb-site";
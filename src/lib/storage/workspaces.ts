@@ -0,0 +1,45 @@
+/**
+ * Workspaces storage - public API
+ *
+ * This module delegates to the configured storage provider. Workspaces
+ * themselves are shared; see ./currentWorkspace for the one in use.
+ */
+
+import { getStorageProvider, initStorage } from "./factory";
+import { getCurrentWorkspaceId } from "./currentWorkspace";
+import type { Workspace } from "./types";
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.workspaces.list();
+}
+
+export async function getWorkspaceById(id: string): Promise<Workspace | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.workspaces.getById(id);
+}
+
+export async function getCurrentWorkspace(): Promise<Workspace | null> {
+  return getWorkspaceById(await getCurrentWorkspaceId());
+}
+
+export async function createWorkspace(input: {
+  slug: string;
+  name: string;
+  hostname: string | null;
+}): Promise<Workspace> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.workspaces.create(input);
+}
+
+export async function updateWorkspace(
+  id: string,
+  updates: Partial<Pick<Workspace, "slug" | "name" | "hostname">>
+): Promise<Workspace | null> {
+  await initStorage();
+  const provider = getStorageProvider();
+  return provider.workspaces.update(id, updates);
+}
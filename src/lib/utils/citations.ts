@@ -0,0 +1,84 @@
+import type { KnowledgeSource, PostCitation } from "@/lib/storage/types";
+
+const MARKER_RE = /\[\^(\d+)\]/g;
+const DEFINITION_LINE_RE = /^\[\^[^\]]+\]:.*(?:\n|$)/gm;
+
+function escapeInline(text: string) {
+  return text.replace(/\s+/g, " ").trim().replace(/[\\`*_[\]<>]/g, "\\$&");
+}
+
+/**
+ * Reconcile a model's footnote markers with its citations array: drop
+ * citations that point at unknown sources, remove markers nobody cites and
+ * any footnote definitions the model wrote itself, then renumber markers
+ * 1..n in reading order.
+ */
+export function normalizeCitations(
+  contentMarkdown: string,
+  citations: Array<{ marker: number; sourceId: string; quote: string }>,
+  sources: Array<Pick<KnowledgeSource, "id" | "title" | "url">>
+): { contentMarkdown: string; citations: PostCitation[] } {
+  const sourcesById = new Map(sources.map((s) => [s.id, s]));
+  const byMarker = new Map<number, { sourceId: string; quote: string }>();
+  for (const c of citations) {
+    if (!sourcesById.has(c.sourceId) || !c.quote.trim() || byMarker.has(c.marker)) continue;
+    byMarker.set(c.marker, c);
+  }
+
+  const renumbered = new Map<number, number>();
+  const content = contentMarkdown
+    .replace(DEFINITION_LINE_RE, "")
+    .replace(MARKER_RE, (_match, raw: string) => {
+      const marker = Number(raw);
+      if (!byMarker.has(marker)) return "";
+      if (!renumbered.has(marker)) renumbered.set(marker, renumbered.size + 1);
+      return `[^${renumbered.get(marker)}]`;
+    })
+    .trimEnd();
+
+  const result: PostCitation[] = [];
+  for (const [original, marker] of renumbered) {
+    const c = byMarker.get(original)!;
+    const source = sourcesById.get(c.sourceId)!;
+    result.push({
+      marker,
+      sourceId: source.id,
+      sourceTitle: source.title,
+      sourceUrl: source.url,
+      quote: c.quote.trim()
+    });
+  }
+
+  return { contentMarkdown: content, citations: result };
+}
+
+/**
+ * Append GFM footnote definitions for the post's citations so markdown
+ * renderers show numbered footnotes and a references list. Markers with
+ * neither a citation nor a hand-written definition are removed rather than
+ * shown as raw `[^n]` text.
+ */
+export function withCitationFootnotes(contentMarkdown: string, citations: PostCitation[] = []) {
+  const defined = new Set(Array.from(contentMarkdown.matchAll(/^\[\^(\d+)\]:/gm), (m) => Number(m[1])));
+  const cited = citations.filter((c) => !defined.has(c.marker));
+  const byMarker = new Map(cited.map((c) => [c.marker, c]));
+
+  const body = contentMarkdown.replace(MARKER_RE, (match, raw: string, offset: number, whole: string) => {
+    const marker = Number(raw);
+    // Leave definition lines themselves alone
+    if (whole[offset + match.length] === ":") return match;
+    return byMarker.has(marker) || defined.has(marker) ? match : "";
+  });
+  if (cited.length === 0) return body;
+
+  const definitions = cited
+    .slice()
+    .sort((a, b) => a.marker - b.marker)
+    .map((c) => {
+      const title = escapeInline(c.sourceTitle);
+      const source = c.sourceUrl ? `[${title}](${c.sourceUrl})` : title;
+      return `[^${c.marker}]: “${escapeInline(c.quote)}” — ${source}`;
+    });
+
+  return `${body.trimEnd()}\n\n${definitions.join("\n")}\n`;
+}
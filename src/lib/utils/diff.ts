@@ -0,0 +1,88 @@
+export type DiffSegment = {
+  type: "equal" | "insert" | "delete";
+  text: string;
+};
+
+// Beyond this many LCS cells the changed middle is reported as one delete + one insert.
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string) {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment["type"], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+function diffMiddle(a: string[], b: string[], segments: DiffSegment[]) {
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    pushSegment(segments, "delete", a.join(""));
+    pushSegment(segments, "insert", b.join(""));
+    return;
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i -= 1) {
+    for (let j = m - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushSegment(segments, "delete", a[i]);
+      i += 1;
+    } else {
+      pushSegment(segments, "insert", b[j]);
+      j += 1;
+    }
+  }
+  pushSegment(segments, "delete", a.slice(i).join(""));
+  pushSegment(segments, "insert", b.slice(j).join(""));
+}
+
+/**
+ * Word-level diff of two texts. Whitespace runs are kept as their own tokens
+ * so joining every segment's text reproduces `before` (equal + delete) and
+ * `after` (equal + insert) exactly.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start += 1;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA -= 1;
+    endB -= 1;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, "equal", a.slice(0, start).join(""));
+  diffMiddle(a.slice(start, endA), b.slice(start, endB), segments);
+  pushSegment(segments, "equal", a.slice(endA).join(""));
+  return segments;
+}
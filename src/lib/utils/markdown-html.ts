@@ -0,0 +1,68 @@
+import { Fragment, isValidElement, type ReactNode } from "react";
+import ReactMarkdown, { type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import type { PostCitation } from "@/lib/storage/types";
+import { withCitationFootnotes } from "./citations";
+
+/** How post Markdown is read everywhere it's shown: GFM, with citations as footnotes under "References" */
+export const POST_MARKDOWN_OPTIONS = {
+  remarkPlugins: [remarkGfm],
+  remarkRehypeOptions: { footnoteLabel: "References", footnoteLabelProperties: {} }
+} satisfies Options;
+
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "input"]);
+const ATTRIBUTE_NAMES: Record<string, string> = { className: "class", htmlFor: "for" };
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+
+function escapeHtml(text: string) {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;").replaceAll('"', "&quot;");
+}
+
+function styleText(style: Record<string, unknown>) {
+  return Object.entries(style)
+    .map(([property, value]) => `${property.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}:${value}`)
+    .join(";");
+}
+
+function attributes(props: Record<string, unknown>, baseUrl: string) {
+  let html = "";
+  for (const [name, value] of Object.entries(props)) {
+    if (name === "children" || name === "node" || value === false || value === null || value === undefined) continue;
+    let text =
+      value === true ? "" : typeof value === "object" ? styleText(value as Record<string, unknown>) : String(value);
+    // Feed readers show posts away from the site, so relative links are made absolute
+    if (URL_ATTRIBUTES.has(name) && !text.startsWith("#")) text = new URL(text, `${baseUrl}/`).href;
+    html += ` ${ATTRIBUTE_NAMES[name] ?? name}="${escapeHtml(text)}"`;
+  }
+  return html;
+}
+
+// Only what react-markdown produces: intrinsic elements, fragments and text
+function toHtml(node: ReactNode, baseUrl: string): string {
+  if (node === null || node === undefined || typeof node === "boolean") return "";
+  if (typeof node === "string" || typeof node === "number") return escapeHtml(String(node));
+  if (Array.isArray(node)) return node.map((child) => toHtml(child, baseUrl)).join("");
+  if (!isValidElement<Record<string, unknown>>(node)) return "";
+
+  const children = toHtml(node.props.children as ReactNode, baseUrl);
+  if (node.type === Fragment) return children;
+  if (typeof node.type !== "string") return "";
+  const open = `<${node.type}${attributes(node.props, baseUrl)}>`;
+  return VOID_ELEMENTS.has(node.type) ? open : `${open}${children}</${node.type}>`;
+}
+
+/**
+ * A post's body as an HTML string, as the post page shows it, for places
+ * React doesn't render such as feeds. Relative URLs are resolved against
+ * `baseUrl`; raw HTML in the Markdown is left out, as on the page.
+ */
+export function renderPostHtml(
+  post: { contentMarkdown: string; citations?: PostCitation[] },
+  baseUrl: string
+): string {
+  const tree = ReactMarkdown({
+    ...POST_MARKDOWN_OPTIONS,
+    children: withCitationFootnotes(post.contentMarkdown, post.citations)
+  });
+  return toHtml(tree, baseUrl);
+}
@@ -0,0 +1,36 @@
+export const BLOG_PAGE_SIZE = 10;
+
+export type Page<T> = {
+  items: T[];
+  // 1-based
+  page: number;
+  pageCount: number;
+};
+
+/** Reads `?page=`; anything but a whole number from 1 up counts as page 1 */
+export function parsePageParam(value: string | string[] | undefined) {
+  const page = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(page) && page >= 1 ? page : 1;
+}
+
+/** One page of `items`; a page past the end comes back empty, for the caller to 404 */
+export function paginate<T>(items: T[], page: number, pageSize = BLOG_PAGE_SIZE): Page<T> {
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageCount: Math.max(1, Math.ceil(items.length / pageSize))
+  };
+}
+
+/** The URL of page `page` of a listing at `path`; page 1 has no parameter */
+export function pageHref(path: string, page: number) {
+  return page > 1 ? `${path}?page=${page}` : path;
+}
+
+/** rel=prev/next links for page metadata; `url` is the listing's absolute URL */
+export function paginationLinks(url: string, page: number, pageCount: number) {
+  return {
+    previous: page > 1 ? pageHref(url, page - 1) : null,
+    next: page < pageCount ? pageHref(url, page + 1) : null
+  };
+}
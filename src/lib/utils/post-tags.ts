@@ -0,0 +1,45 @@
+import type { BlogPostMeta } from "@/lib/storage/types";
+
+const MAX_TAG_LENGTH = 40;
+
+/**
+ * A post tag as it's stored and appears in URLs: lowercase words joined by
+ * hyphens, so "African Elephants" and "african-elephants" are the same tag.
+ */
+export function normalizePostTag(tag: string) {
+  return tag
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_TAG_LENGTH)
+    .replace(/-+$/, "");
+}
+
+/** Normalized, without empties or duplicates, in the order given */
+export function normalizePostTags(tags: string[]) {
+  return Array.from(new Set(tags.map(normalizePostTag).filter(Boolean)));
+}
+
+/** Every tag on the given posts with how many posts carry it, most used first */
+export function countPostTags(posts: Array<Pick<BlogPostMeta, "tags">>) {
+  const counts = new Map<string, number>();
+  for (const tag of posts.flatMap((p) => p.tags)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+/** A tag's archive page under `base` (a site's base path or base URL) */
+export function tagPath(base: string, tag: string) {
+  return `${base}/blog/tag/${encodeURIComponent(tag)}`;
+}
+
+/** The tag named by a `[tag]` route segment, which may still be percent-encoded */
+export function tagFromParam(param: string) {
+  try {
+    return normalizePostTag(decodeURIComponent(param));
+  } catch {
+    return normalizePostTag(param);
+  }
+}
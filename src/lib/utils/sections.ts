@@ -0,0 +1,44 @@
+import { slugify } from "@/lib/utils/slug";
+
+export type MarkdownSection = {
+  id: string;
+  title: string;
+  body: string;
+};
+
+export const INTRO_SECTION_ID = "intro";
+
+/**
+ * Split markdown into heading-delimited sections. Text before the first
+ * heading becomes the "Introduction" section. Ids are heading slugs, with a
+ * numeric suffix for repeated headings, so they stay stable across edits
+ * that don't rename the heading.
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const used = new Set<string>([INTRO_SECTION_ID]);
+  let current: MarkdownSection = { id: INTRO_SECTION_ID, title: "Introduction", body: "" };
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const heading = inFence ? null : /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+    if (!heading) {
+      current.body += `${line}\n`;
+      continue;
+    }
+
+    if (current.id !== INTRO_SECTION_ID || current.body.trim()) sections.push(current);
+
+    const base = slugify(heading[1]);
+    let id = base;
+    let i = 2;
+    while (used.has(id)) id = `${base}-${i++}`;
+    used.add(id);
+    current = { id, title: heading[1], body: "" };
+  }
+
+  if (current.id !== INTRO_SECTION_ID || current.body.trim()) sections.push(current);
+  return sections;
+}
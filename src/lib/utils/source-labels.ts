@@ -0,0 +1,54 @@
+import type { KnowledgeSourceMeta } from "@/lib/storage/types";
+
+/**
+ * Picks knowledge sources by label. A source matches when it is in the
+ * collection (if one is given) and has at least one of the tags (if any are
+ * given). Collection names compare case-insensitively.
+ */
+export type SourceFilter = {
+  collection?: string;
+  tags?: string[];
+};
+
+function clean(label: string) {
+  return label.trim().replace(/\s+/g, " ").slice(0, 60);
+}
+
+/** Lowercase, trimmed and without duplicates */
+export function normalizeTags(tags: string[]) {
+  return Array.from(new Set(tags.map((t) => clean(t).toLowerCase()).filter(Boolean)));
+}
+
+/** Trimmed, keeping the first spelling of names that differ only in case */
+export function normalizeCollections(names: string[]) {
+  const seen = new Map<string, string>();
+  for (const name of names.map(clean).filter(Boolean)) {
+    if (!seen.has(name.toLowerCase())) seen.set(name.toLowerCase(), name);
+  }
+  return Array.from(seen.values());
+}
+
+export function hasSourceFilter(filter: SourceFilter) {
+  return Boolean(filter.collection?.trim() || normalizeTags(filter.tags ?? []).length);
+}
+
+export function matchesSourceFilter(
+  source: Pick<KnowledgeSourceMeta, "tags" | "collections">,
+  filter: SourceFilter
+) {
+  const collection = filter.collection?.trim().toLowerCase();
+  if (collection && !source.collections.some((c) => c.toLowerCase() === collection)) return false;
+
+  const tags = normalizeTags(filter.tags ?? []);
+  if (tags.length && !source.tags.some((t) => tags.includes(t))) return false;
+
+  return true;
+}
+
+/** Every tag and collection in use, sorted, for filter menus */
+export function sourceLabels(sources: Array<Pick<KnowledgeSourceMeta, "tags" | "collections">>) {
+  return {
+    tags: normalizeTags(sources.flatMap((s) => s.tags)).sort(),
+    collections: normalizeCollections(sources.flatMap((s) => s.collections)).sort((a, b) => a.localeCompare(b))
+  };
+}
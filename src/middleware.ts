@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { PUBLIC_SITE_HEADER } from "@/lib/storage/workspaceSchema";
+
+// Shared by every workspace; everything else is a workspace's public site
+const APP_PREFIXES = ["/dashboard", "/api", "/login", "/logout", "/onboarding"];
+
+function isAppPath(pathname: string) {
+  return APP_PREFIXES.some((p) => pathname === p || pathname.startsWith(`${p}/`));
+}
+
+/**
+ * Tells public pages which site they belong to (see PUBLIC_SITE_HEADER):
+ * /w/<slug>/... is served from /... with the prefix in the header, and
+ * other public paths go by the Host header. Requests can't set it themselves.
+ */
+export function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(PUBLIC_SITE_HEADER);
+  const { pathname } = request.nextUrl;
+
+  const prefixed = pathname.match(/^\/w\/([^/]+)(\/.*)?$/);
+  if (prefixed) {
+    const rest = prefixed[2] ?? "/";
+    // No app pages under /w/<slug>; let them 404
+    if (isAppPath(rest)) return NextResponse.next({ request: { headers } });
+
+    headers.set(PUBLIC_SITE_HEADER, `/w/${prefixed[1]}`);
+    const url = request.nextUrl.clone();
+    url.pathname = rest;
+    return NextResponse.rewrite(url, { request: { headers } });
+  }
+
+  if (!isAppPath(pathname)) headers.set(PUBLIC_SITE_HEADER, "/");
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"]
+};